@@ -51,7 +51,8 @@ OPTIONS(
 -- ─── TABLE 3: question_history ────────────────────────────────────────────────
 -- Tracks every question generated and the user's answer for analytics/insights.
 -- session_id links to exam_sessions for grouped simulation tracking.
--- user_rating + feedback_notes enable RLHF quality monitoring.
+-- user_rating + feedback_notes enable RLHF quality monitoring;
+-- feedback_categories + explanation_rating make the reports aggregatable.
 
 CREATE TABLE IF NOT EXISTS `br-ventasbrasil-cld-01.edtech_platform.question_history`
 (
@@ -62,12 +63,23 @@ CREATE TABLE IF NOT EXISTS `br-ventasbrasil-cld-01.edtech_platform.question_hist
   topic               STRING     NOT NULL  OPTIONS(description="Topic the question was generated about"),
   difficulty          STRING               OPTIONS(description="easy|medium|hard"),
   generated_question  JSON                 OPTIONS(description="Full JSON object returned by Gemini"),
-  user_answer         STRING               OPTIONS(description="A|B|C|D letter chosen by user"),
-  correct_letter      STRING               OPTIONS(description="Correct answer letter from AI response"),
-  is_correct          BOOL                 OPTIONS(description="TRUE if user_answer == correct_letter"),
+  question_type       STRING               OPTIONS(description="single|multiple|free_response|cli_challenge — multiple = \"choose N\" item, graded all-or-nothing"),
+  user_answer         STRING               OPTIONS(description="Letter chosen by user (A–E), sorted comma list for multiple-select (\"A,C\"), the learner's text for free_response, or the fixing command for cli_challenge"),
+  correct_letter      STRING               OPTIONS(description="Correct answer as served (after option shuffling), same format as user_answer"),
+  model_correct_letter STRING              OPTIONS(description="Letter the model keyed before server-side shuffling (lib/shuffle.ts)"),
+  is_correct          BOOL                 OPTIONS(description="TRUE if user_answer == correct_letter (free_response: score >= FREE_RESPONSE_PASS_SCORE; cli_challenge: solved)"),
+  score               FLOAT64              OPTIONS(description="free_response only: 0–100 partial credit from the rubric (lib/freeResponse.ts)"),
+  grading             JSON                 OPTIONS(description="free_response only: grader_model, covered_points, missed_points, feedback_pt"),
   user_rating         INT64                OPTIONS(description="RLHF feedback: 1=thumbs_up, -1=thumbs_down, 0=neutral"),
   feedback_notes      STRING               OPTIONS(description="Free-text from user: e.g. 'product discontinued', 'question ambiguous'"),
+  feedback_categories ARRAY<STRING>        OPTIONS(description="Report categories (lib/feedback.ts): wrong_key|ambiguous|outdated_service|typo|too_easy|off_topic"),
+  explanation_rating  INT64                OPTIONS(description="Rating of explanation_pt alone: 1=helpful, -1=not helpful, 0=neutral"),
+  rated_at            TIMESTAMP            OPTIONS(description="When user_rating was last set — a thumbs-down after a moderation decision reopens the question"),
   gemini_model_used   STRING               OPTIONS(description="Which Gemini model generated this question: gemini-2.5-pro, etc."),
+  verification        JSON                 OPTIONS(description="Answer-verification judge verdict (lib/verifier.ts): status, judge_letter, leaks_answer…"),
+  case_id             STRING               OPTIONS(description="FK → case_studies.id — NULL for standalone questions"),
+  prompt_version      STRING               OPTIONS(description="Prompt template version that generated the question (lib/prompts), e.g. question-v1 — NULL for other prompts"),
+  library_id          STRING               OPTIONS(description="FK → question_library.id when the question was served from the curated library"),
   timestamp           TIMESTAMP  NOT NULL  OPTIONS(description="When the question was answered")
 )
 PARTITION BY DATE(timestamp)
@@ -77,6 +89,282 @@ OPTIONS(
   require_partition_filter=false
 );
 
+-- ─── TABLE 4: served_questions ────────────────────────────────────────────────
+-- Server-side copy of every question handed to a learner, including the answer
+-- key that is withheld from the browser. The client only gets a signed token
+-- (id + HMAC) and /api/save-result grades against this row.
+
+CREATE TABLE IF NOT EXISTS `br-ventasbrasil-cld-01.edtech_platform.served_questions`
+(
+  id                  STRING     NOT NULL  OPTIONS(description="UUID embedded in the signed question token"),
+  user_email          STRING     NOT NULL  OPTIONS(description="Learner the question was served to — tokens are bound to it"),
+  exam_name           STRING     NOT NULL  OPTIONS(description="Exam the question belongs to"),
+  topic               STRING     NOT NULL  OPTIONS(description="Topic name"),
+  difficulty          STRING               OPTIONS(description="easy|medium|hard"),
+  generated_question  JSON       NOT NULL  OPTIONS(description="Full question JSON including correct_letter and explanation_pt"),
+  correct_letter      STRING     NOT NULL  OPTIONS(description="Answer key used for grading (after option shuffling) — empty for free_response"),
+  model_correct_letter STRING              OPTIONS(description="Letter the model keyed before server-side shuffling"),
+  gemini_model_used   STRING               OPTIONS(description="Model that generated the question"),
+  content_hash        STRING               OPTIONS(description="sha256 of normalised scenario + options (never-repeat)"),
+  content_embedding   ARRAY<FLOAT64>       OPTIONS(description="Embedding of scenario + options (never-repeat, near-duplicates)"),
+  verification        JSON                 OPTIONS(description="Answer-verification judge verdict, copied to question_history"),
+  case_id             STRING               OPTIONS(description="FK → case_studies.id, copied to question_history"),
+  prompt_version      STRING               OPTIONS(description="Prompt template version (lib/prompts), copied to question_history"),
+  library_id          STRING               OPTIONS(description="FK → question_library.id, copied to question_history"),
+  served_at           TIMESTAMP  NOT NULL  OPTIONS(description="When the question was handed to the learner"),
+  answered_at         TIMESTAMP            OPTIONS(description="Set by /api/save-result — a question can only be graded once")
+)
+PARTITION BY DATE(served_at)
+CLUSTER BY user_email
+OPTIONS(
+  description="Answer keys for served questions — grading happens server-side against this table",
+  require_partition_filter=false
+);
+
+-- ─── TABLE 5: question_bank ───────────────────────────────────────────────────
+-- Pre-generated questions waiting to be served, shared by every instance so a
+-- cold start or deploy does not discard them. /api/generate-question claims a
+-- row with a conditional UPDATE (claim_id IS NULL) — BigQuery serialises DML on
+-- one table, so a row is served at most once. Claimed and stale rows are
+-- deleted periodically by the bank refiller.
+
+CREATE TABLE IF NOT EXISTS `br-ventasbrasil-cld-01.edtech_platform.question_bank`
+(
+  id                  STRING     NOT NULL  OPTIONS(description="UUID"),
+  bank_key            STRING     NOT NULL  OPTIONS(description="exam_id:topic_id:difficulty"),
+  generated_question  JSON       NOT NULL  OPTIONS(description="Full question JSON including the answer key"),
+  gemini_model_used   STRING               OPTIONS(description="Model that generated the question"),
+  generated_at        TIMESTAMP  NOT NULL  OPTIONS(description="Questions older than 4h are considered stale"),
+  content_hash        STRING               OPTIONS(description="sha256 of normalised scenario + options"),
+  content_embedding   ARRAY<FLOAT64>       OPTIONS(description="Embedding of scenario + options"),
+  verification        JSON                 OPTIONS(description="Answer-verification judge verdict"),
+  prompt_version      STRING               OPTIONS(description="Prompt template version the question was generated with"),
+  claim_id            STRING               OPTIONS(description="Set atomically when the question is popped"),
+  claimed_at          TIMESTAMP            OPTIONS(description="When the question was popped")
+)
+CLUSTER BY bank_key
+OPTIONS(
+  description="Durable question bank — survives instance restarts, atomic pop across instances"
+);
+
+-- ─── TABLE 6: case_studies ────────────────────────────────────────────────────
+-- One generated case (fictional company + requirements) shared by several
+-- served questions. served_questions.case_id / question_history.case_id point
+-- here so analytics can report case-study performance separately.
+
+CREATE TABLE IF NOT EXISTS `br-ventasbrasil-cld-01.edtech_platform.case_studies`
+(
+  id                  STRING     NOT NULL  OPTIONS(description="UUID"),
+  user_email          STRING     NOT NULL  OPTIONS(description="Learner the case was generated for"),
+  exam_name           STRING     NOT NULL  OPTIONS(description="Exam the case belongs to"),
+  title               STRING     NOT NULL  OPTIONS(description="Case title, e.g. the fictional company name"),
+  scenario_en         STRING     NOT NULL  OPTIONS(description="Shared scenario shown next to every question of the case"),
+  difficulty          STRING               OPTIONS(description="easy|medium|hard"),
+  gemini_model_used   STRING               OPTIONS(description="Model that generated the case"),
+  question_count      INT64                OPTIONS(description="Questions served for this case"),
+  created_at          TIMESTAMP  NOT NULL  OPTIONS(description="When the case was generated")
+)
+PARTITION BY DATE(created_at)
+CLUSTER BY user_email, exam_name
+OPTIONS(
+  description="Case-study scenarios shared by linked questions"
+);
+
+-- ─── TABLE 7: cli_attempts ───────────────────────────────────────────────────
+-- One row per interactive CLI troubleshooting challenge (lib/cliChallenge.ts).
+-- id is the served_questions.id of the challenge; the transcript grows with
+-- every command. Finished attempts also get a question_history row.
+
+CREATE TABLE IF NOT EXISTS `br-ventasbrasil-cld-01.edtech_platform.cli_attempts`
+(
+  id                  STRING     NOT NULL  OPTIONS(description="= served_questions.id of the challenge"),
+  user_email          STRING     NOT NULL  OPTIONS(description="Learner attempting the challenge"),
+  exam_name           STRING     NOT NULL  OPTIONS(description="Exam the challenge belongs to"),
+  topic               STRING     NOT NULL  OPTIONS(description="Topic the challenge was generated about"),
+  difficulty          STRING               OPTIONS(description="easy|medium|hard"),
+  title               STRING               OPTIONS(description="Short incident title"),
+  status              STRING     NOT NULL  OPTIONS(description="active|solved|exhausted|abandoned"),
+  transcript          JSON                 OPTIONS(description="Array of { command, output, source: scripted|simulated|rejected, fixes, at }"),
+  commands_used       INT64                OPTIONS(description="Commands counted towards CLI_CHALLENGE_MAX_COMMANDS (rejected ones excluded)"),
+  history_id          STRING               OPTIONS(description="FK → question_history.id once the attempt finished"),
+  started_at          TIMESTAMP  NOT NULL  OPTIONS(description="When the challenge was served"),
+  finished_at         TIMESTAMP            OPTIONS(description="When the attempt left the active status"),
+  version             INT64                OPTIONS(description="Incremented by every update; writes compare it to reject concurrent commands")
+)
+PARTITION BY DATE(started_at)
+CLUSTER BY user_email, exam_name
+OPTIONS(
+  description="Interactive CLI troubleshooting attempts with full transcripts"
+);
+
+-- ─── TABLE 8: question_library ───────────────────────────────────────────────
+-- Curated questions kept permanently (lib/questionLibrary.ts). Admins promote
+-- thumbs-upped questions from question_history, edit and tag them; approved
+-- ones are mixed into /api/generate-question (ExamConfig.curatedShare).
+
+CREATE TABLE IF NOT EXISTS `br-ventasbrasil-cld-01.edtech_platform.question_library`
+(
+  id                  STRING     NOT NULL  OPTIONS(description="UUID v4"),
+  exam_name           STRING     NOT NULL  OPTIONS(description="Exam id from config/exams.ts"),
+  topic_id            STRING     NOT NULL  OPTIONS(description="ExamConfig topic id"),
+  difficulty          STRING     NOT NULL  OPTIONS(description="easy|medium|hard"),
+  question            JSON       NOT NULL  OPTIONS(description="GeneratedQuestion payload, answer key included"),
+  tags                ARRAY<STRING>        OPTIONS(description="Free-form admin tags"),
+  status              STRING     NOT NULL  OPTIONS(description="draft|approved|retired — only approved questions are served"),
+  source              STRING     NOT NULL  OPTIONS(description="promoted|imported|manual"),
+  source_ref          STRING               OPTIONS(description="question_history.id (promoted) or file name (imported)"),
+  gemini_model_used   STRING               OPTIONS(description="Model that originally generated the question, if any"),
+  prompt_version      STRING               OPTIONS(description="Prompt template version it was generated with, if any"),
+  content_hash        STRING               OPTIONS(description="Normalised SHA-256 of scenario + options (lib/dedup.ts)"),
+  content_embedding   ARRAY<FLOAT64>       OPTIONS(description="Embedding of scenario + options (never-repeat)"),
+  created_by          STRING     NOT NULL  OPTIONS(description="Admin who added the question"),
+  created_at          TIMESTAMP  NOT NULL,
+  updated_by          STRING     NOT NULL  OPTIONS(description="Admin who last edited the question"),
+  updated_at          TIMESTAMP  NOT NULL
+)
+CLUSTER BY exam_name, topic_id, status
+OPTIONS(
+  description="Curated question library served alongside freshly generated questions"
+);
+
+-- ─── TABLE 9: moderation_actions ─────────────────────────────────────────────
+-- One row per moderator decision on a reported question (lib/moderation.ts).
+-- A question's thumbs-down reports answered before its latest action count as
+-- resolved; question_key is question_library.id for library questions and
+-- question_history.id otherwise.
+
+CREATE TABLE IF NOT EXISTS `br-ventasbrasil-cld-01.edtech_platform.moderation_actions`
+(
+  id                  STRING     NOT NULL  OPTIONS(description="UUID v4"),
+  question_key        STRING     NOT NULL  OPTIONS(description="question_library.id, or question_history.id for one-off questions"),
+  library_id          STRING               OPTIONS(description="FK → question_library.id when the question is curated"),
+  exam_name           STRING     NOT NULL  OPTIONS(description="Exam the question belongs to"),
+  action              STRING     NOT NULL  OPTIONS(description="confirm|fix|retire"),
+  moderator           STRING     NOT NULL  OPTIONS(description="Admin who took the action"),
+  note                STRING               OPTIONS(description="Moderator's note"),
+  previous_key        STRING               OPTIONS(description="Correct option text(s) before the action, ' | '-joined"),
+  new_key             STRING               OPTIONS(description="Correct option text(s) after the action, ' | '-joined"),
+  regraded_rows       INT64                OPTIONS(description="question_history rows whose is_correct changed"),
+  created_at          TIMESTAMP  NOT NULL
+)
+CLUSTER BY question_key
+OPTIONS(
+  description="Moderation decisions on reported questions"
+);
+
+-- ─── TABLE 10: notifications ─────────────────────────────────────────────────
+-- Learner inbox shown on the dashboard, e.g. a re-graded answer.
+
+CREATE TABLE IF NOT EXISTS `br-ventasbrasil-cld-01.edtech_platform.notifications`
+(
+  id                  STRING     NOT NULL  OPTIONS(description="UUID v4"),
+  user_email          STRING     NOT NULL  OPTIONS(description="Recipient"),
+  kind                STRING     NOT NULL  OPTIONS(description="grade_change|…"),
+  title               STRING     NOT NULL  OPTIONS(description="Portuguese title"),
+  body                STRING     NOT NULL  OPTIONS(description="Portuguese message"),
+  link                STRING               OPTIONS(description="Optional in-app link"),
+  read                BOOL       NOT NULL  OPTIONS(description="Set when the learner dismisses it"),
+  created_at          TIMESTAMP  NOT NULL
+)
+PARTITION BY DATE(created_at)
+CLUSTER BY user_email
+OPTIONS(
+  description="Learner notifications"
+);
+
+-- ─── TABLE 11: answer_disputes ───────────────────────────────────────────────
+-- A learner's dispute of a keyed answer (lib/disputes.ts): their reasoning,
+-- the LLM re-evaluation and the admin decision. question_key as in
+-- moderation_actions; letters refer to the learner's copy of the question.
+
+CREATE TABLE IF NOT EXISTS `br-ventasbrasil-cld-01.edtech_platform.answer_disputes`
+(
+  id                  STRING     NOT NULL  OPTIONS(description="UUID v4"),
+  history_id          STRING     NOT NULL  OPTIONS(description="FK → question_history.id of the disputed answer"),
+  question_key        STRING     NOT NULL  OPTIONS(description="question_library.id, or question_history.id for one-off questions"),
+  library_id          STRING               OPTIONS(description="FK → question_library.id when the question is curated"),
+  user_email          STRING     NOT NULL  OPTIONS(description="Learner who filed the dispute"),
+  exam_name           STRING     NOT NULL  OPTIONS(description="Exam the question belongs to"),
+  topic               STRING     NOT NULL  OPTIONS(description="Topic name, as in question_history"),
+  question            JSON       NOT NULL  OPTIONS(description="The learner's copy of the question when the dispute was filed"),
+  user_answer         STRING     NOT NULL  OPTIONS(description="The learner's answer"),
+  correct_letter      STRING     NOT NULL  OPTIONS(description="Keyed answer when the dispute was filed"),
+  claimed_answer      STRING     NOT NULL  OPTIONS(description="Key the learner argues for"),
+  reasoning           STRING     NOT NULL  OPTIONS(description="The learner's argument"),
+  status              STRING     NOT NULL  OPTIONS(description="open|upheld|rejected"),
+  review              JSON                 OPTIONS(description="LLM re-evaluation: model, verdict, correct_letter, rationale_pt, reviewed_at"),
+  decided_by          STRING               OPTIONS(description="Admin who decided"),
+  decision_note       STRING               OPTIONS(description="Admin's note to the learner"),
+  regraded_rows       INT64                OPTIONS(description="question_history rows whose result changed when upheld"),
+  created_at          TIMESTAMP  NOT NULL,
+  decided_at          TIMESTAMP
+)
+CLUSTER BY status, user_email
+OPTIONS(
+  description="Learner disputes of answer keys"
+);
+
+-- ─── TABLE 12: grade_audit ───────────────────────────────────────────────────
+-- Append-only trail of retroactive grading: one row per re-keyed answer and
+-- per re-scored session, pointing at the moderation action or dispute.
+
+CREATE TABLE IF NOT EXISTS `br-ventasbrasil-cld-01.edtech_platform.grade_audit`
+(
+  id                  STRING     NOT NULL  OPTIONS(description="UUID v4"),
+  source              STRING     NOT NULL  OPTIONS(description="moderation|dispute"),
+  source_id           STRING     NOT NULL  OPTIONS(description="moderation_actions.id or answer_disputes.id"),
+  changed_by          STRING     NOT NULL  OPTIONS(description="Admin behind the change"),
+  user_email          STRING     NOT NULL  OPTIONS(description="Learner whose grade changed"),
+  history_id          STRING               OPTIONS(description="Answer entries: question_history.id"),
+  session_id          STRING               OPTIONS(description="Session entries (and answers taken in a session): exam_sessions.id"),
+  previous_key        STRING               OPTIONS(description="correct_letter before"),
+  new_key             STRING               OPTIONS(description="correct_letter after"),
+  previous_is_correct BOOL                 OPTIONS(description="is_correct before"),
+  new_is_correct      BOOL                 OPTIONS(description="is_correct after"),
+  previous_score      FLOAT64              OPTIONS(description="Session entries: final_score before"),
+  new_score           FLOAT64              OPTIONS(description="Session entries: final_score after"),
+  created_at          TIMESTAMP  NOT NULL
+)
+PARTITION BY DATE(created_at)
+CLUSTER BY user_email, source_id
+OPTIONS(
+  description="Audit trail of retroactive grade changes"
+);
+
+-- ─── MIGRATIONS (existing datasets) ──────────────────────────────────────────
+-- Columns added after the tables above were first created.
+
+ALTER TABLE `br-ventasbrasil-cld-01.edtech_platform.served_questions`
+  ADD COLUMN IF NOT EXISTS content_hash STRING,
+  ADD COLUMN IF NOT EXISTS content_embedding ARRAY<FLOAT64>,
+  ADD COLUMN IF NOT EXISTS verification JSON,
+  ADD COLUMN IF NOT EXISTS model_correct_letter STRING,
+  ADD COLUMN IF NOT EXISTS case_id STRING,
+  ADD COLUMN IF NOT EXISTS prompt_version STRING,
+  ADD COLUMN IF NOT EXISTS library_id STRING;
+
+ALTER TABLE `br-ventasbrasil-cld-01.edtech_platform.question_bank`
+  ADD COLUMN IF NOT EXISTS content_hash STRING,
+  ADD COLUMN IF NOT EXISTS content_embedding ARRAY<FLOAT64>,
+  ADD COLUMN IF NOT EXISTS verification JSON,
+  ADD COLUMN IF NOT EXISTS prompt_version STRING;
+
+ALTER TABLE `br-ventasbrasil-cld-01.edtech_platform.cli_attempts`
+  ADD COLUMN IF NOT EXISTS version INT64;
+
+ALTER TABLE `br-ventasbrasil-cld-01.edtech_platform.question_history`
+  ADD COLUMN IF NOT EXISTS verification JSON,
+  ADD COLUMN IF NOT EXISTS model_correct_letter STRING,
+  ADD COLUMN IF NOT EXISTS question_type STRING,
+  ADD COLUMN IF NOT EXISTS case_id STRING,
+  ADD COLUMN IF NOT EXISTS score FLOAT64,
+  ADD COLUMN IF NOT EXISTS grading JSON,
+  ADD COLUMN IF NOT EXISTS prompt_version STRING,
+  ADD COLUMN IF NOT EXISTS library_id STRING,
+  ADD COLUMN IF NOT EXISTS feedback_categories ARRAY<STRING>,
+  ADD COLUMN IF NOT EXISTS explanation_rating INT64,
+  ADD COLUMN IF NOT EXISTS rated_at TIMESTAMP;
+
 -- =============================================================================
 -- VERIFICATION QUERIES (optional — run manually to confirm schema)
 -- =============================================================================
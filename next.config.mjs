@@ -8,6 +8,7 @@ const nextConfig = {
       '@google-cloud/bigquery',
       '@google-cloud/storage',
       '@google-cloud/vision',
+      'mermaid',
     ],
   },
 };
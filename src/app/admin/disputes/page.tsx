@@ -0,0 +1,285 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { EXAM_LIST } from '@/config/exams';
+import { VisualContextBlock } from '@/components/QuestionCard';
+import type { Dispute, DisputeReview, DisputeStatus, ModerationOutcome } from '@/app/api/disputes/decide/route';
+
+type Draft = {
+  letters:     string[];
+  explanation: string;
+  note:        string;
+};
+
+const emptyDraft = (d: Dispute): Draft => ({
+  letters:     d.claimed_answer.split(','),
+  explanation: '',
+  note:        '',
+});
+
+const VERDICT_STYLE: Record<DisputeReview['verdict'], string> = {
+  uphold:  'text-emerald-400',
+  reject:  'text-destructive',
+  unclear: 'text-yellow-400',
+};
+
+export default function AdminDisputesPage() {
+  const [status,    setStatus]    = useState<DisputeStatus>('open');
+  const [disputes,  setDisputes]  = useState<Dispute[]>([]);
+  const [drafts,    setDrafts]    = useState<Record<string, Draft>>({});
+  const [loading,   setLoading]   = useState(true);
+  const [busy,      setBusy]      = useState<string | null>(null);
+  const [errorMsg,  setErrorMsg]  = useState<string | null>(null);
+  const [resultMsg, setResultMsg] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setErrorMsg(null);
+    try {
+      const res  = await fetch(`/api/disputes/decide?status=${status}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? 'Failed to load disputes');
+      setDisputes(data.disputes);
+      setDrafts(Object.fromEntries(data.disputes.map((d: Dispute) => [d.id, emptyDraft(d)])));
+    } catch (err) {
+      setErrorMsg(err instanceof Error ? err.message : 'Failed to load disputes');
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => { load(); }, [load]);
+
+  const updateDraft = (id: string, patch: Partial<Draft>) =>
+    setDrafts((prev) => ({ ...prev, [id]: { ...prev[id], ...patch } }));
+
+  const toggleLetter = (d: Dispute, letter: string) => {
+    const current = drafts[d.id].letters;
+    updateDraft(d.id, {
+      letters: d.question.question_type !== 'multiple'
+        ? [letter]
+        : current.includes(letter) ? current.filter((l) => l !== letter) : [...current, letter].sort(),
+    });
+  };
+
+  const act = async (d: Dispute, action: 'uphold' | 'reject' | 'review') => {
+    const draft = drafts[d.id];
+    setBusy(d.id);
+    setErrorMsg(null);
+    setResultMsg(null);
+    try {
+      const res  = await fetch('/api/disputes/decide', {
+        method:  'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body:    JSON.stringify({
+          id:             d.id,
+          action,
+          letters:        action === 'uphold' ? draft.letters : undefined,
+          explanation_pt: action === 'uphold' && draft.explanation.trim() ? draft.explanation : undefined,
+          note:           draft.note,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? 'Action failed');
+
+      if (action === 'review') {
+        const review = data.review as DisputeReview;
+        setDisputes((prev) => prev.map((x) => (x.id === d.id ? { ...x, review } : x)));
+        return;
+      }
+      const outcome = data as ModerationOutcome;
+      setResultMsg(action === 'uphold'
+        ? `Dispute upheld — ${outcome.regraded} answer(s) re-graded, ${outcome.sessions} session score(s) updated, ${outcome.notified} learner notification(s) sent.`
+        : 'Dispute rejected — the learner was notified.');
+      setDisputes((prev) => prev.filter((x) => x.id !== d.id));
+    } catch (err) {
+      setErrorMsg(err instanceof Error ? err.message : 'Action failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const examTitle = (id: string) => EXAM_LIST.find((e) => e.id === id)?.title ?? id;
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card/50 backdrop-blur-sm sticky top-0 z-10">
+        <div className="max-w-5xl mx-auto px-4 py-3 flex items-center gap-2">
+          <Link href="/dashboard" className="text-muted-foreground hover:text-foreground text-sm transition-colors shrink-0">
+            ← Dashboard
+          </Link>
+          <span className="text-border hidden sm:block">|</span>
+          <span className="text-sm font-medium text-foreground hidden sm:block">Admin — Disputes</span>
+          <Link href="/admin/moderation" className="ml-auto text-xs text-muted-foreground hover:text-foreground transition-colors">
+            Moderation queue →
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 py-10 space-y-6">
+        <div className="flex items-end justify-between gap-3 flex-wrap">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Answer Disputes</h1>
+            <p className="text-muted-foreground text-sm mt-1">
+              Learners contesting an answer key, with a model re-evaluation. Upholding re-keys the question,
+              re-grades every answer to it, updates finished session scores and records the changes in the grade audit.
+            </p>
+          </div>
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as DisputeStatus)}
+            className="bg-secondary border border-border rounded-lg px-3 py-2 text-sm text-foreground"
+          >
+            <option value="open">Open</option>
+            <option value="upheld">Upheld</option>
+            <option value="rejected">Rejected</option>
+          </select>
+        </div>
+
+        {errorMsg && (
+          <p className="text-xs text-destructive bg-destructive/10 px-3 py-2 rounded-lg">{errorMsg}</p>
+        )}
+        {resultMsg && (
+          <p className="text-xs text-emerald-400 bg-emerald-500/10 px-3 py-2 rounded-lg">{resultMsg}</p>
+        )}
+
+        {loading ? (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <span className="w-3 h-3 border-2 border-muted/30 border-t-muted rounded-full animate-spin" />
+            Loading disputes...
+          </div>
+        ) : disputes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No {status} disputes.</p>
+        ) : disputes.map((d) => {
+          const draft  = drafts[d.id] ?? emptyDraft(d);
+          const isBusy = busy === d.id;
+          const isOpen = d.status === 'open';
+          const key    = d.correct_letter.split(',');
+          const claim  = d.claimed_answer.split(',');
+          return (
+            <div key={d.id} className="p-5 rounded-xl border border-border bg-card space-y-4">
+              <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
+                <span>{examTitle(d.exam_name)}</span>
+                <span>· {d.topic}</span>
+                <span>· {d.question.question_type === 'multiple' ? `choose ${d.question.select_count}` : 'single answer'}</span>
+                {d.library_id && <span className="text-primary">· library</span>}
+                <span className="ml-auto">{d.created_at.slice(0, 10)} · {d.user_email}</span>
+              </div>
+
+              <p className="text-sm text-foreground whitespace-pre-wrap font-mono">{d.question.question_en}</p>
+              {d.question.visual_context.length > 0 && <VisualContextBlock vc={d.question.visual_context} />}
+
+              {/* Options of the learner's copy; on open disputes the inputs are the key to apply on "Uphold" */}
+              <div className="space-y-1.5">
+                {Object.entries(d.question.options_en)
+                  .filter((entry): entry is [string, string] => entry[1] !== undefined)
+                  .map(([letter, text]) => (
+                    <label
+                      key={letter}
+                      className={`flex items-start gap-3 p-2 rounded-lg border text-sm ${isOpen ? 'cursor-pointer' : ''}
+                                  ${key.includes(letter) ? 'border-emerald-500/40 bg-emerald-500/5' : 'border-border'}`}
+                    >
+                      {isOpen && (
+                        <input
+                          type={d.question.question_type === 'multiple' ? 'checkbox' : 'radio'}
+                          name={`key-${d.id}`}
+                          checked={draft.letters.includes(letter)}
+                          onChange={() => toggleLetter(d, letter)}
+                          className="mt-1"
+                        />
+                      )}
+                      <span className="font-mono font-bold text-muted-foreground">{letter}</span>
+                      <span className="flex-1 text-foreground">{text}</span>
+                      <span className="text-xs font-mono text-muted-foreground whitespace-nowrap">
+                        {key.includes(letter) && 'key '}
+                        {claim.includes(letter) && 'claimed '}
+                        {d.user_answer.split(',').includes(letter) && 'answered'}
+                      </span>
+                    </label>
+                  ))}
+              </div>
+
+              <details className="text-xs">
+                <summary className="cursor-pointer text-muted-foreground">Current explanation</summary>
+                <p className="mt-2 text-foreground whitespace-pre-wrap">{d.question.explanation_pt}</p>
+              </details>
+
+              <div className="space-y-1">
+                <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">Learner reasoning</p>
+                <p className="text-xs text-foreground whitespace-pre-wrap">{d.reasoning}</p>
+              </div>
+
+              <div className="space-y-1">
+                <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">Model review</p>
+                {d.review ? (
+                  <>
+                    <p className="text-xs">
+                      <span className={`font-semibold ${VERDICT_STYLE[d.review.verdict]}`}>{d.review.verdict}</span>
+                      <span className="text-muted-foreground"> · considers {d.review.correct_letter} correct · {d.review.model}</span>
+                    </p>
+                    <p className="text-xs text-foreground whitespace-pre-wrap">{d.review.rationale_pt}</p>
+                  </>
+                ) : (
+                  <p className="text-xs text-muted-foreground italic">No review — the model call failed.</p>
+                )}
+              </div>
+
+              {isOpen ? (
+                <>
+                  <div className="grid sm:grid-cols-2 gap-2">
+                    <textarea
+                      value={draft.explanation}
+                      onChange={(e) => updateDraft(d.id, { explanation: e.target.value })}
+                      placeholder="New explanation (Portuguese, optional — used by Uphold)"
+                      rows={3}
+                      className="bg-secondary border border-border rounded-lg p-2 text-xs text-foreground"
+                    />
+                    <textarea
+                      value={draft.note}
+                      onChange={(e) => updateDraft(d.id, { note: e.target.value })}
+                      placeholder="Note to the learner (Portuguese, optional)"
+                      rows={3}
+                      className="bg-secondary border border-border rounded-lg p-2 text-xs text-foreground"
+                    />
+                  </div>
+
+                  <div className="flex gap-2 justify-end">
+                    <button
+                      onClick={() => act(d, 'review')}
+                      disabled={isBusy}
+                      className="px-3 py-1.5 rounded-lg text-xs text-muted-foreground hover:bg-secondary disabled:opacity-50 mr-auto"
+                    >
+                      Re-run model review
+                    </button>
+                    <button
+                      onClick={() => act(d, 'reject')}
+                      disabled={isBusy}
+                      className="px-3 py-1.5 rounded-lg bg-secondary text-xs text-foreground hover:bg-secondary/80 disabled:opacity-50"
+                    >
+                      Reject
+                    </button>
+                    <button
+                      onClick={() => act(d, 'uphold')}
+                      disabled={isBusy}
+                      className="px-3 py-1.5 rounded-lg bg-primary text-primary-foreground text-xs font-medium disabled:opacity-50"
+                    >
+                      {isBusy ? 'Saving...' : 'Uphold with selected key'}
+                    </button>
+                  </div>
+                </>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  {d.status} by {d.decided_by} on {d.decided_at?.slice(0, 10)}
+                  {d.status === 'upheld' && ` · ${d.regraded_rows ?? 0} answer(s) re-graded`}
+                  {d.decision_note && ` · “${d.decision_note}”`}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </main>
+    </div>
+  );
+}
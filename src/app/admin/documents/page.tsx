@@ -0,0 +1,164 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { EXAM_LIST } from '@/config/exams';
+import type { ArchivedDocument } from '@/app/api/documents/route';
+
+export default function AdminDocumentsPage() {
+  const [examFilter, setExamFilter] = useState('');
+  const [documents,  setDocuments]  = useState<ArchivedDocument[]>([]);
+  const [loading,    setLoading]    = useState(true);
+  const [errorMsg,   setErrorMsg]   = useState<string | null>(null);
+  const [deleting,   setDeleting]   = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setErrorMsg(null);
+    try {
+      const qs   = examFilter ? `?exam=${encodeURIComponent(examFilter)}` : '';
+      const res  = await fetch(`/api/documents${qs}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? 'Failed to load documents');
+      setDocuments(data.documents);
+    } catch (err) {
+      setErrorMsg(err instanceof Error ? err.message : 'Failed to load documents');
+    } finally {
+      setLoading(false);
+    }
+  }, [examFilter]);
+
+  useEffect(() => { load(); }, [load]);
+
+  const handleDelete = async (doc: ArchivedDocument) => {
+    const label = doc.path ?? doc.uri;
+    if (!confirm(`Delete ${label} and its ${doc.chunk_count} chunks? This cannot be undone.`)) return;
+
+    setDeleting(doc.uri);
+    setErrorMsg(null);
+    try {
+      const res  = await fetch('/api/documents', {
+        method:  'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body:    JSON.stringify({ uri: doc.uri }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? 'Delete failed');
+      setDocuments((prev) => prev.filter((d) => d.uri !== doc.uri));
+    } catch (err) {
+      setErrorMsg(err instanceof Error ? err.message : 'Delete failed');
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  const humanSize = (bytes: number) =>
+    bytes > 1_048_576
+      ? `${(bytes / 1_048_576).toFixed(1)} MB`
+      : `${Math.round(bytes / 1024)} KB`;
+
+  const examTitle = (id: string | null) => EXAM_LIST.find((e) => e.id === id)?.title ?? id ?? '—';
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card/50 backdrop-blur-sm sticky top-0 z-10">
+        <div className="max-w-4xl mx-auto px-4 py-3 flex items-center gap-2">
+          <Link href="/dashboard" className="text-muted-foreground hover:text-foreground text-sm transition-colors shrink-0">
+            ← Dashboard
+          </Link>
+          <span className="text-border hidden sm:block">|</span>
+          <span className="text-sm font-medium text-foreground hidden sm:block">Admin — Documents</span>
+          <Link href="/admin/library" className="ml-auto text-xs text-muted-foreground hover:text-foreground transition-colors">
+            Question library →
+          </Link>
+          <Link href="/admin/upload" className="text-xs text-muted-foreground hover:text-foreground transition-colors">
+            Upload PDF →
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 py-10 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Archived Documents</h1>
+          <p className="text-muted-foreground text-sm mt-1">
+            Original PDFs and the RAG chunks extracted from them. Deleting a document removes both.
+          </p>
+        </div>
+
+        {/* Exam Filter */}
+        <div>
+          <label className="block text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">
+            Exam
+          </label>
+          <select
+            value={examFilter}
+            onChange={(e) => setExamFilter(e.target.value)}
+            className="w-full bg-secondary border border-border rounded-xl px-4 py-3 text-sm text-foreground
+                       focus:outline-none focus:ring-1 focus:ring-primary"
+          >
+            <option value="">All exams</option>
+            {EXAM_LIST.map((e) => (
+              <option key={e.id} value={e.id}>{e.title}</option>
+            ))}
+          </select>
+        </div>
+
+        {errorMsg && (
+          <p className="text-xs text-destructive bg-destructive/10 px-3 py-2 rounded-lg">{errorMsg}</p>
+        )}
+
+        {loading ? (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <span className="w-3 h-3 border-2 border-muted/30 border-t-muted rounded-full animate-spin" />
+            Loading documents...
+          </div>
+        ) : documents.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No documents archived yet.</p>
+        ) : (
+          <div className="rounded-xl border border-border overflow-hidden">
+            <table className="w-full text-xs">
+              <thead className="bg-secondary/50 text-muted-foreground uppercase tracking-wide">
+                <tr>
+                  <th className="text-left px-3 py-2 font-semibold">File</th>
+                  <th className="text-left px-3 py-2 font-semibold">Exam</th>
+                  <th className="text-left px-3 py-2 font-semibold">Type</th>
+                  <th className="text-right px-3 py-2 font-semibold">Size</th>
+                  <th className="text-right px-3 py-2 font-semibold">Chunks</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {documents.map((doc) => (
+                  <tr key={doc.uri} className="border-t border-border">
+                    <td className="px-3 py-2 font-mono text-foreground break-all" title={doc.uri}>
+                      {doc.path ?? doc.uri}
+                      {doc.size === null && (
+                        <span className="ml-2 text-amber-400 font-sans">(original not in active storage)</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-foreground">{examTitle(doc.exam_name)}</td>
+                    <td className="px-3 py-2 font-mono text-muted-foreground">{doc.doc_type ?? '—'}</td>
+                    <td className="px-3 py-2 text-right font-mono text-muted-foreground">
+                      {doc.size !== null ? humanSize(doc.size) : '—'}
+                    </td>
+                    <td className="px-3 py-2 text-right font-mono text-foreground">{doc.chunk_count}</td>
+                    <td className="px-3 py-2 text-right">
+                      <button
+                        onClick={() => handleDelete(doc)}
+                        disabled={deleting === doc.uri}
+                        className="text-destructive hover:underline disabled:opacity-50"
+                      >
+                        {deleting === doc.uri ? 'Deleting...' : 'Delete'}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,348 @@
+'use client';
+
+import { useEffect, useState, useRef, DragEvent } from 'react';
+import Link from 'next/link';
+import { EXAM_LIST, EXAMS_CONFIG } from '@/config/exams';
+import type { ImportFormat, ImportItemResult, ImportReport } from '@/app/api/library/import/route';
+
+const ACCEPTED_EXTENSIONS = ['.gift', '.txt', '.xml', '.qti', '.csv'];
+
+const STATUS_STYLE: Record<ImportItemResult['status'], string> = {
+  imported:  'text-emerald-400',
+  valid:     'text-primary',
+  invalid:   'text-destructive',
+  duplicate: 'text-yellow-400',
+  failed:    'text-destructive',
+};
+
+export default function AdminImportPage() {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const [examName,   setExamName]   = useState('');
+  const [format,     setFormat]     = useState<ImportFormat | ''>('');
+  const [topicId,    setTopicId]    = useState('');
+  const [difficulty, setDifficulty] = useState('medium');
+  const [status,     setStatus]     = useState<'approved' | 'draft'>('approved');
+  const [tags,       setTags]       = useState('');
+  const [file,       setFile]       = useState<File | null>(null);
+  const [dragActive, setDragActive] = useState(false);
+  const [busy,       setBusy]       = useState(false);
+  const [report,     setReport]     = useState<ImportReport | null>(null);
+  const [errorMsg,   setErrorMsg]   = useState<string | null>(null);
+
+  const topics = EXAMS_CONFIG[examName]?.topics ?? [];
+
+  // A check is only valid for the settings it ran with
+  useEffect(() => { setReport(null); }, [examName, format, topicId, difficulty, status, tags]);
+
+  const acceptedFile = (f: File) => {
+    if (!ACCEPTED_EXTENSIONS.some((ext) => f.name.toLowerCase().endsWith(ext))) {
+      setErrorMsg(`Accepted files: ${ACCEPTED_EXTENSIONS.join(', ')}`);
+      return;
+    }
+    setFile(f);
+    setErrorMsg(null);
+    setReport(null);
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragActive(false);
+    if (e.dataTransfer.files[0]) acceptedFile(e.dataTransfer.files[0]);
+  };
+
+  const run = async (dryRun: boolean) => {
+    if (!file || !examName) return;
+    setBusy(true);
+    setErrorMsg(null);
+
+    const form = new FormData();
+    form.append('file',       file);
+    form.append('exam_name',  examName);
+    form.append('format',     format);
+    form.append('topic_id',   topicId);
+    form.append('difficulty', difficulty);
+    form.append('status',     status);
+    form.append('tags',       tags);
+    form.append('dry_run',    String(dryRun));
+
+    try {
+      const res  = await fetch('/api/library/import', { method: 'POST', body: form });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? 'Import failed');
+      setReport(data);
+    } catch (err) {
+      setErrorMsg(err instanceof Error ? err.message : 'Import failed');
+      setReport(null);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const ready = report?.dry_run ? report.valid : 0;
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card/50 backdrop-blur-sm sticky top-0 z-10">
+        <div className="max-w-4xl mx-auto px-4 py-3 flex items-center gap-2">
+          <Link href="/dashboard" className="text-muted-foreground hover:text-foreground text-sm transition-colors shrink-0">
+            ← Dashboard
+          </Link>
+          <span className="text-border hidden sm:block">|</span>
+          <span className="text-sm font-medium text-foreground hidden sm:block">Admin — Import Questions</span>
+          <Link href="/admin/upload" className="ml-auto text-xs text-muted-foreground hover:text-foreground transition-colors">
+            Upload material →
+          </Link>
+          <Link href="/admin/library" className="text-xs text-muted-foreground hover:text-foreground transition-colors">
+            Question library →
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 py-10 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Import Questions</h1>
+          <p className="text-muted-foreground text-sm mt-1">
+            Hand-written multiple-choice questions in Moodle GIFT, IMS QTI 2.1 or CSV are validated, mapped to the
+            exam&apos;s topics and stored in the question library. Approved imports are served in the arena and the simulado.
+          </p>
+        </div>
+
+        {/* Settings */}
+        <div className="grid sm:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">Target Exam</label>
+            <select
+              value={examName}
+              onChange={(e) => { setExamName(e.target.value); setTopicId(''); }}
+              className="w-full bg-secondary border border-border rounded-xl px-4 py-3 text-sm text-foreground
+                         focus:outline-none focus:ring-1 focus:ring-primary"
+            >
+              <option value="">Select exam...</option>
+              {EXAM_LIST.map((e) => (
+                <option key={e.id} value={e.id}>{e.title}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">Format</label>
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as ImportFormat | '')}
+              className="w-full bg-secondary border border-border rounded-xl px-4 py-3 text-sm text-foreground
+                         focus:outline-none focus:ring-1 focus:ring-primary"
+            >
+              <option value="">Detect from file</option>
+              <option value="gift">Moodle GIFT</option>
+              <option value="qti">IMS QTI 2.1</option>
+              <option value="csv">CSV</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">Default Topic</label>
+            <select
+              value={topicId}
+              onChange={(e) => setTopicId(e.target.value)}
+              disabled={!examName}
+              className="w-full bg-secondary border border-border rounded-xl px-4 py-3 text-sm text-foreground
+                         focus:outline-none focus:ring-1 focus:ring-primary disabled:opacity-50"
+            >
+              <option value="">None — every question must name its topic</option>
+              {topics.map((t) => (
+                <option key={t.id} value={t.id}>{t.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">Difficulty</label>
+              <select
+                value={difficulty}
+                onChange={(e) => setDifficulty(e.target.value)}
+                className="w-full bg-secondary border border-border rounded-xl px-4 py-3 text-sm text-foreground
+                           focus:outline-none focus:ring-1 focus:ring-primary"
+              >
+                <option value="easy">Easy</option>
+                <option value="medium">Medium</option>
+                <option value="hard">Hard</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">Status</label>
+              <select
+                value={status}
+                onChange={(e) => setStatus(e.target.value as 'approved' | 'draft')}
+                className="w-full bg-secondary border border-border rounded-xl px-4 py-3 text-sm text-foreground
+                           focus:outline-none focus:ring-1 focus:ring-primary"
+              >
+                <option value="approved">Approved</option>
+                <option value="draft">Draft</option>
+              </select>
+            </div>
+          </div>
+          <div className="sm:col-span-2">
+            <label className="block text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">Tags</label>
+            <input
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="Added to every question, comma-separated (e.g. trainer-set, 2024)"
+              className="w-full bg-secondary border border-border rounded-xl px-4 py-3 text-sm text-foreground
+                         focus:outline-none focus:ring-1 focus:ring-primary"
+            />
+          </div>
+        </div>
+
+        {/* Drop Zone */}
+        <div
+          onDrop={handleDrop}
+          onDragOver={(e) => { e.preventDefault(); setDragActive(true); }}
+          onDragLeave={() => setDragActive(false)}
+          onClick={() => inputRef.current?.click()}
+          className={`rounded-xl border-2 border-dashed p-8 text-center cursor-pointer transition-all ${
+            dragActive
+              ? 'border-primary bg-primary/5'
+              : file
+                ? 'border-green-500/40 bg-green-500/5'
+                : 'border-border bg-secondary/20 hover:border-primary/40 hover:bg-primary/5'
+          }`}
+        >
+          <input
+            ref={inputRef}
+            type="file"
+            accept={ACCEPTED_EXTENSIONS.join(',')}
+            className="hidden"
+            onChange={(e) => e.target.files?.[0] && acceptedFile(e.target.files[0])}
+          />
+          {file ? (
+            <div className="space-y-1">
+              <p className="text-sm font-semibold text-foreground">{file.name}</p>
+              <p className="text-xs text-muted-foreground">{Math.max(1, Math.round(file.size / 1024))} KB</p>
+              <button
+                onClick={(e) => { e.stopPropagation(); setFile(null); setReport(null); }}
+                className="mt-2 text-xs text-destructive hover:underline"
+              >
+                Remove
+              </button>
+            </div>
+          ) : (
+            <div className="space-y-1">
+              <p className="text-sm font-semibold text-foreground">Drop a question file here or click to choose</p>
+              <p className="text-xs text-muted-foreground">{ACCEPTED_EXTENSIONS.join(' · ')} — up to 2 MB, 500 questions</p>
+            </div>
+          )}
+        </div>
+
+        {errorMsg && (
+          <p className="text-xs text-destructive bg-destructive/10 px-3 py-2 rounded-lg">{errorMsg}</p>
+        )}
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => run(true)}
+            disabled={!file || !examName || busy}
+            className="flex-1 py-3 rounded-xl bg-secondary text-foreground font-semibold text-sm
+                       hover:bg-secondary/80 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {busy ? 'Working...' : 'Check file'}
+          </button>
+          <button
+            onClick={() => run(false)}
+            disabled={!file || !examName || busy || !report?.dry_run || ready === 0}
+            className="flex-1 py-3 rounded-xl bg-primary text-primary-foreground font-semibold text-sm
+                       hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {report?.dry_run ? `Import ${ready} question(s)` : 'Import'}
+          </button>
+        </div>
+
+        {/* Report */}
+        {report && (
+          <div className="p-5 rounded-xl border border-border bg-card space-y-4">
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs">
+              <span className="font-semibold text-foreground">
+                {report.dry_run ? 'Check' : 'Import'} of {report.file_name} ({report.format.toUpperCase()})
+              </span>
+              <span className="text-muted-foreground">{report.total} question(s)</span>
+              {report.dry_run
+                ? <span className="text-primary">{report.valid} ready</span>
+                : <span className="text-emerald-400">{report.imported} imported</span>}
+              <span className="text-destructive">{report.invalid} invalid</span>
+              <span className="text-yellow-400">{report.duplicates} duplicate(s)</span>
+              {report.failed > 0 && (
+                <span className="text-destructive">{report.failed} failed — import the file again to retry them</span>
+              )}
+            </div>
+
+            <div className="divide-y divide-border">
+              {report.items.map((item, i) => (
+                <div key={i} className="py-2 text-xs space-y-1">
+                  <div className="flex gap-2">
+                    <span className={`font-mono font-semibold w-20 shrink-0 ${STATUS_STYLE[item.status]}`}>{item.status}</span>
+                    <span className="text-muted-foreground shrink-0">{item.ref}</span>
+                    <span className="text-foreground truncate">{item.question_en}</span>
+                    <span className="ml-auto text-muted-foreground font-mono shrink-0">
+                      {item.topic_id ?? '—'} · {item.difficulty || '—'}
+                    </span>
+                  </div>
+                  {item.issues.map((issue) => (
+                    <p key={issue} className="pl-[5.5rem] text-muted-foreground">· {issue}</p>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Format reference */}
+        <div className="p-4 rounded-xl border border-border bg-card text-xs text-muted-foreground space-y-3">
+          <p className="font-semibold text-foreground text-xs uppercase tracking-wide">Formats</p>
+          <p>
+            Every question needs 4 or 5 options, a key and an explanation (shown to learners, in Portuguese). More than one
+            correct option makes a &quot;choose N&quot; question (N ≤ 3). Topics are matched by id (<code className="font-mono">sec-2</code>),
+            full name, section number (&quot;Section 2&quot;) or a unique part of the name; otherwise the default topic is used.
+            Questions already in the exam&apos;s library are skipped.
+          </p>
+          <div className="space-y-1">
+            <p className="font-semibold text-foreground">Moodle GIFT (.gift, .txt)</p>
+            <p>
+              Multiple-choice questions separated by blank lines. <code className="font-mono">=</code> marks the correct
+              answer; for multiple-select, positive weights (<code className="font-mono">~%50%</code>) mark the correct ones.
+              The explanation is the general feedback (<code className="font-mono">####</code>); the last{' '}
+              <code className="font-mono">$CATEGORY</code> segment is the topic.
+            </p>
+            <pre className="font-mono bg-secondary/50 rounded-lg p-3 overflow-x-auto">{`$CATEGORY: $course$/Section 3
+::KMS-01:: Which key type lets you keep key material outside Google Cloud? {
+  ~CMEK  ~CSEK  ~Google-managed keys  =Cloud External Key Manager
+  ####O Cloud EKM mantém o material da chave em um gerenciador externo.
+}`}</pre>
+          </div>
+          <div className="space-y-1">
+            <p className="font-semibold text-foreground">IMS QTI 2.1 (.xml)</p>
+            <p>
+              One or more <code className="font-mono">assessmentItem</code> elements with a single{' '}
+              <code className="font-mono">choiceInteraction</code> (unzip content packages first). The key is the{' '}
+              <code className="font-mono">correctResponse</code>, the explanation the{' '}
+              <code className="font-mono">modalFeedback</code>, the topic the item&apos;s{' '}
+              <code className="font-mono">label</code> attribute. Items with images are rejected.
+            </p>
+          </div>
+          <div className="space-y-1">
+            <p className="font-semibold text-foreground">CSV (.csv)</p>
+            <p>
+              Header row required, comma or semicolon delimited, quoted fields may span lines. Columns:{' '}
+              <code className="font-mono">question</code>, <code className="font-mono">option_a</code>–
+              <code className="font-mono">option_d</code>, <code className="font-mono">correct</code> (&quot;B&quot; or
+              &quot;A,C&quot;) and <code className="font-mono">explanation</code> are required;{' '}
+              <code className="font-mono">option_e</code>, <code className="font-mono">topic</code>,{' '}
+              <code className="font-mono">difficulty</code> (easy/medium/hard) and <code className="font-mono">tags</code>{' '}
+              (separated by ; or |) are optional.
+            </p>
+            <pre className="font-mono bg-secondary/50 rounded-lg p-3 overflow-x-auto">{`question,option_a,option_b,option_c,option_d,correct,explanation,topic,difficulty,tags
+"Which two services…?",Cloud Armor,Cloud NAT,VPC SC,IAP,"A,D","Cloud Armor e IAP…",sec-2,hard,waf|iap`}</pre>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
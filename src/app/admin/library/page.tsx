@@ -0,0 +1,340 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { EXAM_LIST, EXAMS_CONFIG } from '@/config/exams';
+import type { LibraryQuestion, LibraryStatus } from '@/app/api/library/route';
+import type { PromotionCandidate } from '@/app/api/library/candidates/route';
+
+const STATUSES: LibraryStatus[] = ['draft', 'approved', 'retired'];
+
+const STATUS_STYLE: Record<LibraryStatus, string> = {
+  draft:    'text-amber-400',
+  approved: 'text-emerald-400',
+  retired:  'text-muted-foreground line-through',
+};
+
+const parseTags = (text: string) => text.split(',').map((t) => t.trim()).filter(Boolean);
+
+type Editing = {
+  id:         string;
+  json:       string;
+  tags:       string;
+  topic_id:   string;
+  difficulty: string;
+  issues:     string[];
+};
+
+export default function AdminLibraryPage() {
+  const [examFilter,   setExamFilter]   = useState('');
+  const [statusFilter, setStatusFilter] = useState('');
+  const [tagFilter,    setTagFilter]    = useState('');
+  const [candidates,   setCandidates]   = useState<PromotionCandidate[]>([]);
+  const [questions,    setQuestions]    = useState<LibraryQuestion[]>([]);
+  const [promoteTags,  setPromoteTags]  = useState<Record<string, string>>({});
+  const [editing,      setEditing]      = useState<Editing | null>(null);
+  const [loading,      setLoading]      = useState(true);
+  const [busy,         setBusy]         = useState<string | null>(null);
+  const [errorMsg,     setErrorMsg]     = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setErrorMsg(null);
+    try {
+      const qs = new URLSearchParams();
+      if (examFilter)   qs.set('exam', examFilter);
+      if (statusFilter) qs.set('status', statusFilter);
+      if (tagFilter)    qs.set('tag', tagFilter);
+      const [libRes, candRes] = await Promise.all([
+        fetch(`/api/library?${qs}`),
+        fetch(`/api/library/candidates${examFilter ? `?exam=${encodeURIComponent(examFilter)}` : ''}`),
+      ]);
+      const [libData, candData] = await Promise.all([libRes.json(), candRes.json()]);
+      if (!libRes.ok)  throw new Error(libData.error ?? 'Failed to load library');
+      if (!candRes.ok) throw new Error(candData.error ?? 'Failed to load candidates');
+      setQuestions(libData.questions);
+      setCandidates(candData.candidates);
+    } catch (err) {
+      setErrorMsg(err instanceof Error ? err.message : 'Failed to load library');
+    } finally {
+      setLoading(false);
+    }
+  }, [examFilter, statusFilter, tagFilter]);
+
+  useEffect(() => { load(); }, [load]);
+
+  /** Sends a library request; returns the parsed body, or null after showing the error. */
+  const send = async (method: 'POST' | 'PATCH', body: object, key: string) => {
+    setBusy(key);
+    setErrorMsg(null);
+    try {
+      const res  = await fetch('/api/library', {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body:    JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        if (Array.isArray(data.issues)) return { issues: data.issues as string[] };
+        throw new Error(data.error ?? 'Request failed');
+      }
+      return data;
+    } catch (err) {
+      setErrorMsg(err instanceof Error ? err.message : 'Request failed');
+      return null;
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handlePromote = async (c: PromotionCandidate) => {
+    const data = await send('POST', { history_id: c.history_id, tags: parseTags(promoteTags[c.history_id] ?? '') }, c.history_id);
+    if (data?.issues) setErrorMsg(`Question fails validation: ${data.issues.join('; ')}`);
+    else if (data) await load();
+  };
+
+  const handleStatus = async (q: LibraryQuestion, status: LibraryStatus) => {
+    const data = await send('PATCH', { id: q.id, status }, q.id);
+    if (data && !data.issues) setQuestions((prev) => prev.map((x) => (x.id === q.id ? { ...x, status } : x)));
+  };
+
+  const startEdit = (q: LibraryQuestion) => setEditing({
+    id:         q.id,
+    json:       JSON.stringify(q.question, null, 2),
+    tags:       q.tags.join(', '),
+    topic_id:   q.topic_id,
+    difficulty: q.difficulty,
+    issues:     [],
+  });
+
+  const handleSave = async () => {
+    if (!editing) return;
+    let question: unknown;
+    try { question = JSON.parse(editing.json); }
+    catch { setEditing({ ...editing, issues: ['Question is not valid JSON'] }); return; }
+
+    const data = await send('PATCH', {
+      id:         editing.id,
+      question,
+      tags:       parseTags(editing.tags),
+      topic_id:   editing.topic_id,
+      difficulty: editing.difficulty,
+    }, editing.id);
+    if (data?.issues) setEditing({ ...editing, issues: data.issues });
+    else if (data) { setEditing(null); await load(); }
+  };
+
+  const examTitle = (id: string) => EXAM_LIST.find((e) => e.id === id)?.title ?? id;
+  const topicName = (examId: string, topicId: string) =>
+    EXAMS_CONFIG[examId]?.topics.find((t) => t.id === topicId)?.name ?? topicId;
+
+  const selectClass = `bg-secondary border border-border rounded-xl px-4 py-3 text-sm text-foreground
+                       focus:outline-none focus:ring-1 focus:ring-primary`;
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card/50 backdrop-blur-sm sticky top-0 z-10">
+        <div className="max-w-5xl mx-auto px-4 py-3 flex items-center gap-2">
+          <Link href="/dashboard" className="text-muted-foreground hover:text-foreground text-sm transition-colors shrink-0">
+            ← Dashboard
+          </Link>
+          <span className="text-border hidden sm:block">|</span>
+          <span className="text-sm font-medium text-foreground hidden sm:block">Admin — Question Library</span>
+          <Link href="/admin/moderation" className="ml-auto text-xs text-muted-foreground hover:text-foreground transition-colors">
+            Moderation →
+          </Link>
+          <Link href="/admin/documents" className="text-xs text-muted-foreground hover:text-foreground transition-colors">
+            Documents →
+          </Link>
+          <Link href="/admin/import" className="text-xs text-muted-foreground hover:text-foreground transition-colors">
+            Import →
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 py-10 space-y-8">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Question Library</h1>
+          <p className="text-muted-foreground text-sm mt-1">
+            Curated questions kept permanently. Approved ones are mixed into generated questions
+            (curatedShare in the exam config); thumbs-upped questions can be promoted below.
+          </p>
+        </div>
+
+        {/* Filters */}
+        <div className="grid sm:grid-cols-3 gap-3">
+          <select value={examFilter} onChange={(e) => setExamFilter(e.target.value)} className={selectClass}>
+            <option value="">All exams</option>
+            {EXAM_LIST.map((e) => (
+              <option key={e.id} value={e.id}>{e.title}</option>
+            ))}
+          </select>
+          <select value={statusFilter} onChange={(e) => setStatusFilter(e.target.value)} className={selectClass}>
+            <option value="">Any status</option>
+            {STATUSES.map((s) => <option key={s} value={s}>{s}</option>)}
+          </select>
+          <input
+            value={tagFilter}
+            onChange={(e) => setTagFilter(e.target.value)}
+            placeholder="Filter by tag"
+            className={selectClass}
+          />
+        </div>
+
+        {errorMsg && (
+          <p className="text-xs text-destructive bg-destructive/10 px-3 py-2 rounded-lg">{errorMsg}</p>
+        )}
+
+        {loading ? (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <span className="w-3 h-3 border-2 border-muted/30 border-t-muted rounded-full animate-spin" />
+            Loading library...
+          </div>
+        ) : (
+          <>
+            {/* Promotion candidates */}
+            <section className="space-y-3">
+              <h2 className="text-sm font-semibold text-foreground">
+                Thumbs-up candidates <span className="text-muted-foreground font-normal">({candidates.length})</span>
+              </h2>
+              {candidates.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No thumbs-upped questions waiting for review.</p>
+              ) : candidates.map((c) => (
+                <div key={c.history_id} className="p-4 rounded-xl border border-border bg-card space-y-2">
+                  <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
+                    <span>{examTitle(c.exam_name)}</span>
+                    <span>· {c.topic}</span>
+                    <span>· {c.difficulty}</span>
+                    <span className="font-mono">· {c.model_used ?? '—'}{c.prompt_version ? ` / ${c.prompt_version}` : ''}</span>
+                  </div>
+                  <p className="text-sm text-foreground whitespace-pre-wrap line-clamp-4">{c.question.question_en}</p>
+                  {c.feedback_notes && (
+                    <p className="text-xs text-muted-foreground italic">“{c.feedback_notes}”</p>
+                  )}
+                  <div className="flex gap-2">
+                    <input
+                      value={promoteTags[c.history_id] ?? ''}
+                      onChange={(e) => setPromoteTags((prev) => ({ ...prev, [c.history_id]: e.target.value }))}
+                      placeholder="tags, comma separated"
+                      className="flex-1 bg-secondary border border-border rounded-lg px-3 py-1.5 text-xs text-foreground"
+                    />
+                    <button
+                      onClick={() => handlePromote(c)}
+                      disabled={busy === c.history_id}
+                      className="px-3 py-1.5 rounded-lg bg-primary text-primary-foreground text-xs font-medium disabled:opacity-50"
+                    >
+                      {busy === c.history_id ? 'Promoting...' : 'Promote'}
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </section>
+
+            {/* Library */}
+            <section className="space-y-3">
+              <h2 className="text-sm font-semibold text-foreground">
+                Library <span className="text-muted-foreground font-normal">({questions.length})</span>
+              </h2>
+              {questions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No library questions match the filters.</p>
+              ) : questions.map((q) => (
+                <div key={q.id} className="p-4 rounded-xl border border-border bg-card space-y-2">
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                    <span>{examTitle(q.exam_name)}</span>
+                    <span>· {topicName(q.exam_name, q.topic_id)}</span>
+                    <span>· {q.difficulty}</span>
+                    <span>· {q.source}</span>
+                    <span className={`font-semibold ${STATUS_STYLE[q.status]}`}>· {q.status}</span>
+                    <span className="ml-auto">edited by {q.updated_by}</span>
+                  </div>
+                  <p className="text-sm text-foreground whitespace-pre-wrap line-clamp-4">{q.question.question_en}</p>
+                  {q.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {q.tags.map((t) => (
+                        <button
+                          key={t}
+                          onClick={() => setTagFilter(t)}
+                          className="px-2 py-0.5 rounded-full bg-secondary text-xs text-muted-foreground hover:text-foreground"
+                        >
+                          #{t}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+
+                  {editing?.id === q.id ? (
+                    <div className="space-y-2 pt-2">
+                      <div className="grid sm:grid-cols-3 gap-2">
+                        <select
+                          value={editing.topic_id}
+                          onChange={(e) => setEditing({ ...editing, topic_id: e.target.value })}
+                          className="bg-secondary border border-border rounded-lg px-3 py-1.5 text-xs text-foreground"
+                        >
+                          {(EXAMS_CONFIG[q.exam_name]?.topics ?? []).map((t) => (
+                            <option key={t.id} value={t.id}>{t.name}</option>
+                          ))}
+                        </select>
+                        <select
+                          value={editing.difficulty}
+                          onChange={(e) => setEditing({ ...editing, difficulty: e.target.value })}
+                          className="bg-secondary border border-border rounded-lg px-3 py-1.5 text-xs text-foreground"
+                        >
+                          {['easy', 'medium', 'hard'].map((d) => <option key={d} value={d}>{d}</option>)}
+                        </select>
+                        <input
+                          value={editing.tags}
+                          onChange={(e) => setEditing({ ...editing, tags: e.target.value })}
+                          placeholder="tags, comma separated"
+                          className="bg-secondary border border-border rounded-lg px-3 py-1.5 text-xs text-foreground"
+                        />
+                      </div>
+                      <textarea
+                        value={editing.json}
+                        onChange={(e) => setEditing({ ...editing, json: e.target.value })}
+                        rows={18}
+                        spellCheck={false}
+                        className="w-full bg-secondary border border-border rounded-lg p-3 font-mono text-xs text-foreground"
+                      />
+                      {editing.issues.length > 0 && (
+                        <ul className="text-xs text-destructive bg-destructive/10 px-3 py-2 rounded-lg list-disc list-inside">
+                          {editing.issues.map((issue) => <li key={issue}>{issue}</li>)}
+                        </ul>
+                      )}
+                      <div className="flex gap-2 justify-end">
+                        <button onClick={() => setEditing(null)} className="px-3 py-1.5 text-xs text-muted-foreground hover:text-foreground">
+                          Cancel
+                        </button>
+                        <button
+                          onClick={handleSave}
+                          disabled={busy === q.id}
+                          className="px-3 py-1.5 rounded-lg bg-primary text-primary-foreground text-xs font-medium disabled:opacity-50"
+                        >
+                          {busy === q.id ? 'Saving...' : 'Save'}
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-2 justify-end">
+                      <select
+                        value={q.status}
+                        onChange={(e) => handleStatus(q, e.target.value as LibraryStatus)}
+                        disabled={busy === q.id}
+                        className="bg-secondary border border-border rounded-lg px-2 py-1 text-xs text-foreground"
+                      >
+                        {STATUSES.map((s) => <option key={s} value={s}>{s}</option>)}
+                      </select>
+                      <button onClick={() => startEdit(q)} className="text-xs text-primary hover:underline">
+                        Edit
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </section>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
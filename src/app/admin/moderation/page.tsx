@@ -0,0 +1,253 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { EXAM_LIST } from '@/config/exams';
+import { VisualContextBlock } from '@/components/QuestionCard';
+import type { ModerationOutcome, ReportedQuestion } from '@/app/api/moderation/route';
+
+type Draft = {
+  letters:     string[];
+  explanation: string;
+  note:        string;
+};
+
+const emptyDraft = (q: ReportedQuestion): Draft => ({
+  letters:     q.stats.options.filter((o) => o.is_key).map((o) => o.letter),
+  explanation: '',
+  note:        '',
+});
+
+export default function AdminModerationPage() {
+  const [questions, setQuestions] = useState<ReportedQuestion[]>([]);
+  const [drafts,    setDrafts]    = useState<Record<string, Draft>>({});
+  const [loading,   setLoading]   = useState(true);
+  const [busy,      setBusy]      = useState<string | null>(null);
+  const [errorMsg,  setErrorMsg]  = useState<string | null>(null);
+  const [resultMsg, setResultMsg] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setErrorMsg(null);
+    try {
+      const res  = await fetch('/api/moderation');
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? 'Failed to load the moderation queue');
+      setQuestions(data.questions);
+      setDrafts(Object.fromEntries(data.questions.map((q: ReportedQuestion) => [q.question_key, emptyDraft(q)])));
+    } catch (err) {
+      setErrorMsg(err instanceof Error ? err.message : 'Failed to load the moderation queue');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => { load(); }, [load]);
+
+  const updateDraft = (key: string, patch: Partial<Draft>) =>
+    setDrafts((prev) => ({ ...prev, [key]: { ...prev[key], ...patch } }));
+
+  const toggleLetter = (q: ReportedQuestion, letter: string) => {
+    const current = drafts[q.question_key].letters;
+    const single  = q.question_type !== 'multiple';
+    updateDraft(q.question_key, {
+      letters: single
+        ? [letter]
+        : current.includes(letter) ? current.filter((l) => l !== letter) : [...current, letter].sort(),
+    });
+  };
+
+  const act = async (q: ReportedQuestion, action: 'confirm' | 'fix' | 'retire') => {
+    const draft = drafts[q.question_key];
+    if (action === 'retire' && !confirm(q.library_id
+      ? 'Retire this library question? It will no longer be served.'
+      : 'Close the reports of this one-off question?')) return;
+
+    setBusy(q.question_key);
+    setErrorMsg(null);
+    setResultMsg(null);
+    try {
+      const res  = await fetch('/api/moderation', {
+        method:  'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body:    JSON.stringify({
+          action,
+          question_key:         q.question_key,
+          reference_history_id: q.reference_history_id,
+          letters:              action === 'fix' ? draft.letters : undefined,
+          explanation_pt:       action === 'fix' && draft.explanation.trim() ? draft.explanation : undefined,
+          note:                 draft.note,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? 'Moderation failed');
+      const outcome = data as ModerationOutcome;
+      setResultMsg(action === 'fix'
+        ? `Key fixed — ${outcome.regraded} answer(s) re-graded, ${outcome.sessions} session score(s) updated, ${outcome.notified} learner notification(s) sent.`
+        : action === 'confirm' ? 'Key confirmed — reports closed.' : 'Question retired.');
+      setQuestions((prev) => prev.filter((x) => x.question_key !== q.question_key));
+    } catch (err) {
+      setErrorMsg(err instanceof Error ? err.message : 'Moderation failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const examTitle = (id: string) => EXAM_LIST.find((e) => e.id === id)?.title ?? id;
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card/50 backdrop-blur-sm sticky top-0 z-10">
+        <div className="max-w-5xl mx-auto px-4 py-3 flex items-center gap-2">
+          <Link href="/dashboard" className="text-muted-foreground hover:text-foreground text-sm transition-colors shrink-0">
+            ← Dashboard
+          </Link>
+          <span className="text-border hidden sm:block">|</span>
+          <span className="text-sm font-medium text-foreground hidden sm:block">Admin — Moderation</span>
+          <Link href="/admin/library" className="ml-auto text-xs text-muted-foreground hover:text-foreground transition-colors">
+            Question library →
+          </Link>
+          <Link href="/admin/disputes" className="text-xs text-muted-foreground hover:text-foreground transition-colors">
+            Disputes →
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 py-10 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Moderation Queue</h1>
+          <p className="text-muted-foreground text-sm mt-1">
+            Questions with thumbs-down reports since their last review. Fixing the key re-grades every answer,
+            updates finished session scores and notifies the learners whose result changed.
+          </p>
+        </div>
+
+        {errorMsg && (
+          <p className="text-xs text-destructive bg-destructive/10 px-3 py-2 rounded-lg">{errorMsg}</p>
+        )}
+        {resultMsg && (
+          <p className="text-xs text-emerald-400 bg-emerald-500/10 px-3 py-2 rounded-lg">{resultMsg}</p>
+        )}
+
+        {loading ? (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <span className="w-3 h-3 border-2 border-muted/30 border-t-muted rounded-full animate-spin" />
+            Loading reports...
+          </div>
+        ) : questions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No open reports. 🎉</p>
+        ) : questions.map((q) => {
+          const draft = drafts[q.question_key] ?? emptyDraft(q);
+          const isBusy = busy === q.question_key;
+          return (
+            <div key={q.question_key} className="p-5 rounded-xl border border-border bg-card space-y-4">
+              <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
+                <span>{examTitle(q.exam_name)}</span>
+                <span>· {q.topic}</span>
+                <span>· {q.difficulty}</span>
+                <span>· {q.question_type === 'multiple' ? `choose ${q.question.select_count}` : 'single answer'}</span>
+                {q.library_id && <span className="text-primary">· library</span>}
+                <span className="ml-auto">
+                  {q.reports.length} report(s) · {q.stats.answers} answer(s) · {q.stats.accuracy_pct}% correct
+                </span>
+              </div>
+
+              <p className="text-sm text-foreground whitespace-pre-wrap font-mono">{q.question.question_en}</p>
+              {q.question.visual_context.length > 0 && <VisualContextBlock vc={q.question.visual_context} />}
+
+              {/* Options with answer distribution; the checkboxes are the key to apply on "Fix key" */}
+              <div className="space-y-1.5">
+                {q.stats.options.map((o) => {
+                  const share = q.stats.answers > 0 ? Math.round(o.picks / q.stats.answers * 100) : 0;
+                  return (
+                    <label
+                      key={o.letter}
+                      className={`flex items-start gap-3 p-2 rounded-lg border text-sm cursor-pointer
+                                  ${o.is_key ? 'border-emerald-500/40 bg-emerald-500/5' : 'border-border'}`}
+                    >
+                      <input
+                        type={q.question_type === 'multiple' ? 'checkbox' : 'radio'}
+                        name={`key-${q.question_key}`}
+                        checked={draft.letters.includes(o.letter)}
+                        onChange={() => toggleLetter(q, o.letter)}
+                        className="mt-1"
+                      />
+                      <span className="font-mono font-bold text-muted-foreground">{o.letter}</span>
+                      <span className="flex-1 text-foreground">{o.text}</span>
+                      <span className="text-xs font-mono text-muted-foreground whitespace-nowrap">
+                        {o.picks} ({share}%){o.is_key && ' ✓ key'}
+                      </span>
+                    </label>
+                  );
+                })}
+              </div>
+
+              <details className="text-xs">
+                <summary className="cursor-pointer text-muted-foreground">Current explanation</summary>
+                <p className="mt-2 text-foreground whitespace-pre-wrap">{q.question.explanation_pt}</p>
+              </details>
+
+              {/* Reports */}
+              <div className="space-y-1">
+                <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">Reports</p>
+                {q.reports.map((r) => (
+                  <p key={r.history_id} className="text-xs text-foreground">
+                    <span className="text-muted-foreground">{r.timestamp.slice(0, 10)} · {r.user_email}:</span>{' '}
+                    {r.feedback_categories.map((c) => (
+                      <span key={c} className="mr-1 px-1.5 py-0.5 rounded bg-secondary font-mono text-muted-foreground">{c}</span>
+                    ))}
+                    {r.feedback_notes
+                      ? `“${r.feedback_notes}”`
+                      : r.feedback_categories.length === 0 && <em className="text-muted-foreground">thumbs down, no note</em>}
+                  </p>
+                ))}
+              </div>
+
+              <div className="grid sm:grid-cols-2 gap-2">
+                <textarea
+                  value={draft.explanation}
+                  onChange={(e) => updateDraft(q.question_key, { explanation: e.target.value })}
+                  placeholder="New explanation (Portuguese, optional — used by Fix key)"
+                  rows={3}
+                  className="bg-secondary border border-border rounded-lg p-2 text-xs text-foreground"
+                />
+                <textarea
+                  value={draft.note}
+                  onChange={(e) => updateDraft(q.question_key, { note: e.target.value })}
+                  placeholder="Moderator note (optional)"
+                  rows={3}
+                  className="bg-secondary border border-border rounded-lg p-2 text-xs text-foreground"
+                />
+              </div>
+
+              <div className="flex gap-2 justify-end">
+                <button
+                  onClick={() => act(q, 'retire')}
+                  disabled={isBusy}
+                  className="px-3 py-1.5 rounded-lg text-xs text-destructive hover:bg-destructive/10 disabled:opacity-50"
+                >
+                  Retire
+                </button>
+                <button
+                  onClick={() => act(q, 'fix')}
+                  disabled={isBusy}
+                  className="px-3 py-1.5 rounded-lg bg-secondary text-xs text-foreground hover:bg-secondary/80 disabled:opacity-50"
+                >
+                  Fix key
+                </button>
+                <button
+                  onClick={() => act(q, 'confirm')}
+                  disabled={isBusy}
+                  className="px-3 py-1.5 rounded-lg bg-primary text-primary-foreground text-xs font-medium disabled:opacity-50"
+                >
+                  {isBusy ? 'Saving...' : 'Confirm key'}
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </main>
+    </div>
+  );
+}
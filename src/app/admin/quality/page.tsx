@@ -0,0 +1,215 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { EXAM_LIST } from '@/config/exams';
+import { FEEDBACK_CATEGORIES } from '@/lib/feedback';
+import { ANSWER_LETTERS } from '@/lib/questionSchema';
+import type { LetterDistributionRow, QualityReport } from '@/app/api/quality/route';
+
+type Letter = (typeof ANSWER_LETTERS)[number];
+
+const servedCount = (row: LetterDistributionRow, l: Letter) =>
+  row[`served_${l.toLowerCase()}` as keyof LetterDistributionRow] as number;
+const modelCount  = (row: LetterDistributionRow, l: Letter) =>
+  row[`model_${l.toLowerCase()}` as keyof LetterDistributionRow] as number;
+
+export default function AdminQualityPage() {
+  const [report,   setReport]   = useState<QualityReport | null>(null);
+  const [loading,  setLoading]  = useState(true);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setErrorMsg(null);
+    try {
+      const res  = await fetch('/api/quality');
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? 'Failed to load the quality report');
+      setReport(data);
+    } catch (err) {
+      setErrorMsg(err instanceof Error ? err.message : 'Failed to load the quality report');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => { load(); }, [load]);
+
+  const examTitle = (id: string) => EXAM_LIST.find((e) => e.id === id)?.title ?? id;
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card/50 backdrop-blur-sm sticky top-0 z-10">
+        <div className="max-w-5xl mx-auto px-4 py-3 flex items-center gap-2">
+          <Link href="/dashboard" className="text-muted-foreground hover:text-foreground text-sm transition-colors shrink-0">
+            ← Dashboard
+          </Link>
+          <span className="text-border hidden sm:block">|</span>
+          <span className="text-sm font-medium text-foreground hidden sm:block">Admin — Quality</span>
+          <Link href="/admin/moderation" className="ml-auto text-xs text-muted-foreground hover:text-foreground transition-colors">
+            Moderation queue →
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 py-10 space-y-8">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Question Quality</h1>
+          <p className="text-muted-foreground text-sm mt-1">
+            Ratings, reports and answer keys across every learner — the read-out of prompt experiments,
+            of report categories per model and of answer shuffling.
+          </p>
+        </div>
+
+        {errorMsg && (
+          <p className="text-xs text-destructive bg-destructive/10 px-3 py-2 rounded-lg">{errorMsg}</p>
+        )}
+
+        {loading ? (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <span className="w-3 h-3 border-2 border-muted/30 border-t-muted rounded-full animate-spin" />
+            Loading the quality report...
+          </div>
+        ) : report && (
+          <>
+            {/* ── AI Quality per prompt version (A/B) ── */}
+            <div>
+              <h2 className="text-lg font-semibold text-foreground mb-3">Ratings by Prompt Version</h2>
+              <p className="text-xs text-muted-foreground mb-3">
+                Thumbs up/down per question template version and model — compare the arms of an A/B
+                experiment on the same model.
+              </p>
+              {report.ai_quality_by_prompt.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No ratings yet.</p>
+              ) : (
+                <div className="rounded-xl border border-border overflow-hidden">
+                  <table className="w-full text-sm">
+                    <thead className="bg-secondary/50">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-muted-foreground font-medium">Prompt</th>
+                        <th className="px-4 py-3 text-left text-muted-foreground font-medium">Model</th>
+                        <th className="px-4 py-3 text-center text-muted-foreground font-medium">Up</th>
+                        <th className="px-4 py-3 text-center text-muted-foreground font-medium">Down</th>
+                        <th className="px-4 py-3 text-center text-muted-foreground font-medium">Approval</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-border">
+                      {report.ai_quality_by_prompt.map((row, i) => (
+                        <tr key={i} className="bg-card hover:bg-secondary/20 transition-colors">
+                          <td className="px-4 py-3 font-mono text-xs text-foreground">{row.prompt_version}</td>
+                          <td className="px-4 py-3 font-mono text-xs text-primary">{row.gemini_model_used}</td>
+                          <td className="px-4 py-3 text-center text-green-400">{row.thumbs_up}</td>
+                          <td className="px-4 py-3 text-center text-red-400">{row.thumbs_down}</td>
+                          <td className="px-4 py-3 text-center text-muted-foreground">
+                            {row.total_rated > 0 ? `${Math.round(row.thumbs_up / row.total_rated * 100)}%` : '—'}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+
+            {/* ── Report categories per exam / prompt / model ── */}
+            <div>
+              <h2 className="text-lg font-semibold text-foreground mb-3">Reports by Category</h2>
+              <p className="text-xs text-muted-foreground mb-3">
+                Report categories per exam, prompt version and model, and the explanation ratings
+                (helpful / not helpful).
+              </p>
+              {report.feedback_breakdown.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No reports yet.</p>
+              ) : (
+                <div className="rounded-xl border border-border overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-secondary/50">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-muted-foreground font-medium">Exam</th>
+                        <th className="px-4 py-3 text-left text-muted-foreground font-medium">Prompt</th>
+                        <th className="px-4 py-3 text-left text-muted-foreground font-medium">Model</th>
+                        <th className="px-4 py-3 text-center text-muted-foreground font-medium">Down</th>
+                        {FEEDBACK_CATEGORIES.map((c) => (
+                          <th key={c} className="px-3 py-3 text-center text-muted-foreground font-medium font-mono text-xs">{c}</th>
+                        ))}
+                        <th className="px-4 py-3 text-center text-muted-foreground font-medium">Explanation</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-border">
+                      {report.feedback_breakdown.map((row, i) => (
+                        <tr key={i} className="bg-card hover:bg-secondary/20 transition-colors">
+                          <td className="px-4 py-3 text-foreground">{examTitle(row.exam_name)}</td>
+                          <td className="px-4 py-3 font-mono text-xs text-foreground">{row.prompt_version}</td>
+                          <td className="px-4 py-3 font-mono text-xs text-primary">{row.gemini_model_used}</td>
+                          <td className="px-4 py-3 text-center text-red-400">{row.thumbs_down}</td>
+                          {FEEDBACK_CATEGORIES.map((c) => (
+                            <td key={c} className={`px-3 py-3 text-center ${row[c] > 0 ? 'text-foreground' : 'text-muted-foreground'}`}>
+                              {row[c]}
+                            </td>
+                          ))}
+                          <td className="px-4 py-3 text-center text-xs whitespace-nowrap">
+                            <span className="text-green-400">{row.explanation_up}</span>
+                            <span className="text-muted-foreground"> / </span>
+                            <span className="text-red-400">{row.explanation_down}</span>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+
+            {/* ── Answer-key letter distribution ── */}
+            <div>
+              <h2 className="text-lg font-semibold text-foreground mb-3">Answer-Key Letters</h2>
+              <p className="text-xs text-muted-foreground mb-3">
+                Single-answer questions per model. Options are shuffled on the server, so &quot;Served&quot; should
+                spread evenly over the letters in use even when &quot;Model&quot; shows a preference.
+              </p>
+              {report.correct_letter_distribution.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No answers yet.</p>
+              ) : (
+                <div className="rounded-xl border border-border overflow-hidden">
+                  <table className="w-full text-sm">
+                    <thead className="bg-secondary/50">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-muted-foreground font-medium">Model</th>
+                        <th className="px-4 py-3 text-left text-muted-foreground font-medium">Key</th>
+                        {ANSWER_LETTERS.map((l) => (
+                          <th key={l} className="px-4 py-3 text-center text-muted-foreground font-medium">{l}</th>
+                        ))}
+                        <th className="px-4 py-3 text-center text-muted-foreground font-medium">Total</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-border">
+                      {report.correct_letter_distribution.flatMap((row, i) => [
+                        { key: `${i}-served`, label: 'Served', total: row.total,
+                          counts: ANSWER_LETTERS.map((l) => servedCount(row, l)) },
+                        { key: `${i}-model`,  label: 'Model',  total: row.model_total,
+                          counts: ANSWER_LETTERS.map((l) => modelCount(row, l)) },
+                      ].map((line, j) => (
+                        <tr key={line.key} className="bg-card hover:bg-secondary/20 transition-colors">
+                          <td className="px-4 py-3 font-mono text-xs text-primary">{j === 0 ? row.gemini_model_used : ''}</td>
+                          <td className="px-4 py-3 text-xs text-muted-foreground">{line.label}</td>
+                          {line.counts.map((n, k) => (
+                            <td key={k} className="px-4 py-3 text-center text-foreground">
+                              {line.total > 0 ? `${Math.round((n / line.total) * 100)}%` : '—'}
+                            </td>
+                          ))}
+                          <td className="px-4 py-3 text-center text-muted-foreground">{line.total}</td>
+                        </tr>
+                      )))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
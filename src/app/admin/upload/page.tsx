@@ -9,7 +9,7 @@ type UploadState = 'idle' | 'uploading' | 'success' | 'error';
 type UploadResult = {
   exam_name:         string;
   doc_type:          string;
-  gcs_uri:           string;
+  source_uri:        string;
   extraction_method: string;
   total_chunks:      number;
   inserted_chunks:   number;
@@ -53,7 +53,7 @@ export default function AdminUploadPage() {
     setUploadState('uploading');
     setErrorMsg(null);
     setResult(null);
-    setProgress('Uploading to GCS...');
+    setProgress('Archiving PDF...');
 
     const form = new FormData();
     form.append('file',      file);
@@ -102,6 +102,12 @@ export default function AdminUploadPage() {
           </Link>
           <span className="text-border hidden sm:block">|</span>
           <span className="text-sm font-medium text-foreground hidden sm:block">Admin — Upload</span>
+          <Link href="/admin/documents" className="ml-auto text-xs text-muted-foreground hover:text-foreground transition-colors">
+            Manage documents →
+          </Link>
+          <Link href="/admin/import" className="text-xs text-muted-foreground hover:text-foreground transition-colors">
+            Import questions →
+          </Link>
         </div>
       </header>
 
@@ -269,8 +275,8 @@ export default function AdminUploadPage() {
             </div>
 
             <div className="bg-background/50 rounded-lg p-3">
-              <p className="text-xs text-muted-foreground mb-0.5">GCS URI</p>
-              <p className="text-xs font-mono text-foreground break-all">{result.gcs_uri}</p>
+              <p className="text-xs text-muted-foreground mb-0.5">Archive URI</p>
+              <p className="text-xs font-mono text-foreground break-all">{result.source_uri}</p>
             </div>
           </div>
         )}
@@ -278,7 +284,7 @@ export default function AdminUploadPage() {
         {/* Info Panel */}
         <div className="p-4 rounded-xl border border-border bg-card text-xs text-muted-foreground space-y-1.5">
           <p className="font-semibold text-foreground text-xs uppercase tracking-wide">Pipeline</p>
-          <p>1. PDF → GCS bucket (<code className="font-mono">gs://br-ventasbrasil-cld-01-exam-docs</code>)</p>
+          <p>1. PDF → archive (<code className="font-mono">gs://</code> bucket or <code className="font-mono">file://</code> directory, per <code className="font-mono">STORAGE_BACKEND</code>)</p>
           <p>2. MuPDF text extraction (Vision OCR fallback if &lt; 200 chars)</p>
           <p>3. Chunking: 1 000 chars / 200 overlap via LangChain</p>
           <p>4. BigQuery INSERT with <code className="font-mono">ML.GENERATE_EMBEDDING</code> via <code className="font-mono">vertex_conn</code></p>
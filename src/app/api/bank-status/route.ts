@@ -1,8 +1,10 @@
-// Simple admin endpoint to check bank depth across all keys
+// Simple admin endpoint to check bank depth across all keys, plus the
+// per-model question validation counters (failure reasons, repairs)
 import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
 import { getBankStats } from '@/lib/questionBank';
+import { getValidationStats } from '@/lib/vertexai';
 
 export const runtime = 'nodejs';
 
@@ -11,5 +13,9 @@ export async function GET() {
   if (!session?.user?.email) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
-  return NextResponse.json({ bank: getBankStats(), ts: new Date().toISOString() });
+  return NextResponse.json({
+    bank:       await getBankStats(),
+    validation: getValidationStats(),
+    ts:         new Date().toISOString(),
+  });
 }
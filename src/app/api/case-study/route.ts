@@ -0,0 +1,140 @@
+// =============================================================================
+// EdTechia — POST /api/case-study
+// Case-study mode: generates one shared scenario plus N linked questions
+// (lib/caseStudy.ts), records the case and every question server-side, and
+// returns the questions with signed tokens — graded one by one through
+// /api/save-result exactly like standalone questions. Answers carry the
+// case_id into question_history.
+// Body: { exam_id, difficulty?, question_count?, session_id? }
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { getRepository } from '@/lib/repository';
+import { getExamConfig } from '@/config/exams';
+import { generateCaseStudy, DEFAULT_CASE_QUESTIONS, MAX_CASE_QUESTIONS } from '@/lib/caseStudy';
+import { DIFFICULTY_ERROR, isDifficulty } from '@/lib/difficulty';
+import { fingerprintQuestion } from '@/lib/dedup';
+import { shuffleQuestionOptions } from '@/lib/shuffle';
+import { signQuestionToken } from '@/lib/questionToken';
+import { toPublicQuestion } from '@/lib/vertexai';
+import type { PublicQuestion } from '@/lib/vertexai';
+import type { CaseStudyPublic } from '@/lib/questionSchema';
+import { v4 as uuidv4 } from 'uuid';
+
+export const runtime = 'nodejs';
+
+export type CaseStudyResponse = {
+  exam_id:    string;
+  exam_title: string;
+  difficulty: string;
+  session_id: string | null;
+  model_used: string;
+  case:       CaseStudyPublic;
+  questions:  Array<{
+    topic_id:       string;
+    topic_name:     string;
+    question:       PublicQuestion;
+    question_token: string;
+  }>;
+};
+
+export async function POST(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const userEmail = session.user.email;
+
+  const body = await req.json().catch(() => null);
+  if (!body?.exam_id) {
+    return NextResponse.json({ error: 'exam_id is required' }, { status: 400 });
+  }
+  const { exam_id, difficulty = 'medium', question_count, session_id } = body;
+  if (!isDifficulty(difficulty)) {
+    return NextResponse.json({ error: DIFFICULTY_ERROR }, { status: 400 });
+  }
+  // A requested count must be in range; CASE_STUDY_QUESTIONS is clamped by generateCaseStudy
+  const questionCount = question_count ?? DEFAULT_CASE_QUESTIONS;
+  if (question_count != null &&
+      (!Number.isInteger(question_count) || question_count < 1 || question_count > MAX_CASE_QUESTIONS)) {
+    return NextResponse.json(
+      { error: `question_count must be a whole number from 1 to ${MAX_CASE_QUESTIONS}` },
+      { status: 400 }
+    );
+  }
+
+  let examConfig;
+  try { examConfig = getExamConfig(exam_id); }
+  catch { return NextResponse.json({ error: `Unknown exam_id: ${exam_id}` }, { status: 400 }); }
+
+  let generated;
+  try {
+    generated = await generateCaseStudy(examConfig, difficulty, questionCount);
+  } catch (err) {
+    console.error('[case-study] Generation failed:', err);
+    return NextResponse.json(
+      { error: 'AI generation failed', detail: err instanceof Error ? err.message : String(err) },
+      { status: 502 }
+    );
+  }
+
+  const repo   = getRepository();
+  const caseId = uuidv4();
+  const questions: CaseStudyResponse['questions'] = [];
+
+  try {
+    await repo.recordCaseStudy({
+      id:             caseId,
+      user_email:     userEmail,
+      exam_name:      exam_id,
+      title:          generated.title,
+      scenario_en:    generated.scenario_en,
+      difficulty,
+      model_used:     generated.modelUsed,
+      question_count: generated.questions.length,
+    });
+
+    for (const q of generated.questions) {
+      const shuffled = shuffleQuestionOptions(q.question, q.verification);
+      const servedId = uuidv4();
+      await repo.recordServedQuestion({
+        id:                   servedId,
+        user_email:           userEmail,
+        exam_name:            exam_id,
+        topic:                q.topic.name,
+        difficulty,
+        generated_question:   shuffled.question,
+        model_used:           generated.modelUsed,
+        model_correct_letter: shuffled.modelCorrectLetter,
+        answered:             false,
+        ...await fingerprintQuestion(q.question),
+        verification:         shuffled.verification,
+        case_id:              caseId,
+        prompt_version:       generated.promptVersion,
+        library_id:           null,
+      });
+      questions.push({
+        topic_id:       q.topic.id,
+        topic_name:     q.topic.name,
+        question:       toPublicQuestion(shuffled.question),
+        question_token: signQuestionToken(servedId, userEmail),
+      });
+    }
+  } catch (err) {
+    console.error('[case-study] Failed to record case study:', err);
+    return NextResponse.json({ error: 'Failed to record case study' }, { status: 500 });
+  }
+
+  const response: CaseStudyResponse = {
+    exam_id,
+    exam_title: examConfig.title,
+    difficulty,
+    session_id: session_id ?? null,
+    model_used: generated.modelUsed,
+    case:       { id: caseId, title: generated.title, scenario_en: generated.scenario_en },
+    questions,
+  };
+  return NextResponse.json(response);
+}
@@ -0,0 +1,169 @@
+// =============================================================================
+// EdTechia — POST /api/cli-challenge/command
+// Runs one learner command against a CLI challenge (lib/cliChallenge.ts) and
+// appends it to the attempt's transcript. The attempt ends when a command
+// fixes the scenario (solved), the command limit is reached (exhausted) or the
+// learner gives up (abandoned); it is then written to question_history once
+// and the canonical fix and explanation are revealed. Concurrent commands on
+// one attempt: the transcript is written only over the version that was read,
+// so the later request gets 409 instead of overwriting the earlier command.
+// Body: { question_token, command } or { question_token, give_up: true }
+// Returns: CliCommandResult
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { getRepository } from '@/lib/repository';
+import type { CliAttempt, ServedQuestion } from '@/lib/repository';
+import { verifyQuestionToken } from '@/lib/questionToken';
+import { commandsUsed, runCliCommand, MAX_CLI_COMMANDS, MAX_COMMAND_CHARS } from '@/lib/cliChallenge';
+import { isCliChallenge } from '@/lib/questionSchema';
+import type { CliAttemptStatus, CliChallenge, CliCommandResult, CliTranscriptEntry } from '@/lib/questionSchema';
+import { v4 as uuidv4 } from 'uuid';
+
+export const runtime = 'nodejs';
+
+/** Writes the finished attempt to question_history as row `rowId`. */
+async function recordOutcome(
+  served: ServedQuestion & { generated_question: CliChallenge },
+  attempt: CliAttempt,
+  transcript: CliTranscriptEntry[],
+  status: CliAttemptStatus,
+  rowId: string,
+  sessionId: string | null,
+): Promise<void> {
+  const repo    = getRepository();
+  const winning = transcript.find((e) => e.fixes);
+  if (!(await repo.claimServedQuestion(served.id, attempt.user_email))) {
+    throw new Error(`CLI challenge ${served.id} was already recorded`);
+  }
+  try {
+    await repo.insertHistory({
+      id:                 rowId,
+      session_id:         sessionId,
+      user_email:         attempt.user_email,
+      exam_name:          served.exam_name,
+      topic:              served.topic,
+      difficulty:         served.difficulty,
+      generated_question: served.generated_question,
+      question_type:      'cli_challenge',
+      user_answer:        winning?.command ?? '',
+      correct_letter:     '',
+      is_correct:         status === 'solved',
+      score:              null,
+      grading:            null,
+      model_used:         served.model_used,
+      model_correct_letter: null,
+      time_taken_seconds: Math.round((Date.now() - Date.parse(attempt.started_at)) / 1000),
+      verification:       null,
+      case_id:            null,
+      prompt_version:     served.prompt_version ?? null,
+      library_id:         served.library_id ?? null,
+    });
+  } catch (err) {
+    await repo.releaseServedQuestion(served.id, attempt.user_email)
+      .catch((releaseErr) => console.error('[cli-challenge] Release failed:', releaseErr));
+    throw err;
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => null);
+  if (!body?.question_token) {
+    return NextResponse.json({ error: 'question_token is required' }, { status: 400 });
+  }
+  const giveUp  = body.give_up === true;
+  const command = typeof body.command === 'string' ? body.command.trim() : '';
+  if (!giveUp && !command) {
+    return NextResponse.json({ error: 'command is required' }, { status: 400 });
+  }
+  if (command.length > MAX_COMMAND_CHARS) {
+    return NextResponse.json({ error: `command must have at most ${MAX_COMMAND_CHARS} characters` }, { status: 400 });
+  }
+
+  const userEmail = session.user.email;
+  const servedId  = verifyQuestionToken(body.question_token, userEmail);
+  if (!servedId) {
+    return NextResponse.json({ error: 'Invalid question token' }, { status: 403 });
+  }
+
+  const repo = getRepository();
+  const [served, attempt] = await Promise.all([
+    repo.getServedQuestion(servedId, userEmail),
+    repo.getCliAttempt(servedId, userEmail),
+  ]);
+  if (!served || !attempt) {
+    return NextResponse.json({ error: 'Challenge not found' }, { status: 404 });
+  }
+  const challenge = served.generated_question;
+  if (!isCliChallenge(challenge)) {
+    return NextResponse.json({ error: 'Not a CLI challenge' }, { status: 400 });
+  }
+  if (attempt.status !== 'active') {
+    return NextResponse.json({ error: 'Challenge already finished' }, { status: 409 });
+  }
+
+  let entry: CliTranscriptEntry | null = null;
+  if (!giveUp) {
+    try {
+      entry = await runCliCommand(challenge, attempt.transcript, command);
+    } catch (err) {
+      console.error('[cli-challenge] Simulator failed:', err);
+      return NextResponse.json(
+        { error: 'Terminal simulator unavailable', detail: err instanceof Error ? err.message : String(err) },
+        { status: 502 }
+      );
+    }
+  }
+
+  const transcript = entry ? [...attempt.transcript, entry] : attempt.transcript;
+  const used       = commandsUsed(transcript);
+  const status: CliAttemptStatus =
+    entry?.fixes ? 'solved'
+    : giveUp ? 'abandoned'
+    : used >= MAX_CLI_COMMANDS ? 'exhausted'
+    : 'active';
+
+  const historyId = status === 'active' ? null : uuidv4();
+  try {
+    const written = await repo.updateCliAttempt(servedId, userEmail, attempt.version, { status, transcript, history_id: historyId });
+    if (!written) {
+      return NextResponse.json({ error: 'Another command updated this challenge at the same time — try again' }, { status: 409 });
+    }
+  } catch (err) {
+    console.error('[cli-challenge] Failed to save attempt:', err);
+    return NextResponse.json({ error: 'Failed to save attempt' }, { status: 500 });
+  }
+
+  if (historyId) {
+    try {
+      await recordOutcome({ ...served, generated_question: challenge }, attempt, transcript, status, historyId, body.session_id ?? null);
+    } catch (err) {
+      console.error('[cli-challenge] Failed to record outcome:', err);
+      // Reopen the attempt at the state that was read, so the learner can retry
+      await repo.updateCliAttempt(servedId, userEmail, attempt.version + 1, {
+        status:     'active',
+        transcript: attempt.transcript,
+        history_id: null,
+      }).catch((reopenErr) => console.error('[cli-challenge] Reopen failed:', reopenErr));
+      return NextResponse.json({ error: 'Failed to save attempt' }, { status: 500 });
+    }
+  }
+
+  const result: CliCommandResult = {
+    entry,
+    status,
+    commands_used: used,
+    max_commands:  MAX_CLI_COMMANDS,
+    reveal:        status === 'active'
+      ? null
+      : { solution_command: challenge.solution_command, explanation_pt: challenge.explanation_pt },
+  };
+  return NextResponse.json(result);
+}
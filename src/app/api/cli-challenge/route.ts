@@ -0,0 +1,139 @@
+// =============================================================================
+// EdTechia — /api/cli-challenge
+// POST: generates a CLI troubleshooting challenge (lib/cliChallenge.ts),
+//       records it in served_questions plus an empty attempt in cli_attempts,
+//       and returns the public briefing with a signed token. Commands go to
+//       /api/cli-challenge/command.
+//       Body: { exam_id, topic_id, difficulty?, session_id? }
+// GET:  the user's recent attempts with their transcripts, for review.
+//       Query: ?limit=20
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { getRepository } from '@/lib/repository';
+import type { CliAttempt } from '@/lib/repository';
+import { getExamConfig } from '@/config/exams';
+import { DIFFICULTY_ERROR, isDifficulty } from '@/lib/difficulty';
+import { generateCliChallenge, toPublicCliChallenge, MAX_CLI_COMMANDS } from '@/lib/cliChallenge';
+import { fingerprintQuestion } from '@/lib/dedup';
+import { signQuestionToken } from '@/lib/questionToken';
+import type { PublicCliChallenge } from '@/lib/questionSchema';
+import { v4 as uuidv4 } from 'uuid';
+
+export const runtime = 'nodejs';
+
+export type CliChallengeResponse = {
+  exam_id:        string;
+  exam_title:     string;
+  topic_id:       string;
+  topic_name:     string;
+  difficulty:     string;
+  session_id:     string | null;
+  challenge:      PublicCliChallenge;
+  question_token: string;
+  max_commands:   number;
+  model_used:     string;
+};
+
+export type { CliAttempt };
+
+export async function POST(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const userEmail = session.user.email;
+
+  const body = await req.json().catch(() => null);
+  if (!body?.exam_id || !body?.topic_id) {
+    return NextResponse.json({ error: 'exam_id and topic_id are required' }, { status: 400 });
+  }
+  const { exam_id, topic_id, difficulty = 'medium', session_id } = body;
+  if (!isDifficulty(difficulty)) {
+    return NextResponse.json({ error: DIFFICULTY_ERROR }, { status: 400 });
+  }
+
+  let examConfig;
+  try { examConfig = getExamConfig(exam_id); }
+  catch { return NextResponse.json({ error: `Unknown exam_id: ${exam_id}` }, { status: 400 }); }
+
+  const topic = examConfig.topics.find((t) => t.id === topic_id);
+  if (!topic) {
+    return NextResponse.json({ error: `Unknown topic_id: ${topic_id}` }, { status: 400 });
+  }
+
+  let generated;
+  try {
+    generated = await generateCliChallenge(examConfig, topic, difficulty);
+  } catch (err) {
+    console.error('[cli-challenge] Generation failed:', err);
+    return NextResponse.json(
+      { error: 'AI generation failed', detail: err instanceof Error ? err.message : String(err) },
+      { status: 502 }
+    );
+  }
+
+  const repo     = getRepository();
+  const servedId = uuidv4();
+  try {
+    await repo.recordServedQuestion({
+      id:                   servedId,
+      user_email:           userEmail,
+      exam_name:            exam_id,
+      topic:                topic.name,
+      difficulty,
+      generated_question:   generated.challenge,
+      model_used:           generated.modelUsed,
+      model_correct_letter: null,
+      answered:             false,
+      ...await fingerprintQuestion(generated.challenge),
+      verification:         null,
+      case_id:              null,
+      prompt_version:       generated.promptVersion,
+      library_id:           null,
+    });
+    await repo.createCliAttempt({
+      id:         servedId,
+      user_email: userEmail,
+      exam_name:  exam_id,
+      topic:      topic.name,
+      difficulty,
+      title:      generated.challenge.title,
+    });
+  } catch (err) {
+    console.error('[cli-challenge] Failed to record challenge:', err);
+    return NextResponse.json({ error: 'Failed to record challenge' }, { status: 500 });
+  }
+
+  const response: CliChallengeResponse = {
+    exam_id,
+    exam_title:     examConfig.title,
+    topic_id,
+    topic_name:     topic.name,
+    difficulty,
+    session_id:     session_id ?? null,
+    challenge:      toPublicCliChallenge(generated.challenge),
+    question_token: signQuestionToken(servedId, userEmail),
+    max_commands:   MAX_CLI_COMMANDS,
+    model_used:     generated.modelUsed,
+  };
+  return NextResponse.json(response);
+}
+
+export async function GET(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const limit = Math.min(Math.max(Number(req.nextUrl.searchParams.get('limit') ?? 20) || 20, 1), 100);
+  try {
+    const attempts = await getRepository().listCliAttempts(session.user.email, limit);
+    return NextResponse.json({ attempts });
+  } catch (err) {
+    console.error('[cli-challenge] List failed:', err);
+    return NextResponse.json({ error: 'Failed to load attempts' }, { status: 500 });
+  }
+}
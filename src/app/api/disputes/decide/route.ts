@@ -0,0 +1,85 @@
+// =============================================================================
+// EdTechia — /api/disputes/decide (admin)
+// Review queue for learner disputes (lib/disputes.ts).
+// GET  — disputes with the model review. Query: ?status=open|upheld|rejected (default open)
+// POST — act on one dispute.
+//        Body: { id, action: uphold|reject|review, letters? (uphold),
+//                explanation_pt? (uphold), note? }
+//        review re-runs the model re-evaluation and returns { review };
+//        uphold / reject return { regraded, sessions, notified }
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth';
+import { getRepository } from '@/lib/repository';
+import type { DisputeStatus } from '@/lib/repository';
+import { decideDispute, reviewDispute } from '@/lib/disputes';
+
+export const runtime = 'nodejs';
+
+const QUEUE_LIMIT = 100;
+const STATUSES: DisputeStatus[] = ['open', 'upheld', 'rejected'];
+
+export type { Dispute, DisputeReview, DisputeStatus } from '@/lib/repository';
+export type { ModerationOutcome } from '@/lib/moderation';
+
+// ── GET — dispute queue ────────────────────────────────────────────────────
+export async function GET(req: NextRequest) {
+  const admin = await requireAdmin();
+  if (typeof admin !== 'string') return admin;
+
+  const requested = req.nextUrl.searchParams.get('status') ?? 'open';
+  const status    = STATUSES.find((s) => s === requested);
+  if (!status) {
+    return NextResponse.json({ error: 'status must be open, upheld or rejected' }, { status: 400 });
+  }
+
+  try {
+    const disputes = await getRepository().listDisputes({ status, limit: QUEUE_LIMIT });
+    return NextResponse.json({ disputes });
+  } catch (err) {
+    console.error('[disputes] Queue failed:', err);
+    return NextResponse.json({ error: 'Failed to load disputes' }, { status: 500 });
+  }
+}
+
+// ── POST — uphold / reject / re-run review ─────────────────────────────────
+export async function POST(req: NextRequest) {
+  const admin = await requireAdmin();
+  if (typeof admin !== 'string') return admin;
+
+  const body = await req.json().catch(() => null);
+  const { id, action } = body ?? {};
+  if (typeof id !== 'string' || !['uphold', 'reject', 'review'].includes(action)) {
+    return NextResponse.json({ error: 'id and action (uphold, reject or review) are required' }, { status: 400 });
+  }
+
+  try {
+    if (action === 'review') {
+      const dispute = await getRepository().getDispute(id);
+      if (!dispute) return NextResponse.json({ error: 'Dispute not found' }, { status: 404 });
+      const review = await reviewDispute(dispute);
+      if (!review) return NextResponse.json({ error: 'Model review failed' }, { status: 502 });
+      return NextResponse.json({ review });
+    }
+
+    const result = await decideDispute({
+      disputeId:     id,
+      decision:      action,
+      letters:       Array.isArray(body.letters) ? body.letters : undefined,
+      explanationPt: typeof body.explanation_pt === 'string' ? body.explanation_pt : null,
+      note:          typeof body.note === 'string' && body.note.trim() ? body.note.trim() : null,
+      admin,
+    });
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+    return NextResponse.json(result);
+  } catch (err) {
+    console.error('[disputes] Decision failed:', err);
+    return NextResponse.json(
+      { error: 'Dispute decision failed', detail: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    );
+  }
+}
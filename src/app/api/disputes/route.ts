@@ -0,0 +1,71 @@
+// =============================================================================
+// EdTechia — /api/disputes
+// Learner disputes of an answer key (lib/disputes.ts).
+// GET  — the learner's own disputes, newest first
+// POST — file a dispute.
+//        Body: { question_history_id, claimed_answer (letters), reasoning }
+//        Returns: { dispute }
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { getRepository } from '@/lib/repository';
+import { fileDispute, toLearnerDispute } from '@/lib/disputes';
+
+export const runtime = 'nodejs';
+
+const LIST_LIMIT = 100;
+
+export type { LearnerDispute } from '@/lib/disputes';
+
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const disputes = await getRepository().listDisputes({ user_email: session.user.email, limit: LIST_LIMIT });
+    return NextResponse.json({ disputes: disputes.map(toLearnerDispute) });
+  } catch (err) {
+    console.error('[disputes] List failed:', err);
+    return NextResponse.json({ error: 'Failed to load disputes' }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const { question_history_id, claimed_answer, reasoning } = body ?? {};
+  if (typeof question_history_id !== 'string' || typeof reasoning !== 'string' ||
+      !(typeof claimed_answer === 'string' || Array.isArray(claimed_answer))) {
+    return NextResponse.json(
+      { error: 'question_history_id, claimed_answer and reasoning are required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await fileDispute({
+      historyId:     question_history_id,
+      userEmail:     session.user.email,
+      claimedAnswer: claimed_answer,
+      reasoning,
+    });
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ dispute: toLearnerDispute(result) });
+  } catch (err) {
+    console.error('[disputes] File failed:', err);
+    return NextResponse.json(
+      { error: 'Failed to file dispute', detail: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,100 @@
+// =============================================================================
+// EdTechia — /api/documents (admin)
+// GET    — list archived uploads with the number of RAG chunks each produced
+//          ?exam=<exam_id> narrows the listing to one exam's folder
+// DELETE — remove an archived upload and its chunks. Body: { uri }
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth';
+import { getRepository } from '@/lib/repository';
+import { getStorage, getStorageForUri } from '@/lib/storage';
+
+export const runtime = 'nodejs';
+
+export type ArchivedDocument = {
+  uri:         string;
+  path:        string | null;
+  exam_name:   string | null;
+  doc_type:    string | null;
+  /** null when the object is not in the active storage backend */
+  size:        number | null;
+  updated:     string | null;
+  chunk_count: number;
+};
+
+// ── GET — list archived documents ──────────────────────────────────────────
+export async function GET(req: NextRequest) {
+  const admin = await requireAdmin();
+  if (typeof admin !== 'string') return admin;
+
+  const exam = req.nextUrl.searchParams.get('exam');
+
+  try {
+    const [objects, sources] = await Promise.all([
+      getStorage().list(exam ? `${exam}/` : undefined),
+      getRepository().listDocumentSources(),
+    ]);
+
+    const byUri = new Map(sources.map((s) => [s.source_file, s]));
+    const documents: ArchivedDocument[] = objects.map((o) => {
+      const source = byUri.get(o.uri);
+      byUri.delete(o.uri);
+      return {
+        uri:         o.uri,
+        path:        o.path,
+        exam_name:   source?.exam_name ?? o.path.split('/')[0] ?? null,
+        doc_type:    source?.doc_type ?? null,
+        size:        o.size,
+        updated:     o.updated,
+        chunk_count: source?.chunk_count ?? 0,
+      };
+    });
+
+    // Chunks whose original lives elsewhere (other backend, or deleted by hand)
+    byUri.forEach((s) => {
+      if (exam && s.exam_name !== exam) return;
+      documents.push({
+        uri:         s.source_file,
+        path:        null,
+        exam_name:   s.exam_name,
+        doc_type:    s.doc_type,
+        size:        null,
+        updated:     null,
+        chunk_count: s.chunk_count,
+      });
+    });
+
+    return NextResponse.json({ documents });
+  } catch (err) {
+    console.error('[documents] List failed:', err);
+    return NextResponse.json({ error: 'Failed to list documents' }, { status: 500 });
+  }
+}
+
+// ── DELETE — remove archived document + chunks ─────────────────────────────
+export async function DELETE(req: NextRequest) {
+  const admin = await requireAdmin();
+  if (typeof admin !== 'string') return admin;
+
+  const body = await req.json().catch(() => null);
+  const uri  = typeof body?.uri === 'string' ? body.uri : null;
+  if (!uri) {
+    return NextResponse.json({ error: 'uri is required' }, { status: 400 });
+  }
+
+  try {
+    // Chunks first: a document without chunks is harmless, orphaned chunks keep feeding RAG
+    await getRepository().deleteDocumentChunks(uri);
+    await getStorageForUri(uri).delete(uri);
+    console.log(`[documents] Deleted ${uri}`);
+  } catch (err) {
+    console.error('[documents] Delete failed:', err);
+    return NextResponse.json(
+      { error: 'Failed to delete document', detail: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ success: true });
+}
@@ -1,7 +1,7 @@
 // =============================================================================
 // EdTechia — POST /api/explain
 // Given a question + the user's answer, generates a deeper explanation
-// using Gemini. Used by the "Explicar mais" button in QuestionCard.
+// using the configured LLM. Used by the "Explicar mais" button in QuestionCard.
 // Body: { question_text, options, user_answer, correct_letter, explanation_pt, topic, difficulty }
 // Returns: { explanation: string }
 // =============================================================================
@@ -9,13 +9,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
-import { VertexAI } from '@google-cloud/vertexai';
+import { generateText, promptScope } from '@/lib/llm';
 
 export const runtime = 'nodejs';
 
-const PROJECT  = process.env.GCP_PROJECT_ID     ?? 'br-ventasbrasil-cld-01';
-const LOCATION = process.env.VERTEX_AI_LOCATION ?? 'us-central1';
-const MODEL    = process.env.VERTEX_AI_MODEL_FALLBACK_1 ?? 'gemini-2.0-flash';
+// Chain entry syntax as in MODEL_FALLBACK_CHAIN ("<provider>:<model>" or a Vertex model id)
+const MODEL = process.env.EXPLAIN_MODEL ?? process.env.VERTEX_AI_MODEL_FALLBACK_1 ?? 'gemini-2.0-flash';
 
 export async function POST(req: NextRequest) {
   const session = await getServerSession(authOptions);
@@ -77,20 +76,14 @@ Your task: Write a comprehensive explanation in Brazilian Portuguese (PT-BR) tha
 Be direct, educational, and concise (3-5 paragraphs). Use plain text — no markdown headers or bullet lists.`;
 
   try {
-    const vertexAI = new VertexAI({ project: PROJECT, location: LOCATION });
-    const model = vertexAI.getGenerativeModel({
-      model: MODEL,
-      generationConfig: { temperature: 0.4, maxOutputTokens: 1024 },
-    });
-
-    const response = await model.generateContent({
-      contents: [{ role: 'user', parts: [{ text: prompt }] }],
-    });
-
-    const text = response.response.candidates?.[0]?.content?.parts?.[0]?.text ?? '';
+    const text = await generateText(MODEL, {
+      userPrompt:      prompt,
+      temperature:     0.4,
+      maxOutputTokens: 1024,
+    }, promptScope('explain', prompt));
     return NextResponse.json({ explanation: text.trim() });
   } catch (err) {
-    console.error('[explain] Gemini call failed:', err);
+    console.error('[explain] LLM call failed:', err);
     return NextResponse.json(
       { error: 'Falha ao gerar explicação', detail: String(err) },
       { status: 500 }
@@ -0,0 +1,107 @@
+// =============================================================================
+// EdTechia — POST /api/free-response
+// Open-answer mode: generates an incident (visual_context) with a hidden
+// rubric (lib/freeResponse.ts), records it in served_questions and returns
+// the public part with a signed token. The learner's text is graded by
+// /api/grade-free-response.
+// Body: { exam_id, topic_id, difficulty?, session_id? }
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { getRepository } from '@/lib/repository';
+import { getExamConfig } from '@/config/exams';
+import { DIFFICULTY_ERROR, isDifficulty } from '@/lib/difficulty';
+import { generateFreeResponseQuestion, toPublicFreeResponse } from '@/lib/freeResponse';
+import { fingerprintQuestion } from '@/lib/dedup';
+import { signQuestionToken } from '@/lib/questionToken';
+import type { PublicFreeResponse } from '@/lib/questionSchema';
+import { v4 as uuidv4 } from 'uuid';
+
+export const runtime = 'nodejs';
+
+export type FreeResponseResponse = {
+  exam_id:        string;
+  exam_title:     string;
+  topic_id:       string;
+  topic_name:     string;
+  difficulty:     string;
+  session_id:     string | null;
+  question:       PublicFreeResponse;
+  question_token: string;
+  model_used:     string;
+};
+
+export async function POST(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const userEmail = session.user.email;
+
+  const body = await req.json().catch(() => null);
+  if (!body?.exam_id || !body?.topic_id) {
+    return NextResponse.json({ error: 'exam_id and topic_id are required' }, { status: 400 });
+  }
+  const { exam_id, topic_id, difficulty = 'medium', session_id } = body;
+  if (!isDifficulty(difficulty)) {
+    return NextResponse.json({ error: DIFFICULTY_ERROR }, { status: 400 });
+  }
+
+  let examConfig;
+  try { examConfig = getExamConfig(exam_id); }
+  catch { return NextResponse.json({ error: `Unknown exam_id: ${exam_id}` }, { status: 400 }); }
+
+  const topic = examConfig.topics.find((t) => t.id === topic_id);
+  if (!topic) {
+    return NextResponse.json({ error: `Unknown topic_id: ${topic_id}` }, { status: 400 });
+  }
+
+  let generated;
+  try {
+    generated = await generateFreeResponseQuestion(examConfig, topic, difficulty);
+  } catch (err) {
+    console.error('[free-response] Generation failed:', err);
+    return NextResponse.json(
+      { error: 'AI generation failed', detail: err instanceof Error ? err.message : String(err) },
+      { status: 502 }
+    );
+  }
+
+  const servedId = uuidv4();
+  try {
+    await getRepository().recordServedQuestion({
+      id:                   servedId,
+      user_email:           userEmail,
+      exam_name:            exam_id,
+      topic:                topic.name,
+      difficulty,
+      generated_question:   generated.question,
+      model_used:           generated.modelUsed,
+      model_correct_letter: null,
+      answered:             false,
+      ...await fingerprintQuestion(generated.question),
+      verification:         null,
+      case_id:              null,
+      prompt_version:       generated.promptVersion,
+      library_id:           null,
+    });
+  } catch (err) {
+    console.error('[free-response] Failed to record served question:', err);
+    return NextResponse.json({ error: 'Failed to record served question' }, { status: 500 });
+  }
+
+  const response: FreeResponseResponse = {
+    exam_id,
+    exam_title:     examConfig.title,
+    topic_id,
+    topic_name:     topic.name,
+    difficulty,
+    session_id:     session_id ?? null,
+    question:       toPublicFreeResponse(generated.question),
+    question_token: signQuestionToken(servedId, userEmail),
+    model_used:     generated.modelUsed,
+  };
+  return NextResponse.json(response);
+}
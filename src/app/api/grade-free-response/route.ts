@@ -0,0 +1,133 @@
+// =============================================================================
+// EdTechia — POST /api/grade-free-response
+// Grades a free-response answer against the rubric stored in served_questions
+// (lib/freeResponse.ts), inserts one question_history row with the partial-
+// credit score and reveals the feedback and the reference answer.
+// Body: { question_token, answer_text, session_id?, time_taken_seconds? }
+// Returns: { success, id, score, is_correct, covered_points, missed_points,
+//            feedback_pt, model_answer_pt }
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { getRepository } from '@/lib/repository';
+import { verifyQuestionToken } from '@/lib/questionToken';
+import { gradeFreeResponse, MAX_ANSWER_CHARS } from '@/lib/freeResponse';
+import { isFreeResponse } from '@/lib/questionSchema';
+import type { FreeResponseResult } from '@/lib/questionSchema';
+import { v4 as uuidv4 } from 'uuid';
+
+export const runtime = 'nodejs';
+
+// Shorter answers are rejected before spending a model call on them
+const MIN_ANSWER_CHARS = 20;
+
+export async function POST(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => null);
+  if (!body) {
+    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+  }
+
+  const { question_token, session_id, time_taken_seconds } = body;
+  const answerText = typeof body.answer_text === 'string' ? body.answer_text.trim() : '';
+
+  if (!question_token) {
+    return NextResponse.json({ error: 'question_token is required' }, { status: 400 });
+  }
+  if (answerText.length < MIN_ANSWER_CHARS) {
+    return NextResponse.json({ error: `answer_text must have at least ${MIN_ANSWER_CHARS} characters` }, { status: 400 });
+  }
+  if (answerText.length > MAX_ANSWER_CHARS) {
+    return NextResponse.json({ error: `answer_text must have at most ${MAX_ANSWER_CHARS} characters` }, { status: 400 });
+  }
+
+  const userEmail = session.user.email;
+  const servedId  = verifyQuestionToken(question_token, userEmail);
+  if (!servedId) {
+    return NextResponse.json({ error: 'Invalid question token' }, { status: 403 });
+  }
+
+  // ── Load the server-side copy (rubric) ────────────────────────────────────
+  const repo   = getRepository();
+  const served = await repo.getServedQuestion(servedId, userEmail);
+  if (!served) {
+    return NextResponse.json({ error: 'Question not found' }, { status: 404 });
+  }
+  const question = served.generated_question;
+  if (!isFreeResponse(question)) {
+    return NextResponse.json({ error: 'Multiple-choice questions are graded by /api/save-result' }, { status: 400 });
+  }
+
+  // Claim before the (slow) model grading: a resubmission while it runs gets 409
+  if (!(await repo.claimServedQuestion(servedId, userEmail))) {
+    return NextResponse.json({ error: 'Question already answered' }, { status: 409 });
+  }
+  const release = () => repo.releaseServedQuestion(servedId, userEmail)
+    .catch((err) => console.error('[grade-free-response] Release failed:', err));
+
+  let grade;
+  try {
+    grade = await gradeFreeResponse(question, answerText);
+  } catch (err) {
+    console.error('[grade-free-response] Grading failed:', err);
+    await release();
+    return NextResponse.json(
+      { error: 'AI grading failed', detail: err instanceof Error ? err.message : String(err) },
+      { status: 502 }
+    );
+  }
+
+  const rowId = uuidv4();
+  try {
+    await repo.insertHistory({
+      id:                 rowId,
+      session_id:         session_id ?? null,
+      user_email:         userEmail,
+      exam_name:          served.exam_name,
+      topic:              served.topic,
+      difficulty:         served.difficulty,
+      generated_question: question,
+      question_type:      'free_response',
+      user_answer:        answerText,
+      correct_letter:     '',
+      is_correct:         grade.is_correct,
+      score:              grade.score,
+      grading: {
+        grader_model:   grade.modelUsed,
+        covered_points: grade.covered_points,
+        missed_points:  grade.missed_points,
+        feedback_pt:    grade.feedback_pt,
+      },
+      model_used:         served.model_used,
+      model_correct_letter: null,
+      time_taken_seconds: time_taken_seconds != null ? Number(time_taken_seconds) : null,
+      verification:       null,
+      case_id:            null,
+      prompt_version:     served.prompt_version ?? null,
+      library_id:         served.library_id ?? null,
+    });
+  } catch (err) {
+    console.error('[grade-free-response] Insert failed:', err);
+    await release();
+    return NextResponse.json(
+      { error: 'Failed to save result', detail: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    );
+  }
+
+  const result: FreeResponseResult = {
+    score:           grade.score,
+    is_correct:      grade.is_correct,
+    covered_points:  grade.covered_points,
+    missed_points:   grade.missed_points,
+    feedback_pt:     grade.feedback_pt,
+    model_answer_pt: question.model_answer_pt,
+  };
+  return NextResponse.json({ success: true, id: rowId, ...result });
+}
@@ -2,19 +2,19 @@
 // EdTechia — POST /api/ingest
 // Pipeline:
 //   1. Receive multipart/form-data (PDF + exam_name)
-//   2. Upload original PDF to GCS for archival
+//   2. Archive the original PDF (GCS or local filesystem, see lib/storage.ts)
 //   3. Extract text via MuPDF → Vision OCR fallback (pdfExtractor.ts)
 //   4. Chunk text with LangChain RecursiveCharacterTextSplitter
-//   5. INSERT chunks into BigQuery exam_documents, calling ML.GENERATE_EMBEDDING
-//      inline so embeddings are created server-side in BigQuery (zero extra hop)
+//   5. INSERT chunks into exam_documents via the repository — the BigQuery
+//      backend calls ML.GENERATE_EMBEDDING inline so embeddings are created
+//      server-side in BigQuery (zero extra hop)
 // =============================================================================
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth/next';
-import { authOptions } from '@/lib/auth';
-import { uploadToGCS } from '@/lib/storage';
+import { requireAdmin } from '@/lib/auth';
+import { getStorage } from '@/lib/storage';
 import { extractTextFromPDF } from '@/lib/pdfExtractor';
-import { getBigQueryClient, BQ_TABLES } from '@/lib/bigquery';
+import { getRepository } from '@/lib/repository';
 import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -26,10 +26,8 @@ export const runtime = 'nodejs'; // Required for mupdf native bindings
 
 export async function POST(req: NextRequest) {
   // ── Auth guard ────────────────────────────────────────────────────────────
-  const session = await getServerSession(authOptions);
-  if (!session?.user?.email) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-  }
+  const admin = await requireAdmin();
+  if (typeof admin !== 'string') return admin;
 
   // ── Parse multipart form ──────────────────────────────────────────────────
   let formData: FormData;
@@ -53,16 +51,16 @@ export async function POST(req: NextRequest) {
   // ── Read file into Buffer ─────────────────────────────────────────────────
   const pdfBuffer = Buffer.from(await file.arrayBuffer());
   const timestamp = Date.now();
-  const gcsPath   = `${examName}/${timestamp}-${file.name}`;
+  const destPath  = `${examName}/${timestamp}-${file.name}`;
 
-  // ── Step 1: Upload to GCS ─────────────────────────────────────────────────
-  let gcsUri: string;
+  // ── Step 1: Archive the original ──────────────────────────────────────────
+  let sourceUri: string;
   try {
-    gcsUri = await uploadToGCS(pdfBuffer, gcsPath);
-    console.log(`[ingest] Uploaded to GCS: ${gcsUri}`);
+    sourceUri = await getStorage().upload(pdfBuffer, destPath);
+    console.log(`[ingest] Archived: ${sourceUri}`);
   } catch (err) {
-    console.error('[ingest] GCS upload failed:', err);
-    return NextResponse.json({ error: 'Failed to upload PDF to GCS' }, { status: 500 });
+    console.error('[ingest] Archive upload failed:', err);
+    return NextResponse.json({ error: 'Failed to archive PDF' }, { status: 500 });
   }
 
   // ── Step 2: Extract text ──────────────────────────────────────────────────
@@ -87,82 +85,34 @@ export async function POST(req: NextRequest) {
   const chunks = await splitter.splitText(extractionResult.text);
   console.log(`[ingest] Created ${chunks.length} chunks`);
 
-  // ── Step 4: INSERT into BigQuery with inline ML.GENERATE_EMBEDDING ─────────
-  // We use BigQuery DML with ML.GENERATE_EMBEDDING so embeddings are computed
-  // server-side inside BigQuery — no need to call the embedding API from Node.
-  //
-  // The query inserts one row per chunk using UNNEST over a temporary array.
-  // This is batched into groups of 50 to stay within BigQuery DML limits.
-
-  const bq         = getBigQueryClient();
-  const dataset    = BQ_TABLES.dataset;
-  const table      = BQ_TABLES.docs;
-  const project    = process.env.GCP_PROJECT_ID!;
-  const embedModel = process.env.BQ_EMBEDDING_MODEL ?? `${project}.${dataset}.embedding_model`;
+  // ── Step 4: INSERT chunks (embeddings computed by the backend) ───────────
+  // Batched into groups of 25 to stay within BigQuery DML limits.
+  const repo = getRepository();
 
-  // Build rows array for BigQuery parameterized insert
   const rows = chunks.map((chunk, index) => ({
-    id:               uuidv4(),
-    exam_name:        examName,
-    doc_type:         docType,
-    source_file:      gcsUri,
-    chunk_index:      index,
-    content:          chunk,
+    id:                uuidv4(),
+    exam_name:         examName,
+    doc_type:          docType,
+    source_file:       sourceUri,
+    chunk_index:       index,
+    content:           chunk,
     extraction_method: extractionResult.method,
   }));
 
-  // We insert in batches, using a INSERT ... SELECT with ML.GENERATE_EMBEDDING
   const BATCH_SIZE = 25; // keep DML under BigQuery limits
   let insertedCount = 0;
 
   for (let i = 0; i < rows.length; i += BATCH_SIZE) {
     const batch = rows.slice(i, i + BATCH_SIZE);
-
-    // Build a VALUES list with positional params for this batch
-    const valuePlaceholders = batch
-      .map(
-        (_, idx) =>
-          `(@id_${idx}, @exam_name_${idx}, @doc_type_${idx}, @source_${idx}, @chunk_idx_${idx}, @content_${idx}, ` +
-          `(SELECT ml_generate_embedding_result FROM ML.GENERATE_EMBEDDING(MODEL \`${embedModel}\`, ` +
-          `(SELECT @content_${idx} AS content)) LIMIT 1), ` +
-          `@method_${idx}, CURRENT_TIMESTAMP())`
-      )
-      .join(',\n');
-
-    // Flatten params for this batch
-    const params: Record<string, unknown> = {};
-    batch.forEach((row, idx) => {
-      params[`id_${idx}`]        = row.id;
-      params[`exam_name_${idx}`] = row.exam_name;
-      params[`doc_type_${idx}`]  = row.doc_type;
-      params[`source_${idx}`]    = row.source_file;
-      params[`chunk_idx_${idx}`] = row.chunk_index;
-      params[`content_${idx}`]   = row.content;
-      params[`method_${idx}`]    = row.extraction_method;
-    });
-
-    const insertQuery = `
-      INSERT INTO \`${project}.${dataset}.${table}\`
-        (id, exam_name, doc_type, source_file, chunk_index, content, content_embedding, extraction_method, created_at)
-      VALUES
-        ${valuePlaceholders}
-    `;
-
     try {
-      const [job] = await bq.createQueryJob({
-        query: insertQuery,
-        useLegacySql: false,
-        params,
-        location: process.env.BQ_LOCATION ?? 'US',
-      });
-      await job.getQueryResults();
+      await repo.insertDocumentChunks(batch);
       insertedCount += batch.length;
       console.log(`[ingest] Batch ${Math.floor(i / BATCH_SIZE) + 1}: inserted ${batch.length} chunks`);
     } catch (err) {
-      console.error(`[ingest] BigQuery insert failed for batch starting at ${i}:`, err);
+      console.error(`[ingest] Insert failed for batch starting at ${i}:`, err);
       return NextResponse.json(
         {
-          error: 'BigQuery insert failed',
+          error: 'Document insert failed',
           detail: err instanceof Error ? err.message : String(err),
           chunksInsertedBeforeError: insertedCount,
         },
@@ -176,7 +126,7 @@ export async function POST(req: NextRequest) {
     success: true,
     exam_name:         examName,
     doc_type:          docType,
-    gcs_uri:           gcsUri,
+    source_uri:        sourceUri,
     extraction_method: extractionResult.method,
     total_chunks:      chunks.length,
     inserted_chunks:   insertedCount,
@@ -0,0 +1,32 @@
+// =============================================================================
+// EdTechia — GET /api/library/candidates (admin)
+// Thumbs-upped multiple-choice answers (all learners) whose question is not
+// in the curated library yet — the promotion queue of /admin/library.
+// ?exam=<exam_id> narrows the queue to one exam.
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth';
+import { getRepository } from '@/lib/repository';
+
+export const runtime = 'nodejs';
+
+const CANDIDATE_LIMIT = 100;
+
+export type { PromotionCandidate } from '@/lib/repository';
+
+export async function GET(req: NextRequest) {
+  const admin = await requireAdmin();
+  if (typeof admin !== 'string') return admin;
+
+  try {
+    const candidates = await getRepository().listPromotionCandidates(
+      req.nextUrl.searchParams.get('exam') || null,
+      CANDIDATE_LIMIT,
+    );
+    return NextResponse.json({ candidates });
+  } catch (err) {
+    console.error('[library] Candidate listing failed:', err);
+    return NextResponse.json({ error: 'Failed to list candidates' }, { status: 500 });
+  }
+}
@@ -0,0 +1,98 @@
+// =============================================================================
+// EdTechia — /api/library/import (admin)
+// Imports a trainer's question file into the curated library
+// (lib/questionImport). multipart/form-data:
+//   file        — GIFT (.gift/.txt), QTI 2.1 (.xml) or CSV (.csv)
+//   exam_name   — target exam
+//   format      — gift | qti | csv (optional, detected from the file)
+//   topic_id    — default topic for questions without a matching one (optional)
+//   difficulty  — default difficulty (easy | medium | hard, default medium)
+//   tags        — comma-separated tags added to every question (optional)
+//   status      — draft | approved (default approved)
+//   dry_run     — "true" to validate and report without storing
+// Returns the per-question report.
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth';
+import { getExamConfig } from '@/config/exams';
+import type { ExamConfig } from '@/config/exams';
+import { detectFormat, importQuestions, isImportFormat, normaliseDifficulty } from '@/lib/questionImport';
+
+export const runtime = 'nodejs';
+
+const MAX_FILE_BYTES = 2 * 1024 * 1024;
+
+export type { ImportFormat, ImportItemResult, ImportReport } from '@/lib/questionImport';
+
+function examConfigOrNull(examId: string): ExamConfig | null {
+  try { return getExamConfig(examId); }
+  catch { return null; }
+}
+
+export async function POST(req: NextRequest) {
+  const admin = await requireAdmin();
+  if (typeof admin !== 'string') return admin;
+
+  const formData = await req.formData().catch(() => null);
+  const file     = formData?.get('file');
+  if (!formData || !(file instanceof File)) {
+    return NextResponse.json({ error: 'file is required' }, { status: 400 });
+  }
+  if (file.size > MAX_FILE_BYTES) {
+    return NextResponse.json({ error: 'File too large (max 2 MB)' }, { status: 413 });
+  }
+
+  const field = (name: string) => {
+    const value = formData.get(name);
+    return typeof value === 'string' ? value.trim() : '';
+  };
+
+  const exam = examConfigOrNull(field('exam_name'));
+  if (!exam) {
+    return NextResponse.json({ error: `Unknown exam: ${field('exam_name') || '(none)'}` }, { status: 400 });
+  }
+  const topicId = field('topic_id') || null;
+  if (topicId && !exam.topics.some((t) => t.id === topicId)) {
+    return NextResponse.json({ error: `Unknown topic_id: ${topicId}` }, { status: 400 });
+  }
+  const difficulty = normaliseDifficulty(field('difficulty') || 'medium');
+  if (!difficulty) {
+    return NextResponse.json({ error: 'difficulty must be easy, medium or hard' }, { status: 400 });
+  }
+  const status = field('status') || 'approved';
+  if (status !== 'draft' && status !== 'approved') {
+    return NextResponse.json({ error: 'status must be draft or approved' }, { status: 400 });
+  }
+
+  const text   = await file.text();
+  const format = field('format') || detectFormat(file.name, text);
+  if (!isImportFormat(format)) {
+    return NextResponse.json({ error: 'format must be gift, qti or csv' }, { status: 400 });
+  }
+
+  try {
+    const report = await importQuestions({
+      exam,
+      format,
+      fileName:          file.name,
+      text,
+      defaultTopicId:    topicId,
+      defaultDifficulty: difficulty,
+      tags:              field('tags').split(','),
+      status,
+      dryRun:            field('dry_run') === 'true',
+      admin,
+    });
+    if ('error' in report) {
+      return NextResponse.json({ error: report.error }, { status: 422 });
+    }
+    return NextResponse.json(report);
+  } catch (err) {
+    console.error('[library] Import failed:', err);
+    return NextResponse.json(
+      { error: 'Failed to import questions', detail: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,182 @@
+// =============================================================================
+// EdTechia — /api/library (admin)
+// Curated question library (lib/questionLibrary.ts).
+// GET   — list library questions, newest edit first
+//         ?exam=&topic=&difficulty=&status=&tag= narrow the listing
+// POST  — promote a thumbs-upped question_history row into the library.
+//         Body: { history_id, tags?, status? } (status defaults to approved)
+// PATCH — edit a library question. Body: { id, question?, tags?, status?,
+//         topic_id?, difficulty? }; an edited question is re-validated against
+//         the exam's schema and re-fingerprinted
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth';
+import { getRepository } from '@/lib/repository';
+import type { LibraryQuestion, LibraryStatus, LibraryUpdate } from '@/lib/repository';
+import { getExamConfig } from '@/config/exams';
+import type { ExamConfig } from '@/config/exams';
+import { DIFFICULTY_ERROR, isDifficulty } from '@/lib/difficulty';
+import { isLibraryStatus, normaliseTags, prepareLibraryQuestion, topicIdForName } from '@/lib/questionLibrary';
+import { v4 as uuidv4 } from 'uuid';
+
+export const runtime = 'nodejs';
+
+const LIST_LIMIT = 200;
+
+export type { LibraryQuestion, LibraryStatus };
+
+function examConfigOrNull(examId: string): ExamConfig | null {
+  try { return getExamConfig(examId); }
+  catch { return null; }
+}
+
+// ── GET — list library questions ───────────────────────────────────────────
+export async function GET(req: NextRequest) {
+  const admin = await requireAdmin();
+  if (typeof admin !== 'string') return admin;
+
+  const params = req.nextUrl.searchParams;
+  const status = params.get('status');
+
+  try {
+    const questions = await getRepository().listLibraryQuestions({
+      exam_name:  params.get('exam') || undefined,
+      topic_id:   params.get('topic') || undefined,
+      difficulty: params.get('difficulty') || undefined,
+      status:     isLibraryStatus(status) ? status : undefined,
+      tag:        params.get('tag')?.trim().toLowerCase() || undefined,
+      limit:      LIST_LIMIT,
+    });
+    return NextResponse.json({ questions });
+  } catch (err) {
+    console.error('[library] List failed:', err);
+    return NextResponse.json({ error: 'Failed to list library questions' }, { status: 500 });
+  }
+}
+
+// ── POST — promote a history row ───────────────────────────────────────────
+export async function POST(req: NextRequest) {
+  const admin = await requireAdmin();
+  if (typeof admin !== 'string') return admin;
+
+  const body      = await req.json().catch(() => null);
+  const historyId = typeof body?.history_id === 'string' ? body.history_id : null;
+  if (!historyId) {
+    return NextResponse.json({ error: 'history_id is required' }, { status: 400 });
+  }
+  if (body.status !== undefined && !isLibraryStatus(body.status)) {
+    return NextResponse.json({ error: 'status must be draft, approved or retired' }, { status: 400 });
+  }
+
+  const repo = getRepository();
+  try {
+    const candidate = await repo.getPromotionCandidate(historyId);
+    if (!candidate) {
+      return NextResponse.json({ error: 'Not a promotion candidate (already promoted, not thumbs-up, or not multiple choice)' }, { status: 404 });
+    }
+
+    const exam    = examConfigOrNull(candidate.exam_name);
+    const topicId = exam ? topicIdForName(exam, candidate.topic) : null;
+    if (!exam || !topicId) {
+      return NextResponse.json(
+        { error: `Topic "${candidate.topic}" is not in the ${candidate.exam_name} exam config` },
+        { status: 422 }
+      );
+    }
+
+    const prepared = await prepareLibraryQuestion(exam, candidate.question);
+    if ('issues' in prepared) {
+      return NextResponse.json({ error: 'Question fails validation', issues: prepared.issues }, { status: 422 });
+    }
+
+    const id = uuidv4();
+    await repo.addLibraryQuestion({
+      id,
+      exam_name:         candidate.exam_name,
+      topic_id:          topicId,
+      difficulty:        candidate.difficulty,
+      question:          prepared.question,
+      tags:              normaliseTags(body.tags),
+      status:            body.status ?? 'approved',
+      source:            'promoted',
+      source_ref:        candidate.history_id,
+      model_used:        candidate.model_used,
+      prompt_version:    candidate.prompt_version,
+      ...prepared.fingerprint,
+      created_by:        admin,
+    });
+    console.log(`[library] ${admin} promoted history ${historyId} → ${id}`);
+    return NextResponse.json({ id });
+  } catch (err) {
+    console.error('[library] Promote failed:', err);
+    return NextResponse.json(
+      { error: 'Failed to promote question', detail: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    );
+  }
+}
+
+// ── PATCH — edit a library question ────────────────────────────────────────
+export async function PATCH(req: NextRequest) {
+  const admin = await requireAdmin();
+  if (typeof admin !== 'string') return admin;
+
+  const body = await req.json().catch(() => null);
+  const id   = typeof body?.id === 'string' ? body.id : null;
+  if (!id) {
+    return NextResponse.json({ error: 'id is required' }, { status: 400 });
+  }
+
+  const repo = getRepository();
+  try {
+    const existing = await repo.getLibraryQuestion(id);
+    if (!existing) {
+      return NextResponse.json({ error: 'Library question not found' }, { status: 404 });
+    }
+    const exam = examConfigOrNull(existing.exam_name);
+    if (!exam) {
+      return NextResponse.json({ error: `Unknown exam: ${existing.exam_name}` }, { status: 422 });
+    }
+
+    const update: LibraryUpdate = { updated_by: admin };
+
+    if (body.status !== undefined) {
+      if (!isLibraryStatus(body.status)) {
+        return NextResponse.json({ error: 'status must be draft, approved or retired' }, { status: 400 });
+      }
+      update.status = body.status;
+    }
+    if (body.topic_id !== undefined) {
+      if (!exam.topics.some((t) => t.id === body.topic_id)) {
+        return NextResponse.json({ error: `Unknown topic_id: ${body.topic_id}` }, { status: 400 });
+      }
+      update.topic_id = body.topic_id;
+    }
+    if (body.difficulty !== undefined) {
+      if (!isDifficulty(body.difficulty)) {
+        return NextResponse.json({ error: DIFFICULTY_ERROR }, { status: 400 });
+      }
+      update.difficulty = body.difficulty;
+    }
+    if (body.tags !== undefined) update.tags = normaliseTags(body.tags);
+    if (body.question !== undefined) {
+      const prepared = await prepareLibraryQuestion(exam, body.question);
+      if ('issues' in prepared) {
+        return NextResponse.json({ error: 'Question fails validation', issues: prepared.issues }, { status: 422 });
+      }
+      update.question = prepared.question;
+      Object.assign(update, prepared.fingerprint);
+    }
+
+    await repo.updateLibraryQuestion(id, update);
+    console.log(`[library] ${admin} edited ${id}`);
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error('[library] Edit failed:', err);
+    return NextResponse.json(
+      { error: 'Failed to edit question', detail: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    );
+  }
+}
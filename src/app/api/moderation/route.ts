@@ -0,0 +1,73 @@
+// =============================================================================
+// EdTechia — /api/moderation (admin)
+// Moderation queue of thumbs-down / reported questions (lib/moderation.ts).
+// GET  — reported questions with their reports and answer statistics
+// POST — moderate one question.
+//        Body: { action: confirm|fix|retire, question_key, reference_history_id,
+//                letters? (fix), explanation_pt? (fix), note? }
+//        Returns: { regraded, sessions, notified }
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth';
+import { getRepository } from '@/lib/repository';
+import type { ModerationAction } from '@/lib/repository';
+import { buildModerationQueue, moderateQuestion } from '@/lib/moderation';
+
+export const runtime = 'nodejs';
+
+const QUEUE_LIMIT = 50;
+const ACTIONS: ModerationAction[] = ['confirm', 'fix', 'retire'];
+
+export type { ReportedQuestion, OptionStat, ModerationOutcome } from '@/lib/moderation';
+
+// ── GET — moderation queue ─────────────────────────────────────────────────
+export async function GET() {
+  const admin = await requireAdmin();
+  if (typeof admin !== 'string') return admin;
+
+  try {
+    const rows = await getRepository().listModerationQueue(QUEUE_LIMIT);
+    return NextResponse.json({ questions: buildModerationQueue(rows) });
+  } catch (err) {
+    console.error('[moderation] Queue failed:', err);
+    return NextResponse.json({ error: 'Failed to load the moderation queue' }, { status: 500 });
+  }
+}
+
+// ── POST — confirm / fix / retire ──────────────────────────────────────────
+export async function POST(req: NextRequest) {
+  const admin = await requireAdmin();
+  if (typeof admin !== 'string') return admin;
+
+  const body = await req.json().catch(() => null);
+  const { action, question_key, reference_history_id } = body ?? {};
+  if (!ACTIONS.includes(action)) {
+    return NextResponse.json({ error: 'action must be confirm, fix or retire' }, { status: 400 });
+  }
+  if (typeof question_key !== 'string' || typeof reference_history_id !== 'string') {
+    return NextResponse.json({ error: 'question_key and reference_history_id are required' }, { status: 400 });
+  }
+
+  try {
+    const result = await moderateQuestion({
+      action,
+      questionKey:        question_key,
+      referenceHistoryId: reference_history_id,
+      letters:            Array.isArray(body.letters) ? body.letters : undefined,
+      explanationPt:      typeof body.explanation_pt === 'string' ? body.explanation_pt : null,
+      note:               typeof body.note === 'string' && body.note.trim() ? body.note.trim() : null,
+      moderator:          admin,
+    });
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+    return NextResponse.json(result);
+  } catch (err) {
+    console.error('[moderation] Action failed:', err);
+    return NextResponse.json(
+      { error: 'Moderation failed', detail: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+// =============================================================================
+// EdTechia — /api/notifications
+// The learner's inbox (e.g. answers re-graded by moderation, lib/moderation.ts).
+// GET  — latest notifications, newest first, plus the unread count
+// POST — mark as read. Body: { ids: string[] } or {} for all
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { getRepository } from '@/lib/repository';
+
+export const runtime = 'nodejs';
+
+const LIST_LIMIT = 30;
+
+export type { Notification } from '@/lib/repository';
+
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const notifications = await getRepository().listNotifications(session.user.email, LIST_LIMIT);
+    return NextResponse.json({ notifications, unread: notifications.filter((n) => !n.read).length });
+  } catch (err) {
+    console.error('[notifications] List failed:', err);
+    return NextResponse.json({ error: 'Failed to load notifications' }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const ids  = Array.isArray(body?.ids) ? body.ids.filter((id: unknown): id is string => typeof id === 'string') : null;
+
+  try {
+    await getRepository().markNotificationsRead(session.user.email, ids);
+  } catch (err) {
+    console.error('[notifications] Mark-read failed:', err);
+    return NextResponse.json({ error: 'Failed to update notifications' }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,36 @@
+// =============================================================================
+// EdTechia — GET /api/quality (admin)
+// Question quality across every learner (see Repository.getQualityReport):
+//   - ai_quality_by_prompt: thumbs up/down per prompt template version and
+//     model (read-out of prompt A/B experiments)
+//   - feedback_breakdown: report categories (lib/feedback.ts) and explanation
+//     ratings per exam, prompt version and model
+//   - correct_letter_distribution: answer-key letters per model, as served
+//     and as the model keyed them (shows shuffling works)
+// =============================================================================
+
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth';
+import { getRepository } from '@/lib/repository';
+
+export const runtime = 'nodejs';
+
+export type {
+  FeedbackBreakdownRow,
+  LetterDistributionRow,
+  PromptQualityRow,
+  QualityReport,
+} from '@/lib/repository';
+
+export async function GET() {
+  const admin = await requireAdmin();
+  if (typeof admin !== 'string') return admin;
+
+  try {
+    const report = await getRepository().getQualityReport();
+    return NextResponse.json(report);
+  } catch (err) {
+    console.error('[quality] Query failed:', err);
+    return NextResponse.json({ error: 'Failed to load the quality report' }, { status: 500 });
+  }
+}
@@ -1,67 +1,78 @@
 // =============================================================================
 // EdTechia — POST /api/rate-question   (RLHF feedback endpoint)
-// Updates user_rating and feedback_notes on an existing question_history row.
-// Called when user clicks 👍, 👎, or submits "Reportar Erro".
-// user_rating: 1 = thumbs up, -1 = thumbs down, 0 = neutral
+// Updates the learner's rating of an existing question_history row.
+// Called when user clicks 👍, 👎, rates the explanation or submits "Reportar".
+// Body: { question_history_id, user_rating?, feedback_notes?,
+//         feedback_categories?, explanation_rating? } — at least one rating
+// user_rating / explanation_rating: 1 = thumbs up, -1 = thumbs down, 0 = neutral
+// feedback_categories: report taxonomy from lib/feedback.ts (wrong_key, …);
+// sending notes or categories replaces the saved report, with either rating
 // =============================================================================
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
-import { getBigQueryClient, BQ_TABLES } from '@/lib/bigquery';
+import { getRepository } from '@/lib/repository';
+import { FEEDBACK_CATEGORIES, isFeedbackCategory } from '@/lib/feedback';
 
 export const runtime = 'nodejs';
 
+const RATINGS = [-1, 0, 1];
+const MAX_NOTES_CHARS = 2000;
+
 export async function POST(req: NextRequest) {
   const session = await getServerSession(authOptions);
   if (!session?.user?.email) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
-  const body = await req.json();
-  const { question_history_id, user_rating, feedback_notes } = body;
+  const body = await req.json().catch(() => null);
+  if (!body || typeof body !== 'object') {
+    return NextResponse.json({ error: 'Body must be a JSON object' }, { status: 400 });
+  }
+  const { question_history_id, user_rating, feedback_notes, feedback_categories, explanation_rating } = body;
 
-  if (!question_history_id || user_rating === undefined) {
-    return NextResponse.json({ error: 'question_history_id and user_rating are required' }, { status: 400 });
+  if (!question_history_id || (user_rating === undefined && explanation_rating === undefined)) {
+    return NextResponse.json(
+      { error: 'question_history_id and user_rating or explanation_rating are required' },
+      { status: 400 }
+    );
   }
 
-  if (![-1, 0, 1].includes(Number(user_rating))) {
+  if (user_rating !== undefined && !RATINGS.includes(Number(user_rating))) {
     return NextResponse.json({ error: 'user_rating must be -1, 0, or 1' }, { status: 400 });
   }
+  if (explanation_rating !== undefined && !RATINGS.includes(Number(explanation_rating))) {
+    return NextResponse.json({ error: 'explanation_rating must be -1, 0, or 1' }, { status: 400 });
+  }
 
-  const project = process.env.GCP_PROJECT_ID!;
-  const dataset = BQ_TABLES.dataset;
-  const table   = BQ_TABLES.history;
-  const bq      = getBigQueryClient();
+  if (feedback_notes != null && (typeof feedback_notes !== 'string' || feedback_notes.length > MAX_NOTES_CHARS)) {
+    return NextResponse.json(
+      { error: `feedback_notes must be text of at most ${MAX_NOTES_CHARS} characters` },
+      { status: 400 }
+    );
+  }
 
-  // BigQuery UPDATE — only the requesting user can rate their own questions
-  const query = `
-    UPDATE \`${project}.${dataset}.${table}\`
-    SET
-      user_rating    = @user_rating,
-      feedback_notes = @feedback_notes
-    WHERE id         = @id
-      AND user_email = @user_email
-  `;
+  const categories: unknown = feedback_categories ?? [];
+  if (!Array.isArray(categories) || !categories.every(isFeedbackCategory)) {
+    return NextResponse.json(
+      { error: `feedback_categories must be a list of: ${FEEDBACK_CATEGORIES.join(', ')}` },
+      { status: 400 }
+    );
+  }
 
+  // Only the requesting user can rate their own questions
   try {
-    const [job] = await bq.createQueryJob({
-      query,
-      useLegacySql: false,
-      params: {
-        id:             question_history_id,
-        user_rating:    Number(user_rating),
-        feedback_notes: feedback_notes ?? null,
-        user_email:     session.user.email,
-      },
-      types: {
-        feedback_notes: 'STRING',
+    await getRepository().rateHistory(question_history_id, session.user.email, {
+      user_rating:         user_rating === undefined ? null : Number(user_rating),
+      feedback:            feedback_notes === undefined && feedback_categories === undefined ? null : {
+        notes:      feedback_notes?.trim() || null,
+        categories: Array.from(new Set(categories)),
       },
-      location: process.env.BQ_LOCATION ?? 'us-central1',
+      explanation_rating:  explanation_rating === undefined ? null : Number(explanation_rating),
     });
-    await job.getQueryResults();
   } catch (err) {
-    console.error('[rate-question] BigQuery UPDATE failed:', err);
+    console.error('[rate-question] UPDATE failed:', err);
     return NextResponse.json(
       { error: 'Failed to save rating', detail: err instanceof Error ? err.message : String(err) },
       { status: 500 }
@@ -1,13 +1,23 @@
 // =============================================================================
 // EdTechia — POST /api/save-result
-// Called asynchronously after the user selects an answer in the Exam Arena.
-// Inserts one row into BigQuery question_history.
+// Called after the user selects an answer in the Exam Arena / Simulado.
+// Grades the answer server-side against the served_questions copy identified
+// by the signed question token, inserts one row into question_history and
+// reveals the answer key.
+// Multiple-select items are graded all-or-nothing: user_answer ("A,C") must
+// match the whole key, as on the real exams. Free-response items and CLI
+// challenges have their own endpoints (/api/grade-free-response,
+// /api/cli-challenge/command).
+// Body: { question_token, user_answer, session_id?, time_taken_seconds?, timed_out? }
+// Returns: { success, id, is_correct, user_answer, correct_letter, explanation_pt }
 // =============================================================================
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
-import { getBigQueryClient, BQ_TABLES } from '@/lib/bigquery';
+import { getRepository } from '@/lib/repository';
+import { verifyQuestionToken } from '@/lib/questionToken';
+import { formatAnswer, isChoiceQuestion, parseAnswer } from '@/lib/questionSchema';
 import { v4 as uuidv4 } from 'uuid';
 
 export const runtime = 'nodejs';
@@ -18,75 +28,105 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
-  const body = await req.json();
-  const {
-    exam_id,
-    topic_id,
-    topic_name,
-    difficulty,
-    session_id,
-    generated_question,
-    user_answer,
-    correct_letter,
-    model_used,
-    time_taken_seconds,
-  } = body;
+  const body = await req.json().catch(() => null);
+  if (!body) {
+    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+  }
+
+  const { question_token, session_id, time_taken_seconds, timed_out } = body;
+
+  if (!question_token || (!body.user_answer && !timed_out)) {
+    return NextResponse.json({ error: 'question_token and user_answer are required' }, { status: 400 });
+  }
+  if (!timed_out && typeof body.user_answer !== 'string') {
+    return NextResponse.json({ error: 'user_answer must be a letter or a comma-separated list of letters' }, { status: 400 });
+  }
 
-  if (!exam_id || !topic_id || !user_answer || !correct_letter) {
-    return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+  const userEmail = session.user.email;
+  const servedId  = verifyQuestionToken(question_token, userEmail);
+  if (!servedId) {
+    return NextResponse.json({ error: 'Invalid question token' }, { status: 403 });
   }
 
-  const is_correct = user_answer === correct_letter;
-  const project    = process.env.GCP_PROJECT_ID!;
-  const dataset    = BQ_TABLES.dataset;
-  const table      = BQ_TABLES.history;
-  const bq         = getBigQueryClient();
+  // ── Load the server-side copy (answer key) ────────────────────────────────
+  const repo   = getRepository();
+  const served = await repo.getServedQuestion(servedId, userEmail);
+  if (!served) {
+    return NextResponse.json({ error: 'Question not found' }, { status: 404 });
+  }
+  const question = served.generated_question;
+  if (!isChoiceQuestion(question)) {
+    return NextResponse.json({ error: `${question.question_type} items are not graded by /api/save-result` }, { status: 400 });
+  }
 
-  const query = `
-    INSERT INTO \`${project}.${dataset}.${table}\`
-      (id, session_id, user_email, exam_name, topic, difficulty,
-       generated_question, user_answer, correct_letter, is_correct,
-       user_rating, gemini_model_used, time_taken_seconds, timestamp)
-    VALUES
-      (@id, @session_id, @user_email, @exam_name, @topic, @difficulty,
-       PARSE_JSON(@generated_question), @user_answer, @correct_letter, @is_correct,
-       0, @model_used, @time_taken_seconds, CURRENT_TIMESTAMP())
-  `;
+  const correctLetters = parseAnswer(question.correct_letter);
+  const correct_letter = formatAnswer(correctLetters);
+  const optionLetters  = Object.keys(question.options_en);
+
+  let user_answer: string;
+  if (timed_out) {
+    // A timeout is recorded as a wrong answer, exactly like an explicit miss
+    user_answer = formatAnswer(
+      optionLetters.filter((l) => !correctLetters.includes(l)).slice(0, correctLetters.length)
+    );
+  } else {
+    const picked = parseAnswer(body.user_answer);
+    if (picked.length !== correctLetters.length || picked.some((l) => !optionLetters.includes(l))) {
+      return NextResponse.json(
+        { error: `user_answer must be ${correctLetters.length} of ${optionLetters.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    user_answer = formatAnswer(picked);
+  }
+
+  // Claim before grading: of parallel submissions only one gets past here
+  if (!(await repo.claimServedQuestion(servedId, userEmail))) {
+    return NextResponse.json({ error: 'Question already answered' }, { status: 409 });
+  }
+
+  const is_correct = user_answer === correct_letter;
+  const rowId      = uuidv4();
 
-  const rowId = uuidv4();
   try {
-    const [job] = await bq.createQueryJob({
-      query,
-      useLegacySql: false,
-      params: {
-        id:                 rowId,
-        session_id:         session_id ?? null,
-        user_email:         session.user.email,
-        exam_name:          exam_id,
-        topic:              topic_name ?? topic_id,
-        difficulty:         difficulty ?? 'medium',
-        generated_question: JSON.stringify(generated_question),
-        user_answer,
-        correct_letter,
-        is_correct,
-        model_used:          model_used ?? null,
-        time_taken_seconds:  time_taken_seconds != null ? Number(time_taken_seconds) : null,
-      },
-      types: {
-        session_id:         'STRING',
-        model_used:         'STRING',
-        time_taken_seconds: 'INT64',
-      },
-      location: process.env.BQ_LOCATION ?? 'us-central1',
+    await repo.insertHistory({
+      id:                 rowId,
+      session_id:         session_id ?? null,
+      user_email:         userEmail,
+      exam_name:          served.exam_name,
+      topic:              served.topic,
+      difficulty:         served.difficulty,
+      generated_question: question,
+      question_type:      question.question_type ?? 'single',
+      user_answer,
+      correct_letter,
+      is_correct,
+      score:              null,
+      grading:            null,
+      model_used:         served.model_used,
+      model_correct_letter: served.model_correct_letter ?? null,
+      time_taken_seconds: time_taken_seconds != null ? Number(time_taken_seconds) : null,
+      verification:       served.verification ?? null,
+      case_id:            served.case_id ?? null,
+      prompt_version:     served.prompt_version ?? null,
+      library_id:         served.library_id ?? null,
     });
-    await job.getQueryResults();
   } catch (err) {
-    console.error('[save-result] BigQuery insert failed:', err);
+    console.error('[save-result] Insert failed:', err);
+    await repo.releaseServedQuestion(servedId, userEmail)
+      .catch((releaseErr) => console.error('[save-result] Release failed:', releaseErr));
     return NextResponse.json(
       { error: 'Failed to save result', detail: err instanceof Error ? err.message : String(err) },
       { status: 500 }
     );
   }
 
-  return NextResponse.json({ success: true, is_correct, id: rowId });
+  return NextResponse.json({
+    success: true,
+    id:             rowId,
+    is_correct,
+    user_answer,
+    correct_letter,
+    explanation_pt: question.explanation_pt,
+  });
 }
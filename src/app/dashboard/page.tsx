@@ -8,6 +8,7 @@ import CloudDojoLogo from '@/components/CloudDojoLogo';
 import ThemeToggle from '@/components/ThemeToggle';
 import { EvolutionChart } from '@/components/EvolutionChart';
 import { ExamRadarChart } from '@/components/ExamRadarChart';
+import type { Notification } from '@/app/api/notifications/route';
 
 type InsightsData = {
   overall_accuracy:  number;
@@ -58,6 +59,19 @@ type InsightsData = {
     thumbs_down:       number;
     total_rated:       number;
   }>;
+  case_study_accuracy: Array<{
+    exam_name:    string;
+    cases:        number;
+    total:        number;
+    correct:      number;
+    accuracy_pct: number;
+  }>;
+  free_response_scores: Array<{
+    exam_name: string;
+    total:     number;
+    avg_score: number;
+    passed:    number;
+  }>;
   recent_activity: Array<{
     exam_name:          string;
     topic:              string;
@@ -66,6 +80,8 @@ type InsightsData = {
     user_answer:        string;
     correct_letter:     string;
     is_correct:         boolean;
+    question_type:      string;
+    score:              number | null;
     time_taken_seconds: number | null;
     timestamp:          string;
   }>;
@@ -73,6 +89,56 @@ type InsightsData = {
   today_count:  number;
 };
 
+// ── Notifications (e.g. answers re-graded by moderation) ────────────────────
+
+function NotificationsPanel() {
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+
+  useEffect(() => {
+    fetch('/api/notifications')
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => { if (data) setNotifications(data.notifications); })
+      .catch(() => { /* noop — the inbox is optional */ });
+  }, []);
+
+  const unread = notifications.filter(n => !n.read);
+  if (unread.length === 0) return null;
+
+  const markRead = async (ids: string[] | null) => {
+    setNotifications(prev => prev.map(n => (ids === null || ids.includes(n.id) ? { ...n, read: true } : n)));
+    await fetch('/api/notifications', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(ids ? { ids } : {}),
+    }).catch(() => { /* noop */ });
+  };
+
+  return (
+    <div className="p-4 rounded-xl border border-primary/30 bg-primary/5 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-semibold text-foreground">Notificações ({unread.length})</span>
+        <button onClick={() => markRead(null)} className="text-xs text-primary hover:underline">
+          Marcar todas como lidas
+        </button>
+      </div>
+      {unread.map(n => (
+        <div key={n.id} className="flex items-start gap-3 text-sm">
+          <div className="flex-1">
+            <p className="font-medium text-foreground">{n.title}</p>
+            <p className="text-xs text-muted-foreground">{n.body}</p>
+            {n.link && (
+              <Link href={n.link} className="text-xs text-primary hover:underline">Ver →</Link>
+            )}
+          </div>
+          <button onClick={() => markRead([n.id])} className="text-muted-foreground hover:text-foreground text-xs">
+            ×
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 // ── Exam Countdown (localStorage-based) ──────────────────────────────────────
 
 type ExamDate = { examId: string; examDate: string };
@@ -272,6 +338,9 @@ export default function DashboardPage() {
           </div>
         ) : insights && (
           <>
+            {/* ── Notifications ── */}
+            <NotificationsPanel />
+
             {/* ── Exam Countdown ── */}
             <ExamCountdown />
 
@@ -577,10 +646,16 @@ export default function DashboardPage() {
                               <DifficultyBadge value={row.difficulty} />
                             </td>
                             <td className="px-4 py-3 text-center">
-                              <AnswerBadge letter={row.user_answer} isCorrect={row.user_answer === row.correct_letter} />
+                              {row.question_type === 'cli_challenge'
+                                ? <AnswerBadge letter="CLI" isCorrect={row.is_correct} />
+                                : row.score != null
+                                  ? <AnswerBadge letter={`${Math.round(row.score)}%`} isCorrect={row.is_correct} />
+                                  : <AnswerBadge letter={row.user_answer} isCorrect={row.user_answer === row.correct_letter} />}
                             </td>
                             <td className="px-4 py-3 text-center">
-                              <AnswerBadge letter={row.correct_letter} isCorrect={true} alwaysGreen />
+                              {row.question_type === 'single' || row.question_type === 'multiple'
+                                ? <AnswerBadge letter={row.correct_letter} isCorrect={true} alwaysGreen />
+                                : <span className="text-xs text-muted-foreground">—</span>}
                             </td>
                             <td className="px-4 py-3 text-center">
                               {row.is_correct
@@ -604,6 +679,68 @@ export default function DashboardPage() {
               </div>
             )}
 
+            {/* ── Case studies ── */}
+            {insights.case_study_accuracy.length > 0 && (
+              <div>
+                <h2 className="text-lg font-semibold text-foreground mb-3">Estudos de Caso</h2>
+                <div className="rounded-xl border border-border overflow-hidden">
+                  <table className="w-full text-sm">
+                    <thead className="bg-secondary/50">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-muted-foreground font-medium">Exame</th>
+                        <th className="px-4 py-3 text-center text-muted-foreground font-medium">Casos</th>
+                        <th className="px-4 py-3 text-center text-muted-foreground font-medium">Questões</th>
+                        <th className="px-4 py-3 text-center text-muted-foreground font-medium">Acurácia</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-border">
+                      {insights.case_study_accuracy.map((row) => (
+                        <tr key={row.exam_name} className="bg-card hover:bg-secondary/20 transition-colors">
+                          <td className="px-4 py-3 text-foreground">{EXAM_LIST.find(e => e.id === row.exam_name)?.title ?? row.exam_name}</td>
+                          <td className="px-4 py-3 text-center text-muted-foreground">{row.cases}</td>
+                          <td className="px-4 py-3 text-center text-muted-foreground">{row.correct}/{row.total}</td>
+                          <td className={`px-4 py-3 text-center font-semibold ${
+                            row.accuracy_pct >= 80 ? 'text-green-400' : row.accuracy_pct >= 60 ? 'text-yellow-400' : 'text-red-400'
+                          }`}>{row.accuracy_pct}%</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+
+            {/* ── Free-response (rubric scores) ── */}
+            {insights.free_response_scores.length > 0 && (
+              <div>
+                <h2 className="text-lg font-semibold text-foreground mb-3">Respostas Abertas</h2>
+                <div className="rounded-xl border border-border overflow-hidden">
+                  <table className="w-full text-sm">
+                    <thead className="bg-secondary/50">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-muted-foreground font-medium">Exame</th>
+                        <th className="px-4 py-3 text-center text-muted-foreground font-medium">Respostas</th>
+                        <th className="px-4 py-3 text-center text-muted-foreground font-medium">Aprovadas</th>
+                        <th className="px-4 py-3 text-center text-muted-foreground font-medium">Nota Média</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-border">
+                      {insights.free_response_scores.map((row) => (
+                        <tr key={row.exam_name} className="bg-card hover:bg-secondary/20 transition-colors">
+                          <td className="px-4 py-3 text-foreground">{EXAM_LIST.find(e => e.id === row.exam_name)?.title ?? row.exam_name}</td>
+                          <td className="px-4 py-3 text-center text-muted-foreground">{row.total}</td>
+                          <td className="px-4 py-3 text-center text-muted-foreground">{row.passed}/{row.total}</td>
+                          <td className={`px-4 py-3 text-center font-semibold ${
+                            row.avg_score >= 80 ? 'text-green-400' : row.avg_score >= 60 ? 'text-yellow-400' : 'text-red-400'
+                          }`}>{row.avg_score}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+
             {/* ── AI Quality (RLHF) ── */}
             {insights.ai_quality.length > 0 && (
               <div>
@@ -699,7 +836,7 @@ function AnswerBadge({ letter, isCorrect, alwaysGreen }: { letter: string; isCor
       ? 'bg-green-500/10 text-green-400 border-green-500/30'
       : 'bg-red-500/10 text-red-400 border-red-500/30';
   return (
-    <span className={`inline-flex items-center justify-center w-7 h-7 rounded-lg text-xs font-bold border ${color}`}>
+    <span className={`inline-flex items-center justify-center min-w-[1.75rem] px-1 h-7 rounded-lg text-xs font-bold border ${color}`}>
       {letter}
     </span>
   );
@@ -6,7 +6,18 @@ import Link from 'next/link';
 import { EXAMS_CONFIG } from '@/config/exams';
 import { QuestionCard } from '@/components/QuestionCard';
 import type { QuestionData } from '@/components/QuestionCard';
+import { FreeResponseCard } from '@/components/FreeResponseCard';
+import { CliChallengeCard } from '@/components/CliChallengeCard';
+import {
+  CaseStudyPublicSchema, CliCommandResultSchema, FreeResponseResultSchema,
+  PublicCliChallengeSchema, PublicFreeResponseSchema, PublicQuestionSchema,
+} from '@/lib/questionSchema';
+import type { AnswerKey, CaseStudyPublic, CliCommandResult, CliTranscriptEntry, FreeResponseResult } from '@/lib/questionSchema';
+import type { FeedbackCategory } from '@/lib/feedback';
+import type { FreeResponseResponse } from '@/app/api/free-response/route';
+import type { CliChallengeResponse } from '@/app/api/cli-challenge/route';
 import { useExamTimer } from '@/hooks/useExamTimer';
+import { useTextOnlyMode } from '@/hooks/useTextOnlyMode';
 
 const RECAP_AT = 10;
 
@@ -18,8 +29,29 @@ type GenerationResponse = {
   difficulty:     string;
   session_id:     string | null;
   question:       QuestionData;
+  question_token: string;
   model_used:     string;
   rag_chunks_used: number;
+  case_study?:    CaseStudyPublic;
+  case_position?: { index: number; total: number };
+};
+
+// topicId value that switches the arena to case-study sets
+const CASE_STUDY = '__case__';
+
+type QuestionFormat = 'choice' | 'open' | 'cli';
+
+const FORMAT_LABEL: Record<QuestionFormat, string> = {
+  choice: 'Múltipla Escolha',
+  open:   'Resposta Aberta (incidente)',
+  cli:    'Desafio de Terminal',
+};
+
+type SaveResultResponse = AnswerKey & {
+  success:     boolean;
+  id:          string;
+  is_correct:  boolean;
+  user_answer: string;
 };
 
 export default function ExamArenaPage() {
@@ -31,6 +63,8 @@ export default function ExamArenaPage() {
   const [topicId,      setTopicId]      = useState('');
   const [difficulty,   setDifficulty]   = useState<'easy' | 'medium' | 'hard' | '__random__'>('medium');
   const [studyMode,    setStudyMode]    = useState(false);
+  const [textOnly,     toggleTextOnly]  = useTextOnlyMode();
+  const [format,       setFormat]       = useState<QuestionFormat>('choice');
 
   // ── Active question ───────────────────────────────────────────
   const [loading,      setLoading]      = useState(false);
@@ -38,9 +72,23 @@ export default function ExamArenaPage() {
   const [current,      setCurrent]      = useState<GenerationResponse | null>(null);
   const [historyId,    setHistoryId]    = useState<string | null>(null);
   const [selected,     setSelected]     = useState<string | null>(null);
+  const [answerKey,    setAnswerKey]    = useState<AnswerKey | null>(null);
   const [rating,       setRating]       = useState<number | null>(null);
   const [feedback,     setFeedback]     = useState('');
+  const [feedbackCats, setFeedbackCats] = useState<FeedbackCategory[]>([]);
   const [showFeedback, setShowFeedback] = useState(false);
+  const [explRating,   setExplRating]   = useState<number | null>(null);
+
+  // ── Active open-answer incident ───────────────────────────────
+  const [openCurrent,  setOpenCurrent]  = useState<FreeResponseResponse | null>(null);
+  const [openResult,   setOpenResult]   = useState<FreeResponseResult | null>(null);
+  const [openGrading,  setOpenGrading]  = useState(false);
+
+  // ── Active CLI challenge ────────────────────────────────────
+  const [cliCurrent,    setCliCurrent]    = useState<CliChallengeResponse | null>(null);
+  const [cliTranscript, setCliTranscript] = useState<CliTranscriptEntry[]>([]);
+  const [cliResult,     setCliResult]     = useState<CliCommandResult | null>(null);
+  const [cliRunning,    setCliRunning]    = useState(false);
 
   // ── Session stats ───────────────────────────────────────────
   const [streak,         setStreak]         = useState(0);
@@ -55,11 +103,13 @@ export default function ExamArenaPage() {
   // ── Dedup ──────────────────────────────────────────────────────
   const seenQuestionsRef = useRef<string[]>([]);
 
+  // ── Case study: remaining questions of the current case ────────
+  const caseQueueRef = useRef<GenerationResponse[]>([]);
+
   const timer = useExamTimer(() => {
-    // Auto-answer with wrong letter when timer expires
+    // Timer expired — the server records it as a wrong answer
     if (current && !selected) {
-      const wrong = (['A','B','C','D'] as const).find(l => l !== current.question.correct_letter) ?? 'A';
-      handleAnswer(wrong, 300);
+      handleAnswer(null, 300);
     }
   });
 
@@ -81,20 +131,89 @@ export default function ExamArenaPage() {
     setGenError(null);
     setCurrent(null);
     setSelected(null);
+    setAnswerKey(null);
     setRating(null);
     setFeedback('');
+    setFeedbackCats([]);
     setShowFeedback(false);
+    setExplRating(null);
     setHistoryId(null);
+    setOpenCurrent(null);
+    setOpenResult(null);
+    setCliCurrent(null);
+    setCliTranscript([]);
+    setCliResult(null);
     if (!studyMode) timer.reset();
 
-    const resolvedTopicId = topicId === '__random__'
-      ? exam.topics[Math.floor(Math.random() * exam.topics.length)].id
-      : topicId;
-
     const resolvedDifficulty = difficulty === '__random__'
       ? (['easy', 'medium', 'hard'] as const)[Math.floor(Math.random() * 3)]
       : difficulty;
 
+    if (format === 'cli') {
+      const cliTopicId = topicId === '__random__'
+        ? exam.topics[Math.floor(Math.random() * exam.topics.length)].id
+        : topicId;
+      try {
+        const res = await fetch('/api/cli-challenge', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ exam_id: examId, topic_id: cliTopicId, difficulty: resolvedDifficulty }),
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error ?? 'Falha na geração');
+        const challenge = PublicCliChallengeSchema.safeParse(data.challenge);
+        if (!challenge.success) throw new Error('Desafio recebido em formato inválido');
+        setCliCurrent({ ...data, challenge: challenge.data });
+      } catch (err) {
+        setGenError(err instanceof Error ? err.message : 'Erro desconhecido');
+      } finally {
+        setLoading(false);
+      }
+      return;
+    }
+
+    if (format === 'open') {
+      const openTopicId = topicId === '__random__'
+        ? exam.topics[Math.floor(Math.random() * exam.topics.length)].id
+        : topicId;
+      try {
+        const res = await fetch('/api/free-response', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ exam_id: examId, topic_id: openTopicId, difficulty: resolvedDifficulty }),
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error ?? 'Falha na geração');
+        const question = PublicFreeResponseSchema.safeParse(data.question);
+        if (!question.success) throw new Error('Questão recebida em formato inválido');
+        setOpenCurrent({ ...data, question: question.data });
+      } catch (err) {
+        setGenError(err instanceof Error ? err.message : 'Erro desconhecido');
+      } finally {
+        setLoading(false);
+      }
+      return;
+    }
+
+    if (topicId === CASE_STUDY) {
+      try {
+        if (caseQueueRef.current.length === 0) {
+          caseQueueRef.current = await fetchCaseStudy(resolvedDifficulty);
+        }
+        setCurrent(caseQueueRef.current.shift()!);
+        if (!studyMode) timer.start();
+      } catch (err) {
+        setGenError(err instanceof Error ? err.message : 'Erro desconhecido');
+      } finally {
+        setLoading(false);
+      }
+      return;
+    }
+
+    const resolvedTopicId = topicId === '__random__'
+      ? exam.topics[Math.floor(Math.random() * exam.topics.length)].id
+      : topicId;
+
     try {
       const res = await fetch('/api/generate-question', {
         method: 'POST',
@@ -108,7 +227,9 @@ export default function ExamArenaPage() {
       });
       const data = await res.json();
       if (!res.ok) throw new Error(data.error ?? 'Falha na geração');
-      setCurrent(data);
+      const question = PublicQuestionSchema.safeParse(data.question);
+      if (!question.success) throw new Error('Questão recebida em formato inválido');
+      setCurrent({ ...data, question: question.data });
       const snippet = (data.question?.question_en ?? '').substring(0, 60);
       seenQuestionsRef.current = [...seenQuestionsRef.current.slice(-9), snippet];
       if (!studyMode) timer.start();
@@ -119,13 +240,74 @@ export default function ExamArenaPage() {
     }
   };
 
-  const handleAnswer = async (letter: string, overrideElapsed?: number) => {
+  // One case study → one arena question per linked question, in order
+  const fetchCaseStudy = async (caseDifficulty: string): Promise<GenerationResponse[]> => {
+    const res = await fetch('/api/case-study', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ exam_id: examId, difficulty: caseDifficulty }),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error ?? 'Falha na geração do estudo de caso');
+    const caseStudy = CaseStudyPublicSchema.safeParse(data.case);
+    if (!caseStudy.success) throw new Error('Estudo de caso recebido em formato inválido');
+
+    const items: Array<{ topic_id: string; topic_name: string; question: unknown; question_token: string }> = data.questions ?? [];
+    return items.map((item, index) => {
+      const question = PublicQuestionSchema.safeParse(item.question);
+      if (!question.success) throw new Error('Questão recebida em formato inválido');
+      return {
+        exam_id:         examId,
+        exam_title:      data.exam_title,
+        topic_id:        item.topic_id,
+        topic_name:      item.topic_name,
+        difficulty:      data.difficulty,
+        session_id:      data.session_id,
+        question:        question.data,
+        question_token:  item.question_token,
+        model_used:      data.model_used,
+        rag_chunks_used: -1,
+        case_study:      caseStudy.data,
+        case_position:   { index, total: items.length },
+      };
+    });
+  };
+
+  // letter = null → timer expired without an answer
+  const handleAnswer = async (letter: string | null, overrideElapsed?: number) => {
     if (!current || selected) return;
     const elapsed = studyMode ? 0 : (overrideElapsed ?? timer.elapsed);
     if (!studyMode) timer.reset();
-    setSelected(letter);
+    setSelected(letter ?? '…');
 
-    const isCorrect = letter === current.question.correct_letter;
+    // Grading happens server-side — the answer key is only revealed here
+    let saved: SaveResultResponse;
+    try {
+      const res = await fetch('/api/save-result', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          question_token:      current.question_token,
+          session_id:          current.session_id,
+          user_answer:         letter,
+          timed_out:           letter === null,
+          time_taken_seconds:  elapsed,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? 'Falha ao corrigir');
+      saved = data;
+    } catch (err) {
+      setSelected(null);
+      setGenError(err instanceof Error ? err.message : 'Falha ao corrigir a resposta');
+      return;
+    }
+
+    setSelected(saved.user_answer);
+    setAnswerKey({ correct_letter: saved.correct_letter, explanation_pt: saved.explanation_pt });
+    if (saved.success && saved.id) setHistoryId(saved.id);
+
+    const isCorrect = saved.is_correct;
     const newStreak = isCorrect ? streak + 1 : 0;
     setStreak(newStreak);
     setMaxStreak(m => Math.max(m, newStreak));
@@ -140,27 +322,66 @@ export default function ExamArenaPage() {
       const s = prev[statKey] ?? { correct: 0, total: 0 };
       return { ...prev, [statKey]: { correct: s.correct + (isCorrect ? 1 : 0), total: s.total + 1 } };
     });
+  };
 
+  const handleOpenSubmit = async (answerText: string) => {
+    if (!openCurrent || openGrading || openResult) return;
+    setOpenGrading(true);
     try {
-      const res = await fetch('/api/save-result', {
+      const res = await fetch('/api/grade-free-response', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          exam_id:             examId,
-          topic_id:            current.topic_id,
-          topic_name:          current.topic_name,
-          difficulty:          current.difficulty,
-          session_id:          current.session_id,
-          generated_question:  current.question,
-          user_answer:         letter,
-          correct_letter:      current.question.correct_letter,
-          model_used:          current.model_used,
-          time_taken_seconds:  elapsed,
+          question_token: openCurrent.question_token,
+          session_id:     openCurrent.session_id,
+          answer_text:    answerText,
         }),
       });
-      const saved = await res.json();
-      if (saved.success && saved.id) setHistoryId(saved.id);
-    } catch { /* non-critical */ }
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? 'Falha ao corrigir');
+      const result = FreeResponseResultSchema.safeParse(data);
+      if (!result.success) throw new Error('Correção recebida em formato inválido');
+      setOpenResult(result.data);
+      if (data.id) setHistoryId(data.id);
+      // Open answers count towards the session like any other question
+      setSessionCount(c => c + 1);
+      if (result.data.is_correct) setSessionCorrect(c => c + 1);
+    } catch (err) {
+      setGenError(err instanceof Error ? err.message : 'Falha ao corrigir a resposta');
+    } finally {
+      setOpenGrading(false);
+    }
+  };
+
+  // command = null → the learner gave up
+  const handleCliCommand = async (command: string | null) => {
+    if (!cliCurrent || cliRunning || (cliResult && cliResult.status !== 'active')) return;
+    setCliRunning(true);
+    try {
+      const res = await fetch('/api/cli-challenge/command', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(command === null
+          ? { question_token: cliCurrent.question_token, session_id: cliCurrent.session_id, give_up: true }
+          : { question_token: cliCurrent.question_token, session_id: cliCurrent.session_id, command }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? 'Falha ao executar o comando');
+      const result = CliCommandResultSchema.safeParse(data);
+      if (!result.success) throw new Error('Resposta do terminal em formato inválido');
+      const { entry } = result.data;
+      if (entry) setCliTranscript(t => [...t, entry]);
+      setCliResult(result.data);
+      // A finished challenge counts towards the session like any other question
+      if (result.data.status !== 'active') {
+        setSessionCount(c => c + 1);
+        if (result.data.status === 'solved') setSessionCorrect(c => c + 1);
+      }
+    } catch (err) {
+      setGenError(err instanceof Error ? err.message : 'Falha ao executar o comando');
+    } finally {
+      setCliRunning(false);
+    }
   };
 
   const handleRate = async (value: 1 | -1) => {
@@ -173,15 +394,31 @@ export default function ExamArenaPage() {
     });
   };
 
+  const handleRateExplanation = async (value: 1 | -1) => {
+    setExplRating(value);
+    if (!historyId) return;
+    await fetch('/api/rate-question', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ question_history_id: historyId, explanation_rating: value }),
+    });
+  };
+
   const handleFeedbackSubmit = async () => {
-    if (!historyId || !feedback.trim()) return;
+    if (!historyId || (!feedback.trim() && feedbackCats.length === 0)) return;
     await fetch('/api/rate-question', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ question_history_id: historyId, user_rating: rating ?? 0, feedback_notes: feedback }),
+      body: JSON.stringify({
+        question_history_id: historyId,
+        user_rating:         rating ?? 0,
+        feedback_notes:      feedback.trim() || null,
+        feedback_categories: feedbackCats,
+      }),
     });
     setShowFeedback(false);
     setFeedback('');
+    setFeedbackCats([]);
   };
 
   const handleContinue = () => {
@@ -191,8 +428,15 @@ export default function ExamArenaPage() {
     setStreak(0);
     setMaxStreak(0);
     seenQuestionsRef.current = [];
+    caseQueueRef.current = [];
     setCurrent(null);
     setSelected(null);
+    setAnswerKey(null);
+    setOpenCurrent(null);
+    setOpenResult(null);
+    setCliCurrent(null);
+    setCliTranscript([]);
+    setCliResult(null);
   };
 
   return (
@@ -226,16 +470,43 @@ export default function ExamArenaPage() {
         <div className="p-5 rounded-xl border border-border bg-card space-y-4">
           <div className="flex items-center justify-between">
             <h2 className="text-sm font-semibold text-muted-foreground uppercase tracking-wider">Configurar Questão</h2>
-            <button
-              onClick={() => setStudyMode(m => !m)}
-              className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-all ${
-                studyMode
-                  ? 'bg-blue-500/15 text-blue-400 border border-blue-500/30'
-                  : 'bg-secondary text-muted-foreground hover:text-foreground'
-              }`}
-            >
-              {studyMode ? 'Modo Estudo — sem timer' : 'Modo Exame — com timer'}
-            </button>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={toggleTextOnly}
+                aria-pressed={textOnly}
+                title="Mostra diagramas e terminais como descrições em texto"
+                className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-all ${
+                  textOnly
+                    ? 'bg-blue-500/15 text-blue-400 border border-blue-500/30'
+                    : 'bg-secondary text-muted-foreground hover:text-foreground'
+                }`}
+              >
+                Somente texto
+              </button>
+              <button
+                onClick={() => setStudyMode(m => !m)}
+                className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-all ${
+                  studyMode
+                    ? 'bg-blue-500/15 text-blue-400 border border-blue-500/30'
+                    : 'bg-secondary text-muted-foreground hover:text-foreground'
+                }`}
+              >
+                {studyMode ? 'Modo Estudo — sem timer' : 'Modo Exame — com timer'}
+              </button>
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs text-muted-foreground mb-1.5">Formato</label>
+            <div className="flex gap-2">
+              {(['choice', 'open', 'cli'] as const).map((f) => (
+                <button key={f} onClick={() => { setFormat(f); if (f !== 'choice' && topicId === CASE_STUDY) setTopicId(''); }}
+                  className={`flex-1 py-2 rounded-lg text-xs font-medium transition-colors ${
+                    format === f ? 'bg-primary text-primary-foreground' : 'bg-secondary text-muted-foreground hover:text-foreground'
+                  }`}>
+                  {FORMAT_LABEL[f]}
+                </button>
+              ))}
+            </div>
           </div>
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
             <div>
@@ -244,6 +515,9 @@ export default function ExamArenaPage() {
                 className="w-full bg-secondary border border-border rounded-lg px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-1 focus:ring-primary">
                 <option value="">Selecione um tópico...</option>
                 <option value="__random__">Todos os Tópicos (Sorteio)</option>
+                {format === 'choice' && (
+                  <option value={CASE_STUDY}>Estudo de Caso (cenário com várias questões)</option>
+                )}
                 <option disabled value="">──────────────</option>
                 {exam.topics.map((t) => (
                   <option key={t.id} value={t.id}>{t.name}</option>
@@ -274,14 +548,16 @@ export default function ExamArenaPage() {
                 <span className="w-4 h-4 border-2 border-primary-foreground/30 border-t-primary-foreground rounded-full animate-spin" />
                 Gerando com Gemini...
               </span>
-            ) : 'Gerar Questão'}
+            ) : format === 'open' ? 'Gerar Incidente'
+              : format === 'cli' ? 'Gerar Desafio de Terminal'
+              : topicId === CASE_STUDY && caseQueueRef.current.length === 0 ? 'Gerar Estudo de Caso' : 'Gerar Questão'}
           </button>
           {genError && (
             <p className="text-xs text-destructive bg-destructive/10 px-3 py-2 rounded-lg">{genError}</p>
           )}
 
           {/* Difficulty auto-suggest */}
-          {topicId && topicId !== '__random__' && (difficulty === 'easy' || difficulty === 'medium') && (() => {
+          {topicId && topicId !== '__random__' && topicId !== CASE_STUDY && (difficulty === 'easy' || difficulty === 'medium') && (() => {
             const statKey = `${topicId}:${difficulty}`;
             const s = topicDiffStats[statKey];
             if (!s || s.total < 5) return null;
@@ -306,14 +582,53 @@ export default function ExamArenaPage() {
           })()}
         </div>
 
+        {/* Open-answer incident */}
+        {openCurrent && (
+          <FreeResponseCard
+            question={openCurrent.question}
+            modelUsed={openCurrent.model_used}
+            topicName={openCurrent.topic_name}
+            difficulty={openCurrent.difficulty}
+            grading={openGrading}
+            result={openResult}
+            onSubmit={handleOpenSubmit}
+            rating={rating}
+            onRate={handleRate}
+            onNext={handleGenerate}
+            textOnly={textOnly}
+          />
+        )}
+
+        {/* CLI troubleshooting challenge */}
+        {cliCurrent && (
+          <CliChallengeCard
+            challenge={cliCurrent.challenge}
+            modelUsed={cliCurrent.model_used}
+            topicName={cliCurrent.topic_name}
+            difficulty={cliCurrent.difficulty}
+            transcript={cliTranscript}
+            status={cliResult?.status ?? 'active'}
+            commandsUsed={cliResult?.commands_used ?? 0}
+            maxCommands={cliCurrent.max_commands}
+            reveal={cliResult?.reveal ?? null}
+            running={cliRunning}
+            onCommand={handleCliCommand}
+            onGiveUp={() => handleCliCommand(null)}
+            onNext={handleGenerate}
+          />
+        )}
+
         {/* Question Card */}
         {current && (
           <QuestionCard
             question={current.question}
+            answerKey={answerKey}
             modelUsed={current.model_used}
             topicName={current.topic_name}
             difficulty={current.difficulty}
             ragChunks={current.rag_chunks_used}
+            caseStudy={current.case_study}
+            casePosition={current.case_position}
             selected={selected}
             onAnswer={handleAnswer}
             timerFormatted={timer.formattedTime}
@@ -326,13 +641,18 @@ export default function ExamArenaPage() {
             onResume={() => timer.resume()}
             streak={streak}
             studyMode={studyMode}
+            textOnly={textOnly}
             rating={rating}
             onRate={handleRate}
             onReport={() => setShowFeedback(!showFeedback)}
             showReport={showFeedback}
             reportText={feedback}
             onReportChange={setFeedback}
+            reportCategories={feedbackCats}
+            onReportCategoriesChange={setFeedbackCats}
             onReportSubmit={handleFeedbackSubmit}
+            explanationRating={explRating}
+            onRateExplanation={handleRateExplanation}
             onNext={handleGenerate}
           />
         )}
@@ -13,6 +13,14 @@ function fmtTime(s: number | null): string {
   return `${Math.floor(s / 60)}m${s % 60 > 0 ? `${s % 60}s` : ''}`;
 }
 
+// Free-response rows show their rubric score, CLI challenges a tag, instead of a letter
+function answerLabel(row: HistoryRow): string {
+  if (row.question_type === 'cli_challenge') return 'CLI';
+  return row.score != null ? `${Math.round(row.score)}%` : row.user_answer;
+}
+
+const isLettered = (row: HistoryRow) => row.question_type === 'single' || row.question_type === 'multiple';
+
 const DIFFICULTY_LABEL: Record<string, string> = {
   easy: 'Fácil', medium: 'Médio', hard: 'Difícil',
 };
@@ -43,7 +51,7 @@ function LetterBadge({ letter, highlight }: { letter: string; highlight?: 'green
       ? 'bg-red-500/10 text-red-400 border-red-500/30'
       : 'bg-secondary text-muted-foreground border-border';
   return (
-    <span className={`inline-flex items-center justify-center w-7 h-7 rounded-lg text-xs font-bold border ${cls}`}>
+    <span className={`inline-flex items-center justify-center min-w-[1.75rem] px-1.5 h-7 rounded-lg text-xs font-bold border ${cls}`}>
       {letter}
     </span>
   );
@@ -220,10 +228,12 @@ export default function HistoryPage() {
                             </td>
                             <td className="px-4 py-3 text-center"><DiffBadge value={row.difficulty} /></td>
                             <td className="px-4 py-3 text-center">
-                              <LetterBadge letter={row.user_answer} highlight={row.is_correct ? 'green' : 'red'} />
+                              <LetterBadge letter={answerLabel(row)} highlight={row.is_correct ? 'green' : 'red'} />
                             </td>
                             <td className="px-4 py-3 text-center">
-                              <LetterBadge letter={row.correct_letter} highlight="green" />
+                              {isLettered(row)
+                                ? <LetterBadge letter={row.correct_letter} highlight="green" />
+                                : <span className="text-xs text-muted-foreground">—</span>}
                             </td>
                             <td className="px-4 py-3 text-center">
                               <ResultBadge correct={row.is_correct} />
@@ -270,8 +280,8 @@ export default function HistoryPage() {
                         <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
                           <span className="px-2 py-0.5 rounded-full bg-secondary">{row.exam_name}</span>
                           <DiffBadge value={row.difficulty} />
-                          <span>Sua: <LetterBadge letter={row.user_answer} highlight={row.is_correct ? 'green' : 'red'} /></span>
-                          {!row.is_correct && <span>Certa: <LetterBadge letter={row.correct_letter} highlight="green" /></span>}
+                          <span>{row.score != null ? 'Nota' : 'Sua'}: <LetterBadge letter={answerLabel(row)} highlight={row.is_correct ? 'green' : 'red'} /></span>
+                          {!row.is_correct && isLettered(row) && <span>Certa: <LetterBadge letter={row.correct_letter} highlight="green" /></span>}
                           <span className="ml-auto font-mono">{fmtTime(row.time_taken_seconds)}</span>
                           <span>{row.timestamp}</span>
                         </div>
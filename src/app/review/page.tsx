@@ -4,6 +4,8 @@ import { useEffect, useState } from 'react';
 import Link from 'next/link';
 import { EXAM_LIST } from '@/config/exams';
 import type { WrongAnswer } from '@/app/api/wrong-answers/route';
+import type { LearnerDispute } from '@/app/api/disputes/route';
+import { VisualContextBlock } from '@/components/QuestionCard';
 
 function DifficultyBadge({ value }: { value: string }) {
   const map: Record<string, string> = {
@@ -19,11 +21,120 @@ function DifficultyBadge({ value }: { value: string }) {
   );
 }
 
+const DISPUTE_STATUS: Record<LearnerDispute['status'], { label: string; className: string }> = {
+  open:     { label: 'Contestação em análise', className: 'bg-yellow-500/10 text-yellow-400 border-yellow-500/30' },
+  upheld:   { label: 'Contestação aceita',     className: 'bg-green-500/10 text-green-400 border-green-500/30' },
+  rejected: { label: 'Contestação recusada',   className: 'bg-secondary text-muted-foreground border-border' },
+};
+
+function DisputeStatus({ dispute }: { dispute: LearnerDispute }) {
+  const status = DISPUTE_STATUS[dispute.status];
+  return (
+    <div className={`p-3 rounded-lg border text-xs space-y-1 ${status.className}`}>
+      <p className="font-medium">{status.label} · você indicou {dispute.claimed_answer}</p>
+      {dispute.decision_note && <p className="text-foreground">{dispute.decision_note}</p>}
+    </div>
+  );
+}
+
+/** "Contestar gabarito": the key the learner argues for plus their reasoning. */
+function DisputeForm({ item, onFiled }: { item: WrongAnswer; onFiled: (d: LearnerDispute) => void }) {
+  const [letters,   setLetters]   = useState<string[]>([]);
+  const [reasoning, setReasoning] = useState('');
+  const [sending,   setSending]   = useState(false);
+  const [error,     setError]     = useState<string | null>(null);
+
+  const multiple = item.question_type === 'multiple';
+  const expected = multiple ? item.select_count : 1;
+  const options  = Object.entries(item.options_en)
+    .filter((entry): entry is [string, string] => entry[1] !== undefined);
+  const ready    = letters.length === expected && reasoning.trim().length >= 20;
+
+  const toggle = (letter: string) => setLetters((prev) =>
+    !multiple ? [letter] : prev.includes(letter) ? prev.filter((l) => l !== letter) : [...prev, letter].sort());
+
+  const submit = async () => {
+    setSending(true);
+    setError(null);
+    try {
+      const res  = await fetch('/api/disputes', {
+        method:  'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body:    JSON.stringify({ question_history_id: item.id, claimed_answer: letters, reasoning }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(res.status === 409 ? 'Esta resposta já tem uma contestação em análise.' : data.error);
+      onFiled(data.dispute);
+    } catch (err) {
+      setError(err instanceof Error && err.message ? err.message : 'Falha ao enviar a contestação.');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <details>
+      <summary className="text-xs text-muted-foreground cursor-pointer hover:text-foreground select-none">
+        Acha que o gabarito está errado? Contestar
+      </summary>
+      <div className="mt-3 p-4 rounded-lg border border-border space-y-3">
+        <p className="text-xs text-muted-foreground">
+          {multiple ? `Marque as ${expected} alternativas` : 'Marque a alternativa'} que você considera correta(s):
+        </p>
+        <div className="space-y-1.5">
+          {options.map(([letter, text]) => (
+            <label key={letter} className="flex items-start gap-3 p-2 rounded-lg border border-border text-sm cursor-pointer">
+              <input
+                type={multiple ? 'checkbox' : 'radio'}
+                name={`dispute-${item.id}`}
+                checked={letters.includes(letter)}
+                onChange={() => toggle(letter)}
+                className="mt-1"
+              />
+              <span className="font-mono font-bold text-muted-foreground">{letter}</span>
+              <span className="flex-1 text-foreground">{text}</span>
+            </label>
+          ))}
+        </div>
+        <textarea
+          value={reasoning}
+          onChange={(e) => setReasoning(e.target.value)}
+          maxLength={2000}
+          rows={4}
+          placeholder="Explique por que o gabarito está errado (mínimo 20 caracteres; cite a documentação se possível)"
+          className="w-full bg-secondary border border-border rounded-lg p-2 text-xs text-foreground"
+        />
+        {error && <p className="text-xs text-destructive">{error}</p>}
+        <div className="flex justify-end">
+          <button
+            onClick={submit}
+            disabled={!ready || sending}
+            className="px-3 py-1.5 rounded-lg bg-primary text-primary-foreground text-xs font-medium disabled:opacity-50"
+          >
+            {sending ? 'Enviando...' : 'Enviar contestação'}
+          </button>
+        </div>
+      </div>
+    </details>
+  );
+}
+
 export default function ReviewPage() {
   const [examFilter, setExamFilter] = useState('');
   const [data,       setData]       = useState<WrongAnswer[]>([]);
   const [loading,    setLoading]    = useState(true);
   const [error,      setError]      = useState<string | null>(null);
+  const [disputes,   setDisputes]   = useState<Record<string, LearnerDispute>>({});
+
+  // Newest dispute per answer
+  const addDispute = (d: LearnerDispute) => setDisputes((prev) => ({ ...prev, [d.history_id]: d }));
+
+  useEffect(() => {
+    fetch('/api/disputes')
+      .then(r => r.json())
+      .then(d => (d.disputes ?? []).slice().reverse().forEach(addDispute))
+      .catch(() => { /* the form still works; statuses just don't show */ });
+  }, []);
 
   useEffect(() => {
     setLoading(true);
@@ -47,9 +158,14 @@ export default function ReviewPage() {
       </header>
 
       <main className="max-w-4xl mx-auto px-4 py-8 space-y-6">
-        <div>
-          <h1 className="text-2xl font-bold text-foreground">Deck de Erros</h1>
-          <p className="text-muted-foreground text-sm mt-1">Questões que você errou, com explicação completa</p>
+        <div className="flex items-end justify-between gap-3 flex-wrap">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Deck de Erros</h1>
+            <p className="text-muted-foreground text-sm mt-1">Questões que você errou, com explicação completa</p>
+          </div>
+          <Link href="/review/terminal" className="text-xs text-primary hover:underline font-medium">
+            Desafios de Terminal →
+          </Link>
         </div>
 
         {/* Filter */}
@@ -101,6 +217,7 @@ export default function ReviewPage() {
                       <p className="text-sm text-foreground leading-relaxed font-mono whitespace-pre-wrap">
                         {item.question_text}
                       </p>
+                      <VisualContextBlock vc={item.visual_context} />
                     </div>
                   )}
 
@@ -135,6 +252,11 @@ export default function ReviewPage() {
                     </details>
                   )}
 
+                  {/* Dispute the key */}
+                  {disputes[item.id]
+                    ? <DisputeStatus dispute={disputes[item.id]} />
+                    : Object.keys(item.options_en).length > 0 && <DisputeForm item={item} onFiled={addDispute} />}
+
                   {/* Practice again button */}
                   <Link
                     href={`/exam/${item.exam_name}`}
@@ -0,0 +1,101 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import type { CliAttempt } from '@/app/api/cli-challenge/route';
+
+const STATUS_BADGE: Record<CliAttempt['status'], { label: string; cls: string }> = {
+  active:    { label: 'Em andamento', cls: 'bg-blue-500/10 text-blue-400' },
+  solved:    { label: 'Resolvido',    cls: 'bg-green-500/10 text-green-400' },
+  exhausted: { label: 'Sem comandos', cls: 'bg-red-500/10 text-red-400' },
+  abandoned: { label: 'Desistiu',     cls: 'bg-secondary text-muted-foreground' },
+};
+
+export default function TerminalReviewPage() {
+  const [data,    setData]    = useState<CliAttempt[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error,   setError]   = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/cli-challenge?limit=50')
+      .then(r => r.json())
+      .then(d => { setData(d.attempts ?? []); setLoading(false); })
+      .catch(() => { setError('Falha ao carregar os desafios.'); setLoading(false); });
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card/50 backdrop-blur-sm sticky top-0 z-10">
+        <div className="max-w-4xl mx-auto px-4 py-3 flex items-center gap-2">
+          <Link href="/review" className="text-muted-foreground hover:text-foreground text-sm transition-colors shrink-0">← Revisar Erros</Link>
+          <span className="text-border hidden sm:block">|</span>
+          <span className="text-sm font-semibold text-foreground hidden sm:block">Desafios de Terminal</span>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Desafios de Terminal</h1>
+          <p className="text-muted-foreground text-sm mt-1">Seus desafios de troubleshooting, com todos os comandos executados</p>
+        </div>
+
+        {loading ? (
+          <div className="space-y-3">
+            {[1,2,3].map(i => <div key={i} className="h-20 rounded-xl bg-card border border-border animate-pulse" />)}
+          </div>
+        ) : error ? (
+          <div className="p-4 bg-destructive/10 border border-destructive/30 rounded-xl text-destructive text-sm">{error}</div>
+        ) : data.length === 0 ? (
+          <div className="p-8 rounded-xl border border-border bg-card text-center">
+            <h2 className="text-lg font-semibold text-foreground">Nenhum desafio ainda</h2>
+            <p className="text-muted-foreground text-sm mt-1">Escolha o formato &quot;Desafio de Terminal&quot; na arena para começar.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {data.map((attempt) => (
+              <div key={attempt.id} className="p-5 rounded-xl border border-border bg-card space-y-3">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="text-xs font-mono text-muted-foreground">{attempt.exam_name}</span>
+                  <span className="text-muted-foreground text-xs">·</span>
+                  <span className="text-xs text-muted-foreground">{attempt.topic}</span>
+                  <span className={`inline-block px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_BADGE[attempt.status].cls}`}>
+                    {STATUS_BADGE[attempt.status].label}
+                  </span>
+                  <span className="text-xs text-muted-foreground ml-auto">
+                    {new Date(attempt.started_at).toLocaleString('pt-BR')}
+                  </span>
+                </div>
+                <h2 className="text-sm font-semibold text-foreground">{attempt.title}</h2>
+
+                {attempt.transcript.length > 0 ? (
+                  <details>
+                    <summary className="text-xs text-primary cursor-pointer hover:underline select-none font-medium">
+                      Ver transcrição ({attempt.transcript.length} comando(s))
+                    </summary>
+                    <div className="mt-3 rounded-lg bg-slate-900 p-4 font-mono text-xs leading-relaxed text-green-400 max-h-96 overflow-y-auto space-y-3">
+                      {attempt.transcript.map((e, i) => (
+                        <div key={i}>
+                          <pre className={`whitespace-pre-wrap ${e.fixes ? 'text-green-300 font-bold' : 'text-slate-200'}`}>$ {e.command}</pre>
+                          <pre className={`whitespace-pre-wrap ${e.source === 'rejected' ? 'text-red-400' : ''}`}>{e.output}</pre>
+                        </div>
+                      ))}
+                    </div>
+                  </details>
+                ) : (
+                  <p className="text-xs text-muted-foreground">Nenhum comando executado.</p>
+                )}
+
+                <Link
+                  href={`/exam/${attempt.exam_name}`}
+                  className="inline-flex items-center gap-1.5 text-xs text-primary hover:underline font-medium"
+                >
+                  Novo desafio nesta prova →
+                </Link>
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -4,6 +4,13 @@ import { useState, useRef, useEffect, useCallback } from 'react';
 import Link from 'next/link';
 import { EXAM_LIST, EXAMS_CONFIG } from '@/config/exams';
 import type { QuestionData } from '@/components/QuestionCard';
+import { VisualContextBlock } from '@/components/QuestionCard';
+import { CaseStudyPanel } from '@/components/CaseStudyPanel';
+import { useTextOnlyMode } from '@/hooks/useTextOnlyMode';
+import {
+  ANSWER_LETTERS, CaseStudyPublicSchema, PublicQuestionSchema, formatAnswer, isMultipleSelect, parseAnswer,
+} from '@/lib/questionSchema';
+import type { AnswerKey, CaseStudyPublic } from '@/lib/questionSchema';
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
@@ -17,10 +24,15 @@ type SimQuestion = {
   session_id:  string | null;
   model_used:  string;
   question:    QuestionData;
+  question_token: string;
   from_bank:   boolean;
+  /** Served from the curated question library (admin-reviewed) */
+  from_library?: boolean;
+  case_study?:    CaseStudyPublic;
+  case_position?: { index: number; total: number };
 };
 
-type Answer = {
+type Answer = AnswerKey & {
   question:       SimQuestion;
   user_answer:    string;
   is_correct:     boolean;
@@ -36,23 +48,22 @@ const PRESET_SIZES = [10, 25, 50];
 // 2h for 50 questions, proportional
 const SECONDS_PER_QUESTION = 144;
 
-const OPTION_KEYS = ['A', 'B', 'C', 'D'] as const;
-
 // ─── Option style ─────────────────────────────────────────────────────────────
 
 function getOptionStyle(
   letter: string,
   selected: string | null,
-  correctLetter: string,
+  correctLetter: string | null,
   reveal: boolean,
 ): string {
   const base = 'w-full text-left px-4 py-4 sm:py-3 rounded-xl border text-sm transition-all duration-150 flex items-start min-h-[52px] ';
-  if (!selected || !reveal) {
-    if (selected === letter) return base + 'border-primary bg-primary/10 text-primary';
+  const isSelected = parseAnswer(selected).includes(letter);
+  if (!selected || !reveal || !correctLetter) {
+    if (isSelected) return base + 'border-primary bg-primary/10 text-primary';
     return base + 'border-border bg-secondary/30 hover:border-primary/50 hover:bg-primary/5 active:scale-[0.99]';
   }
-  if (letter === correctLetter) return base + 'border-green-500 bg-green-500/10 text-green-300';
-  if (letter === selected)       return base + 'border-red-500 bg-red-500/10 text-red-300';
+  if (parseAnswer(correctLetter).includes(letter)) return base + 'border-green-500 bg-green-500/10 text-green-300';
+  if (isSelected)                                  return base + 'border-red-500 bg-red-500/10 text-red-300';
   return base + 'border-border bg-secondary/20 text-muted-foreground opacity-40';
 }
 
@@ -77,12 +88,17 @@ export default function SimuladoPage() {
   const [totalQ,      setTotalQ]      = useState(25);
   const [customQ,     setCustomQ]     = useState('');
   const [revealMode,  setRevealMode]  = useState(false); // show answer after each Q?
+  const [caseMode,    setCaseMode]    = useState(false); // questions come in case-study sets
+  const [textOnly,    toggleTextOnly] = useTextOnlyMode();   // visuals as text descriptions
 
   // Running state
   const [questions,   setQuestions]   = useState<SimQuestion[]>([]);
   const [answers,     setAnswers]     = useState<Answer[]>([]);
   const [currentIdx,  setCurrentIdx]  = useState(0);
   const [selected,    setSelected]    = useState<string | null>(null);
+  const [picks,       setPicks]       = useState<string[]>([]);          // multiple-select, before select_count is reached
+  const [graded,      setGraded]      = useState<Answer | null>(null);   // reveal mode: graded on select
+  const [grading,     setGrading]     = useState(false);
   const [revealed,    setRevealed]    = useState(false);
   const [timeLeft,    setTimeLeft]    = useState(0);
   const [startTime,   setStartTime]   = useState(0);
@@ -95,8 +111,49 @@ export default function SimuladoPage() {
   const fetchingNext = useRef(false);
   const seenRef    = useRef<string[]>([]);
 
+  // Case-study mode: remaining questions of the current case (+ in-flight fetch)
+  const caseModeRef    = useRef(false);
+  const caseQueueRef   = useRef<SimQuestion[]>([]);
+  const casePendingRef = useRef<Promise<SimQuestion[]> | null>(null);
+
   const exam = examId ? EXAMS_CONFIG[examId] : null;
 
+  // ── Fetch one case study, split into its linked questions ──────────────────
+  const fetchCaseStudy = useCallback(async (forExamId: string, difficulty: string): Promise<SimQuestion[]> => {
+    try {
+      const res = await fetch('/api/case-study', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ exam_id: forExamId, difficulty }),
+      });
+      if (!res.ok) return [];
+      const data = await res.json();
+      const caseStudy = CaseStudyPublicSchema.safeParse(data.case);
+      if (!caseStudy.success) return [];
+
+      const items: Array<{ topic_id: string; topic_name: string; question: unknown; question_token: string }> = data.questions ?? [];
+      return items.flatMap((item, index) => {
+        const question = PublicQuestionSchema.safeParse(item.question);
+        if (!question.success) return [];
+        return [{
+          exam_id:        forExamId,
+          topic_id:       item.topic_id,
+          topic_name:     item.topic_name,
+          difficulty:     data.difficulty,
+          session_id:     data.session_id,
+          model_used:     data.model_used,
+          question:       question.data,
+          question_token: item.question_token,
+          from_bank:      false,
+          case_study:     caseStudy.data,
+          case_position:  { index, total: items.length },
+        }];
+      });
+    } catch {
+      return [];
+    }
+  }, []);
+
   // ── Fetch one question ──────────────────────────────────────────────────────
   const fetchQuestion = useCallback(async (forExamId: string, forTopicIds: string[], forDiff: SimDifficulty): Promise<SimQuestion | null> => {
     const e = EXAMS_CONFIG[forExamId];
@@ -108,6 +165,19 @@ export default function SimuladoPage() {
       ? (['easy', 'medium', 'hard'] as const)[Math.floor(Math.random() * 3)]
       : forDiff;
 
+    if (caseModeRef.current) {
+      if (caseQueueRef.current.length === 0) {
+        // Prefetch and on-demand fetch may race — share one request
+        casePendingRef.current ??= fetchCaseStudy(forExamId, difficulty);
+        try {
+          caseQueueRef.current = await casePendingRef.current;
+        } finally {
+          casePendingRef.current = null;
+        }
+      }
+      return caseQueueRef.current.shift() ?? null;
+    }
+
     try {
       const res = await fetch('/api/generate-question', {
         method: 'POST',
@@ -121,13 +191,16 @@ export default function SimuladoPage() {
       });
       if (!res.ok) return null;
       const data = await res.json();
+      const question = PublicQuestionSchema.safeParse(data.question);
+      if (!question.success) return null;
+      data.question = question.data;
       const snippet = (data.question?.question_en ?? '').substring(0, 60);
       seenRef.current = [...seenRef.current.slice(-19), snippet];
       return data as SimQuestion;
     } catch {
       return null;
     }
-  }, []);
+  }, [fetchCaseStudy]);
 
   // ── Prefetch next question into nextRef ─────────────────────────────────────
   const prefetchNext = useCallback(async (forExamId: string, forTopicIds: string[], forDiff: SimDifficulty) => {
@@ -148,6 +221,8 @@ export default function SimuladoPage() {
     setError(null);
     seenRef.current = [];
     nextRef.current = null;
+    caseModeRef.current  = caseMode;
+    caseQueueRef.current = [];
 
     // Fetch the first question
     const first = await fetchQuestion(examId, topicIds, simDiff);
@@ -162,6 +237,8 @@ export default function SimuladoPage() {
     setAnswers([]);
     setCurrentIdx(0);
     setSelected(null);
+    setPicks([]);
+    setGraded(null);
     setRevealed(false);
     setTimeLeft(n * SECONDS_PER_QUESTION);
     setStartTime(Date.now());
@@ -191,44 +268,73 @@ export default function SimuladoPage() {
 
   const actualTotal = customQ ? (parseInt(customQ) || totalQ) : totalQ;
 
-  // ── Select an answer (no submit yet in exam mode) ───────────────────────────
-  const handleSelect = (letter: string) => {
-    if (selected !== null) return;
-    setSelected(letter);
-    if (revealMode) setRevealed(true);
-  };
-
-  // ── Confirm answer and move to next ────────────────────────────────────────
-  const handleConfirm = async () => {
-    if (!selected) return;
-    const q = questions[currentIdx];
-    const isCorrect = selected === q.question.correct_letter;
+  // ── Grade one answer server-side (reveals the answer key) ──────────────────
+  const gradeAnswer = async (q: SimQuestion, letter: string): Promise<Answer | null> => {
     const timeTaken = Math.round((Date.now() - qStartTime) / 1000);
-
-    // Save to BQ (fire-and-forget)
-    let historyId: string | null = null;
+    setGrading(true);
     try {
       const res = await fetch('/api/save-result', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          exam_id:            q.exam_id,
-          topic_id:           q.topic_id,
-          topic_name:         q.topic_name,
-          difficulty:         q.difficulty,
+          question_token:     q.question_token,
           session_id:         q.session_id,
-          generated_question: q.question,
-          user_answer:        selected,
-          correct_letter:     q.question.correct_letter,
-          model_used:         q.model_used,
+          user_answer:        letter,
           time_taken_seconds: timeTaken,
         }),
       });
       const saved = await res.json();
-      if (saved.success && saved.id) historyId = saved.id;
-    } catch { /* non-critical */ }
+      if (!res.ok) throw new Error(saved.error ?? 'Falha ao corrigir');
+      return {
+        question:       q,
+        user_answer:    saved.user_answer,
+        is_correct:     saved.is_correct,
+        correct_letter: saved.correct_letter,
+        explanation_pt: saved.explanation_pt,
+        time_seconds:   timeTaken,
+        history_id:     saved.id ?? null,
+      };
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Falha ao corrigir a resposta.');
+      return null;
+    } finally {
+      setGrading(false);
+    }
+  };
+
+  // ── Select an answer (no submit yet in exam mode) ───────────────────────────
+  const handleSelect = async (letter: string) => {
+    if (selected !== null) return;
+    const q = questions[currentIdx];
+
+    // "Choose two": toggle letters until select_count are picked
+    let answer = letter;
+    if (isMultipleSelect(q.question)) {
+      const next = picks.includes(letter) ? picks.filter(l => l !== letter) : [...picks, letter];
+      setPicks(next);
+      if (next.length < q.question.select_count) return;
+      answer = formatAnswer(next);
+    }
 
-    const newAnswers = [...answers, { question: q, user_answer: selected, is_correct: isCorrect, time_seconds: timeTaken, history_id: historyId }];
+    setSelected(answer);
+    if (revealMode) {
+      const result = await gradeAnswer(q, answer);
+      if (!result) { setSelected(null); setPicks([]); return; }
+      setGraded(result);
+      setRevealed(true);
+    }
+  };
+
+  // ── Confirm answer and move to next ────────────────────────────────────────
+  const handleConfirm = async () => {
+    if (!selected || grading) return;
+    const q = questions[currentIdx];
+
+    const answer = graded ?? await gradeAnswer(q, selected);
+    if (!answer) return;
+    setError(null);
+
+    const newAnswers = [...answers, answer];
     setAnswers(newAnswers);
 
     // Last question?
@@ -259,6 +365,8 @@ export default function SimuladoPage() {
     setQuestions(newQuestions);
     setCurrentIdx(currentIdx + 1);
     setSelected(null);
+    setPicks([]);
+    setGraded(null);
     setRevealed(false);
     setQStartTime(Date.now());
 
@@ -375,6 +483,34 @@ export default function SimuladoPage() {
             </p>
           </div>
 
+          {/* Case-study mode */}
+          <div className="p-5 rounded-xl border border-border bg-card">
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="text-sm font-medium text-foreground">Estudos de caso</div>
+                <div className="text-xs text-muted-foreground mt-0.5">Questões em grupos que compartilham o mesmo cenário de empresa</div>
+              </div>
+              <button onClick={() => setCaseMode(m => !m)}
+                className={`relative w-11 h-6 rounded-full transition-colors ${caseMode ? 'bg-primary' : 'bg-secondary'}`}>
+                <span className={`absolute top-1 w-4 h-4 rounded-full bg-white transition-all ${caseMode ? 'left-6' : 'left-1'}`} />
+              </button>
+            </div>
+          </div>
+
+          {/* Text-only mode */}
+          <div className="p-5 rounded-xl border border-border bg-card">
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="text-sm font-medium text-foreground">Somente texto</div>
+                <div className="text-xs text-muted-foreground mt-0.5">Diagramas e terminais aparecem como descrições em texto (leitores de tela)</div>
+              </div>
+              <button onClick={toggleTextOnly} aria-pressed={textOnly} aria-label="Somente texto"
+                className={`relative w-11 h-6 rounded-full transition-colors ${textOnly ? 'bg-primary' : 'bg-secondary'}`}>
+                <span className={`absolute top-1 w-4 h-4 rounded-full bg-white transition-all ${textOnly ? 'left-6' : 'left-1'}`} />
+              </button>
+            </div>
+          </div>
+
           {/* Reveal mode */}
           <div className="p-5 rounded-xl border border-border bg-card">
             <div className="flex items-center justify-between">
@@ -492,8 +628,8 @@ export default function SimuladoPage() {
                         <span className="text-xs text-muted-foreground">{a.question.topic_name}</span>
                         {!a.is_correct && (
                           <span className="text-xs">
-                            Você: <span className="text-red-400 font-bold">{a.user_answer}</span>
-                            {' '}→ Certa: <span className="text-green-400 font-bold">{a.question.question.correct_letter}</span>
+                            Você: <span className="text-red-400 font-bold">{parseAnswer(a.user_answer).join(', ')}</span>
+                            {' '}→ Certa: <span className="text-green-400 font-bold">{parseAnswer(a.correct_letter).join(', ')}</span>
                           </span>
                         )}
                       </div>
@@ -503,7 +639,7 @@ export default function SimuladoPage() {
                       {!a.is_correct && (
                         <details className="mt-2">
                           <summary className="text-xs text-primary cursor-pointer hover:underline">Ver explicação →</summary>
-                          <p className="text-xs text-muted-foreground mt-1 leading-relaxed">{a.question.question.explanation_pt}</p>
+                          <p className="text-xs text-muted-foreground mt-1 leading-relaxed">{a.explanation_pt}</p>
                         </details>
                       )}
                     </div>
@@ -548,6 +684,13 @@ export default function SimuladoPage() {
               <span className="text-sm font-semibold text-foreground hidden sm:block truncate">{exam?.title}</span>
             </div>
             <div className="flex items-center gap-3 shrink-0">
+              <button onClick={toggleTextOnly} aria-pressed={textOnly}
+                title="Mostra diagramas e terminais como descrições em texto"
+                className={`px-2 py-1 rounded-lg text-xs font-medium transition-colors ${
+                  textOnly ? 'bg-blue-500/15 text-blue-400' : 'text-muted-foreground hover:text-foreground'
+                }`}>
+                Somente texto
+              </button>
               <span className={`font-mono text-base font-bold tabular-nums ${timeColor}`}>
                 {formatTime(timeLeft)}
               </span>
@@ -570,11 +713,17 @@ export default function SimuladoPage() {
           <span className="px-2 py-0.5 rounded-full bg-secondary capitalize">
             {currentQ.difficulty === 'easy' ? 'Fácil' : currentQ.difficulty === 'medium' ? 'Médio' : 'Difícil'}
           </span>
-          {currentQ.from_bank && (
+          {currentQ.from_library ? (
+            <span className="px-2 py-0.5 rounded-full bg-secondary text-muted-foreground text-xs">Curada</span>
+          ) : currentQ.from_bank && (
             <span className="px-2 py-0.5 rounded-full bg-secondary text-muted-foreground text-xs">Banco</span>
           )}
         </div>
 
+        {currentQ.case_study && (
+          <CaseStudyPanel key={currentQ.case_study.id} caseStudy={currentQ.case_study} position={currentQ.case_position} />
+        )}
+
         {/* Question text */}
         <div className="p-6 rounded-xl border border-border bg-card">
           <p className="text-foreground text-sm leading-relaxed whitespace-pre-wrap font-mono">
@@ -583,26 +732,21 @@ export default function SimuladoPage() {
         </div>
 
         {/* Visual context */}
-        {currentQ.question.visual_context?.type !== 'none' && currentQ.question.visual_context?.content && (
-          <div className="rounded-xl overflow-hidden border border-slate-700 font-mono text-sm shadow-2xl">
-            <div className="flex items-center gap-1.5 px-4 py-2.5 bg-slate-800 border-b border-slate-700">
-              <span className="w-3 h-3 rounded-full bg-red-500/80" />
-              <span className="w-3 h-3 rounded-full bg-yellow-500/80" />
-              <span className="w-3 h-3 rounded-full bg-green-500/80" />
-            </div>
-            <pre className="bg-slate-900 text-green-400 p-4 overflow-x-auto leading-relaxed whitespace-pre text-xs max-h-60">
-              {currentQ.question.visual_context.content}
-            </pre>
-          </div>
-        )}
+        <VisualContextBlock vc={currentQ.question.visual_context} textOnly={textOnly} />
 
         {/* Options */}
         <div className="space-y-2">
-          {OPTION_KEYS.map(letter => (
+          {isMultipleSelect(currentQ.question) && (
+            <p className="text-xs font-semibold text-amber-400">
+              Selecione {currentQ.question.select_count} alternativas
+              {selected === null && ` (${picks.length}/${currentQ.question.select_count})`}
+            </p>
+          )}
+          {ANSWER_LETTERS.filter(l => currentQ.question.options_en[l]).map(letter => (
               <button key={letter}
               onClick={() => handleSelect(letter)}
               disabled={selected !== null && !revealMode}
-              className={getOptionStyle(letter, selected, currentQ.question.correct_letter, revealed)}>
+              className={getOptionStyle(letter, selected ?? (picks.length > 0 ? formatAnswer(picks) : null), graded?.correct_letter ?? null, revealed)}>
               <span className="font-semibold mr-3 font-mono shrink-0">{letter}.</span>
               <span className="text-left">{currentQ.question.options_en[letter]}</span>
             </button>
@@ -610,17 +754,21 @@ export default function SimuladoPage() {
         </div>
 
         {/* Reveal mode: show explanation */}
-        {revealMode && revealed && (
+        {revealMode && revealed && graded && (
           <div className="p-5 rounded-xl border border-border bg-secondary/30">
-            <div className={`text-sm font-semibold mb-2 ${selected === currentQ.question.correct_letter ? 'text-green-400' : 'text-red-400'}`}>
-              {selected === currentQ.question.correct_letter ? 'Correto!' : `Errado — Certa: ${currentQ.question.correct_letter}`}
+            <div className={`text-sm font-semibold mb-2 ${graded.is_correct ? 'text-green-400' : 'text-red-400'}`}>
+              {graded.is_correct ? 'Correto!' : `Errado — Certa: ${parseAnswer(graded.correct_letter).join(', ')}`}
             </div>
-            <p className="text-xs text-foreground leading-relaxed">{currentQ.question.explanation_pt}</p>
+            <p className="text-xs text-foreground leading-relaxed">{graded.explanation_pt}</p>
           </div>
         )}
 
+        {error && (
+          <p className="text-xs text-destructive bg-destructive/10 px-3 py-2 rounded-lg">{error}</p>
+        )}
+
         {/* Confirm button */}
-        <button onClick={handleConfirm} disabled={!selected}
+        <button onClick={handleConfirm} disabled={!selected || grading}
           className="w-full py-3.5 rounded-xl bg-primary text-primary-foreground font-semibold text-sm hover:bg-primary/90 disabled:opacity-40 disabled:cursor-not-allowed transition-all">
           {currentIdx + 1 >= actualTotal ? 'Finalizar Simulado' : 'Próxima →'}
         </button>
@@ -0,0 +1,48 @@
+'use client';
+
+/**
+ * CaseStudyPanel — the shared case-study scenario shown above every question
+ * of a case (Exam Arena and Simulado). Collapsible so long cases don't push
+ * the question below the fold once the learner has read them.
+ */
+
+import { useState } from 'react';
+import type { CaseStudyPublic } from '@/lib/questionSchema';
+
+export function CaseStudyPanel({
+  caseStudy,
+  position,
+}: {
+  caseStudy: CaseStudyPublic;
+  /** 0-based index of the current question within the case */
+  position?: { index: number; total: number };
+}) {
+  const [open, setOpen] = useState(true);
+
+  return (
+    <div className="rounded-xl border border-indigo-500/30 bg-indigo-500/5 overflow-hidden">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center justify-between gap-3 px-4 py-3 text-left"
+      >
+        <div className="min-w-0">
+          <span className="text-xs font-semibold uppercase tracking-wider text-indigo-400">Estudo de Caso</span>
+          <p className="text-sm font-semibold text-foreground truncate">{caseStudy.title}</p>
+        </div>
+        <div className="flex items-center gap-2 shrink-0 text-xs text-muted-foreground">
+          {position && (
+            <span className="px-2 py-0.5 rounded-full bg-secondary font-mono">
+              {position.index + 1}/{position.total}
+            </span>
+          )}
+          <span>{open ? 'Ocultar' : 'Mostrar'}</span>
+        </div>
+      </button>
+      {open && (
+        <div className="px-4 pb-4 max-h-80 overflow-y-auto">
+          <p className="text-sm text-foreground leading-relaxed whitespace-pre-wrap">{caseStudy.scenario_en}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+'use client';
+
+/**
+ * CliChallengeCard — interactive troubleshooting challenge of the Exam Arena.
+ * The learner types gcloud/kubectl commands into a simulated terminal; every
+ * command goes to /api/cli-challenge/command and its output is appended to
+ * the transcript. "clear" and "help" are handled locally and never sent.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import type { CliAttemptStatus, CliCommandResult, CliTranscriptEntry, PublicCliChallenge } from '@/lib/questionSchema';
+
+export type CliChallengeCardProps = {
+  challenge:    PublicCliChallenge;
+  modelUsed:    string;
+  topicName:    string;
+  difficulty:   string;
+  transcript:   CliTranscriptEntry[];
+  status:       CliAttemptStatus;
+  commandsUsed: number;
+  maxCommands:  number;
+  reveal:       CliCommandResult['reveal'];
+  /** true while a command is being answered */
+  running:      boolean;
+  onCommand:    (command: string) => void;
+  onGiveUp:     () => void;
+  onNext:       () => void;
+};
+
+const STATUS_BANNER: Record<Exclude<CliAttemptStatus, 'active'>, { text: string; cls: string }> = {
+  solved:    { text: 'Incidente resolvido!',          cls: 'border-green-500/50 bg-green-500/10 text-green-400' },
+  exhausted: { text: 'Limite de comandos atingido',   cls: 'border-red-500/50 bg-red-500/10 text-red-400' },
+  abandoned: { text: 'Desafio encerrado',             cls: 'border-border bg-secondary/30 text-muted-foreground' },
+};
+
+const HELP_TEXT =
+  'Terminal simulado — gcloud, kubectl, gsutil, bq, helm e curl disponíveis.\n' +
+  'Investigue o incidente e execute o comando que o corrige.\n' +
+  'Comandos locais: clear, help. Use ↑/↓ para repetir comandos anteriores.';
+
+export function CliChallengeCard({
+  challenge,
+  modelUsed,
+  topicName,
+  difficulty,
+  transcript,
+  status,
+  commandsUsed,
+  maxCommands,
+  reveal,
+  running,
+  onCommand,
+  onGiveUp,
+  onNext,
+}: CliChallengeCardProps) {
+  const [input,      setInput]      = useState('');
+  const [clearedAt,  setClearedAt]  = useState(0);
+  const [showHelp,   setShowHelp]   = useState(true);
+  const [recallFrom, setRecallFrom] = useState<number | null>(null);
+  const screenRef = useRef<HTMLDivElement>(null);
+  const inputRef  = useRef<HTMLInputElement>(null);
+
+  const active   = status === 'active';
+  const commands = transcript.map((e) => e.command);
+
+  // New challenge → fresh screen
+  useEffect(() => {
+    setInput('');
+    setClearedAt(0);
+    setShowHelp(true);
+    setRecallFrom(null);
+  }, [challenge]);
+
+  // Keep the prompt in view as output grows
+  useEffect(() => {
+    screenRef.current?.scrollTo({ top: screenRef.current.scrollHeight });
+  }, [transcript.length, running, showHelp]);
+
+  const submit = () => {
+    const command = input.trim();
+    if (!command || running || !active) return;
+    setInput('');
+    setRecallFrom(null);
+    if (command === 'clear') {
+      setClearedAt(transcript.length);
+      setShowHelp(false);
+      return;
+    }
+    if (command === 'help') {
+      setShowHelp(true);
+      return;
+    }
+    onCommand(command);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      submit();
+    } else if (e.key === 'ArrowUp' && commands.length > 0) {
+      e.preventDefault();
+      const i = Math.max(0, (recallFrom ?? commands.length) - 1);
+      setRecallFrom(i);
+      setInput(commands[i]);
+    } else if (e.key === 'ArrowDown' && recallFrom !== null) {
+      e.preventDefault();
+      const i = recallFrom + 1;
+      setRecallFrom(i < commands.length ? i : null);
+      setInput(i < commands.length ? commands[i] : '');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Metadata badges */}
+      <div className="flex items-center gap-2 flex-wrap text-xs text-muted-foreground">
+        <span className="px-2 py-0.5 rounded-full bg-emerald-500/10 text-emerald-400 font-medium">Desafio de Terminal</span>
+        <span className="px-2 py-0.5 rounded-full bg-primary/10 text-primary font-mono">{modelUsed}</span>
+        <span className="px-2 py-0.5 rounded-full bg-secondary">{topicName}</span>
+        <span className="px-2 py-0.5 rounded-full bg-secondary capitalize">{difficulty}</span>
+        <span className="ml-auto px-2 py-0.5 rounded-full bg-secondary font-mono tabular-nums">
+          {commandsUsed}/{maxCommands} comandos
+        </span>
+      </div>
+
+      {/* Briefing */}
+      <div className="p-6 rounded-xl border border-border bg-card space-y-2">
+        <h3 className="text-sm font-semibold text-foreground">{challenge.title}</h3>
+        <p className="text-foreground text-sm leading-relaxed whitespace-pre-wrap font-mono">{challenge.question_en}</p>
+      </div>
+
+      {/* Terminal */}
+      <div className="rounded-xl overflow-hidden border border-slate-700 font-mono text-xs shadow-2xl" onClick={() => inputRef.current?.focus()}>
+        <div className="flex items-center gap-1.5 px-4 py-2.5 bg-slate-800 border-b border-slate-700">
+          <span className="w-3 h-3 rounded-full bg-red-500/80" />
+          <span className="w-3 h-3 rounded-full bg-yellow-500/80" />
+          <span className="w-3 h-3 rounded-full bg-green-500/80" />
+          <span className="ml-auto text-xs text-slate-500 select-none">bash — simulated</span>
+        </div>
+        <div ref={screenRef} className="bg-slate-900 text-green-400 p-4 leading-relaxed max-h-[28rem] overflow-y-auto space-y-3">
+          {clearedAt === 0 && challenge.visual_context.map((b, i) => (
+            b.type === 'terminal' && <pre key={i} className="whitespace-pre-wrap">{b.content}</pre>
+          ))}
+          {showHelp && <pre className="whitespace-pre-wrap text-slate-400">{HELP_TEXT}</pre>}
+          {transcript.slice(clearedAt).map((e, i) => (
+            <div key={clearedAt + i}>
+              <pre className="whitespace-pre-wrap text-slate-200">$ {e.command}</pre>
+              <pre className={`whitespace-pre-wrap ${e.source === 'rejected' ? 'text-red-400' : ''}`}>{e.output}</pre>
+            </div>
+          ))}
+          {running && <span className="inline-block w-2 h-4 bg-green-400 animate-pulse" />}
+          {active && !running && (
+            <div className="flex items-center gap-2">
+              <span className="text-slate-200 select-none">$</span>
+              <input
+                ref={inputRef}
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                onKeyDown={handleKeyDown}
+                autoFocus
+                spellCheck={false}
+                autoComplete="off"
+                maxLength={300}
+                className="flex-1 bg-transparent text-slate-200 outline-none caret-green-400"
+                aria-label="Comando"
+              />
+            </div>
+          )}
+        </div>
+      </div>
+
+      {active && (
+        <button
+          onClick={onGiveUp}
+          disabled={running}
+          className="text-xs text-muted-foreground hover:text-foreground transition-colors disabled:opacity-40"
+        >
+          Desistir e ver a solução
+        </button>
+      )}
+
+      {/* Outcome */}
+      {!active && (
+        <>
+          <div className={`p-4 rounded-xl border ${STATUS_BANNER[status].cls}`}>
+            <p className="font-semibold text-sm">{STATUS_BANNER[status].text}</p>
+          </div>
+          {reveal && (
+            <div className="p-5 rounded-xl border border-border bg-secondary/30 space-y-3">
+              <div className="space-y-1">
+                <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Comando de correção</h3>
+                <pre className="text-xs font-mono text-green-400 bg-slate-900 rounded-lg p-3 overflow-x-auto">{reveal.solution_command}</pre>
+              </div>
+              <div className="space-y-1">
+                <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Explicação (PT)</h3>
+                <p className="text-sm text-foreground leading-relaxed whitespace-pre-wrap">{reveal.explanation_pt}</p>
+              </div>
+            </div>
+          )}
+          <button onClick={onNext}
+            className="w-full py-3 rounded-xl border border-dashed border-border text-muted-foreground text-sm hover:border-primary/50 hover:text-foreground transition-all">
+            Próximo Desafio →
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+'use client';
+
+/**
+ * FreeResponseCard — open-answer mode of the Exam Arena. Shows the incident
+ * (visual_context), takes the learner's written fix and, once graded by
+ * /api/grade-free-response, the rubric score, missed points, feedback and the
+ * reference answer. No timer: writing takes longer than picking a letter.
+ */
+
+import { useEffect, useState } from 'react';
+import type { FreeResponseResult, PublicFreeResponse } from '@/lib/questionSchema';
+import { VisualContextBlock } from '@/components/QuestionCard';
+
+// Mirrors MIN_ANSWER_CHARS in /api/grade-free-response
+const MIN_ANSWER_CHARS = 20;
+
+export type FreeResponseCardProps = {
+  question:   PublicFreeResponse;
+  modelUsed:  string;
+  topicName:  string;
+  difficulty: string;
+  /** true while the answer is being graded */
+  grading:    boolean;
+  result:     FreeResponseResult | null;
+  onSubmit:   (answerText: string) => void;
+  rating:     number | null;
+  onRate:     (value: 1 | -1) => void;
+  onNext:     () => void;
+  /** Show visual_context as text descriptions instead of diagrams */
+  textOnly?:  boolean;
+};
+
+function scoreColor(score: number): string {
+  return score >= 80 ? 'text-green-400' : score >= 60 ? 'text-yellow-400' : 'text-red-400';
+}
+
+export function FreeResponseCard({
+  question,
+  modelUsed,
+  topicName,
+  difficulty,
+  grading,
+  result,
+  onSubmit,
+  rating,
+  onRate,
+  onNext,
+  textOnly,
+}: FreeResponseCardProps) {
+  const [answer, setAnswer] = useState('');
+
+  // New incident → empty answer box
+  useEffect(() => { setAnswer(''); }, [question]);
+
+  const locked    = grading || result !== null;
+  const canSubmit = !locked && answer.trim().length >= MIN_ANSWER_CHARS;
+
+  return (
+    <div className="space-y-4">
+      {/* Metadata badges */}
+      <div className="flex items-center gap-2 flex-wrap text-xs text-muted-foreground">
+        <span className="px-2 py-0.5 rounded-full bg-purple-500/10 text-purple-400 font-medium">Resposta Aberta</span>
+        <span className="px-2 py-0.5 rounded-full bg-primary/10 text-primary font-mono">{modelUsed}</span>
+        <span className="px-2 py-0.5 rounded-full bg-secondary">{topicName}</span>
+        <span className="px-2 py-0.5 rounded-full bg-secondary capitalize">{difficulty}</span>
+      </div>
+
+      {/* Incident */}
+      <div className="p-6 rounded-xl border border-border bg-card">
+        <p className="text-foreground text-sm leading-relaxed whitespace-pre-wrap font-mono">
+          {question.question_en}
+        </p>
+        <VisualContextBlock vc={question.visual_context} textOnly={textOnly} />
+      </div>
+
+      {/* Answer */}
+      <div className="space-y-2">
+        <label className="block text-xs font-semibold text-amber-400">
+          Descreva como você resolveria este incidente (causa raiz, correção e verificação)
+        </label>
+        <textarea
+          value={answer}
+          onChange={(e) => setAnswer(e.target.value)}
+          disabled={locked}
+          rows={8}
+          maxLength={4000}
+          placeholder="Ex.: A causa é... Eu corrigiria com... Para validar..."
+          className="w-full bg-secondary border border-border rounded-xl px-4 py-3 text-sm text-foreground leading-relaxed focus:outline-none focus:ring-1 focus:ring-primary resize-y disabled:opacity-70"
+        />
+        {!result && (
+          <div className="flex items-center justify-between gap-3">
+            <span className="text-xs text-muted-foreground tabular-nums">{answer.length}/4000</span>
+            <button
+              onClick={() => onSubmit(answer.trim())}
+              disabled={!canSubmit}
+              className="px-5 py-2.5 rounded-xl bg-primary text-primary-foreground font-semibold text-sm hover:bg-primary/90 active:scale-[0.99] transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              {grading ? (
+                <span className="flex items-center gap-2">
+                  <span className="w-4 h-4 border-2 border-primary-foreground/30 border-t-primary-foreground rounded-full animate-spin" />
+                  Corrigindo...
+                </span>
+              ) : 'Enviar resposta'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Grade */}
+      {result && (
+        <>
+          <div className={`p-4 rounded-xl border ${
+            result.is_correct ? 'border-green-500/50 bg-green-500/10' : 'border-red-500/50 bg-red-500/10'
+          }`}>
+            <div className="flex items-baseline justify-between gap-3">
+              <p className={`font-semibold text-sm ${result.is_correct ? 'text-green-400' : 'text-red-400'}`}>
+                {result.is_correct ? 'Aprovada' : 'Abaixo da nota mínima'}
+              </p>
+              <span className={`text-2xl font-black tabular-nums ${scoreColor(result.score)}`}>
+                {Math.round(result.score)}<span className="text-sm font-semibold">/100</span>
+              </span>
+            </div>
+          </div>
+
+          <div className="p-5 rounded-xl border border-border bg-secondary/30 space-y-4">
+            <div className="space-y-1">
+              <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Feedback</h3>
+              <p className="text-sm text-foreground leading-relaxed whitespace-pre-wrap">{result.feedback_pt}</p>
+            </div>
+
+            {result.covered_points.length > 0 && (
+              <div className="space-y-1">
+                <h3 className="text-xs font-semibold text-green-400 uppercase tracking-wider">Pontos cobertos</h3>
+                <ul className="list-disc pl-5 space-y-0.5 text-sm text-foreground">
+                  {result.covered_points.map((p, i) => <li key={i}>{p}</li>)}
+                </ul>
+              </div>
+            )}
+
+            {result.missed_points.length > 0 && (
+              <div className="space-y-1">
+                <h3 className="text-xs font-semibold text-red-400 uppercase tracking-wider">Pontos faltando</h3>
+                <ul className="list-disc pl-5 space-y-0.5 text-sm text-foreground">
+                  {result.missed_points.map((p, i) => <li key={i}>{p}</li>)}
+                </ul>
+              </div>
+            )}
+
+            <div className="pt-3 border-t border-border space-y-1">
+              <h3 className="text-xs font-semibold text-primary uppercase tracking-wider">Resposta de referência</h3>
+              <p className="text-sm text-foreground leading-relaxed whitespace-pre-wrap">{result.model_answer_pt}</p>
+            </div>
+          </div>
+
+          {/* RLHF feedback */}
+          <div className="p-4 rounded-xl border border-border bg-card flex items-center justify-between flex-wrap gap-3">
+            <span className="text-xs text-muted-foreground">Rate this question:</span>
+            <div className="flex items-center gap-2">
+              <button onClick={() => onRate(1)}
+                className={`px-3 py-1.5 rounded-lg text-sm transition-colors ${
+                  rating === 1
+                    ? 'bg-green-500/20 text-green-400 border border-green-500/50'
+                    : 'bg-secondary text-muted-foreground hover:text-foreground'
+                }`}>
+                Positivo
+              </button>
+              <button onClick={() => onRate(-1)}
+                className={`px-3 py-1.5 rounded-lg text-sm transition-colors ${
+                  rating === -1
+                    ? 'bg-red-500/20 text-red-400 border border-red-500/50'
+                    : 'bg-secondary text-muted-foreground hover:text-foreground'
+                }`}>
+                Negativo
+              </button>
+            </div>
+          </div>
+
+          <button onClick={onNext}
+            className="w-full py-3 rounded-xl border border-dashed border-border text-muted-foreground text-sm hover:border-primary/50 hover:text-foreground transition-all">
+            Próximo Incidente →
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -4,21 +4,36 @@
  * QuestionCard — renders a generated question with:
  *  • Mermaid diagram (topology/architecture evidence)   → type: 'mermaid'
  *  • Mock terminal window (CLI/log/error evidence)      → type: 'terminal'
- *  • Plain question text                               → type: 'none'
+ *  • Highlighted code/config (IAM JSON, Terraform, YAML) → type: 'code'
+ *  • Permission/data tables                             → type: 'table'
+ *  • Numbered console click paths                       → type: 'ui-steps'
+ * visual_context holds 0–3 of these blocks, rendered in order. Each carries a
+ * text alternative (lib/altText.ts) read by screen readers, or shown instead
+ * of the visuals in text-only mode.
+ * Multiple-select items ("choose two") toggle options until select_count are
+ * picked; answers are passed around as "A,C" (see lib/questionSchema.ts).
  */
 
-import { useEffect, useId, useRef, useState } from 'react';
-import type { VisualContext } from '@/lib/vertexai';
+import { useEffect, useId, useMemo, useRef, useState } from 'react';
+import { ANSWER_LETTERS, formatAnswer, isMultipleSelect, parseAnswer } from '@/lib/questionSchema';
+import type { AnswerKey, CaseStudyPublic, PublicQuestion, VisualBlock, VisualContext } from '@/lib/questionSchema';
+import { highlightCode } from '@/lib/highlight';
+import { visualBlockAltText } from '@/lib/altText';
+import { FEEDBACK_CATEGORIES, FEEDBACK_CATEGORY_LABELS } from '@/lib/feedback';
+import type { FeedbackCategory } from '@/lib/feedback';
+import type { TokenKind } from '@/lib/highlight';
+import { CaseStudyPanel } from '@/components/CaseStudyPanel';
 
-// ─── Mermaid (lazy-loaded, client-only) ────────────────────────────────────
+// ─── Mermaid (pre-rendered by the server, else lazy-loaded client-side) ────
 
-function MermaidDiagram({ code }: { code: string }) {
+function MermaidDiagram({ code, prerendered }: { code: string; prerendered?: string }) {
   const id      = useId().replace(/:/g, '');
   const ref     = useRef<HTMLDivElement>(null);
-  const [svg, setSvg]     = useState<string>('');
+  const [svg, setSvg]     = useState<string>(prerendered ?? '');
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
+    if (prerendered) { setSvg(prerendered); return; }
     let cancelled = false;
 
     (async () => {
@@ -47,7 +62,7 @@ function MermaidDiagram({ code }: { code: string }) {
     })();
 
     return () => { cancelled = true; };
-  }, [code, id]);
+  }, [code, id, prerendered]);
 
   if (error) {
     return (
@@ -95,68 +110,198 @@ function TerminalWindow({ content }: { content: string }) {
   );
 }
 
+// ─── Code window (highlighted) ──────────────────────────────────────────────
+
+const TOKEN_CLASS: Record<TokenKind, string> = {
+  plain:       'text-slate-200',
+  comment:     'text-slate-500 italic',
+  string:      'text-amber-300',
+  number:      'text-purple-300',
+  keyword:     'text-sky-400',
+  key:         'text-emerald-300',
+  punctuation: 'text-slate-400',
+};
+
+function CodeWindow({ block }: { block: Extract<VisualBlock, { type: 'code' }> }) {
+  const tokens = useMemo(() => highlightCode(block.content, block.language), [block.content, block.language]);
+  return (
+    <div className="rounded-xl overflow-hidden border border-slate-700 font-mono text-sm my-3 shadow-2xl">
+      <div className="flex items-center gap-2 px-4 py-2 bg-slate-800 border-b border-slate-700 text-xs">
+        <span className="text-slate-300 truncate">{block.title || 'snippet'}</span>
+        <span className="ml-auto text-slate-500 uppercase tracking-wider select-none">{block.language}</span>
+      </div>
+      <pre className="bg-slate-900 p-4 overflow-x-auto leading-relaxed whitespace-pre text-xs max-h-80">
+        {tokens.map((t, i) => <span key={i} className={TOKEN_CLASS[t.kind]}>{t.text}</span>)}
+      </pre>
+    </div>
+  );
+}
+
+// ─── Table ──────────────────────────────────────────────────────────────────
+
+function TableBlock({ block }: { block: Extract<VisualBlock, { type: 'table' }> }) {
+  return (
+    <div className="my-3 rounded-xl border border-border overflow-x-auto">
+      <table className="w-full text-xs">
+        {block.title && <caption className="px-3 py-2 text-left text-muted-foreground">{block.title}</caption>}
+        <thead className="bg-secondary/60">
+          <tr>
+            {block.columns.map((c, i) => (
+              <th key={i} className="px-3 py-2 text-left font-semibold text-foreground whitespace-nowrap">{c}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {block.rows.map((row, r) => (
+            <tr key={r} className="border-t border-border">
+              {block.columns.map((_, c) => (
+                <td key={c} className="px-3 py-2 text-foreground font-mono align-top">{row[c] ?? ''}</td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// ─── UI steps ───────────────────────────────────────────────────────────────
+
+function UiStepsBlock({ block }: { block: Extract<VisualBlock, { type: 'ui-steps' }> }) {
+  return (
+    <div className="my-3 p-4 rounded-xl border border-border bg-secondary/30">
+      {block.title && <p className="text-xs font-semibold text-muted-foreground mb-2">{block.title}</p>}
+      <ol className="space-y-1.5 text-sm text-foreground">
+        {block.steps.map((step, i) => (
+          <li key={i} className="flex gap-2">
+            <span className="shrink-0 w-5 h-5 rounded-full bg-primary/15 text-primary text-xs font-bold flex items-center justify-center">
+              {i + 1}
+            </span>
+            <span className="leading-relaxed">{step}</span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
 // ─── Visual Context router ──────────────────────────────────────────────────
 
-function VisualContextBlock({ vc }: { vc: VisualContext }) {
-  if (!vc || vc.type === 'none' || !vc.content?.trim()) return null;
+const BLOCK_LABEL: Record<VisualBlock['type'], string> = {
+  mermaid:    'Diagrama de Topologia',
+  terminal:   'Saída do Terminal',
+  code:       'Código / Configuração',
+  table:      'Tabela',
+  'ui-steps': 'Passos na Interface',
+};
 
+function VisualBlockView({ block }: { block: VisualBlock }) {
+  switch (block.type) {
+    case 'mermaid':  return <MermaidDiagram code={block.content} prerendered={block.svg} />;
+    case 'terminal': return <TerminalWindow content={block.content} />;
+    case 'code':     return <CodeWindow block={block} />;
+    case 'table':    return <TableBlock block={block} />;
+    case 'ui-steps': return <UiStepsBlock block={block} />;
+  }
+}
+
+// Text-only mode: the description replaces diagrams and styled windows;
+// tables and step lists are already text and keep their markup
+function TextAlternative({ block }: { block: VisualBlock }) {
+  if (block.type === 'table' || block.type === 'ui-steps') return <VisualBlockView block={block} />;
   return (
-    <div className="mt-3">
-      <div className="flex items-center gap-2 mb-1">
-        <span className="text-xs font-semibold uppercase tracking-wider text-amber-400">
-          {vc.type === 'mermaid' ? 'Diagrama de Topologia' : 'Saída do Terminal'}
-        </span>
-        <span className="text-xs text-slate-500 italic">
-          (forensic evidence — does not reveal the answer)
-        </span>
+    <pre className="my-3 p-4 rounded-xl border border-border bg-secondary/30 text-sm text-foreground leading-relaxed whitespace-pre-wrap break-words">
+      {visualBlockAltText(block)}
+    </pre>
+  );
+}
+
+// A diagram is hidden from assistive tech and described by its caption; text
+// blocks stay readable and only get the generator's summary, if any
+function AccessibleBlock({ block }: { block: VisualBlock }) {
+  const caption = block.type === 'mermaid' ? visualBlockAltText(block) : block.alt_text?.trim();
+  return (
+    <figure>
+      <div aria-hidden={block.type === 'mermaid' || undefined}>
+        <VisualBlockView block={block} />
       </div>
-      {vc.type === 'mermaid'
-        ? <MermaidDiagram code={vc.content} />
-        : <TerminalWindow content={vc.content} />
-      }
+      {caption && <figcaption className="sr-only whitespace-pre-line">{caption}</figcaption>}
+    </figure>
+  );
+}
+
+export function VisualContextBlock({ vc, textOnly = false }: { vc: VisualContext; textOnly?: boolean }) {
+  if (!vc || vc.length === 0) return null;
+
+  return (
+    <div className="mt-3 space-y-3">
+      {vc.map((block, i) => (
+        <section key={i} aria-label={BLOCK_LABEL[block.type]}>
+          <div className="flex items-center gap-2 mb-1">
+            <span className="text-xs font-semibold uppercase tracking-wider text-amber-400">
+              {BLOCK_LABEL[block.type]}
+            </span>
+            {i === 0 && (
+              <span className="text-xs text-slate-500 italic">
+                (forensic evidence — does not reveal the answer)
+              </span>
+            )}
+          </div>
+          {textOnly ? <TextAlternative block={block} /> : <AccessibleBlock block={block} />}
+        </section>
+      ))}
     </div>
   );
 }
 
 // ─── Option Button ──────────────────────────────────────────────────────────
 
-const OPTION_KEYS = ['A', 'B', 'C', 'D'] as const;
+/** "A,C" → "A, C" for banners and buttons */
+function displayAnswer(answer: string | null | undefined): string {
+  return parseAnswer(answer).join(', ');
+}
 
 function getOptionStyle(
   letter: string,
   pending: string | null,
   selected: string | null,
-  correctLetter: string
+  correctLetter: string | null
 ): string {
   const base = 'w-full text-left px-4 py-4 sm:py-3 rounded-xl border text-sm transition-all duration-150 min-h-[52px] ';
-  // Already confirmed (selected != null)
+  const isSelected = parseAnswer(selected).includes(letter);
+  // Confirmed, waiting for the server to grade
+  if (selected !== null && correctLetter === null) {
+    if (isSelected) return base + 'border-primary bg-primary/10 text-primary';
+    return base + 'border-border bg-secondary/20 text-muted-foreground opacity-50';
+  }
+  // Graded (selected != null)
   if (selected !== null) {
-    if (letter === correctLetter)  return base + 'border-green-500 bg-green-500/10 text-green-300';
-    if (letter === selected)       return base + 'border-red-500   bg-red-500/10   text-red-300';
+    if (parseAnswer(correctLetter).includes(letter)) return base + 'border-green-500 bg-green-500/10 text-green-300';
+    if (isSelected)                                  return base + 'border-red-500   bg-red-500/10   text-red-300';
     return base + 'border-border bg-secondary/20 text-muted-foreground opacity-50';
   }
   // Pending (highlighted, not yet confirmed)
-  if (pending === letter) return base + 'border-primary bg-primary/15 text-primary ring-2 ring-primary/40';
+  if (parseAnswer(pending).includes(letter)) return base + 'border-primary bg-primary/15 text-primary ring-2 ring-primary/40';
   // Default
   return base + 'border-border bg-secondary/30 hover:border-primary/50 hover:bg-primary/5 active:scale-[0.99]';
 }
 
 // ─── Props ──────────────────────────────────────────────────────────────────
 
-export type QuestionData = {
-  question_en: string;
-  visual_context: VisualContext;
-  options_en: { A: string; B: string; C: string; D: string };
-  correct_letter: 'A' | 'B' | 'C' | 'D';
-  explanation_pt: string;
-};
+/** Served question as sent by /api/generate-question — no answer key. */
+export type QuestionData = PublicQuestion;
 
 export type QuestionCardProps = {
   question:   QuestionData;
+  /** Revealed by /api/save-result after grading; null until then. */
+  answerKey:  AnswerKey | null;
   modelUsed:  string;
   topicName:  string;
   difficulty: string;
   ragChunks:  number;
+  /** Shared scenario when the question belongs to a case study */
+  caseStudy?: CaseStudyPublic | null;
+  casePosition?: { index: number; total: number };
   selected:   string | null;
   onAnswer:   (letter: string) => void;
   // Timer
@@ -171,6 +316,8 @@ export type QuestionCardProps = {
   // Gamification
   streak:     number;
   studyMode:  boolean;
+  /** Show visual_context as text descriptions instead of diagrams */
+  textOnly?:  boolean;
   // RLHF
   rating:          number | null;
   onRate:          (v: 1 | -1) => void;
@@ -178,7 +325,12 @@ export type QuestionCardProps = {
   showReport:      boolean;
   reportText:      string;
   onReportChange:  (v: string) => void;
+  reportCategories:         FeedbackCategory[];
+  onReportCategoriesChange: (v: FeedbackCategory[]) => void;
   onReportSubmit:  () => void;
+  /** Rating of the explanation alone, separate from the question rating */
+  explanationRating: number | null;
+  onRateExplanation: (v: 1 | -1) => void;
   onNext:          () => void;
 };
 
@@ -186,10 +338,13 @@ export type QuestionCardProps = {
 
 export function QuestionCard({
   question,
+  answerKey,
   modelUsed,
   topicName,
   difficulty,
   ragChunks,
+  caseStudy,
+  casePosition,
   selected,
   onAnswer,
   timerFormatted,
@@ -202,13 +357,18 @@ export function QuestionCard({
   onResume,
   streak,
   studyMode,
+  textOnly,
   rating,
   onRate,
   onReport,
   showReport,
   reportText,
   onReportChange,
+  reportCategories,
+  onReportCategoriesChange,
   onReportSubmit,
+  explanationRating,
+  onRateExplanation,
   onNext,
 }: QuestionCardProps) {
   const [pendingAnswer, setPendingAnswer] = useState<string | null>(null);
@@ -224,7 +384,7 @@ export function QuestionCard({
   }, [selected, question]);
 
   const handleExplainMore = async () => {
-    if (explainLoading || deepExplain) return;
+    if (explainLoading || deepExplain || !answerKey) return;
     setExplainLoading(true);
     try {
       const res = await fetch('/api/explain', {
@@ -234,8 +394,8 @@ export function QuestionCard({
           question_text:  question.question_en,
           options:        question.options_en,
           user_answer:    selected,
-          correct_letter: question.correct_letter,
-          explanation_pt: question.explanation_pt,
+          correct_letter: answerKey.correct_letter,
+          explanation_pt: answerKey.explanation_pt,
           topic:          topicName,
           difficulty,
         }),
@@ -249,8 +409,21 @@ export function QuestionCard({
     }
   };
 
+  const multiple    = isMultipleSelect(question);
+  const optionKeys  = ANSWER_LETTERS.filter((l) => question.options_en[l]);
+  const pendingList = parseAnswer(pendingAnswer);
+  const canConfirm  = pendingList.length === (multiple ? question.select_count : 1);
+
   const handleOptionClick = (letter: string) => {
     if (selected !== null) return; // already confirmed
+    if (multiple) {
+      // Toggle; never more than select_count picked at once
+      const next = pendingList.includes(letter)
+        ? pendingList.filter((l) => l !== letter)
+        : pendingList.length < question.select_count ? [...pendingList, letter] : pendingList;
+      setPendingAnswer(next.length > 0 ? formatAnswer(next) : null);
+      return;
+    }
     if (pendingAnswer === letter) {
       // Second tap on same option = confirm
       onAnswer(letter);
@@ -260,13 +433,13 @@ export function QuestionCard({
   };
 
   const handleConfirm = () => {
-    if (pendingAnswer === null || selected !== null) return;
+    if (pendingAnswer === null || !canConfirm || selected !== null) return;
     onAnswer(pendingAnswer);
   };
 
-  const answerState = selected
-    ? selected === question.correct_letter ? 'correct' : 'incorrect'
-    : 'idle';
+  const answerState = selected && answerKey
+    ? selected === answerKey.correct_letter ? 'correct' : 'incorrect'
+    : selected ? 'grading' : 'idle';
 
   return (
     <div className="space-y-4">
@@ -299,9 +472,9 @@ export function QuestionCard({
       )}
 
       {/* Timeout banner */}
-      {!studyMode && timerState === 'expired' && (
+      {!studyMode && timerState === 'expired' && answerKey && (
         <div className="p-4 rounded-xl border border-red-500/50 bg-red-500/10">
-          <p className="text-red-400 font-semibold text-sm">Tempo esgotado — Resposta certa: {question.correct_letter}</p>
+          <p className="text-red-400 font-semibold text-sm">Tempo esgotado — Resposta certa: {displayAnswer(answerKey.correct_letter)}</p>
         </div>
       )}
 
@@ -327,6 +500,8 @@ export function QuestionCard({
         )}
       </div>
 
+      {caseStudy && <CaseStudyPanel caseStudy={caseStudy} position={casePosition} />}
+
       {/* Question text */}
       <div className="p-6 rounded-xl border border-border bg-card">
         <p className="text-foreground text-sm leading-relaxed whitespace-pre-wrap font-mono">
@@ -334,17 +509,23 @@ export function QuestionCard({
         </p>
 
         {/* Visual context (Mermaid or Terminal) — shown BELOW question text */}
-        <VisualContextBlock vc={question.visual_context} />
+        <VisualContextBlock vc={question.visual_context} textOnly={textOnly} />
       </div>
 
       {/* Answer options */}
       <div className="space-y-2">
-        {OPTION_KEYS.map((letter) => (
+        {multiple && (
+          <p className="text-xs font-semibold text-amber-400">
+            Selecione {question.select_count} alternativas
+            {selected === null && ` (${pendingList.length}/${question.select_count})`}
+          </p>
+        )}
+        {optionKeys.map((letter) => (
           <button
             key={letter}
             onClick={() => handleOptionClick(letter)}
             disabled={!!selected}
-            className={getOptionStyle(letter, pendingAnswer, selected, question.correct_letter)}
+            className={getOptionStyle(letter, pendingAnswer, selected, answerKey?.correct_letter ?? null)}
           >
             <span className="font-semibold mr-3 font-mono shrink-0">{letter}.</span>
             <span className="text-left">{question.options_en[letter]}</span>
@@ -356,14 +537,22 @@ export function QuestionCard({
       {pendingAnswer !== null && selected === null && (
         <button
           onClick={handleConfirm}
-          className="w-full py-4 rounded-xl bg-primary text-primary-foreground font-semibold text-sm hover:bg-primary/90 active:scale-[0.99] transition-all"
+          disabled={!canConfirm}
+          className="w-full py-4 rounded-xl bg-primary text-primary-foreground font-semibold text-sm hover:bg-primary/90 active:scale-[0.99] transition-all disabled:opacity-40 disabled:cursor-not-allowed"
         >
-          Confirmar resposta {pendingAnswer}
+          Confirmar resposta {displayAnswer(pendingAnswer)}
         </button>
       )}
 
+      {answerState === 'grading' && (
+        <div className="p-4 rounded-xl border border-border bg-secondary/30 flex items-center gap-2 text-sm text-muted-foreground">
+          <span className="w-4 h-4 border-2 border-primary/30 border-t-primary rounded-full animate-spin" />
+          Corrigindo resposta...
+        </div>
+      )}
+
       {/* Result banner */}
-      {answerState !== 'idle' && (
+      {(answerState === 'correct' || answerState === 'incorrect') && (
         <div className={`p-4 rounded-xl border ${
           answerState === 'correct'
             ? 'border-green-500/50 bg-green-500/10'
@@ -374,19 +563,19 @@ export function QuestionCard({
           }`}>
             {answerState === 'correct'
               ? 'Correto!'
-              : `Incorreto — Resposta certa: ${question.correct_letter}`}
+              : `Incorreto — Resposta certa: ${displayAnswer(answerKey?.correct_letter)}`}
           </p>
         </div>
       )}
 
       {/* Explanation */}
-      {selected && (
+      {selected && answerKey && (
         <div className="p-5 rounded-xl border border-border bg-secondary/30 space-y-3">
           <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
             Explicação (PT)
           </h3>
           <p className="text-sm text-foreground leading-relaxed whitespace-pre-wrap">
-            {question.explanation_pt}
+            {answerKey.explanation_pt}
           </p>
 
           {/* Deep explanation */}
@@ -414,6 +603,20 @@ export function QuestionCard({
               )}
             </button>
           )}
+
+          {/* Explanation rating (separate from the question rating) */}
+          <div className="pt-3 border-t border-border flex items-center gap-2">
+            <span className="text-xs text-muted-foreground mr-auto">A explicação ajudou?</span>
+            {([[1, 'Sim', 'bg-green-500/20 text-green-400 border border-green-500/50'],
+               [-1, 'Não', 'bg-red-500/20 text-red-400 border border-red-500/50']] as const).map(([value, label, active]) => (
+              <button key={value} onClick={() => onRateExplanation(value)}
+                className={`px-3 py-1 rounded-lg text-xs transition-colors ${
+                  explanationRating === value ? active : 'bg-secondary text-muted-foreground hover:text-foreground'
+                }`}>
+                {label}
+              </button>
+            ))}
+          </div>
         </div>
       )}
 
@@ -449,18 +652,32 @@ export function QuestionCard({
       {/* Report form */}
       {showReport && (
         <div className="p-4 rounded-xl border border-border bg-card space-y-3">
-          <label className="text-xs text-muted-foreground">
-            Describe the issue (e.g. &quot;wrong answer&quot;, &quot;deprecated service&quot;):
-          </label>
+          <p className="text-xs text-muted-foreground">What&apos;s wrong with this question?</p>
+          <div className="flex flex-wrap gap-2">
+            {FEEDBACK_CATEGORIES.map((c) => {
+              const on = reportCategories.includes(c);
+              return (
+                <button key={c} type="button" aria-pressed={on}
+                  onClick={() => onReportCategoriesChange(on ? reportCategories.filter((x) => x !== c) : [...reportCategories, c])}
+                  className={`px-3 py-1 rounded-full text-xs border transition-colors ${
+                    on ? 'bg-primary/15 text-primary border-primary/50' : 'bg-secondary text-muted-foreground border-border hover:text-foreground'
+                  }`}>
+                  {FEEDBACK_CATEGORY_LABELS[c]}
+                </button>
+              );
+            })}
+          </div>
           <textarea
             value={reportText}
             onChange={(e) => onReportChange(e.target.value)}
             rows={3}
-            placeholder="What's wrong with this question?"
+            maxLength={2000}
+            placeholder="Details (optional)"
             className="w-full bg-secondary border border-border rounded-lg px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-1 focus:ring-primary resize-none"
           />
           <button onClick={onReportSubmit}
-            className="px-4 py-2 rounded-lg bg-primary text-primary-foreground text-xs font-semibold hover:bg-primary/90 transition-colors">
+            disabled={reportCategories.length === 0 && !reportText.trim()}
+            className="px-4 py-2 rounded-lg bg-primary text-primary-foreground text-xs font-semibold hover:bg-primary/90 disabled:opacity-50 transition-colors">
             Submit Report
           </button>
         </div>
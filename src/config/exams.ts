@@ -1,10 +1,13 @@
 // =============================================================================
 // EdTechia — Exams Configuration
 // Central registry for all supported certifications.
-// Each exam defines its persona, technical rules, and official topic list.
+// Each exam defines its persona, technical rules, allowed visual_context
+// block types and official topic list.
 // Consumed by: /api/generate-question, ExamArena UI, InsightsPanel.
 // =============================================================================
 
+import type { VisualBlockType } from '@/lib/questionSchema';
+
 export type ExamTopic = {
   id: string;
   name: string;
@@ -17,6 +20,14 @@ export type ExamConfig = {
   persona: string;
   /** Technical rules (exam-specific) appended after the base rules */
   technicalRules: string;
+  /** visual_context block types this exam's questions may use, preferred first */
+  visualTypes: VisualBlockType[];
+  /**
+   * Share (0–1) of /api/generate-question requests answered from the approved
+   * question library (lib/questionLibrary.ts) when it has an unseen question
+   * for the topic and difficulty; the rest come from the bank or Gemini.
+   */
+  curatedShare: number;
   topics: ExamTopic[];
 };
 
@@ -53,6 +64,8 @@ export const EXAMS_CONFIG: Record<string, ExamConfig> = {
    - Cloud Armor (onde visualizar os logs exatos de bloqueio no Cloud Logging, não no fluxo da VPC).
    - Hierarquia de Org Policies e Firewall Hierárquico.
 `,
+    visualTypes: ['code', 'terminal', 'table', 'mermaid'],
+    curatedShare: 0.25,
     topics: [
       { id: "sec-1", name: "Section 1: Configuring access (IAM, Cloud Identity)" },
       { id: "sec-2", name: "Section 2: Securing communications and boundary protection (VPC, Firewalls)" },
@@ -90,6 +103,8 @@ export const EXAMS_CONFIG: Record<string, ExamConfig> = {
 
 6. LIMITES: Inclua pegadinhas com limites de VPC Peering e limites de rotas BGP.
 `,
+    visualTypes: ['mermaid', 'terminal', 'code', 'table'],
+    curatedShare: 0.25,
     topics: [
       { id: "net-1", name: "Section 1: Designing and planning a GCP VPC network" },
       { id: "net-2", name: "Section 2: Implementing VPC networks (Subnets, Peering, IAM)" },
@@ -133,6 +148,8 @@ export const EXAMS_CONFIG: Record<string, ExamConfig> = {
    - Troubleshooting: Email Log Search, headers, Gmail routing, Drive for desktop, Meet quality tool.
    - Gemini for Workspace: enable/disable por OU + extensões + relatórios de uso.
 `,
+    visualTypes: ['code', 'terminal', 'table', 'ui-steps'],
+    curatedShare: 0.25,
     topics: [
       { id: "ws-1", name: "Section 1: Managing user accounts, domains, and Directory" },
       { id: "ws-2", name: "Section 2: Configuring core services (Gmail, Calendar, Drive, Meet)" },
@@ -172,6 +189,8 @@ export const EXAMS_CONFIG: Record<string, ExamConfig> = {
    - GKE: readiness/liveness, HPA, RBAC, workload identity, network policies.
    - Observabilidade: Trace/Logs correlation, Error Reporting, SLO thinking.
 `,
+    visualTypes: ['code', 'terminal', 'mermaid'],
+    curatedShare: 0.25,
     topics: [
       { id: "dev-1", name: "Section 1: Designing highly scalable, available, reliable cloud-native apps" },
       { id: "dev-2", name: "Section 2: Building and testing applications (CI/CD, Cloud Build, Artifact Registry)" },
@@ -206,6 +225,8 @@ export const EXAMS_CONFIG: Record<string, ExamConfig> = {
    - Acessibilidade (captions, readable formatting, alt text / recursos equivalentes).
    - Organização: Drive estrutura, search no Gmail, naming e versioning.
 `,
+    visualTypes: ['ui-steps', 'table'],
+    curatedShare: 0.25,
     topics: [
       { id: "edu1-1", name: "Create: Identify tools and create/format within them (Docs, Slides, Sites)" },
       { id: "edu1-2", name: "Share: Determine correct method and access for sharing" },
@@ -240,6 +261,8 @@ export const EXAMS_CONFIG: Record<string, ExamConfig> = {
 3. CONFLITO DE REQUISITOS: 4 opções plausíveis; só 1 atende simultaneamente:
    impacto pedagógico + inclusão + privacidade + baixa fricção operacional.
 `,
+    visualTypes: ['table', 'ui-steps'],
+    curatedShare: 0.25,
     topics: [
       { id: "edu2-1", name: "Promote Digital Citizenship and Safe Online Behavior" },
       { id: "edu2-2", name: "Analyze and Interpret Student Data (Sheets pivot tables, Forms analysis)" },
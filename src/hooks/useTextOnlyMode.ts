@@ -0,0 +1,28 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+// Shared by the Exam Arena and the Simulado so the choice follows the learner
+const STORAGE_KEY = 'edtechia_text_only';
+
+/**
+ * Text-only display mode: visual_context blocks are shown as their text
+ * descriptions (lib/altText.ts) instead of diagrams and styled windows.
+ * Persisted in localStorage.
+ */
+export function useTextOnlyMode(): [boolean, () => void] {
+  const [textOnly, setTextOnly] = useState(false);
+
+  useEffect(() => {
+    setTextOnly(localStorage.getItem(STORAGE_KEY) === '1');
+  }, []);
+
+  const toggle = useCallback(() => {
+    setTextOnly((on) => {
+      localStorage.setItem(STORAGE_KEY, on ? '0' : '1');
+      return !on;
+    });
+  }, []);
+
+  return [textOnly, toggle];
+}
@@ -0,0 +1,221 @@
+// =============================================================================
+// EdTechia — Text alternatives for visual_context blocks
+// Every block gets a structured plain-text description: the generator's
+// `alt_text` when it wrote one, otherwise one derived here from the block.
+// Mermaid sources are read structurally (nodes, connections, groups, messages)
+// so a screen reader gets the same clues as the diagram. Used as alt text by
+// VisualContextBlock and shown on its own in the "text-only" display mode.
+// No dependencies; safe to import from client components.
+// =============================================================================
+
+import type { VisualBlock } from '@/lib/questionSchema';
+
+// ─── Mermaid flowcharts ─────────────────────────────────────────────────────
+
+const FLOW_DIRECTION: Record<string, string> = {
+  TD: 'de cima para baixo', TB: 'de cima para baixo', BT: 'de baixo para cima',
+  LR: 'da esquerda para a direita', RL: 'da direita para a esquerda',
+};
+
+// Statements that carry no structure (styling, interaction, comments)
+const FLOW_IGNORED = /^(?:classDef|class|style|linkStyle|click|direction|%%)\b/;
+
+// Sticky regexes match only at lastIndex (built at runtime — the TS target
+// predates the `y` literal flag)
+function sticky(re: RegExp): RegExp {
+  return new RegExp(re.source, 'y');
+}
+
+// id, optional shape with label (A[..], A(..), A{..}, A((..)), A[(..)], A>..])
+// and optional :::class suffix
+const NODE = sticky(
+  /\s*([A-Za-z0-9_]+)(?:\s*(?:\(\[|\[\(|\[\[|\(\(|\{\{|\[\/|\[\\|[[({>])\s*("[^"]*"|[^\])}]*?)\s*(?:\]\)|\)\]|\]\]|\)\)|\}\}|\/\]|\\\]|[\])}]))?(?::::[\w-]+)?/,
+);
+// A -- label --> B  /  A -. label .-> B  /  A == label ==> B
+const EDGE_WITH_TEXT = sticky(/\s*<?(?:--|==|-\.)\s+([^|]+?)\s+(?:-{2,}|={2,}|\.+-)[>xo]?\s*/);
+// A --> B  /  A ---|label| B  /  A -.-> B  /  A ==> B
+const EDGE = sticky(/\s*<?(?:-{2,}|={2,}|-\.+-)[>xo]?\s*(?:\|([^|]*)\|)?\s*/);
+const AMPERSAND = sticky(/\s*&/);
+
+type FlowEdge = { from: string; to: string; label: string };
+
+function cleanLabel(text: string): string {
+  return text
+    .replace(/^"|"$/g, '')
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** Reads "A & B" at `pos`; returns the node ids and the new position. */
+function readNodes(line: string, pos: number, labels: Map<string, string>): [string[], number] {
+  const ids: string[] = [];
+  for (;;) {
+    NODE.lastIndex = pos;
+    const m = NODE.exec(line);
+    if (!m) break;
+    const [, id, label] = m;
+    if (label && !labels.get(id)) labels.set(id, cleanLabel(label));
+    else if (!labels.has(id)) labels.set(id, '');
+    ids.push(id);
+    pos = NODE.lastIndex;
+    AMPERSAND.lastIndex = pos;
+    if (!AMPERSAND.exec(line)) break;
+    pos = AMPERSAND.lastIndex;
+  }
+  return [ids, pos];
+}
+
+function describeFlowchart(lines: string[], header: string): string {
+  const direction = FLOW_DIRECTION[header.split(/\s+/)[1]?.toUpperCase() ?? ''];
+  const labels  = new Map<string, string>();
+  const edges:  FlowEdge[] = [];
+  const groups: { title: string; members: string[] }[] = [];
+  const open:   { title: string; members: string[] }[] = [];
+
+  for (const statement of lines) {
+    if (FLOW_IGNORED.test(statement)) continue;
+    const sub = statement.match(/^subgraph\s+(.*)$/);
+    if (sub) {
+      const [, rest] = sub;
+      const titled = rest.match(/^[\w-]+\s*\[(.*)\]$/);
+      const group  = { title: cleanLabel(titled ? titled[1] : rest), members: [] as string[] };
+      groups.push(group);
+      open.push(group);
+      continue;
+    }
+    if (statement === 'end') { open.pop(); continue; }
+
+    let [from, pos] = readNodes(statement, 0, labels);
+    open.forEach((g) => g.members.push(...from));
+    while (pos < statement.length && from.length > 0) {
+      EDGE_WITH_TEXT.lastIndex = pos;
+      EDGE.lastIndex = pos;
+      const m = EDGE_WITH_TEXT.exec(statement) ?? EDGE.exec(statement);
+      if (!m) break;
+      const label = cleanLabel(m[1] ?? '');
+      const [to, next] = readNodes(statement, m.index + m[0].length, labels);
+      if (to.length === 0) break;
+      open.forEach((g) => g.members.push(...to));
+      for (const a of from) for (const b of to) edges.push({ from: a, to: b, label });
+      from = to;
+      pos  = next;
+    }
+  }
+
+  const name = (id: string) => labels.get(id) || id;
+  const out  = [`Fluxograma${direction ? `, ${direction}` : ''}.`];
+  if (labels.size > 0) {
+    out.push(`Elementos (${labels.size}): ${Array.from(labels.keys()).map(name).join('; ')}.`);
+  }
+  if (edges.length > 0) {
+    out.push('Conexões:');
+    edges.forEach((e) => out.push(`- ${name(e.from)} → ${name(e.to)}${e.label ? ` (${e.label})` : ''}`));
+  }
+  groups.forEach((g) => {
+    const members = Array.from(new Set(g.members)).map(name);
+    out.push(`Grupo "${g.title}": ${members.length > 0 ? members.join('; ') : '(vazio)'}.`);
+  });
+  return out.join('\n');
+}
+
+// ─── Mermaid sequence diagrams ──────────────────────────────────────────────
+
+const SEQUENCE_BLOCKS: Record<string, string> = {
+  loop: 'Repetição', alt: 'Alternativa', else: 'Senão', opt: 'Opcional',
+  par: 'Em paralelo', and: 'E', critical: 'Crítico', break: 'Interrupção',
+};
+
+function describeSequence(lines: string[]): string {
+  const aliases = new Map<string, string>();
+  const steps:  string[] = [];
+  const name = (id: string) => aliases.get(id) ?? id;
+  let messages = 0;
+
+  for (const statement of lines) {
+    const participant = statement.match(/^(?:participant|actor)\s+(\S+)(?:\s+as\s+(.+))?$/);
+    if (participant) {
+      aliases.set(participant[1], cleanLabel(participant[2] ?? participant[1]));
+      continue;
+    }
+    const message = statement.match(/^([^\s:>-]+)\s*(-{1,2}(?:>>|>|x|\)))\s*[+-]?\s*([^\s:]+)\s*:\s*(.*)$/);
+    if (message) {
+      const [, from, arrow, to, text] = message;
+      [from, to].forEach((id) => { if (!aliases.has(id)) aliases.set(id, id); });
+      const reply = arrow.startsWith('--') ? ' (resposta)' : '';
+      const fails = arrow.endsWith('x') ? ' (falha)' : '';
+      steps.push(`${++messages}. ${name(from)} → ${name(to)}${reply}${fails}: ${cleanLabel(text)}`);
+      continue;
+    }
+    const note = statement.match(/^note\s+(?:over|left of|right of)\s+([^:]+):\s*(.*)$/i);
+    if (note) {
+      const over = note[1].split(',').map((id) => name(id.trim())).join(', ');
+      steps.push(`Nota (${over}): ${cleanLabel(note[2])}`);
+      continue;
+    }
+    const block = statement.match(/^(\w+)\s*(.*)$/);
+    if (block && SEQUENCE_BLOCKS[block[1]]) {
+      steps.push(`[${SEQUENCE_BLOCKS[block[1]]}${block[2] ? `: ${cleanLabel(block[2])}` : ''}]`);
+    } else if (statement === 'end') {
+      steps.push('[fim]');
+    }
+  }
+
+  return [
+    'Diagrama de sequência.',
+    `Participantes: ${Array.from(aliases.values()).join('; ') || '(nenhum)'}.`,
+    ...(steps.length > 0 ? ['Mensagens:', ...steps] : []),
+  ].join('\n');
+}
+
+/** Structured description of a Mermaid source; unknown kinds keep the source. */
+export function describeMermaid(source: string): string {
+  const lines = source
+    .split('\n')
+    .map((l) => l.trim())
+    .filter((l) => l.length > 0 && !l.startsWith('%%'));
+  const header = lines[0] ?? '';
+
+  if (/^(?:graph|flowchart)\b/.test(header)) {
+    // Flowcharts may chain statements with ";" on one line
+    const statements = lines.slice(1).flatMap((l) => l.split(';')).map((l) => l.trim()).filter(Boolean);
+    return describeFlowchart(statements, header.replace(/;.*$/, ''));
+  }
+  if (/^sequenceDiagram\b/.test(header))     return describeSequence(lines.slice(1));
+  return `Diagrama Mermaid (${header.split(/\s+/)[0] || 'desconhecido'}). Código-fonte:\n${source.trim()}`;
+}
+
+// ─── Any block ──────────────────────────────────────────────────────────────
+
+function deriveAltText(block: VisualBlock): string {
+  switch (block.type) {
+    case 'mermaid':
+      return describeMermaid(block.content);
+    case 'terminal':
+      return `Saída de terminal (${block.content.split('\n').length} linhas):\n${block.content}`;
+    case 'code':
+      return `Código ${block.language}${block.title ? ` — ${block.title}` : ''}:\n${block.content}`;
+    case 'table':
+      // Row by row, each cell named by its column — linear reading keeps the header context
+      return [
+        `Tabela${block.title ? ` "${block.title}"` : ''}, ${block.rows.length} linhas, colunas: ${block.columns.join('; ')}.`,
+        ...block.rows.map((row, r) =>
+          `Linha ${r + 1}: ${block.columns.map((c, i) => `${c}: ${row[i] ?? ''}`).join('; ')}.`,
+        ),
+      ].join('\n');
+    case 'ui-steps':
+      return [
+        `Passos na interface${block.title ? ` (${block.title})` : ''}:`,
+        ...block.steps.map((s, i) => `${i + 1}. ${s}`),
+      ].join('\n');
+  }
+}
+
+/** Text alternative for a block — the generator's alt_text, else derived. */
+export function visualBlockAltText(block: VisualBlock): string {
+  const written = block.alt_text?.trim();
+  if (!written) return deriveAltText(block);
+  // The model's summary leads; text blocks keep their content so nothing is lost
+  return block.type === 'mermaid' ? written : `${written}\n\n${deriveAltText(block)}`;
+}
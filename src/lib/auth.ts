@@ -4,7 +4,9 @@
 // Session strategy: JWT (stateless, no DB required for sessions)
 // =============================================================================
 
+import { NextResponse } from 'next/server';
 import type { NextAuthOptions } from 'next-auth';
+import { getServerSession } from 'next-auth/next';
 import GoogleProvider from 'next-auth/providers/google';
 
 export const authOptions: NextAuthOptions = {
@@ -46,3 +48,39 @@ export const authOptions: NextAuthOptions = {
 
   secret: process.env.NEXTAUTH_SECRET,
 };
+
+function adminAllowList(): string[] {
+  return (process.env.ADMIN_EMAILS ?? '')
+    .split(',')
+    .map((e) => e.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+if (adminAllowList().length === 0) {
+  console.warn('[auth] ADMIN_EMAILS is unset — /admin and the admin APIs are closed to everyone');
+}
+
+/**
+ * Admin check for /admin pages and their APIs. ADMIN_EMAILS is a
+ * comma-separated allow-list; when it is unset nobody is admin — Google
+ * sign-in is open to any account.
+ */
+export function isAdmin(email: string | null | undefined): boolean {
+  if (!email) return false;
+  return adminAllowList().includes(email.toLowerCase());
+}
+
+/**
+ * Guard for the admin APIs: the admin's email, or the 401/403 response to
+ * return — `if (typeof admin !== 'string') return admin;`
+ */
+export async function requireAdmin(): Promise<string | NextResponse> {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!isAdmin(session.user.email)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+  return session.user.email;
+}
@@ -39,19 +39,43 @@ export const BQ_TABLES = {
   docs: process.env.BQ_TABLE_DOCS ?? 'exam_documents',
   sessions: process.env.BQ_TABLE_SESSIONS ?? 'exam_sessions',
   history: process.env.BQ_TABLE_HISTORY ?? 'question_history',
+  served: process.env.BQ_TABLE_SERVED ?? 'served_questions',
+  bank: process.env.BQ_TABLE_BANK ?? 'question_bank',
+  cases: process.env.BQ_TABLE_CASES ?? 'case_studies',
+  cli: process.env.BQ_TABLE_CLI ?? 'cli_attempts',
+  library: process.env.BQ_TABLE_LIBRARY ?? 'question_library',
+  moderation: process.env.BQ_TABLE_MODERATION ?? 'moderation_actions',
+  notifications: process.env.BQ_TABLE_NOTIFICATIONS ?? 'notifications',
+  disputes: process.env.BQ_TABLE_DISPUTES ?? 'answer_disputes',
+  audit: process.env.BQ_TABLE_AUDIT ?? 'grade_audit',
 
   /** Returns `project.dataset.table` string */
-  fqn(table: 'docs' | 'sessions' | 'history'): string {
+  fqn(table: 'docs' | 'sessions' | 'history' | 'served' | 'bank' | 'cases' | 'cli' | 'library' | 'moderation' | 'notifications' | 'disputes' | 'audit'): string {
     const project = process.env.GCP_PROJECT_ID!;
     const names: Record<string, string> = {
       docs: BQ_TABLES.docs,
       sessions: BQ_TABLES.sessions,
       history: BQ_TABLES.history,
+      served: BQ_TABLES.served,
+      bank: BQ_TABLES.bank,
+      cases: BQ_TABLES.cases,
+      cli: BQ_TABLES.cli,
+      library: BQ_TABLES.library,
+      moderation: BQ_TABLES.moderation,
+      notifications: BQ_TABLES.notifications,
+      disputes: BQ_TABLES.disputes,
+      audit: BQ_TABLES.audit,
     };
     return `\`${project}.${BQ_TABLES.dataset}.${names[table]}\``;
   },
 } as const;
 
+/** Fully-qualified BigQuery ML remote model used by ML.GENERATE_EMBEDDING. */
+export function embeddingModel(): string {
+  const project = process.env.GCP_PROJECT_ID!;
+  return process.env.BQ_EMBEDDING_MODEL ?? `${project}.${BQ_TABLES.dataset}.embedding_model`;
+}
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
@@ -59,18 +83,47 @@ export const BQ_TABLES = {
 /**
  * Runs a parameterized BigQuery query and returns all rows.
  * Uses standard SQL (legacy_sql = false).
+ * `types` is required for params that may be null (BigQuery cannot infer them).
+ * Jobs run in BQ_LOCATION when set; otherwise BigQuery takes the location of
+ * the dataset the query references (US, us-central1, …).
  */
 export async function runQuery<T = Record<string, unknown>>(
   query: string,
-  params?: unknown[] | Record<string, unknown>
+  params?: unknown[] | Record<string, unknown>,
+  types?: Record<string, string | string[]>
 ): Promise<T[]> {
-  const bq = getBigQueryClient();
-  const [job] = await bq.createQueryJob({
+  const job = await createJob(query, params, types);
+  const [rows] = await job.getQueryResults();
+  return rows as T[];
+}
+
+/**
+ * Runs a parameterized DML statement (UPDATE / DELETE / INSERT … SELECT) and
+ * returns how many rows it changed — for conditional updates whose caller
+ * needs to know whether the WHERE clause still matched.
+ */
+export async function runDml(
+  query: string,
+  params?: unknown[] | Record<string, unknown>,
+  types?: Record<string, string | string[]>
+): Promise<number> {
+  const job = await createJob(query, params, types);
+  await job.getQueryResults();
+  const [metadata] = await job.getMetadata();
+  return Number(metadata.statistics?.query?.numDmlAffectedRows ?? 0);
+}
+
+async function createJob(
+  query: string,
+  params?: unknown[] | Record<string, unknown>,
+  types?: Record<string, string | string[]>
+) {
+  const [job] = await getBigQueryClient().createQueryJob({
     query,
     useLegacySql: false,
     params: params ?? {},
-    location: process.env.BQ_LOCATION ?? 'US',
+    ...(types ? { types } : {}),
+    ...(process.env.BQ_LOCATION ? { location: process.env.BQ_LOCATION } : {}),
   });
-  const [rows] = await job.getQueryResults();
-  return rows as T[];
+  return job;
 }
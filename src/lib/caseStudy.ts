@@ -0,0 +1,150 @@
+// =============================================================================
+// EdTechia — Case-study generation
+// Professional exams ship long case studies (a fictional company, its current
+// environment and business/technical requirements) with several questions
+// each. One model call produces the shared scenario plus N linked questions;
+// every question is tagged with one of the exam's topics so per-topic
+// analytics keep working. With VERIFIER_MODEL set, each question is judged
+// with the scenario prepended and dropped (not regenerated) on disagreement.
+// =============================================================================
+
+import { CASE_STUDY_PROMPT_VERSION } from '@/lib/prompts';
+import { generateValidatedWithFallback } from '@/lib/vertexai';
+import type { GeneratedQuestion } from '@/lib/vertexai';
+import { CaseStudySchema, MAX_VISUAL_BLOCKS, VISUAL_BLOCK_FORMATS } from '@/lib/questionSchema';
+import { verifyQuestion } from '@/lib/verifier';
+import type { QuestionVerdict } from '@/lib/verifier';
+import { fetchRagChunks, formatRagContext } from '@/lib/rag';
+import type { ExamConfig, ExamTopic } from '@/config/exams';
+
+export const DEFAULT_CASE_QUESTIONS = Number(process.env.CASE_STUDY_QUESTIONS ?? 4);
+export const MAX_CASE_QUESTIONS     = 6;
+// Topics a single case is built around
+const TOPICS_PER_CASE = 3;
+
+export type CaseStudyQuestion = {
+  topic:        ExamTopic;
+  question:     GeneratedQuestion;
+  verification: QuestionVerdict;
+};
+
+export type GeneratedCaseStudy = {
+  title:         string;
+  scenario_en:   string;
+  questions:     CaseStudyQuestion[];
+  modelUsed:     string;
+  promptVersion: string;
+};
+
+function sampleTopics(topics: ExamTopic[], n: number): ExamTopic[] {
+  return [...topics].sort(() => Math.random() - 0.5).slice(0, Math.min(n, topics.length));
+}
+
+function buildCasePrompts(params: {
+  exam:       ExamConfig;
+  topics:     ExamTopic[];
+  difficulty: string;
+  count:      number;
+  ragContext: string;
+}): { systemPrompt: string; userPrompt: string } {
+  const { exam, topics, difficulty, count, ragContext } = params;
+
+  const systemPrompt = `
+You are a Level 5 Examiner for the ${exam.title} certification.
+Your objective: write ONE exam case study and ${count} scenario-based
+multiple-choice questions that can only be answered with the case in mind.
+
+${exam.persona}
+
+EXAM-SPECIFIC TECHNICAL RULES
+${exam.technicalRules}
+
+SCOPE (exam guide excerpts — use them as the syllabus, not as a limit)
+<context>
+${ragContext}
+</context>
+
+CASE STUDY RULES
+1. scenario_en: 250–450 words describing a fictional company — business
+   overview, current technical environment, business requirements, technical
+   requirements and constraints (compliance, budget, SLAs, team skills).
+2. Every question must depend on at least one specific requirement or
+   constraint of the case. Do NOT restate the whole case inside question_en.
+3. Cover these topics (tag each question with the topic_id it tests):
+${topics.map((t) => `   - ${t.id}: ${t.name}`).join('\n')}
+4. Difficulty: ${difficulty.toUpperCase()}. Four plausible options (A–D), one
+   correct answer, explanation_pt in Portuguese explaining why the correct
+   option satisfies the case and why each distractor fails.
+5. visual_context is an optional list of 0–${MAX_VISUAL_BLOCKS} evidence blocks per
+   question ([] is fine); it must never reveal the answer. Allowed formats:
+${exam.visualTypes.map((t) => `   ${VISUAL_BLOCK_FORMATS[t]}`).join('\n')}
+
+OUTPUT FORMAT — STRICT
+Return ONLY one raw JSON object, no markdown:
+{
+  "title": "<company name — short label>",
+  "scenario_en": "<the case study>",
+  "questions": [
+    {
+      "topic_id": "<one of the topic ids above>",
+      "question_type": "single",
+      "select_count": 1,
+      "question_en": "<question that relies on the case>",
+      "visual_context": [ <0–${MAX_VISUAL_BLOCKS} blocks> ],
+      "options_en": { "A": "...", "B": "...", "C": "...", "D": "..." },
+      "correct_letter": "<A|B|C|D>",
+      "explanation_pt": "<Portuguese explanation>"
+    }
+  ]
+}
+The "questions" array must contain exactly ${count} items.
+`.trim();
+
+  const userPrompt = `Generate one ${difficulty} case study with ${count} questions for the ${exam.title} certification exam.`;
+  return { systemPrompt, userPrompt };
+}
+
+/**
+ * Generates a case study for an exam. Questions whose topic_id is unknown are
+ * attributed to the first sampled topic. Throws when generation fails or the
+ * judge rejects every question.
+ */
+export async function generateCaseStudy(
+  exam: ExamConfig,
+  difficulty: string,
+  count = DEFAULT_CASE_QUESTIONS,
+): Promise<GeneratedCaseStudy> {
+  const n      = Math.max(1, Math.min(MAX_CASE_QUESTIONS, count));
+  const topics = sampleTopics(exam.topics, TOPICS_PER_CASE);
+  const chunks = await fetchRagChunks(exam.id, topics.map((t) => t.name).join(' '));
+
+  const { systemPrompt, userPrompt } = buildCasePrompts({
+    exam, topics, difficulty, count: n, ragContext: formatRagContext(chunks),
+  });
+  // One scenario + several questions is several times a single question's size
+  const { value, modelUsed } = await generateValidatedWithFallback(systemPrompt, userPrompt, CaseStudySchema, {
+    recordAs:        { entryPoint: 'case-study', key: `${exam.id}:${difficulty}:${n}` },
+    maxOutputTokens: 12288,
+  });
+
+  const questions: CaseStudyQuestion[] = [];
+  for (const { topic_id, ...question } of value.questions.slice(0, n)) {
+    // The judge needs the case to solve the question
+    const verification = await verifyQuestion({
+      ...question,
+      question_en: `${value.scenario_en}\n\n${question.question_en}`,
+    });
+    if (verification.status === 'disagreed' || verification.status === 'leak') {
+      console.warn(`[caseStudy] ✗ Dropped question (${verification.status}: judge=${verification.judge_letter}, key=${verification.keyed_letter})`);
+      continue;
+    }
+    const topic = exam.topics.find((t) => t.id === topic_id) ?? topics[0];
+    questions.push({ topic, question, verification });
+  }
+
+  if (questions.length === 0) {
+    throw new Error('Verifier rejected every question of the case study');
+  }
+  console.log(`[caseStudy] ✓ "${value.title}" — ${questions.length} question(s) via ${modelUsed}`);
+  return { title: value.title, scenario_en: value.scenario_en, questions, modelUsed, promptVersion: CASE_STUDY_PROMPT_VERSION };
+}
@@ -0,0 +1,123 @@
+// =============================================================================
+// EdTechia — Question identity, never-repeat & near-duplicates
+// Every served and banked question carries a content hash (exact repeats) and
+// an embedding (same scenario, reworded). Two checks use them:
+//   - never-repeat: /api/generate-question compares candidates against the
+//     user's served_questions history, across sessions and devices
+//   - near-duplicate: every freshly generated question is compared against
+//     the topic's recent questions (all users) and regenerated if it is the
+//     same scenario reworded — before it enters the bank or reaches a learner
+// =============================================================================
+
+import { createHash } from 'crypto';
+import { cosineSimilarity, embedText, embedTexts } from '@/lib/embeddings';
+import { retryScope } from '@/lib/llm';
+import type { RecordingScope } from '@/lib/llm';
+import { generateVerifiedQuestion } from '@/lib/verifier';
+import type { VerifiedGeneration } from '@/lib/verifier';
+import type { GeneratedQuestion } from '@/lib/vertexai';
+import type { VisualBlockType } from '@/lib/questionSchema';
+import type { SeenQuestion } from '@/lib/repository';
+
+// Cosine similarity at or above which two questions count as the same scenario
+const SEEN_SIMILARITY           = Number(process.env.SEEN_SIMILARITY_THRESHOLD ?? 0.92);
+const NEAR_DUPLICATE_SIMILARITY = Number(process.env.NEAR_DUPLICATE_THRESHOLD ?? 0.9);
+// Regenerations after the first near-duplicate candidate
+const MAX_DUPLICATE_RETRIES = 2;
+
+export type QuestionFingerprint = {
+  content_hash:      string;
+  content_embedding: number[] | null;
+};
+
+/** Free-response items have no options — their scenario alone identifies them. */
+type Fingerprintable = Pick<GeneratedQuestion, 'question_en'> & {
+  options_en?: Record<string, string | undefined>;
+};
+
+/**
+ * Text that identifies a question: the scenario plus its options. Options are
+ * sorted so the fingerprint survives server-side shuffling (lib/shuffle.ts).
+ */
+function fingerprintText(q: Fingerprintable): string {
+  const options = Object.values(q.options_en ?? {}).filter((o): o is string => Boolean(o));
+  return [q.question_en, ...options.sort()].join('\n');
+}
+
+/** Case- and whitespace-insensitive sha256 of the scenario and options. */
+export function questionContentHash(q: Fingerprintable): string {
+  const normalised = fingerprintText(q).toLowerCase().replace(/\s+/g, ' ').trim();
+  return createHash('sha256').update(normalised).digest('hex');
+}
+
+export async function fingerprintQuestion(q: Fingerprintable): Promise<QuestionFingerprint> {
+  return {
+    content_hash:      questionContentHash(q),
+    content_embedding: await embedText(fingerprintText(q)),
+  };
+}
+
+/** fingerprintQuestion for many questions, embedded in one batch. */
+export async function fingerprintQuestions(qs: Fingerprintable[]): Promise<QuestionFingerprint[]> {
+  const embeddings = await embedTexts(qs.map(fingerprintText));
+  return qs.map((q, i) => ({
+    content_hash:      questionContentHash(q),
+    content_embedding: embeddings[i],
+  }));
+}
+
+function matchesAny(fp: QuestionFingerprint, others: SeenQuestion[], threshold: number): boolean {
+  return others.some((s) =>
+    s.content_hash === fp.content_hash ||
+    (fp.content_embedding != null && s.content_embedding != null &&
+      cosineSimilarity(fp.content_embedding, s.content_embedding) >= threshold)
+  );
+}
+
+/** True when the fingerprint matches something the user was already served. */
+export function wasSeen(fp: QuestionFingerprint, seen: SeenQuestion[]): boolean {
+  return matchesAny(fp, seen, SEEN_SIMILARITY);
+}
+
+/** True when the fingerprint is the same scenario as one of `existing`. */
+export function isNearDuplicate(fp: QuestionFingerprint, existing: SeenQuestion[]): boolean {
+  return matchesAny(fp, existing, NEAR_DUPLICATE_SIMILARITY);
+}
+
+export type DistinctGeneration = VerifiedGeneration & {
+  fingerprint: QuestionFingerprint;
+  /** Every attempt was a near-duplicate — the last candidate is returned anyway. */
+  duplicate:   boolean;
+};
+
+/**
+ * Generates a question and regenerates it (up to MAX_DUPLICATE_RETRIES times)
+ * while it is a near-duplicate of `existing`. Rejected scenarios are listed in
+ * the retry prompt so the model moves away from them.
+ */
+export async function generateDistinctQuestion(
+  systemPrompt: string,
+  userPrompt: string,
+  existing: SeenQuestion[],
+  recordAs: RecordingScope,
+  visualTypes?: readonly VisualBlockType[],
+): Promise<DistinctGeneration> {
+  const rejected: string[] = [];
+  let candidate: DistinctGeneration | null = null;
+
+  for (let attempt = 0; attempt <= MAX_DUPLICATE_RETRIES; attempt++) {
+    const prompt = rejected.length === 0
+      ? userPrompt
+      : `${userPrompt}\n\nThese scenarios already exist — write a substantially different one:\n` +
+        rejected.map((r, i) => `  ${i + 1}. "${r}..."`).join('\n');
+
+    const result      = await generateVerifiedQuestion(systemPrompt, prompt, retryScope(recordAs, 'distinct', attempt), visualTypes);
+    const fingerprint = await fingerprintQuestion(result.question);
+    candidate = { ...result, fingerprint, duplicate: isNearDuplicate(fingerprint, existing) };
+    if (!candidate.duplicate) return candidate;
+
+    rejected.push(result.question.question_en.slice(0, 120));
+    console.warn(`[dedup] Near-duplicate rejected (attempt ${attempt + 1}/${MAX_DUPLICATE_RETRIES + 1})`);
+  }
+  return candidate!;
+}
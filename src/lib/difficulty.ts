@@ -0,0 +1,17 @@
+// =============================================================================
+// EdTechia — Difficulty levels
+// The levels every generator accepts (questions, case studies, free-response
+// incidents, CLI challenges). They end up in prompts, bank keys and stored
+// rows, so routes reject anything else with a 400. Safe to import from client
+// components.
+// =============================================================================
+
+export const DIFFICULTIES = ['easy', 'medium', 'hard'] as const;
+
+export type Difficulty = (typeof DIFFICULTIES)[number];
+
+export const DIFFICULTY_ERROR = 'difficulty must be easy, medium or hard';
+
+export function isDifficulty(value: unknown): value is Difficulty {
+  return typeof value === 'string' && (DIFFICULTIES as readonly string[]).includes(value);
+}
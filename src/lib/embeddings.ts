@@ -0,0 +1,110 @@
+// =============================================================================
+// EdTechia — Text embeddings
+// Used to compare generated questions semantically (never-repeat, near-dup).
+// EMBEDDING_BACKEND selects the implementation:
+//   bigquery — ML.GENERATE_EMBEDDING with the same remote model as RAG ingest
+//   local    — hashed bag-of-words vectors, no network (tests, air-gapped)
+//   none     — disabled; callers fall back to exact content hashes
+// Default: bigquery when DATA_BACKEND=bigquery, local otherwise.
+// =============================================================================
+
+import { createHash } from 'crypto';
+import { runQuery, embeddingModel } from '@/lib/bigquery';
+
+const LOCAL_DIMENSIONS = 512;
+
+function backend(): string {
+  const explicit = process.env.EMBEDDING_BACKEND;
+  if (explicit) return explicit.toLowerCase();
+  return (process.env.DATA_BACKEND ?? 'bigquery').toLowerCase() === 'bigquery' ? 'bigquery' : 'local';
+}
+
+async function bigQueryEmbedding(text: string): Promise<number[]> {
+  const [row] = await runQuery<{ embedding: number[] }>(
+    `SELECT ml_generate_embedding_result AS embedding
+     FROM ML.GENERATE_EMBEDDING(MODEL \`${embeddingModel()}\`, (SELECT @content AS content))
+     LIMIT 1`,
+    { content: text }
+  );
+  if (!row?.embedding?.length) throw new Error('ML.GENERATE_EMBEDDING returned no vector');
+  return row.embedding.map(Number);
+}
+
+/** One ML.GENERATE_EMBEDDING call for all texts; a row that failed has no vector. */
+async function bigQueryEmbeddings(texts: string[]): Promise<(number[] | null)[]> {
+  const rows = await runQuery<{ idx: number; embedding: number[] }>(
+    `SELECT idx, ml_generate_embedding_result AS embedding
+     FROM ML.GENERATE_EMBEDDING(MODEL \`${embeddingModel()}\`,
+       (SELECT content, idx FROM UNNEST(@contents) AS content WITH OFFSET AS idx))`,
+    { contents: texts },
+    { contents: ['STRING'] }
+  );
+  const byIndex = new Map(rows.map((r) => [Number(r.idx), r.embedding]));
+  return texts.map((_, i) => {
+    const embedding = byIndex.get(i);
+    return embedding?.length ? embedding.map(Number) : null;
+  });
+}
+
+/** Feature-hashed unigrams + bigrams, L2-normalised. Good enough for near-duplicate checks. */
+function localEmbedding(text: string): number[] {
+  const vec   = new Array<number>(LOCAL_DIMENSIONS).fill(0);
+  const words = text.toLowerCase().match(/[a-z0-9][a-z0-9._-]{2,}/g) ?? [];
+  const terms = [...words, ...words.slice(1).map((w, i) => `${words[i]} ${w}`)];
+  for (const term of terms) {
+    const h = createHash('md5').update(term).digest();
+    vec[h.readUInt32BE(0) % LOCAL_DIMENSIONS] += h[4] & 1 ? 1 : -1;
+  }
+  const norm = Math.sqrt(vec.reduce((s, v) => s + v * v, 0)) || 1;
+  return vec.map((v) => v / norm);
+}
+
+/** Embeds `text`, or returns null when embeddings are disabled or fail. */
+export async function embedText(text: string): Promise<number[] | null> {
+  try {
+    switch (backend()) {
+      case 'bigquery':
+        return await bigQueryEmbedding(text);
+      case 'local':
+        return localEmbedding(text);
+      case 'none':
+        return null;
+      default:
+        throw new Error(`Unknown EMBEDDING_BACKEND "${backend()}"`);
+    }
+  } catch (err) {
+    console.warn('[embeddings] Embedding failed:', err);
+    return null;
+  }
+}
+
+/** embedText for many texts in one round trip; same order, same null fallback. */
+export async function embedTexts(texts: string[]): Promise<(number[] | null)[]> {
+  if (texts.length === 0) return [];
+  try {
+    switch (backend()) {
+      case 'bigquery':
+        return await bigQueryEmbeddings(texts);
+      case 'local':
+        return texts.map(localEmbedding);
+      case 'none':
+        return texts.map(() => null);
+      default:
+        throw new Error(`Unknown EMBEDDING_BACKEND "${backend()}"`);
+    }
+  } catch (err) {
+    console.warn('[embeddings] Batch embedding failed:', err);
+    return texts.map(() => null);
+  }
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+  let dot = 0, na = 0, nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    na  += a[i] * a[i];
+    nb  += b[i] * b[i];
+  }
+  return na && nb ? dot / Math.sqrt(na * nb) : 0;
+}
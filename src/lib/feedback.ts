@@ -0,0 +1,32 @@
+// =============================================================================
+// EdTechia — Question feedback taxonomy
+// Categories a learner attaches to a question rating (/api/rate-question), so
+// reports can be counted per model, prompt version and exam (quality report) instead
+// of living only in free-text feedback_notes. The explanation gets its own
+// thumbs up/down, separate from the question rating. Safe to import from
+// client components.
+// =============================================================================
+
+export const FEEDBACK_CATEGORIES = [
+  'wrong_key',
+  'ambiguous',
+  'outdated_service',
+  'typo',
+  'too_easy',
+  'off_topic',
+] as const;
+
+export type FeedbackCategory = (typeof FEEDBACK_CATEGORIES)[number];
+
+export const FEEDBACK_CATEGORY_LABELS: Record<FeedbackCategory, string> = {
+  wrong_key:        'Gabarito errado',
+  ambiguous:        'Ambígua',
+  outdated_service: 'Serviço desatualizado',
+  typo:             'Erro de digitação',
+  too_easy:         'Fácil demais',
+  off_topic:        'Fora do tema',
+};
+
+export function isFeedbackCategory(value: unknown): value is FeedbackCategory {
+  return typeof value === 'string' && (FEEDBACK_CATEGORIES as readonly string[]).includes(value);
+}
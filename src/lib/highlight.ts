@@ -0,0 +1,125 @@
+// =============================================================================
+// EdTechia — Minimal syntax highlighter for visual_context code blocks
+// A sticky-regex tokeniser per language in CODE_LANGUAGES — enough to tell
+// keys, strings, numbers, keywords and comments apart in a config snippet or
+// a short function. No dependencies; safe to import from client components.
+// =============================================================================
+
+import type { CodeLanguage } from '@/lib/questionSchema';
+
+export type TokenKind = 'plain' | 'comment' | 'string' | 'number' | 'keyword' | 'key' | 'punctuation';
+
+export type Token = { kind: TokenKind; text: string };
+
+type Rule = [TokenKind, RegExp];
+
+// Sticky regexes match only at lastIndex (built at runtime — the TS target
+// predates the `y` literal flag)
+function sticky(re: RegExp, flags = ''): RegExp {
+  return new RegExp(re.source, `y${flags}`);
+}
+
+const DQ_STRING = sticky(/"(?:[^"\\\n]|\\.)*"/);
+const SQ_STRING = sticky(/'(?:[^'\\\n]|\\.)*'/);
+const NUMBER    = sticky(/\b\d+(?:\.\d+)?(?:[eE][+-]?\d+)?\b/);
+
+function keywords(words: string, flags = ''): RegExp {
+  return new RegExp(`\\b(?:${words.trim().split(/\s+/).join('|')})\\b`, `y${flags}`);
+}
+
+// Tried in order at each position; the first match wins
+const RULES: Record<CodeLanguage, Rule[]> = {
+  json: [
+    ['key',         sticky(/"(?:[^"\\\n]|\\.)*"(?=\s*:)/)],
+    ['string',      DQ_STRING],
+    ['number',      sticky(/-?\b\d+(?:\.\d+)?(?:[eE][+-]?\d+)?\b/)],
+    ['keyword',     keywords('true false null')],
+    ['punctuation', sticky(/[{}[\],:]/)],
+  ],
+  yaml: [
+    ['comment',     sticky(/#.*/)],
+    ['key',         sticky(/[\w.\-/]+(?=:(?:\s|$))/)],
+    ['string',      DQ_STRING],
+    ['string',      SQ_STRING],
+    ['keyword',     keywords('true false null yes no')],
+    ['number',      NUMBER],
+    ['punctuation', sticky(/[:\-|>[\]{}]/)],
+  ],
+  hcl: [
+    ['comment',     sticky(/(?:#|\/\/).*/)],
+    ['string',      DQ_STRING],
+    ['keyword',     keywords('resource data variable output module provider locals terraform for_each count depends_on dynamic true false null')],
+    ['key',         sticky(/[\w-]+(?=\s*=(?!=))/)],
+    ['number',      NUMBER],
+    ['punctuation', sticky(/[{}[\]=,]/)],
+  ],
+  bash: [
+    ['comment',     sticky(/#.*/)],
+    ['string',      DQ_STRING],
+    ['string',      SQ_STRING],
+    ['keyword',     keywords('gcloud kubectl gsutil bq helm curl terraform sudo export if then else fi for do done echo')],
+    ['key',         sticky(/--?[A-Za-z][\w-]*/)],
+    ['punctuation', sticky(/[|&;\\]/)],
+  ],
+  python: [
+    ['comment',     sticky(/#.*/)],
+    ['string',      sticky(/"""[\s\S]*?"""/)],
+    ['string',      DQ_STRING],
+    ['string',      SQ_STRING],
+    ['keyword',     keywords('def class return if elif else for while try except finally with as import from raise async await lambda yield None True False and or not in is pass')],
+    ['number',      NUMBER],
+  ],
+  javascript: [
+    ['comment',     sticky(/\/\/.*|\/\*[\s\S]*?\*\//)],
+    ['string',      sticky(/`(?:[^`\\]|\\.)*`/)],
+    ['string',      DQ_STRING],
+    ['string',      SQ_STRING],
+    ['keyword',     keywords('const let var function return if else for while try catch finally async await new class import from export throw true false null undefined')],
+    ['number',      NUMBER],
+  ],
+  sql: [
+    ['comment',     sticky(/--.*/)],
+    ['string',      SQ_STRING],
+    ['keyword',     keywords('select from where join left right inner outer on group by order having limit insert into update set delete create table as and or not null is in case when then else end with union all distinct', 'i')],
+    ['number',      NUMBER],
+  ],
+  text: [],
+};
+
+// Whole words and whitespace runs are consumed at once so keywords never
+// match inside longer identifiers
+const PLAIN = sticky(/[A-Za-z_$][\w$]*|\s+|./);
+
+/** Splits `code` into coloured tokens; adjacent plain text is merged. */
+export function highlightCode(code: string, language: CodeLanguage): Token[] {
+  const rules  = RULES[language] ?? [];
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  const push = (kind: TokenKind, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (kind === 'plain' && last?.kind === 'plain') last.text += text;
+    else tokens.push({ kind, text });
+  };
+
+  while (pos < code.length) {
+    let matched = false;
+    for (const [kind, re] of rules) {
+      re.lastIndex = pos;
+      const m = re.exec(code);
+      if (m && m[0].length > 0) {
+        push(kind, m[0]);
+        pos += m[0].length;
+        matched = true;
+        break;
+      }
+    }
+    if (!matched) {
+      PLAIN.lastIndex = pos;
+      const m = PLAIN.exec(code)!;
+      push('plain', m[0]);
+      pos += m[0].length;
+    }
+  }
+  return tokens;
+}
@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const SCOPE = { entryPoint: 'test', key: 'provider-registry' };
+
+/** fetch stub answering like an OpenAI-compatible /chat/completions endpoint */
+function chatCompletion(content: string) {
+  return vi.fn(async () => new Response(JSON.stringify({ choices: [{ message: { content } }] }), { status: 200 }));
+}
+
+describe('LLM provider registry', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    vi.stubEnv('LLM_RECORD_MODE', 'off');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it('maps chain entries to providers, bare model ids to Vertex AI', async () => {
+    const { parseModelEntry } = await import('@/lib/llm');
+
+    expect(parseModelEntry('gemini-2.5-pro')).toEqual({ provider: 'vertex', model: 'gemini-2.5-pro' });
+    expect(parseModelEntry('vertex:gemini-2.0-flash')).toEqual({ provider: 'vertex', model: 'gemini-2.0-flash' });
+    expect(parseModelEntry('ollama:llama3.1:8b')).toEqual({ provider: 'ollama', model: 'llama3.1:8b' });
+    expect(parseModelEntry('openai:gpt-4o-mini')).toEqual({ provider: 'openai', model: 'gpt-4o-mini' });
+    expect(parseModelEntry('mock')).toEqual({ provider: 'mock', model: 'default' });
+    expect(parseModelEntry('mock:case-study')).toEqual({ provider: 'mock', model: 'case-study' });
+  });
+
+  it('builds the fallback chain from LLM_MODEL_CHAIN, else from the Vertex model variables', async () => {
+    vi.stubEnv('LLM_MODEL_CHAIN', ' ollama:llama3.1:8b , mock ,');
+    expect((await import('@/lib/vertexai')).MODEL_FALLBACK_CHAIN).toEqual(['ollama:llama3.1:8b', 'mock']);
+
+    vi.resetModules();
+    vi.stubEnv('LLM_MODEL_CHAIN', '');
+    vi.stubEnv('VERTEX_AI_MODEL_PRIMARY', 'gemini-custom');
+    expect((await import('@/lib/vertexai')).MODEL_FALLBACK_CHAIN[0]).toBe('gemini-custom');
+  });
+
+  it('sends ollama entries to OLLAMA_BASE_URL without credentials', async () => {
+    vi.stubEnv('OLLAMA_BASE_URL', 'http://ollama.test:11434/v1/');
+    const fetchMock = chatCompletion('from ollama');
+    vi.stubGlobal('fetch', fetchMock);
+    const { generateText, getProvider } = await import('@/lib/llm');
+
+    expect(getProvider('ollama').name).toBe('ollama');
+    expect(await generateText('ollama:llama3.1:8b', { userPrompt: 'hi', json: true }, SCOPE)).toBe('from ollama');
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('http://ollama.test:11434/v1/chat/completions');
+    expect(init.headers).not.toHaveProperty('Authorization');
+    expect(JSON.parse(init.body as string)).toMatchObject({ model: 'llama3.1:8b', response_format: { type: 'json_object' } });
+  });
+
+  it('sends openai entries to OPENAI_BASE_URL with OPENAI_API_KEY', async () => {
+    vi.stubEnv('OPENAI_BASE_URL', 'https://llm.test/v1');
+    vi.stubEnv('OPENAI_API_KEY', 'sk-test');
+    vi.stubEnv('OPENAI_JSON_MODE', 'false');
+    const fetchMock = chatCompletion('from openai');
+    vi.stubGlobal('fetch', fetchMock);
+    const { generateText } = await import('@/lib/llm');
+
+    expect(await generateText('openai:gpt-4o-mini', { userPrompt: 'hi', json: true }, SCOPE)).toBe('from openai');
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('https://llm.test/v1/chat/completions');
+    expect(init.headers).toMatchObject({ Authorization: 'Bearer sk-test' });
+    expect(JSON.parse(init.body as string)).not.toHaveProperty('response_format');
+  });
+
+  it('answers mock entries deterministically without a network call', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    const { generateText } = await import('@/lib/llm');
+
+    const first  = await generateText('mock', { userPrompt: 'same prompt' }, SCOPE);
+    const second = await generateText('mock', { userPrompt: 'same prompt' }, SCOPE);
+    expect(first).toBe(second);
+    expect(first.length).toBeGreaterThan(0);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the next chain entry when a provider fails', async () => {
+    vi.stubEnv('LLM_MODEL_CHAIN', 'ollama:llama3.1:8b,mock');
+    vi.stubGlobal('fetch', vi.fn(async () => { throw new Error('connect ECONNREFUSED'); }));
+    const { generateQuestionWithFallback } = await import('@/lib/vertexai');
+
+    const result = await generateQuestionWithFallback('system', 'user', SCOPE);
+    expect(result.modelUsed).toBe('mock');
+    expect(result.question.correct_letter).toBe('A');
+  });
+
+  it('rejects an unknown provider name', async () => {
+    const { getProvider } = await import('@/lib/llm');
+
+    expect(() => getProvider('anthropic')).toThrow('Unknown LLM provider "anthropic"');
+  });
+});
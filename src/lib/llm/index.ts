@@ -0,0 +1,98 @@
+// =============================================================================
+// EdTechia — LLM provider registry
+// Model entries are written "<provider>:<model>". Entries without a known
+// provider prefix are Vertex AI model ids, so existing configuration
+// (VERTEX_AI_MODEL_PRIMARY=gemini-2.5-pro, …) keeps working unchanged.
+//
+//   gemini-2.5-pro             → Vertex AI
+//   vertex:gemini-2.0-flash    → Vertex AI
+//   ollama:llama3.1:8b         → OLLAMA_BASE_URL   (default http://localhost:11434/v1)
+//   openai:gpt-4o-mini         → OPENAI_BASE_URL   (default https://api.openai.com/v1) + OPENAI_API_KEY
+//   mock / mock:<fixture>      → deterministic fixtures (see mock.ts)
+//
+// LLM_RECORD_MODE=record|replay captures or serves calls from disk, keyed by
+// the caller's RecordingScope (see recording.ts).
+// =============================================================================
+
+import { vertexProvider } from './vertex';
+import { createOpenAICompatibleProvider } from './openaiCompatible';
+import { mockProvider } from './mock';
+import { getRecordMode, loadRecording, recordingKey, saveRecording } from './recording';
+import type { RecordingScope } from './recording';
+import type { LLMProvider, LLMRequest } from './types';
+
+export { promptScope, retryScope } from './recording';
+export type { LLMProvider, LLMRequest } from './types';
+export type { Recording, RecordingScope, RecordMode } from './recording';
+
+const providers = new Map<string, LLMProvider>();
+
+function buildProvider(name: string): LLMProvider {
+  switch (name) {
+    case 'vertex':
+      return vertexProvider;
+    case 'ollama':
+      return createOpenAICompatibleProvider({
+        name,
+        baseUrl: process.env.OLLAMA_BASE_URL ?? 'http://localhost:11434/v1',
+      });
+    case 'openai':
+      return createOpenAICompatibleProvider({
+        name,
+        baseUrl: process.env.OPENAI_BASE_URL ?? 'https://api.openai.com/v1',
+        apiKey:  process.env.OPENAI_API_KEY,
+        supportsJsonMode: process.env.OPENAI_JSON_MODE !== 'false',
+      });
+    case 'mock':
+      return mockProvider;
+    default:
+      throw new Error(`Unknown LLM provider "${name}"`);
+  }
+}
+
+const KNOWN_PROVIDERS = ['vertex', 'ollama', 'openai', 'mock'];
+
+export function getProvider(name: string): LLMProvider {
+  if (!providers.has(name)) providers.set(name, buildProvider(name));
+  return providers.get(name)!;
+}
+
+/** Splits a chain entry into provider name and provider-specific model id. */
+export function parseModelEntry(entry: string): { provider: string; model: string } {
+  const colon = entry.indexOf(':');
+  const prefix = colon > 0 ? entry.slice(0, colon) : entry;
+  if (KNOWN_PROVIDERS.includes(prefix)) {
+    return { provider: prefix, model: colon > 0 ? entry.slice(colon + 1) : 'default' };
+  }
+  return { provider: 'vertex', model: entry };
+}
+
+/**
+ * Runs one request against the provider named by a chain entry, honouring
+ * LLM_RECORD_MODE (record to disk / replay from disk). `recordAs` names the
+ * call for record/replay.
+ */
+export async function generateText(
+  entry: string,
+  request: Omit<LLMRequest, 'model'>,
+  recordAs: RecordingScope,
+): Promise<string> {
+  const mode = getRecordMode();
+
+  if (mode === 'replay') {
+    const recording = loadRecording(entry, recordAs);
+    if (!recording) {
+      throw new Error(
+        `No recording for ${entry} at ${recordAs.entryPoint} (${recordAs.key}, ` +
+        `key ${recordingKey(entry, recordAs).slice(0, 12)})`
+      );
+    }
+    return recording.response;
+  }
+
+  const { provider, model } = parseModelEntry(entry);
+  const text = await getProvider(provider).generate({ ...request, model });
+
+  if (mode === 'record') saveRecording(entry, recordAs, request, text);
+  return text;
+}
@@ -0,0 +1,78 @@
+// =============================================================================
+// EdTechia — Deterministic mock provider
+// Serves canned responses so the app and the generation pipeline can run with
+// no model at all. Responses are picked by a hash of the prompt, so the same
+// prompt always yields the same output.
+//
+// Fixtures: MOCK_LLM_FIXTURES may point to a directory of files. JSON requests
+// are answered from *.json files, plain-text requests from *.txt files. The
+// model part of the chain entry ("mock:<name>") pins a single fixture file.
+// Without a directory the built-in fixtures below are used.
+// =============================================================================
+
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import type { LLMProvider, LLMRequest } from './types';
+
+const BUILTIN_JSON_FIXTURES = [
+  JSON.stringify({
+    question_en:
+      'A Cloud Run service in project prod-app started returning 403 errors when calling ' +
+      'Secret Manager right after a deploy. The compliance team requires least privilege and ' +
+      'forbids service account keys.\n\n' +
+      'Cloud Logging:\n{"severity":"ERROR","status":{"code":7,"message":"Permission ' +
+      '\'secretmanager.versions.access\' denied on resource projects/prod-app/secrets/db-pass"}}',
+    visual_context: {
+      type: 'terminal',
+      content:
+        '$ gcloud run services describe api --format="value(spec.template.spec.serviceAccountName)"\n' +
+        '123456789012-compute@developer.gserviceaccount.com',
+    },
+    options_en: {
+      A: 'Grant roles/secretmanager.secretAccessor on the db-pass secret to a dedicated service account and redeploy the service with it',
+      B: 'Grant roles/editor on the project to the default compute service account',
+      C: 'Create a JSON key for a new service account and mount it as an environment variable',
+      D: 'Grant roles/secretmanager.admin on the project to the default compute service account',
+    },
+    correct_letter: 'A',
+    explanation_pt:
+      'A está correta: uma service account dedicada com secretAccessor apenas no secret atende ao ' +
+      'menor privilégio sem chaves. B é excessivamente ampla. C viola a proibição de chaves. ' +
+      'D concede permissões administrativas desnecessárias.',
+  }),
+];
+
+const BUILTIN_TEXT_FIXTURES = [
+  'Explicação gerada pelo provedor mock. A alternativa correta atende a todas as restrições do ' +
+  'cenário, enquanto as demais violam ao menos uma delas (custo, segurança ou operação).',
+];
+
+function loadFixtures(json: boolean, pinned?: string): string[] {
+  const dir = process.env.MOCK_LLM_FIXTURES;
+  if (!dir || !fs.existsSync(dir)) return json ? BUILTIN_JSON_FIXTURES : BUILTIN_TEXT_FIXTURES;
+
+  const ext   = json ? '.json' : '.txt';
+  const files = fs.readdirSync(dir)
+    .filter(f => f.endsWith(ext))
+    .filter(f => !pinned || f === pinned || f === `${pinned}${ext}`)
+    .sort();
+  if (files.length === 0) return json ? BUILTIN_JSON_FIXTURES : BUILTIN_TEXT_FIXTURES;
+  return files.map(f => fs.readFileSync(path.join(dir, f), 'utf8'));
+}
+
+function pick<T>(items: T[], req: LLMRequest): T {
+  const digest = createHash('sha256')
+    .update(`${req.systemPrompt ?? ''}\n${req.userPrompt}`)
+    .digest();
+  return items[digest.readUInt32BE(0) % items.length];
+}
+
+export const mockProvider: LLMProvider = {
+  name: 'mock',
+
+  async generate(req) {
+    const pinned = req.model && req.model !== 'default' ? req.model : undefined;
+    return pick(loadFixtures(!!req.json, pinned), req);
+  },
+};
@@ -0,0 +1,57 @@
+// =============================================================================
+// EdTechia — OpenAI-compatible provider
+// Talks to any server implementing POST {baseUrl}/chat/completions:
+// OpenAI itself, a local Ollama (http://localhost:11434/v1), vLLM, LM Studio…
+// =============================================================================
+
+import type { LLMProvider } from './types';
+
+export type OpenAICompatibleOptions = {
+  name:    string;
+  baseUrl: string;
+  apiKey?: string;
+  /** Some local servers reject response_format — disable it for them. */
+  supportsJsonMode?: boolean;
+};
+
+type ChatCompletionResponse = {
+  choices?: Array<{ message?: { content?: string | null } }>;
+  error?:   { message?: string };
+};
+
+export function createOpenAICompatibleProvider(opts: OpenAICompatibleOptions): LLMProvider {
+  const baseUrl = opts.baseUrl.replace(/\/+$/, '');
+
+  return {
+    name: opts.name,
+
+    async generate({ model, systemPrompt, userPrompt, temperature, topP, maxOutputTokens, json }) {
+      const messages = [
+        ...(systemPrompt ? [{ role: 'system', content: systemPrompt }] : []),
+        { role: 'user', content: userPrompt },
+      ];
+
+      const res = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(opts.apiKey ? { Authorization: `Bearer ${opts.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          messages,
+          temperature,
+          top_p:      topP,
+          max_tokens: maxOutputTokens,
+          ...(json && opts.supportsJsonMode !== false ? { response_format: { type: 'json_object' } } : {}),
+        }),
+      });
+
+      const data = (await res.json().catch(() => ({}))) as ChatCompletionResponse;
+      if (!res.ok) {
+        throw new Error(`${opts.name} HTTP ${res.status}: ${data.error?.message ?? res.statusText}`);
+      }
+      return data.choices?.[0]?.message?.content ?? '';
+    },
+  };
+}
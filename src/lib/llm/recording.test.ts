@@ -0,0 +1,73 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { RecordingScope } from '@/lib/llm';
+
+// fixtures/llm-recordings holds one recording of this call, made with other
+// RAG chunks and question-type mix than the prompts below
+const RECORDED: RecordingScope = { entryPoint: 'generate-question', key: 'gcp-security-engineer:sec-3:medium' };
+
+describe('LLM record/replay', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    vi.stubEnv('LLM_MODEL_CHAIN', 'gemini-2.5-pro,gemini-2.0-flash');
+    vi.stubEnv('LLM_RECORDINGS_DIR', path.join(process.cwd(), 'fixtures', 'llm-recordings'));
+    vi.stubEnv('LLM_RECORD_MODE', 'replay');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('replays a committed recording by scope, whatever the prompt text', async () => {
+    const { generateQuestionWithFallback } = await import('@/lib/vertexai');
+
+    const result = await generateQuestionWithFallback(
+      'system prompt of this run',
+      'user prompt with different RAG chunks',
+      RECORDED,
+      ['code', 'terminal', 'table', 'mermaid'],
+    );
+
+    expect(result.modelUsed).toBe('gemini-2.5-pro');
+    expect(result.question.correct_letter).toBe('A');
+    expect(result.question.options_en.A).toMatch(/Cloud KMS key/);
+    expect(result.question.visual_context).toHaveLength(1);
+  });
+
+  it('fails without calling a model when the scope was never recorded', async () => {
+    const { generateQuestionWithFallback } = await import('@/lib/vertexai');
+
+    await expect(generateQuestionWithFallback('s', 'u', { ...RECORDED, key: 'gcp-security-engineer:sec-3:hard' }))
+      .rejects.toThrow(/No recording for gemini-2.0-flash at generate-question/);
+  });
+
+  it('records a call and replays it for the same scope', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-recordings-'));
+    vi.stubEnv('LLM_RECORDINGS_DIR', dir);
+    const scope: RecordingScope = { entryPoint: 'explain', key: 'q-1' };
+    try {
+      vi.stubEnv('LLM_RECORD_MODE', 'record');
+      const { generateText } = await import('@/lib/llm');
+      const recorded = await generateText('mock', { userPrompt: 'first prompt' }, scope);
+      expect(fs.readdirSync(dir)).toHaveLength(1);
+
+      vi.stubEnv('LLM_RECORD_MODE', 'replay');
+      expect(await generateText('mock', { userPrompt: 'second prompt' }, scope)).toBe(recorded);
+      await expect(generateText('mock', { userPrompt: 'first prompt' }, { ...scope, key: 'q-2' }))
+        .rejects.toThrow(/No recording for mock at explain/);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('keys retries apart from the first call', async () => {
+    const { recordingKey, retryScope } = await import('./recording');
+
+    expect(retryScope(RECORDED, 'repair', 0)).toEqual(RECORDED);
+    expect(retryScope(RECORDED, 'repair', 1).key).toBe('gcp-security-engineer:sec-3:medium/repair-1');
+    expect(recordingKey('gemini-2.5-pro', retryScope(RECORDED, 'repair', 1)))
+      .not.toBe(recordingKey('gemini-2.5-pro', RECORDED));
+  });
+});
@@ -0,0 +1,112 @@
+// =============================================================================
+// EdTechia — LLM record / replay
+// LLM_RECORD_MODE controls how generateText() treats real model calls:
+//   off     (default) — call the provider, nothing is written
+//   record  — call the provider and save the prompt/response pair to disk
+//   replay  — never call a provider; serve the saved response or fail
+//
+// Each pair is one file in LLM_RECORDINGS_DIR (default ./fixtures/llm-recordings)
+// named by sha256(chain entry + RecordingScope). The scope is the entry point
+// making the call plus a key the caller builds from its stable inputs (exam,
+// topic, difficulty, the question being graded…) — never the prompt text,
+// which carries rotating RAG chunks, a random question-type mix and the
+// learner's seen scenarios, and so differs on every run. Because the key
+// includes the chain entry, a replay walks MODEL_FALLBACK_CHAIN exactly like
+// the recorded run did: entries that failed while recording have no file,
+// throw, and fall through to the entry that succeeded.
+// =============================================================================
+
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import type { LLMRequest } from './types';
+
+export type RecordMode = 'off' | 'record' | 'replay';
+
+/** Where a model call is made and what it depends on; see the header. */
+export type RecordingScope = {
+  /** "generate-question", "explain", "grade-free-response"… */
+  entryPoint: string;
+  key:        string;
+};
+
+export type Recording = {
+  key:           string;
+  model:         string;
+  entry_point:   string;
+  scope_key:     string;
+  system_prompt: string | null;
+  user_prompt:   string;
+  response:      string;
+  recorded_at:   string;
+};
+
+export function getRecordMode(): RecordMode {
+  const mode = (process.env.LLM_RECORD_MODE ?? 'off').toLowerCase();
+  if (mode === 'off' || mode === 'record' || mode === 'replay') return mode;
+  throw new Error(`Unknown LLM_RECORD_MODE "${mode}" — expected "off", "record" or "replay"`);
+}
+
+function recordingsDir(): string {
+  return process.env.LLM_RECORDINGS_DIR ?? path.join(process.cwd(), 'fixtures', 'llm-recordings');
+}
+
+export function recordingKey(entry: string, scope: RecordingScope): string {
+  return createHash('sha256')
+    .update(entry)
+    .update('\0')
+    .update(scope.entryPoint)
+    .update('\0')
+    .update(scope.key)
+    .digest('hex');
+}
+
+/**
+ * Scope for a call whose prompt is built only from stable inputs (the question
+ * being judged, graded or explained): the prompt itself is the key.
+ */
+export function promptScope(entryPoint: string, prompt: string): RecordingScope {
+  return { entryPoint, key: createHash('sha256').update(prompt).digest('hex') };
+}
+
+/** The scope of the nth retry of a call ("…/repair-1"); the first call keeps `scope`. */
+export function retryScope(scope: RecordingScope, label: string, n: number): RecordingScope {
+  return n === 0 ? scope : { ...scope, key: `${scope.key}/${label}-${n}` };
+}
+
+function recordingPath(key: string): string {
+  return path.join(recordingsDir(), `${key}.json`);
+}
+
+export function loadRecording(entry: string, scope: RecordingScope): Recording | null {
+  const file = recordingPath(recordingKey(entry, scope));
+  if (!fs.existsSync(file)) return null;
+  return JSON.parse(fs.readFileSync(file, 'utf8')) as Recording;
+}
+
+export function saveRecording(
+  entry: string,
+  scope: RecordingScope,
+  request: Omit<LLMRequest, 'model'>,
+  response: string,
+): void {
+  const key = recordingKey(entry, scope);
+  const recording: Recording = {
+    key,
+    model:         entry,
+    entry_point:   scope.entryPoint,
+    scope_key:     scope.key,
+    system_prompt: request.systemPrompt ?? null,
+    user_prompt:   request.userPrompt,
+    response,
+    recorded_at:   new Date().toISOString(),
+  };
+  try {
+    fs.mkdirSync(recordingsDir(), { recursive: true });
+    fs.writeFileSync(recordingPath(key), JSON.stringify(recording, null, 2));
+    console.log(`[llm] Recorded ${entry} at ${scope.entryPoint} (${scope.key}) → ${key.slice(0, 12)}`);
+  } catch (err) {
+    // A failed write must not fail the request that produced a good answer
+    console.error('[llm] Failed to save recording:', err);
+  }
+}
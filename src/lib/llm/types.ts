@@ -0,0 +1,24 @@
+// =============================================================================
+// EdTechia — LLM provider contract
+// Every model call (question generation, explanations, …) goes through an
+// LLMProvider so the fallback chain can mix Vertex AI, OpenAI-compatible
+// endpoints (OpenAI, Ollama, vLLM, LM Studio…) and a deterministic mock.
+// =============================================================================
+
+export type LLMRequest = {
+  /** Provider-specific model id, e.g. "gemini-2.5-pro" or "llama3.1:8b". */
+  model:            string;
+  systemPrompt?:    string;
+  userPrompt:       string;
+  temperature?:     number;
+  topP?:            number;
+  maxOutputTokens?: number;
+  /** Ask the model for a raw JSON object (no markdown wrapping). */
+  json?:            boolean;
+};
+
+export interface LLMProvider {
+  readonly name: string;
+  /** Returns the raw text of the first candidate. */
+  generate(request: LLMRequest): Promise<string>;
+}
@@ -0,0 +1,45 @@
+// =============================================================================
+// EdTechia — Vertex AI (Gemini) provider
+// =============================================================================
+
+import { VertexAI, type GenerateContentRequest } from '@google-cloud/vertexai';
+import type { LLMProvider } from './types';
+
+const PROJECT   = process.env.GCP_PROJECT_ID      ?? 'br-ventasbrasil-cld-01';
+const LOCATION  = process.env.VERTEX_AI_LOCATION  ?? 'us-central1';
+
+let _vertex: VertexAI | null = null;
+
+function getVertexClient(): VertexAI {
+  if (!_vertex) {
+    _vertex = new VertexAI({ project: PROJECT, location: LOCATION });
+  }
+  return _vertex;
+}
+
+export const vertexProvider: LLMProvider = {
+  name: 'vertex',
+
+  async generate({ model: modelId, systemPrompt, userPrompt, temperature, topP, maxOutputTokens, json }) {
+    const model = getVertexClient().getGenerativeModel({
+      model: modelId,
+      generationConfig: {
+        temperature,
+        topP,
+        maxOutputTokens,
+        // Enforce JSON output — prevents markdown wrapping
+        ...(json ? { responseMimeType: 'application/json' } : {}),
+      },
+      ...(systemPrompt
+        ? { systemInstruction: { role: 'system', parts: [{ text: systemPrompt }] } }
+        : {}),
+    });
+
+    const request: GenerateContentRequest = {
+      contents: [{ role: 'user', parts: [{ text: userPrompt }] }],
+    };
+
+    const response = await model.generateContent(request);
+    return response.response.candidates?.[0]?.content?.parts?.[0]?.text ?? '';
+  },
+};
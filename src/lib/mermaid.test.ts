@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { findMermaidErrors } from './mermaid';
+
+const block = (content: string) => ({ visual_context: [{ type: 'mermaid', content }] });
+
+describe('findMermaidErrors', () => {
+  it('accepts flowcharts with labelled nodes and edges', async () => {
+    expect(await findMermaidErrors(block('graph TD\n  A[Cloud Run] -->|HTTPS| B["Cloud SQL (private IP)"]\n  B --> C{IAM?}'))).toEqual([]);
+  });
+
+  it('reports a syntax error with the block path', async () => {
+    const issues = await findMermaidErrors(block('graph TD\n  A[[[ -->'));
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatch(/^visual_context\.0: invalid Mermaid syntax — /);
+  });
+
+  it('ignores values without mermaid blocks', async () => {
+    expect(await findMermaidErrors({ visual_context: [{ type: 'code', content: 'A[[[' }] })).toEqual([]);
+  });
+});
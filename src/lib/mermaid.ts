@@ -0,0 +1,144 @@
+// =============================================================================
+// EdTechia — Server-side Mermaid checks and pre-rendering
+// Every generated mermaid block is parsed with mermaid's own parser before the
+// question is banked or served. Syntax errors are reported back to the model
+// as validation issues (lib/vertexai.ts repair loop) instead of reaching the
+// learner as a broken diagram.
+//
+// mermaid can parse in Node (with DOMPurify stubbed, see shimDomPurify) but
+// needs a browser DOM to lay out SVG, so rendering is delegated to a
+// Kroki-compatible service: MERMAID_RENDER_URL receives the diagram source as
+// a text/plain POST and answers with SVG, e.g.
+//   MERMAID_RENDER_URL=http://kroki:8000/mermaid/svg
+// The SVG is stored on the block (`svg`) so history, review and exports show
+// the diagram without client-side rendering. Unset → blocks keep no SVG and
+// the browser renders them as before.
+// =============================================================================
+
+const RENDER_TIMEOUT_MS = Number(process.env.MERMAID_RENDER_TIMEOUT_MS ?? 10_000);
+// Larger responses are dropped — the browser renders those diagrams itself
+const MAX_SVG_CHARS     = 300_000;
+
+type MermaidBlock = { type: 'mermaid'; content: string; svg?: string };
+
+type FoundBlock = { block: MermaidBlock; path: string };
+
+function isMermaidBlock(value: unknown): value is MermaidBlock {
+  return typeof value === 'object' && value !== null
+    && (value as { type?: unknown }).type === 'mermaid'
+    && typeof (value as { content?: unknown }).content === 'string';
+}
+
+/** Mermaid blocks anywhere in a generated value (questions, case studies…). */
+function findMermaidBlocks(value: unknown, path = ''): FoundBlock[] {
+  if (isMermaidBlock(value)) return [{ block: value, path }];
+  if (typeof value !== 'object' || value === null) return [];
+  return Object.entries(value).flatMap(([key, child]) =>
+    findMermaidBlocks(child, path ? `${path}.${key}` : key),
+  );
+}
+
+type MermaidApi = { parse: (text: string) => Promise<unknown> };
+
+type Purifier = {
+  isSupported?: boolean;
+  addHook?:     unknown;
+  removeHook?:  unknown;
+  removeHooks?: unknown;
+  sanitize?:    unknown;
+};
+
+let mermaidPromise: Promise<MermaidApi | null> | null = null;
+
+/**
+ * Without a window DOMPurify exports a stub with no addHook/sanitize, and
+ * mermaid calls both while parsing any labelled node ("A[Cloud Run]",
+ * "-->|label|"). Nothing is rendered here, so the stand-ins only have to keep
+ * the parser going; the sanitizer drops angle brackets rather than pass
+ * markup through.
+ */
+async function shimDomPurify(): Promise<void> {
+  const purify = (await import('dompurify')).default as unknown as Purifier;
+  if (purify.isSupported || typeof purify.addHook === 'function') return;
+  purify.addHook     = () => {};
+  purify.removeHook  = () => {};
+  purify.removeHooks = () => {};
+  purify.sanitize    = (text: unknown) => String(text).replace(/[<>]/g, '');
+}
+
+function loadMermaid(): Promise<MermaidApi | null> {
+  mermaidPromise ??= shimDomPurify()
+    .then(() => import('mermaid'))
+    .then((m) => m.default as MermaidApi)
+    .catch((err) => {
+      console.warn('[mermaid] Parser unavailable — diagrams are not validated:', err);
+      return null;
+    });
+  return mermaidPromise;
+}
+
+/**
+ * Parses every mermaid block in `value`. Returns one "<path>: <error>" issue
+ * per invalid diagram; empty when all parse (or the parser is unavailable or
+ * fails for reasons other than the diagram's syntax).
+ */
+export async function findMermaidErrors(value: unknown): Promise<string[]> {
+  const blocks = findMermaidBlocks(value);
+  if (blocks.length === 0) return [];
+  const mermaid = await loadMermaid();
+  if (!mermaid) return [];
+
+  const issues: string[] = [];
+  for (const { block, path } of blocks) {
+    try {
+      await mermaid.parse(block.content);
+    } catch (err) {
+      // A TypeError/ReferenceError is mermaid failing in Node, not the model's
+      // diagram — let it through unvalidated rather than fail the generation
+      if (err instanceof TypeError || err instanceof ReferenceError) {
+        console.warn(`[mermaid] Could not validate ${path}:`, err.message);
+        continue;
+      }
+      const message = (err instanceof Error ? err.message : String(err)).split('\n').slice(0, 4).join(' ');
+      issues.push(`${path}: invalid Mermaid syntax — ${message}`);
+    }
+  }
+  return issues;
+}
+
+async function renderSvg(source: string): Promise<string | null> {
+  const url = process.env.MERMAID_RENDER_URL;
+  if (!url) return null;
+  try {
+    const res = await fetch(url, {
+      method:  'POST',
+      headers: { 'Content-Type': 'text/plain', Accept: 'image/svg+xml' },
+      body:    source,
+      signal:  AbortSignal.timeout(RENDER_TIMEOUT_MS),
+    });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    const svg = await res.text();
+    // Injected into the page as-is — accept only a plain SVG document
+    if (!/^\s*(<\?xml[^>]*>\s*)?<svg[\s>]/i.test(svg) || /<script[\s>]/i.test(svg) || svg.length > MAX_SVG_CHARS) {
+      throw new Error('renderer returned something other than a plain SVG');
+    }
+    return svg;
+  } catch (err) {
+    console.warn('[mermaid] Pre-render failed:', err instanceof Error ? err.message : err);
+    return null;
+  }
+}
+
+/**
+ * Sets `svg` on every mermaid block of `value` (mutates it). Any `svg` the
+ * model wrote itself is always replaced or removed — only renderer output is
+ * ever injected into the page.
+ */
+export async function attachMermaidSvgs(value: unknown): Promise<void> {
+  const blocks = findMermaidBlocks(value);
+  await Promise.all(blocks.map(async ({ block }) => {
+    const svg = await renderSvg(block.content);
+    if (svg) block.svg = svg;
+    else delete block.svg;
+  }));
+}
@@ -0,0 +1,350 @@
+// =============================================================================
+// EdTechia — Moderation of reported questions
+// Thumbs-down ratings (/api/rate-question) put a question in the moderation
+// queue of /admin/moderation. A moderator then:
+//   - confirm — the answer key stands; the reports are closed
+//   - fix     — sets the correct option(s); every answer to the question is
+//               re-graded, finished sessions get a new final_score and the
+//               learners whose result changed are notified
+//   - retire  — library questions stop being served; one-off questions only
+//               have their reports closed
+// Options are shuffled per serve (lib/shuffle.ts), so keys are compared and
+// re-applied by option text, never by letter. Every re-keyed answer and
+// re-scored session is written to grade_audit.
+// =============================================================================
+
+import { getRepository } from '@/lib/repository';
+import type {
+  GradeAuditSource,
+  ModerationAction,
+  ModerationAnswerRow,
+  NewGradeAuditEntry,
+  NewNotification,
+  SessionScoreChange,
+} from '@/lib/repository';
+import { formatAnswer, parseAnswer } from '@/lib/questionSchema';
+import type { GeneratedQuestion } from '@/lib/questionSchema';
+import type { FeedbackCategory } from '@/lib/feedback';
+import { v4 as uuidv4 } from 'uuid';
+
+export type OptionStat = {
+  /** Letter in the question copy shown to the moderator */
+  letter: string;
+  text:   string;
+  /** Learners who picked this option, across every serve */
+  picks:  number;
+  is_key: boolean;
+};
+
+export type ReportedQuestion = {
+  question_key:  string;
+  library_id:    string | null;
+  exam_name:     string;
+  topic:         string;
+  difficulty:    string;
+  question_type: string;
+  /** Copy of the most recent report — the letters the moderator works with */
+  reference_history_id: string;
+  question:      GeneratedQuestion;
+  reports: {
+    history_id:     string;
+    user_email:     string;
+    feedback_notes: string | null;
+    feedback_categories: FeedbackCategory[];
+    timestamp:      string;
+  }[];
+  stats: {
+    answers:      number;
+    correct:      number;
+    accuracy_pct: number;
+    options:      OptionStat[];
+  };
+};
+
+export type GradeChange = {
+  row:        ModerationAnswerRow;
+  is_correct: boolean;
+};
+
+/** What a retroactive grade change is attributed to in grade_audit. */
+export type GradeAuditContext = {
+  source:     GradeAuditSource;
+  source_id:  string;
+  changed_by: string;
+};
+
+export type ModerationOutcome = {
+  regraded: number;
+  sessions: number;
+  notified: number;
+};
+
+// ─── Answer keys by option text ─────────────────────────────────────────────
+
+/** Option texts of `letters` in this copy of the question. */
+export function optionTexts(q: GeneratedQuestion, letters: string | string[]): string[] {
+  return parseAnswer(letters).map((l) => q.options_en[l as keyof typeof q.options_en] ?? '');
+}
+
+function keyTexts(q: GeneratedQuestion): string[] {
+  return optionTexts(q, q.correct_letter);
+}
+
+/** The letters of `q` whose option text is one of `texts`. */
+function lettersFor(q: GeneratedQuestion, texts: string[]): string[] {
+  return Object.entries(q.options_en)
+    .filter(([, text]) => text !== undefined && texts.includes(text))
+    .map(([letter]) => letter);
+}
+
+function sameTexts(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((t) => b.includes(t));
+}
+
+function pickedTexts(row: ModerationAnswerRow): string[] {
+  return optionTexts(row.question, row.user_answer);
+}
+
+// ─── Queue ──────────────────────────────────────────────────────────────────
+
+/** Groups listModerationQueue() rows into one entry per question, queue order kept. */
+export function buildModerationQueue(rows: ModerationAnswerRow[]): ReportedQuestion[] {
+  const byKey = new Map<string, ModerationAnswerRow[]>();
+  rows.forEach((r) => byKey.set(r.question_key, [...(byKey.get(r.question_key) ?? []), r]));
+
+  return Array.from(byKey.values()).map((answers) => {
+    const reports   = answers.filter((a) => a.user_rating === -1);
+    const reference = reports[reports.length - 1] ?? answers[answers.length - 1];
+    const key       = keyTexts(reference.question);
+    const correct   = answers.filter((a) => a.is_correct).length;
+    const picks     = answers.flatMap(pickedTexts);
+
+    return {
+      question_key:  reference.question_key,
+      library_id:    reference.library_id,
+      exam_name:     reference.exam_name,
+      topic:         reference.topic,
+      difficulty:    reference.difficulty,
+      question_type: reference.question_type,
+      reference_history_id: reference.history_id,
+      question:      reference.question,
+      reports: reports.map((r) => ({
+        history_id:     r.history_id,
+        user_email:     r.user_email,
+        feedback_notes: r.feedback_notes,
+        feedback_categories: r.feedback_categories,
+        timestamp:      r.timestamp,
+      })),
+      stats: {
+        answers:      answers.length,
+        correct,
+        accuracy_pct: answers.length > 0 ? Math.round(correct / answers.length * 1000) / 10 : 0,
+        options:      Object.entries(reference.question.options_en)
+          .filter((entry): entry is [string, string] => entry[1] !== undefined)
+          .map(([letter, text]) => ({
+            letter,
+            text,
+            picks:  picks.filter((p) => p === text).length,
+            is_key: key.includes(text),
+          })),
+      },
+    };
+  });
+}
+
+// ─── Re-grading (shared with answer disputes) ───────────────────────────────
+
+/**
+ * Re-keys every answer of a question to the options whose text is in
+ * `newKey` and re-grades it. Returns the rows whose result changed.
+ */
+export async function regradeAnswers(
+  rows: ModerationAnswerRow[],
+  newKey: string[],
+  explanationPt: string | null,
+  audit: GradeAuditContext,
+): Promise<GradeChange[]> {
+  const repo    = getRepository();
+  const changes: GradeChange[] = [];
+  const entries: NewGradeAuditEntry[] = [];
+
+  for (const row of rows) {
+    const letters = lettersFor(row.question, newKey);
+    if (letters.length !== newKey.length) {
+      console.warn(`[moderation] History ${row.history_id} lacks the new key's options — not re-graded`);
+      continue;
+    }
+    const correct_letter = formatAnswer(letters);
+    const is_correct     = formatAnswer(row.user_answer) === correct_letter;
+    const explanation_pt = explanationPt ?? row.question.explanation_pt;
+    if (correct_letter === row.correct_letter && explanation_pt === row.question.explanation_pt) continue;
+
+    await repo.regradeHistory(row.history_id, {
+      correct_letter,
+      is_correct,
+      generated_question: { ...row.question, correct_letter, explanation_pt },
+    });
+    if (is_correct !== row.is_correct) changes.push({ row, is_correct });
+    entries.push({
+      id:                  uuidv4(),
+      ...audit,
+      user_email:          row.user_email,
+      history_id:          row.history_id,
+      session_id:          row.session_id,
+      previous_key:        row.correct_letter,
+      new_key:             correct_letter,
+      previous_is_correct: row.is_correct,
+      new_is_correct:      is_correct,
+      previous_score:      null,
+      new_score:           null,
+    });
+  }
+  await repo.addGradeAudit(entries);
+  return changes;
+}
+
+function formatScore(score: number | null): string {
+  return score === null ? '—' : `${score}%`;
+}
+
+/**
+ * Recomputes the finished sessions touched by `changes` and notifies each
+ * learner whose result changed. `reasonPt` completes "foi reavaliada …".
+ */
+export async function applyGradeChanges(
+  changes: GradeChange[],
+  reasonPt: string,
+  audit: GradeAuditContext,
+): Promise<{ sessions: SessionScoreChange[]; notified: number }> {
+  const repo = getRepository();
+
+  const sessionKeys = Array.from(new Set(
+    changes.filter((c) => c.row.session_id).map((c) => `${c.row.session_id}\n${c.row.user_email}`),
+  ));
+  const sessions: SessionScoreChange[] = [];
+  for (const key of sessionKeys) {
+    const [sessionId, userEmail] = key.split('\n');
+    const change = await repo.recomputeSessionScore(sessionId, userEmail);
+    if (change) sessions.push(change);
+  }
+  await repo.addGradeAudit(sessions
+    .filter((s) => s.previous !== s.current)
+    .map((s) => ({
+      id:                  uuidv4(),
+      ...audit,
+      user_email:          changes.find((c) => c.row.session_id === s.session_id)!.row.user_email,
+      history_id:          null,
+      session_id:          s.session_id,
+      previous_key:        null,
+      new_key:             null,
+      previous_is_correct: null,
+      new_is_correct:      null,
+      previous_score:      s.previous,
+      new_score:           s.current,
+    })));
+
+  const notifications: NewNotification[] = changes.map(({ row, is_correct }) => {
+    const session = sessions.find((s) => s.session_id === row.session_id);
+    const scoreLine = session && session.previous !== session.current
+      ? ` Nota do simulado: ${formatScore(session.previous)} → ${formatScore(session.current)}.`
+      : '';
+    return {
+      id:         uuidv4(),
+      user_email: row.user_email,
+      kind:       'grade_change',
+      title:      is_correct ? 'Resposta reavaliada: agora correta' : 'Resposta reavaliada: agora incorreta',
+      body:       `Sua resposta à questão de ${row.topic} (${row.timestamp.slice(0, 10)}) foi reavaliada ${reasonPt} ` +
+                  `e agora conta como ${is_correct ? 'correta' : 'incorreta'}.${scoreLine}`,
+      link:       '/history',
+    };
+  });
+  await repo.addNotifications(notifications);
+
+  return { sessions, notified: notifications.length };
+}
+
+/** Re-keys a library question so future serves carry the new key. */
+export async function rekeyLibraryQuestion(
+  libraryId: string,
+  newKey: string[],
+  explanationPt: string | null,
+  updatedBy: string,
+): Promise<void> {
+  const repo  = getRepository();
+  const entry = await repo.getLibraryQuestion(libraryId);
+  if (!entry) return;
+  const correct_letter = formatAnswer(lettersFor(entry.question, newKey));
+  await repo.updateLibraryQuestion(entry.id, {
+    question:   { ...entry.question, correct_letter, explanation_pt: explanationPt ?? entry.question.explanation_pt },
+    updated_by: updatedBy,
+  });
+}
+
+// ─── Moderator actions ──────────────────────────────────────────────────────
+
+export type ModerationInput = {
+  action:       ModerationAction;
+  questionKey:  string;
+  /** History row whose option letters `letters` refer to */
+  referenceHistoryId: string;
+  /** fix: the correct option letter(s) */
+  letters?:       string[];
+  /** fix: replacement explanation (kept when omitted) */
+  explanationPt?: string | null;
+  note:           string | null;
+  moderator:      string;
+};
+
+export async function moderateQuestion(input: ModerationInput): Promise<ModerationOutcome | { error: string }> {
+  const repo      = getRepository();
+  const rows      = await repo.listQuestionAnswers(input.questionKey);
+  const reference = rows.find((r) => r.history_id === input.referenceHistoryId);
+  if (!reference) return { error: 'Question not found' };
+
+  const id          = uuidv4();
+  const audit: GradeAuditContext = { source: 'moderation', source_id: id, changed_by: input.moderator };
+  const previousKey = keyTexts(reference.question);
+  let newKey        = previousKey;
+  let outcome: ModerationOutcome = { regraded: 0, sessions: 0, notified: 0 };
+
+  if (input.action === 'fix') {
+    const q        = reference.question;
+    const letters  = parseAnswer(input.letters ?? []);
+    const expected = q.question_type === 'multiple' ? q.select_count : 1;
+    if (letters.length !== expected || letters.some((l) => !(l in q.options_en))) {
+      return { error: `Select ${expected} of ${Object.keys(q.options_en).join(', ')}` };
+    }
+    newKey = letters.map((l) => q.options_en[l as keyof typeof q.options_en]!);
+    const explanationPt = input.explanationPt?.trim() || null;
+    if (sameTexts(newKey, previousKey) && !explanationPt) {
+      return { error: 'The key is unchanged — use confirm instead' };
+    }
+
+    const changes = await regradeAnswers(rows, newKey, explanationPt, audit);
+    const applied = await applyGradeChanges(changes, 'após revisão da moderação', audit);
+    outcome = { regraded: changes.length, sessions: applied.sessions.length, notified: applied.notified };
+
+    if (reference.library_id) {
+      await rekeyLibraryQuestion(reference.library_id, newKey, explanationPt, input.moderator);
+    }
+  }
+
+  if (input.action === 'retire' && reference.library_id) {
+    await repo.updateLibraryQuestion(reference.library_id, { status: 'retired', updated_by: input.moderator });
+  }
+
+  await repo.recordModeration({
+    id,
+    question_key:  input.questionKey,
+    library_id:    reference.library_id,
+    exam_name:     reference.exam_name,
+    action:        input.action,
+    moderator:     input.moderator,
+    note:          input.note,
+    previous_key:  previousKey.join(' | '),
+    new_key:       newKey.join(' | '),
+    regraded_rows: outcome.regraded,
+  });
+  console.log(`[moderation] ${input.moderator} → ${input.action} ${input.questionKey} (${outcome.regraded} re-graded)`);
+  return outcome;
+}
@@ -0,0 +1,64 @@
+// =============================================================================
+// EdTechia — Versioned prompt templates and A/B experiments
+// Templates live one file per version (questionV1.ts, …) and are never edited
+// after release. QUESTION_PROMPT_EXPERIMENT splits question generation between
+// registered versions by weight:
+//   QUESTION_PROMPT_EXPERIMENT=question-v1:50,question-v2:50
+// Every generation draws independently, so each learner sees every arm and
+// ratings compare templates rather than learners. Unset → the latest version.
+// The version is stored with each question (prompt_version on the bank,
+// served_questions and question_history rows) and thumbs up/down are grouped
+// by it in /api/quality (ai_quality_by_prompt).
+//
+// Case studies, free-response incidents and CLI challenges have one template
+// each, kept next to their schema (lib/caseStudy.ts, lib/freeResponse.ts,
+// lib/cliChallenge.ts) and outside experiments. Their version ids below are
+// stored the same way; give a template a new id whenever it changes.
+// =============================================================================
+
+import { questionV1 } from './questionV1';
+import type { QuestionPromptTemplate } from './types';
+
+export type * from './types';
+
+export const CASE_STUDY_PROMPT_VERSION    = 'case-study-v1';
+export const FREE_RESPONSE_PROMPT_VERSION = 'free-response-v1';
+export const CLI_CHALLENGE_PROMPT_VERSION = 'cli-challenge-v1';
+
+// Oldest first — the last entry is the default outside experiments
+const QUESTION_PROMPTS: QuestionPromptTemplate[] = [questionV1];
+
+type Arm = { template: QuestionPromptTemplate; weight: number };
+
+function parseExperiment(spec: string | undefined): Arm[] {
+  const arms: Arm[] = [];
+  for (const entry of (spec ?? '').split(',').map((s) => s.trim()).filter(Boolean)) {
+    const [version, weightText = '1'] = entry.split(':').map((s) => s.trim());
+    const template = QUESTION_PROMPTS.find((t) => t.version === version);
+    const weight   = Number(weightText);
+    if (!template || !(weight > 0)) {
+      console.warn(`[prompts] Ignoring experiment arm "${entry}" — unknown version or weight`);
+      continue;
+    }
+    arms.push({ template, weight });
+  }
+  return arms;
+}
+
+const EXPERIMENT = parseExperiment(process.env.QUESTION_PROMPT_EXPERIMENT);
+
+if (EXPERIMENT.length > 1) {
+  console.log(`[prompts] Question prompt experiment: ${EXPERIMENT.map((a) => `${a.template.version}=${a.weight}`).join(', ')}`);
+}
+
+/** Template version for the next generated question (weighted draw). */
+export function pickQuestionPrompt(): QuestionPromptTemplate {
+  if (EXPERIMENT.length === 0) return QUESTION_PROMPTS[QUESTION_PROMPTS.length - 1];
+  const total = EXPERIMENT.reduce((sum, a) => sum + a.weight, 0);
+  let roll = Math.random() * total;
+  for (const arm of EXPERIMENT) {
+    roll -= arm.weight;
+    if (roll < 0) return arm.template;
+  }
+  return EXPERIMENT[EXPERIMENT.length - 1].template;
+}
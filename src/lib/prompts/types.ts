@@ -0,0 +1,30 @@
+// =============================================================================
+// EdTechia — Prompt template contract
+// A template is an immutable, versioned artifact: once a version has served
+// questions its text must not change, or ratings recorded against it stop
+// meaning anything. Change a prompt by adding a new version (see index.ts).
+// =============================================================================
+
+import type { QuestionType, VisualBlockType } from '@/lib/questionSchema';
+
+/** Everything the multiple-choice question prompt is built from. */
+export type QuestionPromptParams = {
+  examTitle:      string;
+  persona:        string;
+  technicalRules: string;
+  topicName:      string;
+  difficulty:     string;
+  ragContext:     string;
+  questionType:   QuestionType;
+  visualTypes:    VisualBlockType[];
+  /** Recent scenarios to steer away from (learner-specific generations only) */
+  seen_questions?: string[];
+};
+
+export type QuestionPromptTemplate = {
+  /** Stored with every question as prompt_version, e.g. "question-v1" */
+  version:     string;
+  /** What this version changes compared with the previous one */
+  description: string;
+  build(params: QuestionPromptParams): { systemPrompt: string; userPrompt: string };
+};
@@ -1,137 +1,234 @@
 // =============================================================================
 // EdTechia — Server-Side Question Bank
 //
-// Module-level singleton that keeps a warm pool of pre-generated questions
-// per (exam_id × topic_id × difficulty) key.
+// Keeps a warm pool of pre-generated questions per
+// (exam_id × topic_id × difficulty) key.
 //
-// ── Why module-level? ────────────────────────────────────────────────────────
-// Cloud Run keeps container instances warm between requests. A module-level Map
-// persists across requests on the SAME instance. The bank refills silently in
-// background after each question is consumed, so users never wait for the LLM.
+// ── Where does the pool live? ────────────────────────────────────────────────
+// In the repository (question_bank table on BigQuery, the snapshot file on the
+// memory backend) — not in instance memory. Cold starts and deploys keep the
+// questions we already paid for, and every Cloud Run instance draws from the
+// same pool. The bank refills silently in background after each question is
+// consumed, so users never wait for the LLM.
 //
 // ── Guarantees ───────────────────────────────────────────────────────────────
 // - MIN_BANK questions target per key.
-// - Only one concurrent refill per key (tracked in `refilling` set).
-// - Hard cap MAX_BANK to avoid unbounded memory.
+// - Atomic pop: a banked question is served at most once, across instances.
+// - Never-repeat: pops skip questions the user was already served (content
+//   hash in the query, embedding similarity after the claim — see dedup.ts).
+// - No near-duplicates: refills regenerate questions that reword a recent
+//   question of the same topic, and drop them if the retries are too.
+// - Only one concurrent refill per key per instance (tracked in `refilling`).
+// - Hard cap MAX_BANK to avoid unbounded growth.
 // - On the very first request for a key the bank is empty → falls back to
 //   caller's on-demand generation, then kicks off background fill.
 // =============================================================================
 
-import { generateQuestionWithFallback } from '@/lib/vertexai';
 import type { GeneratedQuestion } from '@/lib/vertexai';
+import type { VisualBlockType } from '@/lib/questionSchema';
+import { getRepository } from '@/lib/repository';
+import type { BankedQuestion, SeenQuestion, TopicScope } from '@/lib/repository';
+import { generateDistinctQuestion, wasSeen } from '@/lib/dedup';
+import type { QuestionFingerprint } from '@/lib/dedup';
+import type { QuestionVerdict } from '@/lib/verifier';
+import { v4 as uuidv4 } from 'uuid';
 
 export type BankQuestion = {
   question:     GeneratedQuestion;
   modelUsed:    string;
   generatedAt:  number; // Date.now()
+  fingerprint:  QuestionFingerprint;
+  verification: QuestionVerdict | null;
+  /** Prompt template version (lib/prompts); null for prompts without one */
+  promptVersion: string | null;
 };
 
 const MIN_BANK = 10;
 const MAX_BANK = 20;
 // Questions older than 4 hours are discarded (stale)
 const MAX_AGE_MS = 4 * 60 * 60 * 1000;
+// Claimed and stale rows are deleted at most this often per instance
+const PRUNE_INTERVAL_MS = 15 * 60 * 1000;
+// Near-duplicates of seen questions are put back at most this many times per pop
+const MAX_SEEN_SKIPS = 3;
+// Recent questions of the topic a refill is compared against
+const RECENT_LOOKBACK = 100;
+// A refill stops after this many dropped near-duplicates in a row (topic exhausted)
+const MAX_CONSECUTIVE_DROPS = 3;
 
-// The bank: key → queue of ready questions
-const bank = new Map<string, BankQuestion[]>();
-
-// Keys currently being refilled (prevents duplicate concurrent refills)
+// Keys currently being refilled by this instance (prevents duplicate concurrent refills)
 const refilling = new Set<string>();
 
+let lastPrune = 0;
+
 function bankKey(examId: string, topicId: string, difficulty: string): string {
   return `${examId}:${topicId}:${difficulty}`;
 }
 
-function getQueue(key: string): BankQuestion[] {
-  if (!bank.has(key)) bank.set(key, []);
-  return bank.get(key)!;
+/** Oldest generated_at that still counts as fresh. */
+function freshSince(): string {
+  return new Date(Date.now() - MAX_AGE_MS).toISOString();
 }
 
-function pruneStale(key: string): void {
-  const queue = getQueue(key);
-  const now = Date.now();
-  const fresh = queue.filter(q => (now - q.generatedAt) < MAX_AGE_MS);
-  if (fresh.length !== queue.length) {
-    bank.set(key, fresh);
-    console.log(`[questionBank] Pruned ${queue.length - fresh.length} stale questions for key=${key}`);
-  }
+function pruneIfDue(): void {
+  if (Date.now() - lastPrune < PRUNE_INTERVAL_MS) return;
+  lastPrune = Date.now();
+  getRepository().pruneBank(freshSince())
+    .catch((err) => console.warn('[questionBank] Prune failed:', err));
 }
 
-/** Pop one question from the bank. Returns null if bank is empty. */
-export function popFromBank(
+/**
+ * Pop one question the user has not seen yet. Returns null if the bank has
+ * none. Questions that are only semantically close to a seen one go back to
+ * the bank — they are still new to other users.
+ */
+export async function popFromBank(
   examId: string,
   topicId: string,
-  difficulty: string
-): BankQuestion | null {
-  const key   = bankKey(examId, topicId, difficulty);
-  pruneStale(key);
-  const queue = getQueue(key);
-  if (queue.length === 0) return null;
-  const item = queue.shift()!;
-  console.log(`[questionBank] Popped 1 question. Remaining: ${queue.length} for key=${key}`);
-  return item;
+  difficulty: string,
+  seen: SeenQuestion[] = [],
+): Promise<BankQuestion | null> {
+  const key          = bankKey(examId, topicId, difficulty);
+  const repo         = getRepository();
+  const seenHashes   = seen.map((s) => s.content_hash).filter(Boolean);
+  const putBack: BankedQuestion[] = [];
+
+  try {
+    for (let attempt = 0; attempt <= MAX_SEEN_SKIPS; attempt++) {
+      const item = await repo.popBankQuestion(key, freshSince(), seenHashes);
+      if (!item) return null;
+
+      const fingerprint = { content_hash: item.content_hash, content_embedding: item.content_embedding };
+      if (wasSeen(fingerprint, seen)) {
+        putBack.push(item);
+        seenHashes.push(item.content_hash);
+        continue;
+      }
+
+      console.log(`[questionBank] Popped 1 question for key=${key}`);
+      return {
+        question:    item.generated_question,
+        modelUsed:   item.model_used,
+        generatedAt: Date.parse(item.generated_at),
+        fingerprint,
+        verification: item.verification,
+        promptVersion: item.prompt_version,
+      };
+    }
+    return null;
+  } catch (err) {
+    // A broken bank must not block generation — the caller falls back to on-demand
+    console.warn(`[questionBank] Pop failed for key=${key}:`, err);
+    return null;
+  } finally {
+    if (putBack.length > 0) {
+      console.log(`[questionBank] Returned ${putBack.length} already-seen question(s) to key=${key}`);
+      Promise.all(putBack.map((item) => repo.addBankQuestion({ ...item, id: uuidv4() })))
+        .catch((err) => console.warn(`[questionBank] Put-back failed for key=${key}:`, err));
+    }
+  }
 }
 
 /** Returns the current depth of the bank for a key (for diagnostics). */
-export function bankDepth(examId: string, topicId: string, difficulty: string): number {
+export async function bankDepth(examId: string, topicId: string, difficulty: string): Promise<number> {
   const key = bankKey(examId, topicId, difficulty);
-  pruneStale(key);
-  return getQueue(key).length;
+  const depths = await getRepository().bankDepths(freshSince(), key);
+  return depths[key] ?? 0;
 }
 
+type Prompts = {
+  systemPrompt: string;
+  userPrompt:   string;
+  /** visual_context block types the prompt allows (ExamConfig.visualTypes) */
+  visualTypes?: readonly VisualBlockType[];
+  /** Template version the prompt was built from, stored with the question */
+  promptVersion?: string;
+};
+
 /**
  * Trigger a background refill if the bank is below MIN_BANK for this key.
  * Build the systemPrompt + userPrompt externally and pass them in —
- * the bank is prompt-agnostic.
+ * the bank is prompt-agnostic. `buildPrompts` is called once per generated
+ * question, so it can vary the prompt (e.g. rotate RAG chunks) across a refill.
+ * `topicName` matches served_questions.topic for near-duplicate detection.
  */
 export function triggerRefillIfNeeded(
   examId: string,
   topicId: string,
   difficulty: string,
-  buildPrompts: () => { systemPrompt: string; userPrompt: string },
+  buildPrompts: () => Prompts | Promise<Prompts>,
+  topicName: string = topicId,
 ): void {
-  const key   = bankKey(examId, topicId, difficulty);
-  pruneStale(key);
-  const queue = getQueue(key);
-
-  if (queue.length >= MIN_BANK) return;
+  const key = bankKey(examId, topicId, difficulty);
   if (refilling.has(key)) return;
-
-  const needed = MIN_BANK - queue.length;
-  console.log(`[questionBank] Refilling ${needed} questions for key=${key} in background…`);
   refilling.add(key);
+  pruneIfDue();
 
   // Fire-and-forget — never awaited so the HTTP response is not blocked
   ;(async () => {
+    const repo = getRepository();
+    let depth = 0;
     try {
-      const { systemPrompt, userPrompt } = buildPrompts();
+      depth = await bankDepth(examId, topicId, difficulty);
+      if (depth >= MIN_BANK) return;
+
+      const needed = MIN_BANK - depth;
+      console.log(`[questionBank] Refilling ${needed} questions for key=${key} in background…`);
+
+      const scope: TopicScope = { examName: examId, topicId, topicName };
+      const recent = await repo.listRecentTopicQuestions(scope, RECENT_LOOKBACK);
+
       let generated = 0;
-      while (generated < needed) {
-        const q = getQueue(key);
-        if (q.length >= MAX_BANK) break;
+      let dropped   = 0;
+      // Every generation of this run, kept or dropped — never reset
+      let attempt   = 0;
+      while (generated < needed && depth < MAX_BANK && dropped < MAX_CONSECUTIVE_DROPS) {
         try {
-          const result = await generateQuestionWithFallback(systemPrompt, userPrompt);
-          q.push({ question: result.question, modelUsed: result.modelUsed, generatedAt: Date.now() });
+          const { systemPrompt, userPrompt, visualTypes, promptVersion } = await buildPrompts();
+          // Numbered so a replayed refill serves the recorded questions in order
+          const result = await generateDistinctQuestion(
+            systemPrompt, userPrompt, recent,
+            { entryPoint: 'question-bank', key: `${key}#${attempt++}` },
+            visualTypes,
+          );
+          if (result.duplicate) {
+            dropped++;
+            console.warn(`[questionBank] Dropped near-duplicate for key=${key}`);
+            continue;
+          }
+          dropped = 0;
+          await repo.addBankQuestion({
+            id:                 uuidv4(),
+            bank_key:           key,
+            generated_question: result.question,
+            model_used:         result.modelUsed,
+            generated_at:       new Date().toISOString(),
+            ...result.fingerprint,
+            verification:       result.verdict,
+            prompt_version:     promptVersion ?? null,
+          });
+          // Later questions of this refill must not reword this one either
+          recent.unshift({ question_en: result.question.question_en, ...result.fingerprint });
           generated++;
+          depth++;
           console.log(`[questionBank] +1 question (${generated}/${needed}) for key=${key}`);
         } catch (err) {
           console.warn(`[questionBank] Generation failed during refill for key=${key}:`, err);
           break;
         }
       }
+      console.log(`[questionBank] Refill done. Bank depth for key=${key}: ${depth}`);
+    } catch (err) {
+      console.warn(`[questionBank] Refill aborted for key=${key}:`, err);
     } finally {
       refilling.delete(key);
-      console.log(`[questionBank] Refill done. Bank depth for key=${key}: ${getQueue(key).length}`);
     }
   })();
 }
 
 /** Stats for all keys — used by the /api/bank-status admin endpoint */
-export function getBankStats(): Record<string, number> {
-  const stats: Record<string, number> = {};
-  bank.forEach((queue, key) => {
-    stats[key] = queue.length;
-  });
-  return stats;
+export async function getBankStats(): Promise<Record<string, number>> {
+  return getRepository().bankDepths(freshSince());
 }
 
 /**
@@ -149,7 +246,7 @@ export function warmBankForExam(
   examId: string,
   topics: string[],
   difficulties: string[],
-  buildPrompts: (topicId: string, difficulty: string) => { systemPrompt: string; userPrompt: string },
+  buildPrompts: (topicId: string, difficulty: string) => Prompts | Promise<Prompts>,
 ): void {
   for (const topicId of topics) {
     for (const difficulty of difficulties) {
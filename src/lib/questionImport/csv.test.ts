@@ -0,0 +1,48 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { parseCsv } from './csv';
+
+const fixture = (name: string) => fs.readFileSync(path.join('fixtures', 'question-import', name), 'utf8');
+
+describe('parseCsv', () => {
+  const questions = parseCsv(fixture('questions.csv'));
+
+  it('reads one question per record, columns in any order and case', () => {
+    expect(questions.map((q) => q.ref)).toEqual(['line 2', 'line 3', 'line 6', 'line 7']);
+    expect(questions[0]).toMatchObject({
+      topic:      'sec-3',
+      difficulty: 'Médio',
+      tags:       ['kms', 'cmek'],
+      issues:     [],
+    });
+    expect(questions[0].options.map((o) => o.correct)).toEqual([true, false, false, false]);
+  });
+
+  it('keeps commas, line breaks and doubled quotes inside quoted fields', () => {
+    expect(questions[0].text).toBe('Which service stores customer-managed encryption keys, rotating them automatically?');
+    expect(questions[1].text).toBe('Which two controls restrict data exfiltration?\nChoose two.');
+    expect(questions[1].explanation).toContain('exfiltração.\nO Cloud Armor');
+    expect(questions[2].text).toBe('A firewall rule logs "denied" traffic. Where are the logs?');
+  });
+
+  it('reads a multiple-select key and a fifth option', () => {
+    expect(questions[1].options).toHaveLength(5);
+    expect(questions[1].options.filter((o) => o.correct).map((o) => o.text))
+      .toEqual(['VPC Service Controls', 'Organization policy constraints']);
+  });
+
+  it('reports a key letter without an option instead of dropping the row', () => {
+    expect(questions[3].issues).toEqual(['correct: E is not a filled option column']);
+  });
+
+  it('detects ";" as the delimiter of pt-BR spreadsheet exports', () => {
+    const [q] = parseCsv('questão;question;option_a;option_b;option_c;option_d;correct;explanation\n;Q?;a;b;c;d;"B;D";x\n');
+    expect(q.options.filter((o) => o.correct).map((o) => o.text)).toEqual(['b', 'd']);
+  });
+
+  it('throws a readable error for an unterminated quote or missing columns', () => {
+    expect(() => parseCsv(fixture('unterminated.csv'))).toThrow('unterminated quoted field starting on line 2');
+    expect(() => parseCsv('question,option_a\nQ?,a\n')).toThrow(/^missing column\(s\) option_b, option_c, option_d, correct, explanation/);
+  });
+});
@@ -0,0 +1,110 @@
+// =============================================================================
+// EdTechia — CSV question import
+// One question per record, RFC 4180 quoting (fields may hold the delimiter,
+// "" and line breaks). The header row names the columns, in any order and
+// case; the delimiter is "," or ";" (spreadsheet exports in pt-BR), taken
+// from the header row.
+//
+//   question     required  question text (English)
+//   option_a…d   required  option texts
+//   option_e     optional  fifth option
+//   correct      required  key letter(s): "B", or "A,C" / "A;C" for multiple-select
+//   explanation  required  explanation shown after answering (Portuguese)
+//   topic        optional  ExamConfig topic id ("sec-2") or name; blank → default topic
+//   difficulty   optional  easy | medium | hard; blank → default difficulty
+//   tags         optional  separated by "," ";" or "|"
+// =============================================================================
+
+import { ANSWER_LETTERS } from '@/lib/questionSchema';
+import type { ParsedQuestion } from './types';
+
+const REQUIRED_COLUMNS = ['question', 'option_a', 'option_b', 'option_c', 'option_d', 'correct', 'explanation'];
+
+type CsvRecord = { line: number; fields: string[] };
+
+function detectDelimiter(text: string): ',' | ';' {
+  const header = text.slice(0, text.indexOf('\n') === -1 ? text.length : text.indexOf('\n'));
+  return header.split(';').length > header.split(',').length ? ';' : ',';
+}
+
+/** Non-blank records with the line each one starts on. */
+function parseRecords(text: string, delimiter: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let fields: string[] = [];
+  let field  = '';
+  let quoted = false;
+  let line   = 1;
+  let start  = 1;
+
+  const endRecord = () => {
+    fields.push(field);
+    if (fields.some((f) => f.trim() !== '')) records.push({ line: start, fields });
+    fields = [];
+    field  = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (c === '"') quoted = false;
+      else {
+        if (c === '\n') line++;
+        field += c;
+      }
+    } else if (c === '"' && field.trim() === '') {
+      quoted = true;
+      field  = '';
+    } else if (c === delimiter) {
+      fields.push(field);
+      field = '';
+    } else if (c === '\n') {
+      endRecord();
+      line++;
+      start = line;
+    } else {
+      field += c;
+    }
+  }
+  if (quoted) throw new Error(`unterminated quoted field starting on line ${start}`);
+  endRecord();
+  return records;
+}
+
+export function parseCsv(text: string): ParsedQuestion[] {
+  const normalised = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const [header, ...rows] = parseRecords(normalised, detectDelimiter(normalised));
+  if (!header) return [];
+
+  const columns = header.fields.map((f) => f.trim().toLowerCase());
+  const missing = REQUIRED_COLUMNS.filter((c) => !columns.includes(c));
+  if (missing.length > 0) {
+    throw new Error(`missing column(s) ${missing.join(', ')} in the header row`);
+  }
+
+  return rows.map(({ line, fields }) => {
+    const cell = (name: string) => {
+      const i = columns.indexOf(name);
+      return i === -1 ? '' : (fields[i] ?? '').trim();
+    };
+
+    const issues: string[] = [];
+    const present = ANSWER_LETTERS.filter((l) => cell(`option_${l.toLowerCase()}`) !== '');
+    const keyed   = cell('correct').toUpperCase().split(/[\s,;|]+/).filter(Boolean);
+    const unknown = keyed.filter((l) => !present.includes(l as typeof present[number]));
+    if (unknown.length > 0) {
+      issues.push(`correct: ${unknown.join(', ')} is not a filled option column`);
+    }
+
+    return {
+      ref:         `line ${line}`,
+      text:        cell('question'),
+      options:     present.map((l) => ({ text: cell(`option_${l.toLowerCase()}`), correct: keyed.includes(l) })),
+      explanation: cell('explanation'),
+      topic:       cell('topic') || null,
+      difficulty:  cell('difficulty') || null,
+      tags:        cell('tags').split(/[,;|]/),
+      issues,
+    };
+  });
+}
@@ -0,0 +1,48 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { parseGift } from './gift';
+
+const fixture = (name: string) => fs.readFileSync(path.join('fixtures', 'question-import', name), 'utf8');
+
+describe('parseGift', () => {
+  const questions = parseGift(fixture('questions.gift'));
+  const byTitle   = (title: string) => questions.find((q) => q.ref.startsWith(`"${title}"`))!;
+
+  it('reads titled questions with the last $CATEGORY segment as topic', () => {
+    expect(questions.map((q) => q.ref)).toEqual([
+      '"CMEK" (line 4)', '"Escapes" (line 12)', '"Exfiltration" (line 21)', '"TrueFalse" (line 29)', '"NoAnswers" (line 31)',
+    ]);
+    expect(byTitle('CMEK')).toMatchObject({
+      text:        'Which service rotates customer-managed keys automatically?',
+      explanation: 'O Cloud KMS agenda a rotação de cada chave.',
+      topic:       'Section 3: Ensuring data protection (KMS, DLP, Encryption)',
+      issues:      [],
+    });
+    expect(byTitle('Exfiltration').topic).toBe('Section 2: Securing communications and boundary protection (VPC, Firewalls)');
+  });
+
+  it('unescapes \\= \\{ \\} \\: \\~ \\# and uses answer feedback when there is no general feedback', () => {
+    const q = byTitle('Escapes');
+    expect(q.text).toBe('Which gcloud filter matches labels {env=prod}?');
+    expect(q.options.map((o) => o.text)).toEqual(['labels.env=prod', 'labels:env', 'env~prod', 'label #prod']);
+    expect(q.options.map((o) => o.correct)).toEqual([true, false, false, false]);
+    expect(q.explanation).toBe('Filters compare with = on label keys.');
+  });
+
+  it('keys every positively weighted answer of a multiple-select item and strips [html]', () => {
+    const q = byTitle('Exfiltration');
+    expect(q.text).toBe('Which two controls restrict data exfiltration?');
+    expect(q.options.filter((o) => o.correct).map((o) => o.text))
+      .toEqual(['VPC Service Controls', 'Organization policy constraints']);
+  });
+
+  it('reports unsupported and malformed items instead of dropping them', () => {
+    expect(byTitle('TrueFalse').issues).toEqual(['true/false questions are not supported']);
+    expect(byTitle('NoAnswers').issues).toEqual(['no {…} answer block']);
+  });
+
+  it('returns nothing for a file with only comments', () => {
+    expect(parseGift('// nothing here\n\n')).toEqual([]);
+  });
+});
@@ -0,0 +1,210 @@
+// =============================================================================
+// EdTechia — Moodle GIFT import
+// Multiple-choice questions only; questions are separated by blank lines:
+//
+//   $CATEGORY: $course$/Section 2: Securing communications
+//   ::Title:: Question text {
+//     =correct answer #per-answer feedback
+//     ~wrong answer
+//     ####general feedback — becomes the explanation
+//   }
+//
+// Multiple-select items weight their answers instead: ~%50%A ~%50%B ~%-100%C
+// (positive weight → correct). The last $CATEGORY segment is the topic hint.
+// True/false, short answer, matching, numeric and essay items are reported as
+// unsupported. Without general feedback the correct answers' feedback is used.
+// =============================================================================
+
+import type { ParsedOption, ParsedQuestion } from './types';
+
+type Block = { line: number; text: string };
+
+/** Index of `token` outside backslash escapes, or -1. */
+function indexOfUnescaped(s: string, token: string, from = 0): number {
+  for (let i = from; i <= s.length - token.length; i++) {
+    if (s[i] === '\\') { i++; continue; }
+    if (s.startsWith(token, i)) return i;
+  }
+  return -1;
+}
+
+function unescapeGift(s: string): string {
+  return s.replace(/\\n/g, '\n').replace(/\\([~=#{}:\\])/g, '$1');
+}
+
+/** Drops the [html] / [moodle] / [plain] / [markdown] text-format marker. */
+function plainText(s: string): string {
+  const format = /^\s*\[(html|moodle|plain|markdown)\]/i.exec(s);
+  if (!format) return s.trim();
+  const body = s.slice(format[0].length);
+  if (format[1].toLowerCase() !== 'html') return body.trim();
+  return body
+    .replace(/<br\s*\/?>|<\/p>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&amp;/g, '&')
+    .split('\n').map((line) => line.trim()).join('\n')
+    .trim();
+}
+
+function clean(s: string): string {
+  return unescapeGift(plainText(s)).trim();
+}
+
+/** Unescaped brace balance of a line. */
+function braceDelta(line: string): number {
+  let delta = 0;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '\\') i++;
+    else if (line[i] === '{') delta++;
+    else if (line[i] === '}') delta--;
+  }
+  return delta;
+}
+
+/** Blank-line separated blocks; a blank line inside {…} does not end one. */
+function splitBlocks(text: string): Block[] {
+  const blocks: Block[] = [];
+  let current: string[] = [];
+  let start = 0;
+  let depth = 0;
+
+  text.split('\n').forEach((line, i) => {
+    if (depth === 0 && line.trim().startsWith('//')) return;
+    if (depth === 0 && line.trim() === '') {
+      if (current.length > 0) blocks.push({ line: start, text: current.join('\n') });
+      current = [];
+      return;
+    }
+    if (current.length === 0) start = i + 1;
+    current.push(line);
+    depth = Math.max(0, depth + braceDelta(line));
+  });
+  if (current.length > 0) blocks.push({ line: start, text: current.join('\n') });
+  return blocks;
+}
+
+/** "$course$/top/Section 1" → "Section 1"; Moodle writes "/" inside names as "//". */
+function categoryTopic(category: string): string | null {
+  const segments = category.replace(/\/\//g, '\u0000').split('/').map((s) => s.replace(/\u0000/g, '/').trim());
+  const last = segments.filter((s) => s && s !== '$course$' && s !== '$system$' && s !== 'top').pop();
+  return last ?? null;
+}
+
+/** The answers between the braces, split on unescaped = and ~ markers. */
+function parseAnswers(body: string): { marker: string; weight: number | null; text: string; feedback: string }[] {
+  const answers: { marker: string; weight: number | null; text: string; feedback: string }[] = [];
+  let i = 0;
+  while (i < body.length) {
+    if (body[i] === '\\') { i += 2; continue; }
+    if (body[i] !== '=' && body[i] !== '~') { i++; continue; }
+
+    const next = Math.min(
+      ...['=', '~'].map((m) => indexOfUnescaped(body, m, i + 1)).map((n) => (n === -1 ? body.length : n)),
+    );
+    let raw = body.slice(i + 1, next);
+    let weight: number | null = null;
+    const weighted = /^\s*%(-?\d+(?:\.\d+)?)%/.exec(raw);
+    if (weighted) {
+      weight = Number(weighted[1]);
+      raw    = raw.slice(weighted[0].length);
+    }
+    const hash = indexOfUnescaped(raw, '#');
+    answers.push({
+      marker:   body[i],
+      weight,
+      text:     clean(hash === -1 ? raw : raw.slice(0, hash)),
+      feedback: hash === -1 ? '' : clean(raw.slice(hash + 1)),
+    });
+    i = next;
+  }
+  return answers;
+}
+
+function parseQuestion(block: Block, topic: string | null): ParsedQuestion {
+  let text = block.text.trim();
+  let title: string | null = null;
+  if (text.startsWith('::')) {
+    const end = indexOfUnescaped(text, '::', 2);
+    if (end !== -1) {
+      title = clean(text.slice(2, end));
+      text  = text.slice(end + 2);
+    }
+  }
+
+  const question: ParsedQuestion = {
+    ref:         title ? `"${title}" (line ${block.line})` : `line ${block.line}`,
+    text:        '',
+    options:     [],
+    explanation: '',
+    topic,
+    difficulty:  null,
+    tags:        [],
+    issues:      [],
+  };
+
+  const open  = indexOfUnescaped(text, '{');
+  const close = open === -1 ? -1 : indexOfUnescaped(text, '}', open + 1);
+  if (open === -1 || close === -1) {
+    question.text = clean(text);
+    question.issues.push('no {…} answer block');
+    return question;
+  }
+
+  // Text after the answer block is a "missing word" sentence — keep the gap visible
+  const after = text.slice(close + 1).trim();
+  question.text = clean(text.slice(0, open)) + (after ? ` _____ ${clean(after)}` : '');
+
+  let body = text.slice(open + 1, close);
+  const general = indexOfUnescaped(body, '####');
+  if (general !== -1) {
+    question.explanation = clean(body.slice(general + 4));
+    body = body.slice(0, general);
+  }
+
+  const trimmed = body.trim();
+  const answers = parseAnswers(body);
+  const unsupported =
+    trimmed === ''                                   ? 'essay questions are not supported' :
+    trimmed.startsWith('#')                          ? 'numeric questions are not supported' :
+    /^(T|F|TRUE|FALSE)\b/i.test(trimmed)             ? 'true/false questions are not supported' :
+    indexOfUnescaped(body, '->') !== -1              ? 'matching questions are not supported' :
+    !answers.some((a) => a.marker === '~')           ? 'short-answer questions are not supported' :
+    null;
+  if (unsupported) {
+    question.issues.push(unsupported);
+    return question;
+  }
+
+  // With an "=" answer the item is single-answer and weighted "~" answers are
+  // partial credit; otherwise every positively weighted answer is correct
+  const singleAnswer = answers.some((a) => a.marker === '=');
+  question.options = answers.map((a): ParsedOption => ({
+    text:    a.text,
+    correct: singleAnswer ? a.marker === '=' : a.weight !== null && a.weight > 0,
+  }));
+  if (!question.explanation) {
+    question.explanation = answers
+      .filter((a, i) => question.options[i].correct && a.feedback)
+      .map((a) => a.feedback)
+      .join(' ');
+  }
+  return question;
+}
+
+export function parseGift(text: string): ParsedQuestion[] {
+  const normalised = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const questions: ParsedQuestion[] = [];
+  let topic: string | null = null;
+
+  for (const block of splitBlocks(normalised)) {
+    // $CATEGORY lines apply to every question after them
+    const lines = block.text.split('\n');
+    while (lines.length > 0 && /^\s*\$CATEGORY:/i.test(lines[0])) {
+      topic = categoryTopic(lines.shift()!.replace(/^\s*\$CATEGORY:/i, '').trim());
+      block.line++;
+    }
+    if (lines.join('').trim() === '') continue;
+    questions.push(parseQuestion({ line: block.line, text: lines.join('\n') }, topic));
+  }
+  return questions;
+}
@@ -0,0 +1,64 @@
+import fs from 'fs';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getExamConfig } from '@/config/exams';
+import type { ImportFormat, ImportInput } from '@/lib/questionImport';
+
+const input = (format: ImportFormat, fileName: string, text?: string): ImportInput => ({
+  exam:              getExamConfig('gcp-security-engineer'),
+  format,
+  fileName,
+  text:              text ?? fs.readFileSync(path.join('fixtures', 'question-import', fileName), 'utf8'),
+  defaultTopicId:    null,
+  defaultDifficulty: 'medium',
+  tags:              [],
+  status:            'approved',
+  dryRun:            true,
+  admin:             'admin@example.com',
+});
+
+describe('importQuestions (dry run)', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    vi.stubEnv('DATA_BACKEND', 'memory');
+    vi.stubEnv('MEMORY_DB_FILE', '');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('reports rows that fail validation next to the valid ones', async () => {
+    const { importQuestions } = await import('@/lib/questionImport');
+    const report = await importQuestions(input('csv', 'questions.csv'));
+
+    if ('error' in report) throw new Error(report.error);
+    expect(report).toMatchObject({ total: 4, valid: 2, invalid: 2, imported: 0 });
+    expect(report.items.map((i) => [i.ref, i.status, i.topic_id, i.difficulty])).toEqual([
+      ['line 2', 'valid',   'sec-3', 'medium'],
+      ['line 3', 'valid',   'sec-2', 'hard'],
+      ['line 6', 'invalid', 'sec-3', 'easy'],
+      ['line 7', 'invalid', 'sec-3', 'medium'],
+    ]);
+    expect(report.items[2].issues).toEqual(['explanation_pt: explanation_pt is empty']);
+    expect(report.items[3].issues).toEqual(['correct: E is not a filled option column']);
+  });
+
+  it('counts every GIFT and QTI item, supported or not', async () => {
+    const { importQuestions } = await import('@/lib/questionImport');
+
+    expect(await importQuestions(input('gift', 'questions.gift'))).toMatchObject({ total: 5, valid: 3, invalid: 2 });
+    expect(await importQuestions(input('qti', 'questions.xml'))).toMatchObject({ total: 3, valid: 2, invalid: 1 });
+  });
+
+  it('returns an error instead of throwing for unreadable files', async () => {
+    const { importQuestions } = await import('@/lib/questionImport');
+
+    expect(await importQuestions(input('csv', 'unterminated.csv')))
+      .toEqual({ error: 'Could not read the CSV file: unterminated quoted field starting on line 2' });
+    expect(await importQuestions(input('qti', 'malformed.xml')))
+      .toEqual({ error: expect.stringMatching(/^Could not read the QTI file: Expected closing tag 'p'/) });
+    expect(await importQuestions(input('gift', 'empty.gift', '// only a comment\n')))
+      .toEqual({ error: 'No questions found in the GIFT file' });
+  });
+});
@@ -0,0 +1,284 @@
+// =============================================================================
+// EdTechia — Question import into the curated library
+// Trainers' hand-written question sets (Moodle GIFT, IMS QTI 2.1, CSV — the
+// formats are documented in gift.ts, qti.ts and csv.ts) become library
+// questions: parsed, lettered into the GeneratedQuestion shape, validated
+// against the exam's schema, mapped to an ExamConfig topic and stored with
+// source "imported". Approved imports are served by /api/generate-question
+// like promoted ones (lib/questionLibrary.ts), in the arena and the simulado.
+//
+// Questions already in the exam's library (same content hash) are skipped, so
+// re-running an interrupted import only stores what is missing. Questions are
+// embedded and inserted in batches; a batch that cannot be stored is reported
+// as failed and the rest of the file still goes in. A dry run reports what
+// would be imported without storing — or embedding — anything.
+// =============================================================================
+
+import { v4 as uuidv4 } from 'uuid';
+import type { ExamConfig } from '@/config/exams';
+import { getRepository } from '@/lib/repository';
+import type { LibraryStatus } from '@/lib/repository';
+import { fingerprintQuestions, questionContentHash } from '@/lib/dedup';
+import { checkLibraryVisuals, normaliseTags } from '@/lib/questionLibrary';
+import { ANSWER_LETTERS, formatIssues, questionSchemaFor } from '@/lib/questionSchema';
+import type { GeneratedQuestion } from '@/lib/questionSchema';
+import { parseCsv } from './csv';
+import { parseGift } from './gift';
+import { parseQti } from './qti';
+import type { ImportFormat, ImportItemResult, ImportReport, ParsedQuestion } from './types';
+
+export type * from './types';
+
+export const IMPORT_FORMATS: readonly ImportFormat[] = ['gift', 'qti', 'csv'];
+
+const MAX_IMPORT_QUESTIONS = 500;
+const PREVIEW_CHARS        = 200;
+// Questions per embedding call and INSERT statement
+const IMPORT_BATCH_SIZE    = 50;
+
+const PARSERS: Record<ImportFormat, (text: string) => ParsedQuestion[]> = {
+  gift: parseGift,
+  qti:  parseQti,
+  csv:  parseCsv,
+};
+
+// Moodle exports GIFT as .txt
+const EXTENSIONS: Record<string, ImportFormat> = {
+  gift: 'gift',
+  txt:  'gift',
+  xml:  'qti',
+  qti:  'qti',
+  csv:  'csv',
+};
+
+const DIFFICULTY_ALIASES: Record<string, string> = {
+  easy: 'easy', 'fácil': 'easy', facil: 'easy',
+  medium: 'medium', 'médio': 'medium', medio: 'medium', 'média': 'medium', media: 'medium',
+  hard: 'hard', 'difícil': 'hard', dificil: 'hard',
+};
+
+export function isImportFormat(value: unknown): value is ImportFormat {
+  return IMPORT_FORMATS.includes(value as ImportFormat);
+}
+
+/** Format from the file extension, or QTI for anything that looks like XML. */
+export function detectFormat(fileName: string, text: string): ImportFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  if (EXTENSIONS[extension]) return EXTENSIONS[extension];
+  return text.trimStart().startsWith('<') ? 'qti' : null;
+}
+
+/** "Médio" / "HARD" → "medium" / "hard"; null when not a difficulty. */
+export function normaliseDifficulty(value: string): string | null {
+  return DIFFICULTY_ALIASES[value.trim().toLowerCase()] ?? null;
+}
+
+/**
+ * ExamConfig topic id for a topic as written in an imported file: the id
+ * ("sec-2"), the full name, the section number ("Section 2", "Seção 2") or a
+ * fragment of the name only one topic contains ("data protection").
+ */
+export function matchTopic(exam: ExamConfig, hint: string): string | null {
+  const wanted = hint.trim().toLowerCase();
+  if (!wanted) return null;
+
+  const exact = exam.topics.find((t) => t.id.toLowerCase() === wanted || t.name.toLowerCase() === wanted);
+  if (exact) return exact.id;
+
+  const section = /^(?:section|se[cç][aã]o|domain|dom[ií]nio)\s*(\d+)\b/.exec(wanted);
+  if (section) {
+    const n = section[1];
+    const numbered = exam.topics.find((t) => new RegExp(`^section ${n}\\b`, 'i').test(t.name))
+      ?? exam.topics.find((t) => t.id.endsWith(`-${n}`));
+    if (numbered) return numbered.id;
+  }
+
+  const partial = exam.topics.filter((t) => t.name.toLowerCase().includes(wanted));
+  return wanted.length >= 3 && partial.length === 1 ? partial[0].id : null;
+}
+
+/** Letters the options A, B, C… and derives the question type from the key. */
+function toCandidate(p: ParsedQuestion): Record<string, unknown> {
+  const lettered = p.options.slice(0, ANSWER_LETTERS.length).map((o, i) => ({ ...o, letter: ANSWER_LETTERS[i] }));
+  const keyed    = lettered.filter((o) => o.correct).map((o) => o.letter);
+  return {
+    question_type:  keyed.length > 1 ? 'multiple' : 'single',
+    select_count:   Math.max(1, keyed.length),
+    question_en:    p.text,
+    visual_context: [],
+    options_en:     Object.fromEntries(lettered.map((o) => [o.letter, o.text])),
+    correct_letter: keyed.join(','),
+    explanation_pt: p.explanation,
+  };
+}
+
+export type ImportInput = {
+  exam:              ExamConfig;
+  format:            ImportFormat;
+  fileName:          string;
+  text:              string;
+  /** For questions without a topic, or whose topic matches none of the exam's */
+  defaultTopicId:    string | null;
+  /** For questions without a difficulty */
+  defaultDifficulty: string;
+  /** Added to every question's own tags */
+  tags:              string[];
+  status:            LibraryStatus;
+  dryRun:            boolean;
+  admin:             string;
+};
+
+type CheckedItem = { result: ImportItemResult; question: GeneratedQuestion | null; tags: string[] };
+
+function checkQuestion(input: ImportInput, p: ParsedQuestion): CheckedItem {
+  const issues = [...p.issues];
+
+  if (p.options.length > ANSWER_LETTERS.length) {
+    issues.push(`${p.options.length} options — at most ${ANSWER_LETTERS.length} (A–E) are supported`);
+  }
+
+  const topicId = (p.topic ? matchTopic(input.exam, p.topic) : null) ?? input.defaultTopicId;
+  if (!topicId) {
+    issues.push(p.topic
+      ? `topic "${p.topic}" matches no ${input.exam.id} topic — choose a default topic`
+      : 'no topic — choose a default topic');
+  }
+
+  const difficulty = p.difficulty ? normaliseDifficulty(p.difficulty) : input.defaultDifficulty;
+  if (!difficulty) issues.push(`difficulty "${p.difficulty}" must be easy, medium or hard`);
+
+  let question: GeneratedQuestion | null = null;
+  if (p.issues.length === 0) {
+    const parsed = questionSchemaFor(input.exam.visualTypes).safeParse(toCandidate(p));
+    if (parsed.success) question = parsed.data;
+    else issues.push(...formatIssues(parsed.error));
+  }
+
+  return {
+    result: {
+      ref:         p.ref,
+      status:      issues.length > 0 ? 'invalid' : 'valid',
+      question_en: p.text.slice(0, PREVIEW_CHARS),
+      topic_id:    topicId,
+      difficulty:  difficulty ?? p.difficulty ?? '',
+      issues,
+      id:          null,
+    },
+    question: issues.length > 0 ? null : question,
+    tags:     normaliseTags([...input.tags, ...p.tags]),
+  };
+}
+
+/** Embeds and inserts valid items; marks them imported, or failed with the error. */
+async function storeBatch(input: ImportInput, batch: CheckedItem[]): Promise<void> {
+  try {
+    const fingerprints = await fingerprintQuestions(batch.map((item) => item.question!));
+    const rows = batch.map((item, i) => ({
+      id:             uuidv4(),
+      exam_name:      input.exam.id,
+      topic_id:       item.result.topic_id!,
+      difficulty:     item.result.difficulty,
+      question:       item.question!,
+      tags:           item.tags,
+      status:         input.status,
+      source:         'imported' as const,
+      source_ref:     input.fileName,
+      model_used:     null,
+      prompt_version: null,
+      ...fingerprints[i],
+      created_by:     input.admin,
+    }));
+    await getRepository().addLibraryQuestions(rows);
+    batch.forEach((item, i) => {
+      item.result.status = 'imported';
+      item.result.id     = rows[i].id;
+    });
+  } catch (err) {
+    console.error(`[questionImport] Batch of ${batch.length} from ${input.fileName} failed:`, err);
+    const message = err instanceof Error ? err.message : String(err);
+    batch.forEach((item) => {
+      item.result.status = 'failed';
+      item.result.issues.push(`not stored: ${message}`);
+    });
+  }
+}
+
+/**
+ * Parses, validates and (unless dry-running) stores a question file. Returns
+ * an error for unreadable files; per-question problems, including batches
+ * that could not be stored, are in the report.
+ */
+export async function importQuestions(input: ImportInput): Promise<ImportReport | { error: string }> {
+  let parsed: ParsedQuestion[];
+  try {
+    parsed = PARSERS[input.format](input.text);
+  } catch (err) {
+    return { error: `Could not read the ${input.format.toUpperCase()} file: ${err instanceof Error ? err.message : String(err)}` };
+  }
+  if (parsed.length === 0) {
+    return { error: `No questions found in the ${input.format.toUpperCase()} file` };
+  }
+  if (parsed.length > MAX_IMPORT_QUESTIONS) {
+    return { error: `The file has ${parsed.length} questions — import at most ${MAX_IMPORT_QUESTIONS} at a time` };
+  }
+
+  const repo  = getRepository();
+  const items = parsed.map((p) => checkQuestion(input, p));
+  for (const item of items) {
+    if (!item.question) continue;
+    const issues = await checkLibraryVisuals(item.question);
+    if (issues.length === 0) continue;
+    item.result.status = 'invalid';
+    item.result.issues.push(...issues);
+    item.question = null;
+  }
+
+  // Duplicates: an earlier item of the file, or a question already in the library
+  const hashes = new Map<CheckedItem, string>();
+  const inFile = new Set<string>();
+  for (const item of items) {
+    if (!item.question) continue;
+    const hash = questionContentHash(item.question);
+    if (inFile.has(hash)) {
+      item.result.status = 'duplicate';
+      item.result.issues.push('same question as an earlier item of the file');
+      continue;
+    }
+    inFile.add(hash);
+    hashes.set(item, hash);
+  }
+  const existing = new Set(await repo.existingLibraryHashes(input.exam.id, Array.from(inFile)));
+  hashes.forEach((hash, item) => {
+    if (!existing.has(hash)) return;
+    item.result.status = 'duplicate';
+    item.result.issues.push('already in the library');
+  });
+
+  if (!input.dryRun) {
+    const ready = items.filter((i) => i.result.status === 'valid' && i.question && i.result.topic_id);
+    for (let start = 0; start < ready.length; start += IMPORT_BATCH_SIZE) {
+      await storeBatch(input, ready.slice(start, start + IMPORT_BATCH_SIZE));
+    }
+  }
+
+  const results = items.map((i) => i.result);
+  const count   = (status: ImportItemResult['status']) => results.filter((r) => r.status === status).length;
+  const report: ImportReport = {
+    format:     input.format,
+    file_name:  input.fileName,
+    dry_run:    input.dryRun,
+    total:      results.length,
+    imported:   count('imported'),
+    valid:      count('valid'),
+    invalid:    count('invalid'),
+    duplicates: count('duplicate'),
+    failed:     count('failed'),
+    items:      results,
+  };
+  console.log(
+    `[questionImport] ${input.admin} ${input.dryRun ? 'checked' : 'imported'} ${input.fileName} into ${input.exam.id}: ` +
+    `${report.imported} imported, ${report.valid} valid, ${report.invalid} invalid, ${report.duplicates} duplicate(s), ` +
+    `${report.failed} failed`
+  );
+  return report;
+}
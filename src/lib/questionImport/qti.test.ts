@@ -0,0 +1,43 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { parseQti } from './qti';
+
+const fixture = (name: string) => fs.readFileSync(path.join('fixtures', 'question-import', name), 'utf8');
+
+describe('parseQti', () => {
+  const questions = parseQti(fixture('questions.xml'));
+
+  it('reads every assessmentItem under a wrapper, prefixed or not', () => {
+    expect(questions.map((q) => q.ref)).toEqual(['item q-01', 'item q-02', 'item q-03']);
+  });
+
+  it('joins the item body and prompt, and keys the correctResponse choice', () => {
+    expect(questions[0]).toMatchObject({
+      text:        'Your company must control the encryption keys of its Cloud Storage buckets.\n\nWhich service should hold the keys?',
+      explanation: 'O Cloud KMS guarda chaves CMEK.',
+      topic:       'sec-3',
+      issues:      [],
+    });
+    expect(questions[0].options).toEqual([
+      { text: 'Cloud DNS', correct: false },
+      { text: 'Cloud KMS', correct: true },
+      { text: 'Cloud NAT', correct: false },
+      { text: 'Cloud CDN & Media CDN', correct: false },
+    ]);
+  });
+
+  it('keys every value of a multiple-cardinality response', () => {
+    expect(questions[1].options.filter((o) => o.correct).map((o) => o.text))
+      .toEqual(['VPC Service Controls', 'Organization policy constraints']);
+    expect(questions[1].topic).toBe('Section 2');
+  });
+
+  it('reports items without a choice interaction instead of dropping them', () => {
+    expect(questions[2].issues).toEqual(['no choiceInteraction — only choice items are supported']);
+  });
+
+  it('throws the XML error with its position for a malformed file', () => {
+    expect(() => parseQti(fixture('malformed.xml'))).toThrow(/Expected closing tag 'p'.*:5:/);
+  });
+});
@@ -0,0 +1,128 @@
+// =============================================================================
+// EdTechia — IMS QTI 2.1 import
+// Reads every <assessmentItem> in an XML file: a single item file, or items
+// collected under any wrapper element (unzip content packages first — the
+// manifest is not needed). Only items with one <choiceInteraction> are
+// imported; the key comes from the matching <responseDeclaration>'s
+// <correctResponse>, the explanation from <modalFeedback>, and the item's
+// label attribute is the topic hint. Namespace prefixes (qti:…) are ignored.
+// =============================================================================
+
+import { XMLParser } from 'fast-xml-parser';
+import type { ParsedQuestion } from './types';
+
+/** A preserveOrder node: { tag: children, ':@': attributes } or { '#text': text } */
+type XmlNode = Record<string, unknown>;
+
+const parser = new XMLParser({
+  preserveOrder:       true,
+  ignoreAttributes:    false,
+  attributeNamePrefix: '',
+  removeNSPrefix:      true,
+  trimValues:          false,
+  parseTagValue:       false,
+  parseAttributeValue: false,
+  htmlEntities:        true,
+});
+
+// XHTML elements that start a new line in the extracted text
+const BLOCK_TAGS = new Set(['p', 'div', 'pre', 'li', 'ul', 'ol', 'table', 'tr', 'blockquote', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+// Item body parts that are not the question text
+const NON_STEM_TAGS = new Set(['choiceInteraction', 'feedbackBlock', 'feedbackInline', 'rubricBlock', 'templateBlock']);
+// Content the learner could not see after import
+const MEDIA_TAGS = new Set(['img', 'object', 'audio', 'video', 'math']);
+
+function tagOf(node: XmlNode): string | null {
+  return Object.keys(node).find((k) => k !== ':@' && k !== '#text') ?? null;
+}
+
+function childrenOf(node: XmlNode): XmlNode[] {
+  const tag = tagOf(node);
+  return tag && Array.isArray(node[tag]) ? (node[tag] as XmlNode[]) : [];
+}
+
+function attr(node: XmlNode, name: string): string | null {
+  const attrs = node[':@'] as Record<string, string> | undefined;
+  return attrs?.[name] ?? null;
+}
+
+/** Descendants with the tag, outermost first (matches are not searched inside). */
+function findAll(nodes: XmlNode[], tag: string): XmlNode[] {
+  return nodes.flatMap((n) => (tagOf(n) === tag ? [n] : findAll(childrenOf(n), tag)));
+}
+
+function rawText(nodes: XmlNode[], skip: Set<string>): string {
+  return nodes.map((n) => {
+    if (typeof n['#text'] === 'string') return n['#text'];
+    const tag = tagOf(n);
+    if (!tag || skip.has(tag)) return '';
+    if (tag === 'br') return '\n';
+    const inner = rawText(childrenOf(n), skip);
+    return BLOCK_TAGS.has(tag) ? `\n${inner}\n` : inner;
+  }).join('');
+}
+
+/** Element text with XHTML line structure kept and whitespace collapsed. */
+function textOf(nodes: XmlNode[], skip: Set<string> = new Set()): string {
+  return rawText(nodes, skip)
+    .split('\n')
+    .map((line) => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function parseItem(item: XmlNode): ParsedQuestion {
+  const identifier = attr(item, 'identifier') ?? '(no identifier)';
+  const children   = childrenOf(item);
+  const question: ParsedQuestion = {
+    ref:         `item ${identifier}`,
+    text:        '',
+    options:     [],
+    explanation: findAll(children, 'modalFeedback').map((f) => textOf(childrenOf(f))).filter(Boolean).join('\n\n'),
+    topic:       attr(item, 'label'),
+    difficulty:  null,
+    tags:        [],
+    issues:      [],
+  };
+
+  const body         = findAll(children, 'itemBody')[0];
+  const interactions = body ? findAll(childrenOf(body), 'choiceInteraction') : [];
+  if (interactions.length !== 1) {
+    question.issues.push(interactions.length === 0
+      ? 'no choiceInteraction — only choice items are supported'
+      : `${interactions.length} interactions — only single-interaction items are supported`);
+    question.text = body ? textOf(childrenOf(body), NON_STEM_TAGS) : '';
+    return question;
+  }
+  const interaction = interactions[0];
+
+  const responseId  = attr(interaction, 'responseIdentifier');
+  const declaration = findAll(children, 'responseDeclaration').find((d) => attr(d, 'identifier') === responseId);
+  const keys        = declaration
+    ? findAll(findAll(childrenOf(declaration), 'correctResponse').flatMap(childrenOf), 'value').map((v) => textOf(childrenOf(v)))
+    : [];
+  if (keys.length === 0) {
+    question.issues.push(`no correctResponse for response ${responseId ?? '(unnamed)'}`);
+  }
+
+  const stem   = textOf(childrenOf(body), NON_STEM_TAGS);
+  const prompt = textOf(findAll(childrenOf(interaction), 'prompt').flatMap(childrenOf));
+  question.text    = [stem, prompt].filter(Boolean).join('\n\n');
+  question.options = findAll(childrenOf(interaction), 'simpleChoice').map((choice) => ({
+    text:    textOf(childrenOf(choice), new Set(['feedbackInline'])),
+    correct: keys.includes(attr(choice, 'identifier') ?? ''),
+  }));
+
+  const media = Array.from(MEDIA_TAGS).filter((tag) => findAll(childrenOf(body), tag).length > 0);
+  if (media.length > 0) {
+    question.issues.push(`contains ${media.join(', ')} content, which cannot be imported`);
+  }
+  return question;
+}
+
+export function parseQti(text: string): ParsedQuestion[] {
+  // `true` validates first: malformed XML throws with its line and column
+  const document = parser.parse(text, true) as XmlNode[];
+  return findAll(document, 'assessmentItem').map(parseItem);
+}
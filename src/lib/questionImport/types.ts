@@ -0,0 +1,57 @@
+// =============================================================================
+// EdTechia — Question import contract
+// Each format parser (gift.ts, qti.ts, csv.ts) reads a trainer's file into
+// format-neutral ParsedQuestions; index.ts turns those into GeneratedQuestions,
+// validates them and maps them to ExamConfig topics.
+// =============================================================================
+
+export type ImportFormat = 'gift' | 'qti' | 'csv';
+
+export type ParsedOption = {
+  text:    string;
+  correct: boolean;
+};
+
+/** One question as read from the file, before letters, validation or topics. */
+export type ParsedQuestion = {
+  /** Where it came from, for the import report: "line 12", "item q-07" */
+  ref:         string;
+  text:        string;
+  /** In file order; lettered A, B, C… on import */
+  options:     ParsedOption[];
+  /** Stored as explanation_pt */
+  explanation: string;
+  /** Topic id or name as written in the file (CSV topic, GIFT $CATEGORY, QTI label) */
+  topic:       string | null;
+  difficulty:  string | null;
+  tags:        string[];
+  /** Problems found while reading: not a choice question, unknown key letter… */
+  issues:      string[];
+};
+
+export type ImportItemStatus = 'imported' | 'valid' | 'invalid' | 'duplicate' | 'failed';
+
+export type ImportItemResult = {
+  ref:         string;
+  /** imported — stored; valid — would be stored (dry run); failed — valid but the insert failed */
+  status:      ImportItemStatus;
+  question_en: string;
+  topic_id:    string | null;
+  difficulty:  string;
+  issues:      string[];
+  /** Library id of an imported question */
+  id:          string | null;
+};
+
+export type ImportReport = {
+  format:     ImportFormat;
+  file_name:  string;
+  dry_run:    boolean;
+  total:      number;
+  imported:   number;
+  valid:      number;
+  invalid:    number;
+  duplicates: number;
+  failed:     number;
+  items:      ImportItemResult[];
+};
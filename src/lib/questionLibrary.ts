@@ -0,0 +1,96 @@
+// =============================================================================
+// EdTechia — Curated question library
+// Questions kept permanently in question_library: promoted by admins from
+// thumbs-upped question_history rows or imported from trainers' question files
+// (lib/questionImport), edited and tagged in /admin/library.
+// /api/generate-question answers ExamConfig.curatedShare of its requests from
+// the approved ones — unseen by the learner, like bank questions (dedup.ts).
+// =============================================================================
+
+import type { ExamConfig } from '@/config/exams';
+import { getRepository } from '@/lib/repository';
+import type { LibraryQuestion, LibraryStatus, SeenQuestion } from '@/lib/repository';
+import { fingerprintQuestion, wasSeen } from '@/lib/dedup';
+import type { QuestionFingerprint } from '@/lib/dedup';
+import { attachMermaidSvgs, findMermaidErrors } from '@/lib/mermaid';
+import { formatIssues, questionSchemaFor } from '@/lib/questionSchema';
+import type { GeneratedQuestion } from '@/lib/questionSchema';
+
+export const LIBRARY_STATUSES: readonly LibraryStatus[] = ['draft', 'approved', 'retired'];
+
+// Approved questions drawn per request; the first unseen one is served
+const SAMPLE_SIZE = 5;
+
+export function isLibraryStatus(value: unknown): value is LibraryStatus {
+  return LIBRARY_STATUSES.includes(value as LibraryStatus);
+}
+
+/** ExamConfig topic id for a topic name as stored in question_history. */
+export function topicIdForName(exam: ExamConfig, topicName: string): string | null {
+  return exam.topics.find((t) => t.name === topicName)?.id ?? null;
+}
+
+/** Trimmed, lower-cased, de-duplicated tags. */
+export function normaliseTags(tags: unknown): string[] {
+  if (!Array.isArray(tags)) return [];
+  return Array.from(new Set(
+    tags.filter((t): t is string => typeof t === 'string').map((t) => t.trim().toLowerCase()).filter(Boolean),
+  ));
+}
+
+/**
+ * Mermaid checks for a question entering the library (mutates it): any `svg`
+ * sent with a block is dropped — it would be injected into learners' pages —
+ * then the diagrams are parsed and, when all parse, pre-rendered by
+ * lib/mermaid.ts. Returns the syntax issues.
+ */
+export async function checkLibraryVisuals(question: GeneratedQuestion): Promise<string[]> {
+  for (const block of question.visual_context) {
+    if (block.type === 'mermaid') delete block.svg;
+  }
+  const issues = await findMermaidErrors(question);
+  if (issues.length === 0) await attachMermaidSvgs(question);
+  return issues;
+}
+
+/**
+ * Validates an edited question against the exam's schema (allowed
+ * visual_context blocks and Mermaid syntax included) and fingerprints it for
+ * never-repeat.
+ */
+export async function prepareLibraryQuestion(
+  exam: ExamConfig,
+  raw: unknown,
+): Promise<{ question: GeneratedQuestion; fingerprint: QuestionFingerprint } | { issues: string[] }> {
+  const parsed = questionSchemaFor(exam.visualTypes).safeParse(raw);
+  if (!parsed.success) return { issues: formatIssues(parsed.error) };
+  const issues = await checkLibraryVisuals(parsed.data);
+  if (issues.length > 0) return { issues };
+  return { question: parsed.data, fingerprint: await fingerprintQuestion(parsed.data) };
+}
+
+/**
+ * An approved library question of the topic and difficulty the user has not
+ * been served yet, or null. Failures are logged and treated as a miss — the
+ * caller falls back to the bank / on-demand generation.
+ */
+export async function pickCuratedQuestion(
+  examId: string,
+  topicId: string,
+  difficulty: string,
+  seen: SeenQuestion[],
+): Promise<LibraryQuestion | null> {
+  try {
+    const candidates = await getRepository().sampleLibraryQuestions(
+      { examName: examId, topicId, difficulty },
+      seen.map((s) => s.content_hash).filter(Boolean),
+      SAMPLE_SIZE,
+    );
+    return candidates.find((q) =>
+      !wasSeen({ content_hash: q.content_hash, content_embedding: q.content_embedding }, seen),
+    ) ?? null;
+  } catch (err) {
+    console.warn(`[questionLibrary] Sample failed for ${examId}:${topicId}:${difficulty}:`, err);
+    return null;
+  }
+}
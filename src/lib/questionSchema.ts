@@ -0,0 +1,392 @@
+// =============================================================================
+// EdTechia — Question contract (zod)
+// Single definition of the generated-question shape. The server validates
+// model output with it (lib/vertexai.ts) and the client validates what the
+// API hands back (Exam Arena, Simulado). Safe to import from client
+// components — no server-only dependencies.
+// =============================================================================
+
+import { z } from 'zod';
+
+export const ANSWER_LETTERS = ['A', 'B', 'C', 'D', 'E'] as const;
+
+export const AnswerLetterSchema = z.enum(ANSWER_LETTERS);
+
+/**
+ * single   — one correct option among A–D (or A–E)
+ * multiple — "choose N": select_count correct options, usually among A–E
+ */
+export const QUESTION_TYPES = ['single', 'multiple'] as const;
+
+export type QuestionType = (typeof QUESTION_TYPES)[number];
+
+/** "c, a" / ["C","A"] → ["A","C"] — sorted, de-duplicated, upper-case. */
+export function parseAnswer(value: string | readonly string[] | null | undefined): string[] {
+  if (!value) return [];
+  const parts = typeof value === 'string' ? value.split(',') : value;
+  return Array.from(new Set(parts.map((l) => l.trim().toUpperCase()).filter(Boolean))).sort();
+}
+
+/**
+ * Canonical answer string stored in correct_letter / user_answer:
+ * "B" for single-answer items, "A,C" for multiple-select.
+ */
+export function formatAnswer(letters: string | readonly string[]): string {
+  return parseAnswer(letters).join(',');
+}
+
+export function isMultipleSelect(q: { question_type?: string }): boolean {
+  return q.question_type === 'multiple';
+}
+
+export function isFreeResponse(q: ServedContent): q is FreeResponseQuestion {
+  return q.question_type === 'free_response';
+}
+
+export function isCliChallenge(q: ServedContent): q is CliChallenge {
+  return q.question_type === 'cli_challenge';
+}
+
+/** Single- and multiple-select items — the ones graded by /api/save-result. */
+export function isChoiceQuestion(q: ServedContent): q is GeneratedQuestion {
+  return !isFreeResponse(q) && !isCliChallenge(q);
+}
+
+// ---------------------------------------------------------------------------
+// Visual context — typed evidence blocks shown with the question
+// ---------------------------------------------------------------------------
+
+/**
+ * mermaid  — topology/architecture diagram (Mermaid source)
+ * terminal — CLI output, logs, error messages
+ * code     — config or source in a given language (IAM JSON, Terraform, YAML…)
+ * table    — permission matrices, quotas, comparison tables
+ * ui-steps — numbered console/admin-panel click paths
+ */
+export const VISUAL_BLOCK_TYPES = ['mermaid', 'terminal', 'code', 'table', 'ui-steps'] as const;
+
+export type VisualBlockType = (typeof VISUAL_BLOCK_TYPES)[number];
+
+export const CODE_LANGUAGES = ['json', 'yaml', 'hcl', 'bash', 'python', 'javascript', 'sql', 'text'] as const;
+
+export type CodeLanguage = (typeof CODE_LANGUAGES)[number];
+
+export const MAX_VISUAL_BLOCKS = 3;
+
+// Models write "terraform", "yml", "sh"… — map them onto the highlighter's set
+const LANGUAGE_ALIASES: Record<string, CodeLanguage> = {
+  terraform: 'hcl', tf: 'hcl', yml: 'yaml', sh: 'bash', shell: 'bash', py: 'python', js: 'javascript',
+};
+
+const CodeLanguageSchema = z.preprocess(
+  (v) => (typeof v === 'string' ? LANGUAGE_ALIASES[v.toLowerCase()] ?? v.toLowerCase() : v),
+  z.enum(CODE_LANGUAGES),
+).catch('text');
+
+const TextBlockFields = {
+  content: z.string().refine((c) => c.trim().length > 0, 'content is empty'),
+};
+
+// Screen-reader description written by the generator. Optional on every block:
+// when absent, lib/altText.ts derives one from the block itself.
+const AltTextField = {
+  alt_text: z.string().optional().catch(undefined),
+};
+
+export const VisualBlockSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('mermaid'),
+    ...TextBlockFields,
+    ...AltTextField,
+    /** Pre-rendered by the server (lib/mermaid.ts); absent → rendered in the browser. */
+    svg:  z.string().optional(),
+  }),
+  z.object({ type: z.literal('terminal'), ...TextBlockFields, ...AltTextField }),
+  z.object({
+    type:     z.literal('code'),
+    language: CodeLanguageSchema,
+    /** e.g. the file name ("main.tf", "policy.json") */
+    title:    z.string().catch(''),
+    ...TextBlockFields,
+    ...AltTextField,
+  }),
+  z.object({
+    type:    z.literal('table'),
+    title:   z.string().catch(''),
+    columns: z.array(z.string()).min(1, 'table has no columns'),
+    rows:    z.array(z.array(z.coerce.string())).min(1, 'table has no rows'),
+    ...AltTextField,
+  }),
+  z.object({
+    type:  z.literal('ui-steps'),
+    title: z.string().catch(''),
+    steps: z.array(z.string().min(1)).min(1, 'ui-steps has no steps'),
+    ...AltTextField,
+  }),
+]);
+
+// visual_context is optional evidence: one block, a list of blocks, or none.
+// It is normalised to a list; a malformed block (or "none") is dropped
+// instead of failing the whole question. Rows stored before multi-block
+// support hold a single { type, content } object and parse the same way.
+export const VisualContextSchema = z
+  .preprocess(
+    (v) => (Array.isArray(v) ? v : v == null ? [] : [v]),
+    z.array(VisualBlockSchema.nullable().catch(null)).catch([]),
+  )
+  .transform((blocks) => blocks.filter((b): b is VisualBlock => b !== null).slice(0, MAX_VISUAL_BLOCKS));
+
+/** JSON shape of each block type, as spelled out in generation prompts. */
+export const VISUAL_BLOCK_FORMATS: Record<VisualBlockType, string> = {
+  mermaid:    '{ "type": "mermaid", "content": "<valid Mermaid source: graph TD or sequenceDiagram>", "alt_text": "<text description for screen readers: every node and every connection with its label, in reading order>" }',
+  terminal:   '{ "type": "terminal", "content": "<CLI output, logs or error text>" }',
+  code:       `{ "type": "code", "language": "${CODE_LANGUAGES.join(' | ')}", "title": "<file name, e.g. main.tf>", "content": "<source>" }`,
+  table:      '{ "type": "table", "title": "<caption>", "columns": ["<header>", "..."], "rows": [["<cell>", "..."]] }',
+  'ui-steps': '{ "type": "ui-steps", "title": "<where, e.g. Admin console>", "steps": ["<step>", "..."] }',
+};
+
+/** Plain-text rendering of the blocks — for judge/grader prompts. */
+export function visualContextToText(vc: unknown): string {
+  return VisualContextSchema.parse(vc).map((b) => {
+    switch (b.type) {
+      case 'code':
+        return `[code${b.title ? `: ${b.title}` : ''} (${b.language})]\n${b.content}`;
+      case 'table':
+        return [
+          `[table${b.title ? `: ${b.title}` : ''}]`,
+          b.columns.join(' | '),
+          ...b.rows.map((r) => r.join(' | ')),
+        ].join('\n');
+      case 'ui-steps':
+        return [`[ui-steps${b.title ? `: ${b.title}` : ''}]`, ...b.steps.map((s, i) => `${i + 1}. ${s}`)].join('\n');
+      case 'mermaid':
+        return `[mermaid]\n${b.content}${b.alt_text ? `\n[alt text]\n${b.alt_text}` : ''}`;
+      default:
+        return `[${b.type}]\n${b.content}`;
+    }
+  }).join('\n\n');
+}
+
+export const OptionsSchema = z.object({
+  A: z.string().min(1, 'option A is empty'),
+  B: z.string().min(1, 'option B is empty'),
+  C: z.string().min(1, 'option C is empty'),
+  D: z.string().min(1, 'option D is empty'),
+  E: z.string().min(1, 'option E is empty').optional(),
+});
+
+// Models answer multiple-select items with ["A","C"]; stored as "A,C"
+const AnswerKeyFieldSchema = z.preprocess(
+  (v) => (Array.isArray(v) || typeof v === 'string' ? formatAnswer(v) : v),
+  z.string().regex(/^[A-E](,[A-E])*$/, 'expected a letter A–E or a list of letters'),
+);
+
+const QuestionObjectSchema = z.object({
+  question_type:  z.enum(QUESTION_TYPES).default('single'),
+  /** How many options the learner must select (1 for single-answer items). */
+  select_count:   z.number().int().min(1).max(3).default(1),
+  question_en:    z.string().min(1, 'question_en is empty'),
+  visual_context: VisualContextSchema,
+  options_en:     OptionsSchema,
+  correct_letter: AnswerKeyFieldSchema,
+  explanation_pt: z.string().min(1, 'explanation_pt is empty'),
+});
+
+function refineAnswerKey(q: z.infer<typeof QuestionObjectSchema>, ctx: z.RefinementCtx): void {
+  const keyed    = parseAnswer(q.correct_letter);
+  const expected = q.question_type === 'multiple' ? q.select_count : 1;
+  if (q.question_type === 'multiple' && q.select_count < 2) {
+    ctx.addIssue({ code: 'custom', path: ['select_count'], message: 'multiple-select items need select_count >= 2' });
+  }
+  if (keyed.length !== expected) {
+    ctx.addIssue({
+      code:    'custom',
+      path:    ['correct_letter'],
+      message: `expected ${expected} correct letter(s), got ${keyed.length}`,
+    });
+  }
+  const missing = keyed.filter((l) => !(l in q.options_en));
+  if (missing.length > 0) {
+    ctx.addIssue({ code: 'custom', path: ['correct_letter'], message: `no option ${missing.join(', ')}` });
+  }
+}
+
+export const GeneratedQuestionSchema = QuestionObjectSchema.superRefine(refineAnswerKey);
+
+/**
+ * GeneratedQuestionSchema restricted to the block types an exam allows
+ * (ExamConfig.visualTypes). Other blocks fail validation, so the model is
+ * asked to repair them like any other schema violation.
+ */
+export function questionSchemaFor(
+  visualTypes?: readonly VisualBlockType[],
+): z.ZodType<GeneratedQuestion, z.ZodTypeDef, unknown> {
+  if (!visualTypes) return GeneratedQuestionSchema;
+  return GeneratedQuestionSchema.superRefine((q, ctx) => {
+    const disallowed = q.visual_context.filter((b) => !visualTypes.includes(b.type));
+    if (disallowed.length > 0) {
+      ctx.addIssue({
+        code:    'custom',
+        path:    ['visual_context'],
+        message: `block type(s) ${disallowed.map((b) => b.type).join(', ')} not allowed for this exam — use ${visualTypes.join(', ')}`,
+      });
+    }
+  });
+}
+
+/** What the browser sees before answering — the answer key stays on the server. */
+export const PublicQuestionSchema = QuestionObjectSchema.omit({
+  correct_letter: true,
+  explanation_pt: true,
+});
+
+/** Revealed by /api/save-result once the learner has submitted an answer. */
+export const AnswerKeySchema = QuestionObjectSchema.pick({
+  correct_letter: true,
+  explanation_pt: true,
+});
+
+// ---------------------------------------------------------------------------
+// Case studies — one shared scenario, several linked questions
+// ---------------------------------------------------------------------------
+
+/** A case-study question as generated: a normal question tagged with its exam topic. */
+export const CaseQuestionSchema = QuestionObjectSchema
+  .extend({ topic_id: z.string().catch('') })
+  .superRefine(refineAnswerKey);
+
+export const CaseStudySchema = z.object({
+  title:       z.string().min(1, 'title is empty'),
+  scenario_en: z.string().min(40, 'scenario_en is too short'),
+  questions:   z.array(CaseQuestionSchema).min(1, 'questions is empty'),
+});
+
+/** The case as shown next to each of its questions. */
+export const CaseStudyPublicSchema = z.object({
+  id:          z.string(),
+  title:       z.string(),
+  scenario_en: z.string(),
+});
+
+// ---------------------------------------------------------------------------
+// Free-response — the learner writes how they would fix the incident shown in
+// visual_context; an LLM grades the text against the rubric (lib/freeResponse.ts)
+// ---------------------------------------------------------------------------
+
+export const RubricPointSchema = z.object({
+  point:  z.string().min(1, 'rubric point is empty'),
+  weight: z.number().positive().catch(1),
+});
+
+export const FreeResponseQuestionSchema = z.object({
+  question_type:   z.literal('free_response'),
+  question_en:     z.string().min(1, 'question_en is empty'),
+  visual_context:  VisualContextSchema.refine((v) => v.length > 0, {
+    message: 'free-response questions need at least one evidence block describing the incident',
+  }),
+  /** What a complete answer must cover — never sent to the browser. */
+  rubric:          z.array(RubricPointSchema).min(2, 'rubric needs at least 2 points').max(8),
+  model_answer_pt: z.string().min(1, 'model_answer_pt is empty'),
+});
+
+export const PublicFreeResponseSchema = FreeResponseQuestionSchema.omit({
+  rubric:          true,
+  model_answer_pt: true,
+});
+
+/** Returned by /api/grade-free-response. */
+export const FreeResponseResultSchema = z.object({
+  /** 0–100, weighted by rubric point */
+  score:           z.number(),
+  is_correct:      z.boolean(),
+  covered_points:  z.array(z.string()),
+  missed_points:   z.array(z.string()),
+  feedback_pt:     z.string(),
+  model_answer_pt: z.string(),
+});
+
+// ---------------------------------------------------------------------------
+// CLI challenges — the learner types commands into a simulated terminal until
+// one of them fixes the hidden scenario (lib/cliChallenge.ts)
+// ---------------------------------------------------------------------------
+
+/** Every fragment must appear in the (normalised) command for it to match. */
+const CommandMatchSchema = z.array(z.string().min(1)).min(1, 'match needs at least one fragment');
+
+export const CliChallengeSchema = z.object({
+  question_type:    z.literal('cli_challenge'),
+  title:            z.string().min(1, 'title is empty'),
+  /** The briefing shown to the learner: what is broken and what they may touch. */
+  question_en:      z.string().min(1, 'question_en is empty'),
+  /** First terminal screen — the symptom (error output, failing request…). */
+  visual_context:   VisualContextSchema.refine((v) => v.length > 0 && v.every((b) => b.type === 'terminal'), {
+    message: 'CLI challenges need terminal blocks (only) showing the symptom',
+  }),
+  /** Ground truth the simulator answers from — never sent to the browser. */
+  hidden_state_en:  z.string().min(40, 'hidden_state_en is too short'),
+  /** Deterministic outputs for the key diagnostic commands. */
+  scripted:         z.array(z.object({ match: CommandMatchSchema, output: z.string() })).catch([]),
+  /** Commands that fix the scenario; any match wins. */
+  solutions:        z.array(z.object({ match: CommandMatchSchema })).min(1, 'solutions is empty'),
+  /** A canonical fixing command, revealed when the attempt ends. */
+  solution_command: z.string().min(1, 'solution_command is empty'),
+  explanation_pt:   z.string().min(1, 'explanation_pt is empty'),
+});
+
+export const PublicCliChallengeSchema = CliChallengeSchema.pick({
+  question_type:  true,
+  title:          true,
+  question_en:    true,
+  visual_context: true,
+});
+
+export const CLI_ATTEMPT_STATUSES = ['active', 'solved', 'exhausted', 'abandoned'] as const;
+
+export type CliAttemptStatus = (typeof CLI_ATTEMPT_STATUSES)[number];
+
+/**
+ * scripted  — answered from the challenge's scripted outputs
+ * simulated — answered by the LLM from hidden_state_en
+ * rejected  — not a supported CLI; does not count towards the limit
+ */
+export const CliTranscriptEntrySchema = z.object({
+  command: z.string(),
+  output:  z.string(),
+  source:  z.enum(['scripted', 'simulated', 'rejected']),
+  fixes:   z.boolean(),
+  at:      z.string(),
+});
+
+/** Returned by /api/cli-challenge/command for every command. */
+export const CliCommandResultSchema = z.object({
+  /** null when the learner gave up */
+  entry:         CliTranscriptEntrySchema.nullable(),
+  status:        z.enum(CLI_ATTEMPT_STATUSES),
+  commands_used: z.number(),
+  max_commands:  z.number(),
+  /** Only once the attempt has ended */
+  reveal:        z.object({ solution_command: z.string(), explanation_pt: z.string() }).nullable(),
+});
+
+export type VisualBlock          = z.infer<typeof VisualBlockSchema>;
+export type VisualContext        = z.infer<typeof VisualContextSchema>;
+export type GeneratedQuestion    = z.infer<typeof GeneratedQuestionSchema>;
+export type PublicQuestion       = z.infer<typeof PublicQuestionSchema>;
+export type AnswerKey            = z.infer<typeof AnswerKeySchema>;
+export type CaseStudy            = z.infer<typeof CaseStudySchema>;
+export type CaseStudyPublic      = z.infer<typeof CaseStudyPublicSchema>;
+export type FreeResponseQuestion = z.infer<typeof FreeResponseQuestionSchema>;
+export type PublicFreeResponse   = z.infer<typeof PublicFreeResponseSchema>;
+export type FreeResponseResult   = z.infer<typeof FreeResponseResultSchema>;
+export type CliChallenge         = z.infer<typeof CliChallengeSchema>;
+export type PublicCliChallenge   = z.infer<typeof PublicCliChallengeSchema>;
+export type CliTranscriptEntry   = z.infer<typeof CliTranscriptEntrySchema>;
+export type CliCommandResult     = z.infer<typeof CliCommandResultSchema>;
+
+/** Anything recorded in served_questions. */
+export type ServedContent = GeneratedQuestion | FreeResponseQuestion | CliChallenge;
+
+/** Human-readable issue list, e.g. "correct_letter: Invalid enum value…". */
+export function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`);
+}
@@ -0,0 +1,49 @@
+// =============================================================================
+// EdTechia — Signed Question Tokens
+// Every question served by /api/generate-question is recorded server-side in
+// the served_questions table. The browser only receives an opaque token:
+//
+//   <served_question_id>.<HMAC-SHA256(id + user_email)>
+//
+// /api/save-result verifies the token before grading against the stored
+// answer key, so a learner can neither forge a question nor replay someone
+// else's token.
+// =============================================================================
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+function tokenSecret(): string {
+  const secret = process.env.QUESTION_TOKEN_SECRET ?? process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error('QUESTION_TOKEN_SECRET (or NEXTAUTH_SECRET) must be set to sign question tokens');
+  }
+  return secret;
+}
+
+function signature(servedId: string, userEmail: string): string {
+  return createHmac('sha256', tokenSecret())
+    .update(`${servedId}:${userEmail.toLowerCase()}`)
+    .digest('base64url');
+}
+
+/** Returns the token handed to the browser for a served question. */
+export function signQuestionToken(servedId: string, userEmail: string): string {
+  return `${servedId}.${signature(servedId, userEmail)}`;
+}
+
+/**
+ * Verifies a token against the requesting user.
+ * Returns the served question id, or null if the token is malformed or forged.
+ */
+export function verifyQuestionToken(token: string, userEmail: string): string | null {
+  if (typeof token !== 'string') return null;
+  const dot = token.lastIndexOf('.');
+  if (dot <= 0) return null;
+
+  const servedId = token.slice(0, dot);
+  const given    = Buffer.from(token.slice(dot + 1));
+  const expected = Buffer.from(signature(servedId, userEmail));
+
+  if (given.length !== expected.length) return null;
+  return timingSafeEqual(given, expected) ? servedId : null;
+}
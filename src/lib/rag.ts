@@ -0,0 +1,72 @@
+// =============================================================================
+// EdTechia — RAG context for question prompts
+//
+// On-demand generation retrieves the top chunks for a topic on every request.
+// Bank refills generate many questions for the same topic in a row, so they
+// draw from a cached per-topic pool of the RAG_POOL_SIZE closest chunks and
+// rotate a window through it: consecutive refills see different parts of the
+// exam guide instead of the same top-3 chunks every time.
+// =============================================================================
+
+import { getRepository } from '@/lib/repository';
+
+const CHUNKS_PER_PROMPT = 3;
+const RAG_POOL_SIZE     = 12;
+// Pools are re-fetched after this long so newly ingested documents show up
+const POOL_TTL_MS       = 30 * 60 * 1000;
+
+const NO_CONTEXT = '(No reference material ingested yet. Generate a canonical question based on training data.)';
+
+type ChunkPool = {
+  chunks:    string[];
+  cursor:    number;
+  fetchedAt: number;
+};
+
+// `${examId}:${topicName}` → cached pool (per instance)
+const pools = new Map<string, ChunkPool>();
+
+/** Top-k chunks for a topic; [] when retrieval fails or nothing was ingested. */
+export async function fetchRagChunks(
+  examId: string,
+  topicName: string,
+  topK = CHUNKS_PER_PROMPT,
+): Promise<string[]> {
+  try {
+    return await getRepository().searchDocuments(examId, topicName, topK);
+  } catch (err) {
+    console.warn(`[rag] Retrieval failed for ${examId}/${topicName}:`, err);
+    return [];
+  }
+}
+
+/**
+ * Next window of CHUNKS_PER_PROMPT chunks from the topic's cached pool.
+ * Each call advances the window, wrapping around the pool.
+ */
+export async function nextRotatingChunks(examId: string, topicName: string): Promise<string[]> {
+  const key = `${examId}:${topicName}`;
+  let pool  = pools.get(key);
+
+  if (!pool || Date.now() - pool.fetchedAt > POOL_TTL_MS) {
+    const chunks = await fetchRagChunks(examId, topicName, RAG_POOL_SIZE);
+    pool = { chunks, cursor: 0, fetchedAt: Date.now() };
+    // Empty results are not cached — the next refill retries retrieval
+    if (chunks.length > 0) pools.set(key, pool);
+    console.log(`[rag] Cached ${chunks.length} chunks for ${key}`);
+  }
+
+  if (pool.chunks.length <= CHUNKS_PER_PROMPT) return pool.chunks;
+
+  const window = Array.from(
+    { length: CHUNKS_PER_PROMPT },
+    (_, i) => pool!.chunks[(pool!.cursor + i) % pool!.chunks.length],
+  );
+  pool.cursor = (pool.cursor + CHUNKS_PER_PROMPT) % pool.chunks.length;
+  return window;
+}
+
+/** Formats chunks for the <context> block of the system prompt. */
+export function formatRagContext(chunks: string[]): string {
+  return chunks.length > 0 ? chunks.join('\n\n---\n\n') : NO_CONTEXT;
+}
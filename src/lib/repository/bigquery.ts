@@ -0,0 +1,1547 @@
+// =============================================================================
+// EdTechia — BigQuery repository (production backend)
+// All SQL that used to live inline in the API routes. Tables are created by
+// infra/schema.sql; names come from BQ_TABLES.
+// =============================================================================
+
+import { runDml, runQuery, BQ_TABLES, embeddingModel } from '@/lib/bigquery';
+import { isChoiceQuestion, VisualContextSchema } from '@/lib/questionSchema';
+import { FEEDBACK_CATEGORIES } from '@/lib/feedback';
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  AiQualityRow,
+  DifficultyRow,
+  Dispute,
+  DisputeDecision,
+  DisputeFilter,
+  DisputeReview,
+  DocumentChunk,
+  BankedQuestion,
+  CaseStudyAccuracyRow,
+  CaseStudyRecord,
+  CliAttempt,
+  CliAttemptUpdate,
+  DocumentSource,
+  EvolutionRow,
+  ExamAccuracyRow,
+  FeedbackBreakdownRow,
+  FreeResponseScoreRow,
+  HistoryFilter,
+  HistoryRegrade,
+  HistoryRow,
+  LibraryFilter,
+  LibraryQuestion,
+  LibraryUpdate,
+  LetterDistributionRow,
+  ModerationAnswerRow,
+  NewCliAttempt,
+  NewDispute,
+  NewGradeAuditEntry,
+  NewHistoryRow,
+  NewLibraryQuestion,
+  NewModerationRecord,
+  NewNotification,
+  NewSession,
+  Notification,
+  PromotionCandidate,
+  PromptQualityRow,
+  QualityReport,
+  QuestionRating,
+  RecentActivityRow,
+  Repository,
+  SeenQuestion,
+  ServedQuestion,
+  SessionRow,
+  SessionScoreChange,
+  SpacedRepRow,
+  TopicScope,
+  TopicAccuracyRow,
+  UserInsights,
+  WrongAnswer,
+} from './types';
+
+type CliAttemptRow = Omit<CliAttempt, 'transcript'> & { transcript: string | null };
+
+function selectCliAttempts(): string {
+  return `SELECT id, user_email, exam_name, topic, difficulty, title, status,
+            TO_JSON_STRING(transcript) AS transcript, history_id,
+            FORMAT_TIMESTAMP('%Y-%m-%dT%H:%M:%SZ', started_at)  AS started_at,
+            FORMAT_TIMESTAMP('%Y-%m-%dT%H:%M:%SZ', finished_at) AS finished_at,
+            COALESCE(version, 0) AS version
+          FROM ${BQ_TABLES.fqn('cli')}`;
+}
+
+function toCliAttempt(row: CliAttemptRow): CliAttempt {
+  return { ...row, transcript: row.transcript ? JSON.parse(row.transcript) : [] };
+}
+
+type LibraryRow = Omit<LibraryQuestion, 'question'> & { question: string };
+
+function selectLibrary(): string {
+  return `SELECT id, exam_name, topic_id, difficulty, TO_JSON_STRING(question) AS question, tags, status,
+            source, source_ref, gemini_model_used AS model_used, prompt_version, content_hash, content_embedding,
+            created_by, FORMAT_TIMESTAMP('%Y-%m-%dT%H:%M:%SZ', created_at) AS created_at,
+            updated_by, FORMAT_TIMESTAMP('%Y-%m-%dT%H:%M:%SZ', updated_at) AS updated_at
+          FROM ${BQ_TABLES.fqn('library')}`;
+}
+
+function toLibraryQuestion(row: LibraryRow): LibraryQuestion {
+  return {
+    ...row,
+    question:          JSON.parse(row.question),
+    tags:              row.tags ?? [],
+    content_hash:      row.content_hash ?? '',
+    content_embedding: row.content_embedding?.length ? row.content_embedding : null,
+  };
+}
+
+/** Multi-row INSERT into question_library, one set of indexed params per row. */
+async function insertLibraryQuestions(qs: NewLibraryQuestion[]): Promise<void> {
+  if (qs.length === 0) return;
+  const params: Record<string, unknown> = {};
+  const types:  Record<string, string | string[]> = {};
+  const values = qs.map((q, idx) => {
+    Object.assign(params, {
+      [`id_${idx}`]:                q.id,
+      [`exam_name_${idx}`]:         q.exam_name,
+      [`topic_id_${idx}`]:          q.topic_id,
+      [`difficulty_${idx}`]:        q.difficulty,
+      [`question_${idx}`]:          JSON.stringify(q.question),
+      [`tags_${idx}`]:              q.tags,
+      [`status_${idx}`]:            q.status,
+      [`source_${idx}`]:            q.source,
+      [`source_ref_${idx}`]:        q.source_ref,
+      [`model_used_${idx}`]:        q.model_used,
+      [`prompt_version_${idx}`]:    q.prompt_version,
+      [`content_hash_${idx}`]:      q.content_hash,
+      [`content_embedding_${idx}`]: q.content_embedding ?? [],
+      [`created_by_${idx}`]:        q.created_by,
+    });
+    Object.assign(types, {
+      [`tags_${idx}`]:              ['STRING'],
+      [`source_ref_${idx}`]:        'STRING',
+      [`model_used_${idx}`]:        'STRING',
+      [`prompt_version_${idx}`]:    'STRING',
+      [`content_embedding_${idx}`]: ['FLOAT64'],
+    });
+    return `(@id_${idx}, @exam_name_${idx}, @topic_id_${idx}, @difficulty_${idx}, PARSE_JSON(@question_${idx}),
+          @tags_${idx}, @status_${idx}, @source_${idx}, @source_ref_${idx}, @model_used_${idx}, @prompt_version_${idx},
+          @content_hash_${idx}, @content_embedding_${idx},
+          @created_by_${idx}, CURRENT_TIMESTAMP(), @created_by_${idx}, CURRENT_TIMESTAMP())`;
+  });
+
+  await runQuery(
+    `INSERT INTO ${BQ_TABLES.fqn('library')}
+       (id, exam_name, topic_id, difficulty, question, tags, status, source, source_ref,
+        gemini_model_used, prompt_version, content_hash, content_embedding,
+        created_by, created_at, updated_by, updated_at)
+     VALUES
+       ${values.join(',\n       ')}`,
+    params,
+    types
+  );
+}
+
+/** Thumbs-up multiple-choice history rows whose question is not in the library yet. */
+async function selectPromotionCandidates(filter: {
+  examName:  string | null;
+  historyId: string | null;
+  limit:     number;
+}): Promise<PromotionCandidate[]> {
+  const rows = await runQuery<Omit<PromotionCandidate, 'question'> & { question: string }>(
+    `SELECT h.id AS history_id, h.exam_name, h.topic, h.difficulty,
+            TO_JSON_STRING(h.generated_question) AS question,
+            h.gemini_model_used AS model_used, h.prompt_version, h.feedback_notes,
+            FORMAT_TIMESTAMP('%Y-%m-%dT%H:%M:%SZ', h.timestamp) AS timestamp
+     FROM ${BQ_TABLES.fqn('history')} h
+     WHERE h.user_rating = 1
+       AND COALESCE(h.question_type, 'single') IN ('single', 'multiple')
+       AND h.case_id IS NULL
+       AND h.library_id IS NULL
+       AND (@exam_name IS NULL OR h.exam_name = @exam_name)
+       AND (@history_id IS NULL OR h.id = @history_id)
+       AND NOT EXISTS (
+         SELECT 1 FROM ${BQ_TABLES.fqn('library')} l
+         WHERE l.source = 'promoted' AND l.source_ref = h.id
+       )
+     ORDER BY h.timestamp DESC
+     LIMIT @limit`,
+    { exam_name: filter.examName, history_id: filter.historyId, limit: filter.limit },
+    { exam_name: 'STRING', history_id: 'STRING' }
+  );
+  return rows.map((r) => ({ ...r, question: JSON.parse(r.question) }));
+}
+
+type ModerationAnswerBqRow = Omit<ModerationAnswerRow, 'question'> & { question: string };
+
+/**
+ * Multiple-choice history rows with their question_key (see ModerationAnswerRow);
+ * answered_at and rated_at (the answer time on rows rated before rated_at
+ * existed) are raw timestamps for ordering — callers select them away.
+ */
+function moderationAnswers(): string {
+  return `SELECT id AS history_id, COALESCE(library_id, id) AS question_key, library_id, session_id, user_email,
+            exam_name, topic, difficulty, COALESCE(question_type, 'single') AS question_type,
+            TO_JSON_STRING(generated_question) AS question, user_answer, correct_letter, is_correct,
+            user_rating, feedback_notes, feedback_categories, timestamp AS answered_at,
+            COALESCE(rated_at, timestamp) AS rated_at,
+            FORMAT_TIMESTAMP('%Y-%m-%dT%H:%M:%SZ', timestamp) AS timestamp
+          FROM ${BQ_TABLES.fqn('history')}
+          WHERE COALESCE(question_type, 'single') IN ('single', 'multiple')`;
+}
+
+function toModerationAnswer(row: ModerationAnswerBqRow): ModerationAnswerRow {
+  return { ...row, question: JSON.parse(row.question) };
+}
+
+type DisputeRow = Omit<Dispute, 'question' | 'review'> & { question: string; review: string | null };
+
+function selectDisputes(): string {
+  return `SELECT id, history_id, question_key, library_id, user_email, exam_name, topic,
+            TO_JSON_STRING(question) AS question, user_answer, correct_letter, claimed_answer, reasoning,
+            status, TO_JSON_STRING(review) AS review, decided_by, decision_note, regraded_rows,
+            FORMAT_TIMESTAMP('%Y-%m-%dT%H:%M:%SZ', created_at) AS created_at,
+            FORMAT_TIMESTAMP('%Y-%m-%dT%H:%M:%SZ', decided_at) AS decided_at
+          FROM ${BQ_TABLES.fqn('disputes')}`;
+}
+
+function toDispute(row: DisputeRow): Dispute {
+  return { ...row, question: JSON.parse(row.question), review: row.review ? JSON.parse(row.review) : null };
+}
+
+export const bigQueryRepository: Repository = {
+  // ── Sessions ──────────────────────────────────────────────────────────────
+
+  async listSessions(userEmail: string): Promise<SessionRow[]> {
+    return runQuery<SessionRow>(
+      `SELECT *
+       FROM ${BQ_TABLES.fqn('sessions')}
+       WHERE user_email = @email
+       ORDER BY started_at DESC
+       LIMIT 50`,
+      { email: userEmail }
+    );
+  },
+
+  async createSession(s: NewSession): Promise<void> {
+    await runQuery(
+      `INSERT INTO ${BQ_TABLES.fqn('sessions')}
+         (id, user_email, exam_name, mode, started_at, total_questions, correct_count, metadata)
+       VALUES
+         (@id, @email, @exam_name, @mode, CURRENT_TIMESTAMP(), 0, 0, PARSE_JSON(@metadata))`,
+      {
+        id:        s.id,
+        email:     s.user_email,
+        exam_name: s.exam_name,
+        mode:      s.mode,
+        metadata:  s.metadata ? JSON.stringify(s.metadata) : 'null',
+      }
+    );
+  },
+
+  async finishSession(sessionId: string, userEmail: string): Promise<void> {
+    // Compute score from question_history, then update exam_sessions
+    await runQuery(
+      `UPDATE ${BQ_TABLES.fqn('sessions')} s
+       SET
+         s.finished_at     = CURRENT_TIMESTAMP(),
+         s.total_questions = stats.total,
+         s.correct_count   = stats.correct,
+         s.final_score     = ROUND(stats.correct / stats.total * 100, 1)
+       FROM (
+         SELECT
+           COUNT(*) AS total,
+           COUNTIF(is_correct = TRUE) AS correct
+         FROM ${BQ_TABLES.fqn('history')}
+         WHERE session_id = @session_id
+           AND user_email = @email
+       ) AS stats
+       WHERE s.id = @session_id
+         AND s.user_email = @email`,
+      { session_id: sessionId, email: userEmail }
+    );
+  },
+
+  // ── Served questions ──────────────────────────────────────────────────────
+
+  async recordServedQuestion(q: ServedQuestion): Promise<void> {
+    await runQuery(
+      `INSERT INTO ${BQ_TABLES.fqn('served')}
+         (id, user_email, exam_name, topic, difficulty,
+          generated_question, correct_letter, model_correct_letter, gemini_model_used,
+          content_hash, content_embedding, verification, case_id, prompt_version, library_id, served_at)
+       VALUES
+         (@id, @user_email, @exam_name, @topic, @difficulty,
+          PARSE_JSON(@generated_question), @correct_letter, @model_correct_letter, @model_used,
+          @content_hash, @content_embedding, PARSE_JSON(@verification), @case_id, @prompt_version, @library_id,
+          CURRENT_TIMESTAMP())`,
+      {
+        id:                 q.id,
+        user_email:         q.user_email,
+        exam_name:          q.exam_name,
+        topic:              q.topic,
+        difficulty:         q.difficulty,
+        generated_question: JSON.stringify(q.generated_question),
+        // Free-response items and CLI challenges are not graded by letter
+        correct_letter:     isChoiceQuestion(q.generated_question) ? q.generated_question.correct_letter : '',
+        model_correct_letter: q.model_correct_letter,
+        model_used:         q.model_used,
+        content_hash:       q.content_hash,
+        content_embedding:  q.content_embedding ?? [],
+        verification:       q.verification ? JSON.stringify(q.verification) : null,
+        case_id:            q.case_id,
+        prompt_version:     q.prompt_version,
+        library_id:         q.library_id,
+      },
+      {
+        model_correct_letter: 'STRING',
+        model_used:           'STRING',
+        content_embedding:    ['FLOAT64'],
+        verification:         'STRING',
+        case_id:              'STRING',
+        prompt_version:       'STRING',
+        library_id:           'STRING',
+      }
+    );
+  },
+
+  async getServedQuestion(id: string, userEmail: string): Promise<ServedQuestion | null> {
+    const [row] = await runQuery<{
+      exam_name:          string;
+      topic:              string;
+      difficulty:         string | null;
+      generated_question: string;
+      gemini_model_used:  string | null;
+      model_correct_letter: string | null;
+      answered_at:        unknown;
+      content_hash:       string | null;
+      content_embedding:  number[] | null;
+      verification:       string | null;
+      case_id:            string | null;
+      prompt_version:     string | null;
+      library_id:         string | null;
+    }>(
+      `SELECT exam_name, topic, difficulty, TO_JSON_STRING(generated_question) AS generated_question,
+              gemini_model_used, model_correct_letter, answered_at, content_hash, content_embedding,
+              TO_JSON_STRING(verification) AS verification, case_id, prompt_version, library_id
+       FROM ${BQ_TABLES.fqn('served')}
+       WHERE id = @id AND user_email = @email
+       LIMIT 1`,
+      { id, email: userEmail }
+    );
+    if (!row) return null;
+    return {
+      id,
+      user_email:         userEmail,
+      exam_name:          row.exam_name,
+      topic:              row.topic,
+      difficulty:         row.difficulty ?? 'medium',
+      generated_question: JSON.parse(row.generated_question),
+      model_used:         row.gemini_model_used,
+      model_correct_letter: row.model_correct_letter,
+      answered:           row.answered_at != null,
+      content_hash:       row.content_hash ?? '',
+      content_embedding:  row.content_embedding?.length ? row.content_embedding : null,
+      verification:       row.verification ? JSON.parse(row.verification) : null,
+      case_id:            row.case_id,
+      prompt_version:     row.prompt_version,
+      library_id:         row.library_id,
+    };
+  },
+
+  async listSeenQuestions(userEmail: string, examName: string, limit: number): Promise<SeenQuestion[]> {
+    const rows = await runQuery<{
+      content_hash:      string | null;
+      question_en:       string | null;
+      content_embedding: number[] | null;
+    }>(
+      `SELECT content_hash,
+              JSON_VALUE(generated_question, '$.question_en') AS question_en,
+              content_embedding
+       FROM ${BQ_TABLES.fqn('served')}
+       WHERE user_email = @email AND exam_name = @exam_name
+       ORDER BY served_at DESC
+       LIMIT @limit`,
+      { email: userEmail, exam_name: examName, limit }
+    );
+    return rows.map((r) => ({
+      content_hash:      r.content_hash ?? '',
+      question_en:       r.question_en ?? '',
+      content_embedding: r.content_embedding?.length ? r.content_embedding : null,
+    }));
+  },
+
+  async claimServedQuestion(id: string, userEmail: string): Promise<boolean> {
+    // BigQuery serialises DML on a table: of two parallel claims, the second
+    // no longer matches answered_at IS NULL
+    const changed = await runDml(
+      `UPDATE ${BQ_TABLES.fqn('served')}
+       SET answered_at = CURRENT_TIMESTAMP()
+       WHERE id = @id AND user_email = @email AND answered_at IS NULL`,
+      { id, email: userEmail }
+    );
+    return changed > 0;
+  },
+
+  async releaseServedQuestion(id: string, userEmail: string): Promise<void> {
+    await runQuery(
+      `UPDATE ${BQ_TABLES.fqn('served')}
+       SET answered_at = NULL
+       WHERE id = @id AND user_email = @email`,
+      { id, email: userEmail }
+    );
+  },
+
+  // ── Case studies ──────────────────────────────────────────────────────────
+
+  async recordCaseStudy(c: CaseStudyRecord): Promise<void> {
+    await runQuery(
+      `INSERT INTO ${BQ_TABLES.fqn('cases')}
+         (id, user_email, exam_name, title, scenario_en, difficulty,
+          gemini_model_used, question_count, created_at)
+       VALUES
+         (@id, @user_email, @exam_name, @title, @scenario_en, @difficulty,
+          @model_used, @question_count, CURRENT_TIMESTAMP())`,
+      { ...c }
+    );
+  },
+
+  async getCaseStudy(id: string, userEmail: string): Promise<CaseStudyRecord | null> {
+    const [row] = await runQuery<Omit<CaseStudyRecord, 'model_used'> & { gemini_model_used: string }>(
+      `SELECT id, user_email, exam_name, title, scenario_en, difficulty, gemini_model_used, question_count
+       FROM ${BQ_TABLES.fqn('cases')}
+       WHERE id = @id AND user_email = @email
+       LIMIT 1`,
+      { id, email: userEmail }
+    );
+    if (!row) return null;
+    const { gemini_model_used, ...rest } = row;
+    return { ...rest, model_used: gemini_model_used, question_count: Number(rest.question_count) };
+  },
+
+  // ── CLI challenges ────────────────────────────────────────────────────────
+
+  async createCliAttempt(a: NewCliAttempt): Promise<void> {
+    await runQuery(
+      `INSERT INTO ${BQ_TABLES.fqn('cli')}
+         (id, user_email, exam_name, topic, difficulty, title, status, transcript,
+          commands_used, history_id, started_at, finished_at, version)
+       VALUES
+         (@id, @user_email, @exam_name, @topic, @difficulty, @title, 'active', JSON '[]',
+          0, NULL, CURRENT_TIMESTAMP(), NULL, 0)`,
+      { ...a }
+    );
+  },
+
+  async getCliAttempt(id: string, userEmail: string): Promise<CliAttempt | null> {
+    const [row] = await runQuery<CliAttemptRow>(
+      `${selectCliAttempts()}
+       WHERE id = @id AND user_email = @email
+       LIMIT 1`,
+      { id, email: userEmail }
+    );
+    return row ? toCliAttempt(row) : null;
+  },
+
+  async updateCliAttempt(id: string, userEmail: string, expectedVersion: number, update: CliAttemptUpdate): Promise<boolean> {
+    // Compare-and-set on version: DML statements on one table are serialised,
+    // so of two requests that read the same version only the first changes a row
+    const changed = await runDml(
+      `UPDATE ${BQ_TABLES.fqn('cli')}
+       SET status        = @status,
+           transcript    = PARSE_JSON(@transcript),
+           commands_used = @commands_used,
+           history_id    = @history_id,
+           finished_at   = IF(@status = 'active', NULL, COALESCE(finished_at, CURRENT_TIMESTAMP())),
+           version       = COALESCE(version, 0) + 1
+       WHERE id = @id AND user_email = @email AND COALESCE(version, 0) = @version`,
+      {
+        id,
+        email:         userEmail,
+        version:       expectedVersion,
+        status:        update.status,
+        transcript:    JSON.stringify(update.transcript),
+        commands_used: update.transcript.filter(e => e.source !== 'rejected').length,
+        history_id:    update.history_id,
+      },
+      { history_id: 'STRING' }
+    );
+    return changed > 0;
+  },
+
+  async listCliAttempts(userEmail: string, limit: number): Promise<CliAttempt[]> {
+    const rows = await runQuery<CliAttemptRow>(
+      `${selectCliAttempts()}
+       WHERE user_email = @email
+       ORDER BY started_at DESC
+       LIMIT @limit`,
+      { email: userEmail, limit }
+    );
+    return rows.map(toCliAttempt);
+  },
+
+  // ── Question bank ─────────────────────────────────────────────────────────
+
+  async addBankQuestion(q: BankedQuestion): Promise<void> {
+    await runQuery(
+      `INSERT INTO ${BQ_TABLES.fqn('bank')}
+         (id, bank_key, generated_question, gemini_model_used, generated_at,
+          content_hash, content_embedding, verification, prompt_version)
+       VALUES
+         (@id, @bank_key, PARSE_JSON(@generated_question), @model_used, TIMESTAMP(@generated_at),
+          @content_hash, @content_embedding, PARSE_JSON(@verification), @prompt_version)`,
+      {
+        id:                 q.id,
+        bank_key:           q.bank_key,
+        generated_question: JSON.stringify(q.generated_question),
+        model_used:         q.model_used,
+        generated_at:       q.generated_at,
+        content_hash:       q.content_hash,
+        content_embedding:  q.content_embedding ?? [],
+        verification:       q.verification ? JSON.stringify(q.verification) : null,
+        prompt_version:     q.prompt_version,
+      },
+      { content_embedding: ['FLOAT64'], verification: 'STRING', prompt_version: 'STRING' }
+    );
+  },
+
+  async popBankQuestion(bankKey: string, notBefore: string, excludeHashes: string[]): Promise<BankedQuestion | null> {
+    // BigQuery queues mutating DML against the same table, so the second of two
+    // concurrent claims re-evaluates `claim_id IS NULL` after the first commits
+    // and cannot take the same row.
+    const claimId = uuidv4();
+    await runQuery(
+      `UPDATE ${BQ_TABLES.fqn('bank')}
+       SET claim_id = @claim_id, claimed_at = CURRENT_TIMESTAMP()
+       WHERE claim_id IS NULL
+         AND id = (
+           SELECT id FROM ${BQ_TABLES.fqn('bank')}
+           WHERE bank_key = @bank_key
+             AND claim_id IS NULL
+             AND generated_at >= TIMESTAMP(@not_before)
+             AND (content_hash IS NULL OR content_hash NOT IN UNNEST(@exclude))
+           ORDER BY generated_at
+           LIMIT 1
+         )`,
+      { claim_id: claimId, bank_key: bankKey, not_before: notBefore, exclude: excludeHashes },
+      { exclude: ['STRING'] }
+    );
+
+    const [row] = await runQuery<{
+      id:                 string;
+      generated_question: string;
+      gemini_model_used:  string;
+      generated_at:       { value: string };
+      content_hash:       string | null;
+      content_embedding:  number[] | null;
+      verification:       string | null;
+      prompt_version:     string | null;
+    }>(
+      `SELECT id, TO_JSON_STRING(generated_question) AS generated_question, gemini_model_used, generated_at,
+              content_hash, content_embedding, TO_JSON_STRING(verification) AS verification, prompt_version
+       FROM ${BQ_TABLES.fqn('bank')}
+       WHERE claim_id = @claim_id
+       LIMIT 1`,
+      { claim_id: claimId }
+    );
+    if (!row) return null;
+    return {
+      id:                 row.id,
+      bank_key:           bankKey,
+      generated_question: JSON.parse(row.generated_question),
+      model_used:         row.gemini_model_used,
+      generated_at:       row.generated_at.value,
+      content_hash:       row.content_hash ?? '',
+      content_embedding:  row.content_embedding?.length ? row.content_embedding : null,
+      verification:       row.verification ? JSON.parse(row.verification) : null,
+      prompt_version:     row.prompt_version,
+    };
+  },
+
+  async listRecentTopicQuestions(scope: TopicScope, limit: number): Promise<SeenQuestion[]> {
+    const rows = await runQuery<{
+      content_hash:      string | null;
+      question_en:       string | null;
+      content_embedding: number[] | null;
+    }>(
+      `SELECT content_hash, question_en, content_embedding
+       FROM (
+         SELECT content_hash, JSON_VALUE(generated_question, '$.question_en') AS question_en,
+                content_embedding, generated_at AS at
+         FROM ${BQ_TABLES.fqn('bank')}
+         WHERE STARTS_WITH(bank_key, @bank_prefix)
+         UNION ALL
+         SELECT content_hash, JSON_VALUE(generated_question, '$.question_en') AS question_en,
+                content_embedding, served_at AS at
+         FROM ${BQ_TABLES.fqn('served')}
+         WHERE exam_name = @exam_name
+           AND topic = @topic_name
+           AND served_at >= TIMESTAMP_SUB(CURRENT_TIMESTAMP(), INTERVAL 30 DAY)
+       )
+       ORDER BY at DESC
+       LIMIT @limit`,
+      {
+        bank_prefix: `${scope.examName}:${scope.topicId}:`,
+        exam_name:   scope.examName,
+        topic_name:  scope.topicName,
+        limit,
+      }
+    );
+    return rows.map((r) => ({
+      content_hash:      r.content_hash ?? '',
+      question_en:       r.question_en ?? '',
+      content_embedding: r.content_embedding?.length ? r.content_embedding : null,
+    }));
+  },
+
+  async bankDepths(notBefore: string, bankKey?: string): Promise<Record<string, number>> {
+    const rows = await runQuery<{ bank_key: string; depth: number }>(
+      `SELECT bank_key, COUNT(*) AS depth
+       FROM ${BQ_TABLES.fqn('bank')}
+       WHERE claim_id IS NULL
+         AND generated_at >= TIMESTAMP(@not_before)
+         AND (@bank_key IS NULL OR bank_key = @bank_key)
+       GROUP BY bank_key`,
+      { not_before: notBefore, bank_key: bankKey ?? null },
+      { bank_key: 'STRING' }
+    );
+    return Object.fromEntries(rows.map((r) => [r.bank_key, Number(r.depth)]));
+  },
+
+  async pruneBank(notBefore: string): Promise<void> {
+    await runQuery(
+      `DELETE FROM ${BQ_TABLES.fqn('bank')}
+       WHERE claim_id IS NOT NULL OR generated_at < TIMESTAMP(@not_before)`,
+      { not_before: notBefore }
+    );
+  },
+
+  // ── Question library ──────────────────────────────────────────────────────
+
+  async addLibraryQuestion(q: NewLibraryQuestion): Promise<void> {
+    await insertLibraryQuestions([q]);
+  },
+
+  async addLibraryQuestions(qs: NewLibraryQuestion[]): Promise<void> {
+    await insertLibraryQuestions(qs);
+  },
+
+  async getLibraryQuestion(id: string): Promise<LibraryQuestion | null> {
+    const [row] = await runQuery<LibraryRow>(`${selectLibrary()} WHERE id = @id LIMIT 1`, { id });
+    return row ? toLibraryQuestion(row) : null;
+  },
+
+  async listLibraryQuestions(filter: LibraryFilter): Promise<LibraryQuestion[]> {
+    const params: Record<string, string | number> = { limit: filter.limit };
+    const clauses: string[] = ['TRUE'];
+
+    if (filter.exam_name)  { clauses.push('exam_name = @exam_name');   params.exam_name = filter.exam_name; }
+    if (filter.topic_id)   { clauses.push('topic_id = @topic_id');     params.topic_id = filter.topic_id; }
+    if (filter.difficulty) { clauses.push('difficulty = @difficulty'); params.difficulty = filter.difficulty; }
+    if (filter.status)     { clauses.push('status = @status');         params.status = filter.status; }
+    if (filter.tag)        { clauses.push('@tag IN UNNEST(tags)');     params.tag = filter.tag; }
+
+    const rows = await runQuery<LibraryRow>(
+      `${selectLibrary()}
+       WHERE ${clauses.join(' AND ')}
+       ORDER BY updated_at DESC
+       LIMIT @limit`,
+      params
+    );
+    return rows.map(toLibraryQuestion);
+  },
+
+  async updateLibraryQuestion(id: string, update: LibraryUpdate): Promise<void> {
+    const { updated_by, question, content_embedding, ...fields } = update;
+    const params: Record<string, unknown> = { id, updated_by };
+    const types: Record<string, string | string[]> = {};
+    const sets: string[] = ['updated_by = @updated_by', 'updated_at = CURRENT_TIMESTAMP()'];
+
+    if (question !== undefined) {
+      sets.push('question = PARSE_JSON(@question)');
+      params.question = JSON.stringify(question);
+    }
+    if (content_embedding !== undefined) {
+      sets.push('content_embedding = @content_embedding');
+      params.content_embedding = content_embedding ?? [];
+      types.content_embedding  = ['FLOAT64'];
+    }
+    for (const [column, value] of Object.entries(fields)) {
+      if (value === undefined) continue;
+      sets.push(`${column} = @${column}`);
+      params[column] = value;
+      if (column === 'tags') types.tags = ['STRING'];
+    }
+
+    await runQuery(
+      `UPDATE ${BQ_TABLES.fqn('library')}
+       SET ${sets.join(', ')}
+       WHERE id = @id`,
+      params,
+      types
+    );
+  },
+
+  async existingLibraryHashes(examName: string, hashes: string[]): Promise<string[]> {
+    if (hashes.length === 0) return [];
+    const rows = await runQuery<{ content_hash: string }>(
+      `SELECT DISTINCT content_hash
+       FROM ${BQ_TABLES.fqn('library')}
+       WHERE exam_name = @exam_name AND content_hash IN UNNEST(@hashes)`,
+      { exam_name: examName, hashes },
+      { hashes: ['STRING'] }
+    );
+    return rows.map((r) => r.content_hash);
+  },
+
+  async sampleLibraryQuestions(
+    scope: { examName: string; topicId: string; difficulty: string },
+    excludeHashes: string[],
+    limit: number,
+  ): Promise<LibraryQuestion[]> {
+    const rows = await runQuery<LibraryRow>(
+      `${selectLibrary()}
+       WHERE exam_name = @exam_name
+         AND topic_id = @topic_id
+         AND difficulty = @difficulty
+         AND status = 'approved'
+         AND (content_hash IS NULL OR content_hash NOT IN UNNEST(@exclude))
+       ORDER BY RAND()
+       LIMIT @limit`,
+      {
+        exam_name:  scope.examName,
+        topic_id:   scope.topicId,
+        difficulty: scope.difficulty,
+        exclude:    excludeHashes,
+        limit,
+      },
+      { exclude: ['STRING'] }
+    );
+    return rows.map(toLibraryQuestion);
+  },
+
+  async listPromotionCandidates(examName: string | null, limit: number): Promise<PromotionCandidate[]> {
+    return selectPromotionCandidates({ examName, historyId: null, limit });
+  },
+
+  async getPromotionCandidate(historyId: string): Promise<PromotionCandidate | null> {
+    const [candidate] = await selectPromotionCandidates({ examName: null, historyId, limit: 1 });
+    return candidate ?? null;
+  },
+
+  // ── Moderation ────────────────────────────────────────────────────────────
+
+  async listModerationQueue(limit: number): Promise<ModerationAnswerRow[]> {
+    const rows = await runQuery<ModerationAnswerBqRow>(
+      `WITH answers AS (${moderationAnswers()}),
+       resolved AS (
+         SELECT question_key, MAX(created_at) AS resolved_at
+         FROM ${BQ_TABLES.fqn('moderation')}
+         GROUP BY question_key
+       ),
+       pending AS (
+         SELECT a.question_key, MAX(a.rated_at) AS last_reported_at
+         FROM answers a
+         LEFT JOIN resolved r USING (question_key)
+         WHERE a.user_rating = -1
+           AND (r.resolved_at IS NULL OR a.rated_at > r.resolved_at)
+         GROUP BY a.question_key
+         ORDER BY last_reported_at DESC
+         LIMIT @limit
+       )
+       SELECT a.* EXCEPT (answered_at, rated_at)
+       FROM answers a
+       JOIN pending p USING (question_key)
+       ORDER BY p.last_reported_at DESC, a.answered_at`,
+      { limit }
+    );
+    return rows.map(toModerationAnswer);
+  },
+
+  async listQuestionAnswers(questionKey: string): Promise<ModerationAnswerRow[]> {
+    const rows = await runQuery<ModerationAnswerBqRow>(
+      `SELECT * EXCEPT (answered_at, rated_at)
+       FROM (${moderationAnswers()})
+       WHERE question_key = @question_key
+       ORDER BY answered_at`,
+      { question_key: questionKey }
+    );
+    return rows.map(toModerationAnswer);
+  },
+
+  async regradeHistory(id: string, regrade: HistoryRegrade): Promise<void> {
+    await runQuery(
+      `UPDATE ${BQ_TABLES.fqn('history')}
+       SET
+         correct_letter     = @correct_letter,
+         is_correct         = @is_correct,
+         generated_question = PARSE_JSON(@generated_question)
+       WHERE id = @id`,
+      {
+        id,
+        correct_letter:     regrade.correct_letter,
+        is_correct:         regrade.is_correct,
+        generated_question: JSON.stringify(regrade.generated_question),
+      }
+    );
+  },
+
+  async recomputeSessionScore(sessionId: string, userEmail: string): Promise<SessionScoreChange | null> {
+    const scoreOf = async () => {
+      const [row] = await runQuery<{ final_score: number | null }>(
+        `SELECT final_score
+         FROM ${BQ_TABLES.fqn('sessions')}
+         WHERE id = @session_id AND user_email = @email AND finished_at IS NOT NULL`,
+        { session_id: sessionId, email: userEmail }
+      );
+      return row;
+    };
+
+    const before = await scoreOf();
+    if (!before) return null;
+    // Same totals as finishSession, finished_at untouched
+    await runQuery(
+      `UPDATE ${BQ_TABLES.fqn('sessions')} s
+       SET
+         s.total_questions = stats.total,
+         s.correct_count   = stats.correct,
+         s.final_score     = ROUND(stats.correct / stats.total * 100, 1)
+       FROM (
+         SELECT
+           COUNT(*) AS total,
+           COUNTIF(is_correct = TRUE) AS correct
+         FROM ${BQ_TABLES.fqn('history')}
+         WHERE session_id = @session_id
+           AND user_email = @email
+       ) AS stats
+       WHERE s.id = @session_id
+         AND s.user_email = @email`,
+      { session_id: sessionId, email: userEmail }
+    );
+    const after = await scoreOf();
+    return { session_id: sessionId, previous: before.final_score, current: after?.final_score ?? null };
+  },
+
+  async recordModeration(record: NewModerationRecord): Promise<void> {
+    await runQuery(
+      `INSERT INTO ${BQ_TABLES.fqn('moderation')}
+         (id, question_key, library_id, exam_name, action, moderator, note,
+          previous_key, new_key, regraded_rows, created_at)
+       VALUES
+         (@id, @question_key, @library_id, @exam_name, @action, @moderator, @note,
+          @previous_key, @new_key, @regraded_rows, CURRENT_TIMESTAMP())`,
+      { ...record },
+      { library_id: 'STRING', note: 'STRING' }
+    );
+  },
+
+  async getQuestionAnswer(historyId: string): Promise<ModerationAnswerRow | null> {
+    const [row] = await runQuery<ModerationAnswerBqRow>(
+      `SELECT * EXCEPT (answered_at, rated_at)
+       FROM (${moderationAnswers()})
+       WHERE history_id = @history_id`,
+      { history_id: historyId }
+    );
+    return row ? toModerationAnswer(row) : null;
+  },
+
+  async addGradeAudit(entries: NewGradeAuditEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    const params: Record<string, unknown> = {};
+    const types:  Record<string, string>  = {};
+    const columns = [
+      'id', 'source', 'source_id', 'changed_by', 'user_email', 'history_id', 'session_id',
+      'previous_key', 'new_key', 'previous_is_correct', 'new_is_correct', 'previous_score', 'new_score',
+    ] as const;
+    const nullableTypes: Partial<Record<(typeof columns)[number], string>> = {
+      history_id: 'STRING', session_id: 'STRING', previous_key: 'STRING', new_key: 'STRING',
+      previous_is_correct: 'BOOL', new_is_correct: 'BOOL', previous_score: 'FLOAT64', new_score: 'FLOAT64',
+    };
+    const values = entries.map((e, idx) => {
+      columns.forEach((col) => {
+        params[`${col}_${idx}`] = e[col];
+        const type = nullableTypes[col];
+        if (type) types[`${col}_${idx}`] = type;
+      });
+      return `(${columns.map((col) => `@${col}_${idx}`).join(', ')}, CURRENT_TIMESTAMP())`;
+    });
+
+    await runQuery(
+      `INSERT INTO ${BQ_TABLES.fqn('audit')}
+         (${columns.join(', ')}, created_at)
+       VALUES
+         ${values.join(',\n         ')}`,
+      params,
+      types
+    );
+  },
+
+  // ── Answer disputes ───────────────────────────────────────────────────────
+
+  async createDispute(d: NewDispute): Promise<void> {
+    await runQuery(
+      `INSERT INTO ${BQ_TABLES.fqn('disputes')}
+         (id, history_id, question_key, library_id, user_email, exam_name, topic, question,
+          user_answer, correct_letter, claimed_answer, reasoning, status, created_at)
+       VALUES
+         (@id, @history_id, @question_key, @library_id, @user_email, @exam_name, @topic, PARSE_JSON(@question),
+          @user_answer, @correct_letter, @claimed_answer, @reasoning, 'open', CURRENT_TIMESTAMP())`,
+      { ...d, question: JSON.stringify(d.question) },
+      { library_id: 'STRING' }
+    );
+  },
+
+  async getDispute(id: string): Promise<Dispute | null> {
+    const [row] = await runQuery<DisputeRow>(
+      `${selectDisputes()}
+       WHERE id = @id`,
+      { id }
+    );
+    return row ? toDispute(row) : null;
+  },
+
+  async listDisputes(filter: DisputeFilter): Promise<Dispute[]> {
+    const rows = await runQuery<DisputeRow>(
+      `${selectDisputes()}
+       WHERE (@status IS NULL OR status = @status)
+         AND (@email IS NULL OR user_email = @email)
+         AND (@history_id IS NULL OR history_id = @history_id)
+       ORDER BY created_at DESC
+       LIMIT @limit`,
+      {
+        status:     filter.status ?? null,
+        email:      filter.user_email ?? null,
+        history_id: filter.history_id ?? null,
+        limit:      filter.limit,
+      },
+      { status: 'STRING', email: 'STRING', history_id: 'STRING' }
+    );
+    return rows.map(toDispute);
+  },
+
+  async setDisputeReview(id: string, review: DisputeReview): Promise<void> {
+    await runQuery(
+      `UPDATE ${BQ_TABLES.fqn('disputes')}
+       SET review = PARSE_JSON(@review)
+       WHERE id = @id`,
+      { id, review: JSON.stringify(review) }
+    );
+  },
+
+  async decideDispute(id: string, decision: DisputeDecision): Promise<void> {
+    await runQuery(
+      `UPDATE ${BQ_TABLES.fqn('disputes')}
+       SET
+         status        = @status,
+         decided_by    = @decided_by,
+         decision_note = @decision_note,
+         regraded_rows = @regraded_rows,
+         decided_at    = CURRENT_TIMESTAMP()
+       WHERE id = @id AND status = 'open'`,
+      { id, ...decision },
+      { decision_note: 'STRING' }
+    );
+  },
+
+  // ── Notifications ─────────────────────────────────────────────────────────
+
+  async addNotifications(notifications: NewNotification[]): Promise<void> {
+    if (notifications.length === 0) return;
+    const params: Record<string, unknown> = {};
+    const types:  Record<string, string>  = {};
+    const values = notifications.map((n, idx) => {
+      params[`id_${idx}`]    = n.id;
+      params[`email_${idx}`] = n.user_email;
+      params[`kind_${idx}`]  = n.kind;
+      params[`title_${idx}`] = n.title;
+      params[`body_${idx}`]  = n.body;
+      params[`link_${idx}`]  = n.link;
+      types[`link_${idx}`]   = 'STRING';
+      return `(@id_${idx}, @email_${idx}, @kind_${idx}, @title_${idx}, @body_${idx}, @link_${idx}, FALSE, CURRENT_TIMESTAMP())`;
+    });
+
+    await runQuery(
+      `INSERT INTO ${BQ_TABLES.fqn('notifications')}
+         (id, user_email, kind, title, body, link, read, created_at)
+       VALUES
+         ${values.join(',\n         ')}`,
+      params,
+      types
+    );
+  },
+
+  async listNotifications(userEmail: string, limit: number): Promise<Notification[]> {
+    return runQuery<Notification>(
+      `SELECT id, user_email, kind, title, body, link, read,
+              FORMAT_TIMESTAMP('%Y-%m-%dT%H:%M:%SZ', created_at) AS created_at
+       FROM ${BQ_TABLES.fqn('notifications')}
+       WHERE user_email = @email
+       ORDER BY created_at DESC
+       LIMIT @limit`,
+      { email: userEmail, limit }
+    );
+  },
+
+  async markNotificationsRead(userEmail: string, ids: string[] | null): Promise<void> {
+    await runQuery(
+      `UPDATE ${BQ_TABLES.fqn('notifications')}
+       SET read = TRUE
+       WHERE user_email = @email
+         AND read = FALSE
+         AND (@all OR id IN UNNEST(@ids))`,
+      { email: userEmail, all: ids === null, ids: ids ?? [] },
+      { ids: ['STRING'] }
+    );
+  },
+
+  // ── Question history ──────────────────────────────────────────────────────
+
+  async insertHistory(r: NewHistoryRow): Promise<void> {
+    await runQuery(
+      `INSERT INTO ${BQ_TABLES.fqn('history')}
+         (id, session_id, user_email, exam_name, topic, difficulty,
+          generated_question, question_type, user_answer, correct_letter, model_correct_letter, is_correct,
+          score, grading, user_rating, gemini_model_used, time_taken_seconds, verification, case_id, prompt_version, library_id,
+          timestamp)
+       VALUES
+         (@id, @session_id, @user_email, @exam_name, @topic, @difficulty,
+          PARSE_JSON(@generated_question), @question_type, @user_answer, @correct_letter, @model_correct_letter, @is_correct,
+          @score, PARSE_JSON(@grading), 0, @model_used, @time_taken_seconds, PARSE_JSON(@verification), @case_id, @prompt_version,
+          @library_id, CURRENT_TIMESTAMP())`,
+      {
+        id:                 r.id,
+        session_id:         r.session_id,
+        user_email:         r.user_email,
+        exam_name:          r.exam_name,
+        topic:              r.topic,
+        difficulty:         r.difficulty,
+        generated_question: JSON.stringify(r.generated_question),
+        question_type:      r.question_type,
+        user_answer:        r.user_answer,
+        correct_letter:     r.correct_letter,
+        model_correct_letter: r.model_correct_letter,
+        is_correct:         r.is_correct,
+        score:              r.score,
+        grading:            r.grading ? JSON.stringify(r.grading) : null,
+        model_used:         r.model_used,
+        time_taken_seconds: r.time_taken_seconds,
+        verification:       r.verification ? JSON.stringify(r.verification) : null,
+        case_id:            r.case_id,
+        prompt_version:     r.prompt_version,
+        library_id:         r.library_id,
+      },
+      {
+        session_id:           'STRING',
+        case_id:              'STRING',
+        prompt_version:       'STRING',
+        library_id:           'STRING',
+        model_correct_letter: 'STRING',
+        score:                'FLOAT64',
+        grading:              'STRING',
+        model_used:           'STRING',
+        time_taken_seconds:   'INT64',
+        verification:         'STRING',
+      }
+    );
+  },
+
+  async rateHistory(id: string, userEmail: string, rating: QuestionRating): Promise<void> {
+    await runQuery(
+      `UPDATE ${BQ_TABLES.fqn('history')}
+       SET
+         user_rating         = COALESCE(@user_rating, user_rating),
+         rated_at            = IF(@user_rating IS NULL, rated_at, CURRENT_TIMESTAMP()),
+         feedback_notes      = IF(@has_feedback, @feedback_notes, feedback_notes),
+         feedback_categories = IF(@has_feedback, @feedback_categories, feedback_categories),
+         explanation_rating  = COALESCE(@explanation_rating, explanation_rating)
+       WHERE id         = @id
+         AND user_email = @user_email`,
+      {
+        id,
+        user_email:          userEmail,
+        user_rating:         rating.user_rating,
+        has_feedback:        rating.feedback !== null,
+        feedback_notes:      rating.feedback?.notes ?? null,
+        feedback_categories: rating.feedback?.categories ?? [],
+        explanation_rating:  rating.explanation_rating,
+      },
+      { user_rating: 'INT64', feedback_notes: 'STRING', feedback_categories: ['STRING'], explanation_rating: 'INT64' }
+    );
+  },
+
+  async listHistory(
+    userEmail: string,
+    filter: HistoryFilter,
+    page: { limit: number; offset: number },
+  ): Promise<{ rows: HistoryRow[]; total: number }> {
+    const fqt = BQ_TABLES.fqn('history');
+    const params: Record<string, string | number | boolean> = {
+      email:  userEmail,
+      limit:  page.limit,
+      offset: page.offset,
+    };
+
+    const clauses: string[] = ['user_email = @email'];
+
+    if (filter.exam_id) {
+      clauses.push('exam_name = @exam_id');
+      params.exam_id = filter.exam_id;
+    }
+    if (filter.result === 'correct') {
+      clauses.push('is_correct = TRUE');
+    } else if (filter.result === 'wrong') {
+      clauses.push('is_correct = FALSE');
+    }
+    if (filter.difficulty) {
+      clauses.push('difficulty = @difficulty');
+      params.difficulty = filter.difficulty;
+    }
+
+    const where = clauses.join(' AND ');
+
+    // Count total matching rows (for pagination)
+    const [countRow] = await runQuery<{ total: number }>(
+      `SELECT COUNT(*) AS total FROM ${fqt} WHERE ${where}`,
+      params
+    );
+
+    const rows = await runQuery<HistoryRow>(
+      `SELECT
+         id,
+         exam_name,
+         topic,
+         difficulty,
+         JSON_EXTRACT_SCALAR(generated_question, '$.question_en') AS question_text,
+         user_answer,
+         correct_letter,
+         is_correct,
+         COALESCE(question_type, 'single') AS question_type,
+         score,
+         time_taken_seconds,
+         FORMAT_TIMESTAMP('%d/%m %H:%M', timestamp) AS timestamp
+       FROM ${fqt}
+       WHERE ${where}
+       ORDER BY timestamp DESC
+       LIMIT @limit OFFSET @offset`,
+      params
+    );
+
+    return { rows, total: Number(countRow?.total ?? 0) };
+  },
+
+  async listWrongAnswers(userEmail: string, examId: string | null, limit: number): Promise<WrongAnswer[]> {
+    const examClause = examId ? `AND exam_name = @exam_name` : '';
+    const rows = await runQuery<
+      Omit<WrongAnswer, 'visual_context' | 'options_en'> & { visual_context: string | null; options_en: string | null }
+    >(
+      `SELECT
+         id,
+         exam_name,
+         topic,
+         difficulty,
+         COALESCE(question_type, 'single') AS question_type,
+         JSON_EXTRACT_SCALAR(generated_question, '$.question_en')    AS question_text,
+         TO_JSON_STRING(JSON_QUERY(generated_question, '$.visual_context')) AS visual_context,
+         TO_JSON_STRING(JSON_QUERY(generated_question, '$.options_en')) AS options_en,
+         COALESCE(SAFE_CAST(JSON_EXTRACT_SCALAR(generated_question, '$.select_count') AS INT64), 1) AS select_count,
+         JSON_EXTRACT_SCALAR(generated_question, '$.explanation_pt') AS explanation_pt,
+         user_answer,
+         correct_letter,
+         FORMAT_TIMESTAMP('%d/%m %H:%M', timestamp) AS timestamp
+       FROM ${BQ_TABLES.fqn('history')}
+       WHERE user_email   = @email
+         AND is_correct   = FALSE
+         AND COALESCE(question_type, 'single') IN ('single', 'multiple')
+         ${examClause}
+       ORDER BY timestamp DESC
+       LIMIT @limit`,
+      {
+        email: userEmail,
+        limit,
+        ...(examId ? { exam_name: examId } : {}),
+      }
+    );
+    // Stored blocks keep their pre-rendered SVG; older rows hold a single object
+    return rows.map((r) => ({
+      ...r,
+      visual_context: VisualContextSchema.parse(r.visual_context ? JSON.parse(r.visual_context) : null),
+      options_en:     r.options_en ? JSON.parse(r.options_en) : {},
+    }));
+  },
+
+  async getInsights(userEmail: string): Promise<UserInsights> {
+    const fqt    = BQ_TABLES.fqn('history');
+    const params = { email: userEmail };
+
+    // ── Overall accuracy ────────────────────────────────────────────────────
+    const [overallRow] = await runQuery<{ total: number; correct: number }>(
+      `SELECT
+         COUNT(*) AS total,
+         COUNTIF(is_correct = TRUE) AS correct
+       FROM ${fqt}
+       WHERE user_email = @email`,
+      params
+    );
+
+    const totalQuestions  = Number(overallRow?.total   ?? 0);
+    const correctAnswers  = Number(overallRow?.correct ?? 0);
+    const overallAccuracy = totalQuestions > 0
+      ? Math.round((correctAnswers / totalQuestions) * 100)
+      : 0;
+
+    // ── Accuracy by exam ───────────────────────────────────────────────────
+    const accuracyByExam = await runQuery<ExamAccuracyRow>(
+      `SELECT
+         exam_name,
+         COUNT(*) AS total,
+         COUNTIF(is_correct = TRUE) AS correct,
+         ROUND(COUNTIF(is_correct = TRUE) / COUNT(*) * 100, 1) AS accuracy_pct,
+         ROUND(AVG(IF(time_taken_seconds IS NOT NULL, time_taken_seconds, NULL)), 1) AS avg_time_seconds
+       FROM ${fqt}
+       WHERE user_email = @email
+       GROUP BY exam_name
+       ORDER BY exam_name`,
+      params
+    );
+
+    // ── Accuracy by topic ───────────────────────────────────────────────────
+    const accuracyByTopic = await runQuery<TopicAccuracyRow>(
+      `SELECT
+         exam_name,
+         topic,
+         COUNT(*) AS total,
+         COUNTIF(is_correct = TRUE) AS correct,
+         ROUND(COUNTIF(is_correct = TRUE) / COUNT(*) * 100, 1) AS accuracy_pct,
+         ROUND(AVG(IF(time_taken_seconds IS NOT NULL, time_taken_seconds, NULL)), 1) AS avg_time_seconds,
+         COUNTIF(time_taken_seconds >= 300) AS timeouts
+       FROM ${fqt}
+       WHERE user_email = @email
+       GROUP BY exam_name, topic
+       ORDER BY exam_name, accuracy_pct ASC`,
+      params
+    );
+
+    // ── Accuracy by difficulty ──────────────────────────────────────────────
+    const accuracyByDifficulty = await runQuery<DifficultyRow>(
+      `SELECT
+         difficulty,
+         COUNT(*) AS total,
+         COUNTIF(is_correct = TRUE) AS correct,
+         ROUND(COUNTIF(is_correct = TRUE) / COUNT(*) * 100, 1) AS accuracy_pct
+       FROM ${fqt}
+       WHERE user_email = @email
+       GROUP BY difficulty
+       ORDER BY CASE difficulty WHEN 'easy' THEN 1 WHEN 'medium' THEN 2 WHEN 'hard' THEN 3 ELSE 4 END`,
+      params
+    );
+
+    // ── AI Quality (RLHF) ───────────────────────────────────────────────────
+    const aiQuality = await runQuery<AiQualityRow>(
+      `SELECT
+         COALESCE(gemini_model_used, 'unknown') AS gemini_model_used,
+         COUNTIF(user_rating = 1)  AS thumbs_up,
+         COUNTIF(user_rating = -1) AS thumbs_down,
+         COUNTIF(user_rating != 0) AS total_rated
+       FROM ${fqt}
+       WHERE user_email = @email
+         AND user_rating IS NOT NULL
+       GROUP BY gemini_model_used
+       ORDER BY total_rated DESC`,
+      params
+    );
+
+    // ── Case-study performance (reported apart from standalone questions) ───
+    const caseStudyAccuracy = await runQuery<CaseStudyAccuracyRow>(
+      `SELECT
+         exam_name,
+         COUNT(DISTINCT case_id) AS cases,
+         COUNT(*) AS total,
+         COUNTIF(is_correct = TRUE) AS correct,
+         ROUND(COUNTIF(is_correct = TRUE) / COUNT(*) * 100, 1) AS accuracy_pct
+       FROM ${fqt}
+       WHERE user_email = @email
+         AND case_id IS NOT NULL
+       GROUP BY exam_name
+       ORDER BY exam_name`,
+      params
+    );
+
+    // ── Free-response rubric scores (partial credit) ────────────────────────
+    const freeResponseScores = await runQuery<FreeResponseScoreRow>(
+      `SELECT
+         exam_name,
+         COUNT(*) AS total,
+         ROUND(AVG(score), 1) AS avg_score,
+         COUNTIF(is_correct = TRUE) AS passed
+       FROM ${fqt}
+       WHERE user_email = @email
+         AND question_type = 'free_response'
+         AND score IS NOT NULL
+       GROUP BY exam_name
+       ORDER BY exam_name`,
+      params
+    );
+
+    // ── Recent 20 questions (with detail) ───────────────────────────────────
+    const recentActivity = await runQuery<RecentActivityRow>(
+      `SELECT
+         exam_name,
+         topic,
+         difficulty,
+         JSON_EXTRACT_SCALAR(generated_question, '$.question_en') AS question_text,
+         user_answer,
+         correct_letter,
+         is_correct,
+         COALESCE(question_type, 'single') AS question_type,
+         score,
+         time_taken_seconds,
+         FORMAT_TIMESTAMP('%d/%m %H:%M', timestamp) AS timestamp
+       FROM ${fqt}
+       WHERE user_email = @email
+       ORDER BY timestamp DESC
+       LIMIT 20`,
+      params
+    );
+
+    // ── Time analytics ──────────────────────────────────────────────────────
+    const [timeRow] = await runQuery<{ avg_time_seconds: number | null; total_timeouts: number }>(
+      `SELECT
+         ROUND(AVG(IF(time_taken_seconds IS NOT NULL, time_taken_seconds, NULL)), 1) AS avg_time_seconds,
+         COUNTIF(time_taken_seconds >= 300) AS total_timeouts
+       FROM ${fqt}
+       WHERE user_email = @email`,
+      params
+    );
+
+    // ── Accuracy evolution by week ──────────────────────────────────────────
+    const accuracyEvolution = await runQuery<EvolutionRow>(
+      `SELECT
+         FORMAT_DATE('%Y-%m-%d', DATE_TRUNC(DATE(timestamp), WEEK(MONDAY))) AS week_start,
+         exam_name,
+         COUNT(*) AS total,
+         COUNTIF(is_correct = TRUE) AS correct,
+         ROUND(COUNTIF(is_correct = TRUE) / COUNT(*) * 100, 1) AS accuracy_pct
+       FROM ${fqt}
+       WHERE user_email = @email
+       GROUP BY week_start, exam_name
+       ORDER BY week_start ASC`,
+      params
+    );
+
+    // ── Spaced repetition: topics not practiced recently ────────────────────
+    const spacedRepetition = await runQuery<SpacedRepRow>(
+      `SELECT
+         exam_name,
+         topic,
+         ROUND(COUNTIF(is_correct = TRUE) / COUNT(*) * 100, 1) AS accuracy_pct,
+         COUNT(*) AS total,
+         DATE_DIFF(CURRENT_DATE(), DATE(MAX(timestamp)), DAY) AS days_since_last,
+         FORMAT_TIMESTAMP('%d/%m/%Y', MAX(timestamp)) AS last_practice
+       FROM ${fqt}
+       WHERE user_email = @email
+       GROUP BY exam_name, topic
+       HAVING days_since_last >= 3
+          AND accuracy_pct < 75
+          AND total >= 3
+       ORDER BY days_since_last DESC, accuracy_pct ASC
+       LIMIT 5`,
+      params
+    );
+
+    // ── Daily streak (consecutive days answered) ────────────────────────────
+    const [streakRow] = await runQuery<{ streak_days: number }>(
+      `WITH days AS (
+         SELECT DISTINCT DATE(timestamp, 'America/Sao_Paulo') AS d
+         FROM ${fqt}
+         WHERE user_email = @email
+       ),
+       numbered AS (
+         SELECT d,
+                DATE_DIFF(CURRENT_DATE('America/Sao_Paulo'), d, DAY) AS days_ago,
+                ROW_NUMBER() OVER (ORDER BY d DESC) AS rn
+         FROM days
+       ),
+       consecutive AS (
+         SELECT d FROM numbered WHERE days_ago = rn - 1
+       )
+       SELECT COUNT(*) AS streak_days FROM consecutive`,
+      params
+    );
+
+    // ── Questions answered today ────────────────────────────────────────────
+    const [todayRow] = await runQuery<{ today_count: number }>(
+      `SELECT COUNT(*) AS today_count
+       FROM ${fqt}
+       WHERE user_email = @email
+         AND DATE(timestamp, 'America/Sao_Paulo') = CURRENT_DATE('America/Sao_Paulo')`,
+      params
+    );
+
+    return {
+      overall_accuracy:       overallAccuracy,
+      total_questions:        totalQuestions,
+      correct_answers:        correctAnswers,
+      avg_time_seconds:       timeRow?.avg_time_seconds ?? null,
+      total_timeouts:         Number(timeRow?.total_timeouts ?? 0),
+      accuracy_by_exam:       accuracyByExam,
+      accuracy_by_topic:      accuracyByTopic,
+      accuracy_by_difficulty: accuracyByDifficulty,
+      accuracy_evolution:     accuracyEvolution,
+      spaced_repetition:      spacedRepetition,
+      ai_quality:             aiQuality,
+      case_study_accuracy:    caseStudyAccuracy,
+      free_response_scores:   freeResponseScores,
+      recent_activity:        recentActivity,
+      daily_streak:           Number(streakRow?.streak_days ?? 0),
+      today_count:            Number(todayRow?.today_count ?? 0),
+    };
+  },
+
+  async getQualityReport(): Promise<QualityReport> {
+    const fqt = BQ_TABLES.fqn('history');
+
+    // ── AI Quality per prompt version (prompt experiments) ──────────────────
+    const aiQualityByPrompt = await runQuery<PromptQualityRow>(
+      `SELECT
+         COALESCE(prompt_version, 'unknown')    AS prompt_version,
+         COALESCE(gemini_model_used, 'unknown') AS gemini_model_used,
+         COUNTIF(user_rating = 1)  AS thumbs_up,
+         COUNTIF(user_rating = -1) AS thumbs_down,
+         COUNTIF(user_rating != 0) AS total_rated
+       FROM ${fqt}
+       WHERE user_rating IS NOT NULL AND user_rating != 0
+       GROUP BY prompt_version, gemini_model_used
+       ORDER BY prompt_version, total_rated DESC`
+    );
+
+    // ── Categorised reports per exam / prompt / model ───────────────────────
+    const feedbackBreakdown = await runQuery<FeedbackBreakdownRow>(
+      `SELECT
+         exam_name,
+         COALESCE(prompt_version, 'unknown')    AS prompt_version,
+         COALESCE(gemini_model_used, 'unknown') AS gemini_model_used,
+         COUNTIF(user_rating = -1) AS thumbs_down,
+         COUNTIF(ARRAY_LENGTH(feedback_categories) > 0) AS categorized,
+         ${FEEDBACK_CATEGORIES.map((c) => `COUNTIF('${c}' IN UNNEST(feedback_categories)) AS ${c},`).join('\n         ')}
+         COUNTIF(explanation_rating = 1)  AS explanation_up,
+         COUNTIF(explanation_rating = -1) AS explanation_down
+       FROM ${fqt}
+       WHERE user_rating = -1
+          OR ARRAY_LENGTH(feedback_categories) > 0
+          OR explanation_rating IN (1, -1)
+       GROUP BY exam_name, prompt_version, gemini_model_used
+       ORDER BY exam_name, prompt_version, categorized DESC`
+    );
+
+    // ── Correct-letter distribution per model ───────────────────────────────
+    const letterDistribution = await runQuery<LetterDistributionRow>(
+      `SELECT
+         COALESCE(gemini_model_used, 'unknown') AS gemini_model_used,
+         COUNT(*) AS total,
+         COUNTIF(correct_letter = 'A') AS served_a,
+         COUNTIF(correct_letter = 'B') AS served_b,
+         COUNTIF(correct_letter = 'C') AS served_c,
+         COUNTIF(correct_letter = 'D') AS served_d,
+         COUNTIF(correct_letter = 'E') AS served_e,
+         COUNTIF(model_correct_letter IS NOT NULL) AS model_total,
+         COUNTIF(model_correct_letter = 'A') AS model_a,
+         COUNTIF(model_correct_letter = 'B') AS model_b,
+         COUNTIF(model_correct_letter = 'C') AS model_c,
+         COUNTIF(model_correct_letter = 'D') AS model_d,
+         COUNTIF(model_correct_letter = 'E') AS model_e
+       FROM ${fqt}
+       WHERE COALESCE(question_type, 'single') = 'single'
+       GROUP BY gemini_model_used
+       ORDER BY total DESC`
+    );
+
+    return {
+      ai_quality_by_prompt:        aiQualityByPrompt,
+      feedback_breakdown:          feedbackBreakdown,
+      correct_letter_distribution: letterDistribution,
+    };
+  },
+
+  // ── Documents ─────────────────────────────────────────────────────────────
+
+  async insertDocumentChunks(batch: DocumentChunk[]): Promise<void> {
+    // BigQuery DML with inline ML.GENERATE_EMBEDDING so embeddings are computed
+    // server-side inside BigQuery — no need to call the embedding API from Node.
+    const embedModel = embeddingModel();
+
+    // Build a VALUES list with positional params for this batch
+    const valuePlaceholders = batch
+      .map(
+        (_, idx) =>
+          `(@id_${idx}, @exam_name_${idx}, @doc_type_${idx}, @source_${idx}, @chunk_idx_${idx}, @content_${idx}, ` +
+          `(SELECT ml_generate_embedding_result FROM ML.GENERATE_EMBEDDING(MODEL \`${embedModel}\`, ` +
+          `(SELECT @content_${idx} AS content)) LIMIT 1), ` +
+          `@method_${idx}, CURRENT_TIMESTAMP())`
+      )
+      .join(',\n');
+
+    // Flatten params for this batch
+    const params: Record<string, unknown> = {};
+    batch.forEach((row, idx) => {
+      params[`id_${idx}`]        = row.id;
+      params[`exam_name_${idx}`] = row.exam_name;
+      params[`doc_type_${idx}`]  = row.doc_type;
+      params[`source_${idx}`]    = row.source_file;
+      params[`chunk_idx_${idx}`] = row.chunk_index;
+      params[`content_${idx}`]   = row.content;
+      params[`method_${idx}`]    = row.extraction_method;
+    });
+
+    await runQuery(
+      `INSERT INTO ${BQ_TABLES.fqn('docs')}
+         (id, exam_name, doc_type, source_file, chunk_index, content, content_embedding, extraction_method, created_at)
+       VALUES
+         ${valuePlaceholders}`,
+      params
+    );
+  },
+
+  async searchDocuments(examName: string, queryText: string, topK: number): Promise<string[]> {
+    const rows = await runQuery<{ content: string }>(
+      `SELECT base.content, base.exam_name, distance
+       FROM VECTOR_SEARCH(
+         TABLE ${BQ_TABLES.fqn('docs')},
+         'content_embedding',
+         (
+           SELECT ml_generate_embedding_result AS embedding
+           FROM ML.GENERATE_EMBEDDING(
+             MODEL \`${embeddingModel()}\`,
+             (SELECT @topic_text AS content)
+           )
+           LIMIT 1
+         ),
+         top_k => ${Math.max(1, Math.floor(topK))},
+         distance_type => 'COSINE'
+       )
+       WHERE base.exam_name = @exam_name
+       ORDER BY distance ASC`,
+      { topic_text: queryText, exam_name: examName }
+    );
+    return rows.map((r) => r.content);
+  },
+
+  async listDocumentSources(): Promise<DocumentSource[]> {
+    const rows = await runQuery<DocumentSource>(
+      `SELECT source_file,
+              ANY_VALUE(exam_name) AS exam_name,
+              ANY_VALUE(doc_type)  AS doc_type,
+              COUNT(*)             AS chunk_count
+       FROM ${BQ_TABLES.fqn('docs')}
+       GROUP BY source_file
+       ORDER BY source_file`
+    );
+    return rows.map((r) => ({ ...r, chunk_count: Number(r.chunk_count) }));
+  },
+
+  async deleteDocumentChunks(sourceFile: string): Promise<void> {
+    await runQuery(
+      `DELETE FROM ${BQ_TABLES.fqn('docs')} WHERE source_file = @source_file`,
+      { source_file: sourceFile }
+    );
+  },
+};
@@ -0,0 +1,24 @@
+// =============================================================================
+// EdTechia — Persistence entry point
+// DATA_BACKEND selects the implementation:
+//   bigquery (default) — BigQuery tables, requires a GCP project
+//   memory             — in-process store, optionally snapshotted to MEMORY_DB_FILE
+// =============================================================================
+
+import { bigQueryRepository } from './bigquery';
+import { memoryRepository } from './memory';
+import type { Repository } from './types';
+
+export type * from './types';
+
+export function getRepository(): Repository {
+  const backend = (process.env.DATA_BACKEND ?? 'bigquery').toLowerCase();
+  switch (backend) {
+    case 'bigquery':
+      return bigQueryRepository;
+    case 'memory':
+      return memoryRepository;
+    default:
+      throw new Error(`Unknown DATA_BACKEND "${backend}" — expected "bigquery" or "memory"`);
+  }
+}
@@ -0,0 +1,948 @@
+// =============================================================================
+// EdTechia — In-memory repository (offline backend)
+// Selected with DATA_BACKEND=memory. Mirrors the semantics of the BigQuery
+// queries in plain TypeScript so the whole app runs without a GCP project.
+//
+// If MEMORY_DB_FILE is set the state is loaded from / written to that JSON
+// file after every mutation, which is enough for small self-hosted instances.
+// Document search is a keyword-overlap ranking instead of vector search.
+// =============================================================================
+
+import fs from 'fs';
+import path from 'path';
+import type {
+  AiQualityRow,
+  DifficultyRow,
+  Dispute,
+  DocumentChunk,
+  BankedQuestion,
+  CaseStudyAccuracyRow,
+  CaseStudyRecord,
+  CliAttempt,
+  DocumentSource,
+  EvolutionRow,
+  ExamAccuracyRow,
+  FeedbackBreakdownRow,
+  FreeResponseScoreRow,
+  GradeAuditEntry,
+  HistoryFilter,
+  HistoryRow,
+  LibraryQuestion,
+  ModerationAnswerRow,
+  ModerationRecord,
+  LetterDistributionRow,
+  NewHistoryRow,
+  NewSession,
+  Notification,
+  PromotionCandidate,
+  PromptQualityRow,
+  QualityReport,
+  RecentActivityRow,
+  Repository,
+  ServedQuestion,
+  SessionRow,
+  SpacedRepRow,
+  TopicAccuracyRow,
+  UserInsights,
+  WrongAnswer,
+} from './types';
+import { VisualContextSchema } from '@/lib/questionSchema';
+import { FEEDBACK_CATEGORIES } from '@/lib/feedback';
+import type { FeedbackCategory } from '@/lib/feedback';
+import type { GeneratedQuestion } from '@/lib/questionSchema';
+
+type StoredServed  = ServedQuestion & { served_at: string };
+type StoredHistory = NewHistoryRow & {
+  user_rating:    number | null;
+  feedback_notes: string | null;
+  /** Missing on rows stored before rating categories existed */
+  feedback_categories?: FeedbackCategory[];
+  explanation_rating?:  number | null;
+  /** When user_rating was last set; missing on rows rated before it was tracked */
+  rated_at?:      string;
+  timestamp:      string; // ISO
+};
+
+type MemoryState = {
+  sessions: SessionRow[];
+  served:   StoredServed[];
+  bank:     BankedQuestion[];
+  cases:    CaseStudyRecord[];
+  cli:      CliAttempt[];
+  library:  LibraryQuestion[];
+  history:  StoredHistory[];
+  moderation:    ModerationRecord[];
+  notifications: Notification[];
+  disputes:      Dispute[];
+  audit:         GradeAuditEntry[];
+  docs:     DocumentChunk[];
+};
+
+const STREAK_TZ = 'America/Sao_Paulo';
+
+// ---------------------------------------------------------------------------
+// State (survives Next.js hot reloads via globalThis)
+// ---------------------------------------------------------------------------
+
+const globalForMemory = globalThis as unknown as { __edtechiaMemoryDb?: MemoryState };
+
+function emptyState(): MemoryState {
+  return { sessions: [], served: [], history: [], bank: [], cases: [], cli: [], library: [], moderation: [], notifications: [],
+           disputes: [], audit: [], docs: [] };
+}
+
+function state(): MemoryState {
+  if (!globalForMemory.__edtechiaMemoryDb) {
+    const file = process.env.MEMORY_DB_FILE;
+    let loaded = emptyState();
+    if (file && fs.existsSync(file)) {
+      try {
+        loaded = { ...emptyState(), ...JSON.parse(fs.readFileSync(file, 'utf8')) };
+      } catch (err) {
+        console.error(`[memoryRepository] Could not read ${file}, starting empty:`, err);
+      }
+    }
+    globalForMemory.__edtechiaMemoryDb = loaded;
+  }
+  return globalForMemory.__edtechiaMemoryDb;
+}
+
+function persist(): void {
+  const file = process.env.MEMORY_DB_FILE;
+  if (!file) return;
+  fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(state()));
+}
+
+// ---------------------------------------------------------------------------
+// Formatting helpers (match the BigQuery FORMAT_* output)
+// ---------------------------------------------------------------------------
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/** FORMAT_TIMESTAMP('%d/%m %H:%M') — UTC */
+function formatShort(iso: string): string {
+  const d = new Date(iso);
+  return `${pad(d.getUTCDate())}/${pad(d.getUTCMonth() + 1)} ${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}`;
+}
+
+/** FORMAT_TIMESTAMP('%d/%m/%Y') — UTC */
+function formatDay(iso: string): string {
+  const d = new Date(iso);
+  return `${pad(d.getUTCDate())}/${pad(d.getUTCMonth() + 1)}/${d.getUTCFullYear()}`;
+}
+
+/** DATE(ts, tz) as YYYY-MM-DD */
+function dateIn(iso: string, timeZone = 'UTC'): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' })
+    .format(new Date(iso));
+}
+
+function daysBetween(fromYmd: string, toYmd: string): number {
+  return Math.round((Date.parse(toYmd) - Date.parse(fromYmd)) / 86_400_000);
+}
+
+/** DATE_TRUNC(DATE(ts), WEEK(MONDAY)) as YYYY-MM-DD */
+function weekStart(iso: string): string {
+  const d = new Date(`${dateIn(iso)}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+  return d.toISOString().slice(0, 10);
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+function avgTime(rows: StoredHistory[]): number | null {
+  const times = rows.map(r => r.time_taken_seconds).filter((t): t is number => t != null);
+  return times.length > 0 ? round1(times.reduce((a, b) => a + b, 0) / times.length) : null;
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    if (!groups.has(k)) groups.set(k, []);
+    groups.get(k)!.push(item);
+  }
+  return groups;
+}
+
+function accuracy(rows: StoredHistory[]) {
+  const total   = rows.length;
+  const correct = rows.filter(r => r.is_correct).length;
+  return { total, correct, accuracy_pct: total > 0 ? round1(correct / total * 100) : 0 };
+}
+
+function newestFirst(a: StoredHistory, b: StoredHistory): number {
+  return b.timestamp.localeCompare(a.timestamp);
+}
+
+/** Thumbs-up multiple-choice rows whose question is not in the library yet. */
+function promotionCandidates(db: MemoryState): StoredHistory[] {
+  const promoted = new Set(db.library.filter(q => q.source === 'promoted').map(q => q.source_ref));
+  return db.history.filter(h =>
+    h.user_rating === 1 && ['single', 'multiple'].includes(h.question_type ?? 'single') &&
+    !h.case_id && !h.library_id && !promoted.has(h.id));
+}
+
+/** Multiple-choice rows as ModerationAnswerRow, oldest first. */
+function moderationAnswers(db: MemoryState): ModerationAnswerRow[] {
+  return db.history
+    .filter(h => ['single', 'multiple'].includes(h.question_type ?? 'single'))
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+    .map(h => ({
+      history_id:     h.id,
+      question_key:   h.library_id ?? h.id,
+      library_id:     h.library_id ?? null,
+      session_id:     h.session_id,
+      user_email:     h.user_email,
+      exam_name:      h.exam_name,
+      topic:          h.topic,
+      difficulty:     h.difficulty,
+      question_type:  h.question_type ?? 'single',
+      question:       h.generated_question as GeneratedQuestion,
+      user_answer:    h.user_answer,
+      correct_letter: h.correct_letter,
+      is_correct:     h.is_correct,
+      user_rating:    h.user_rating,
+      feedback_notes: h.feedback_notes,
+      feedback_categories: h.feedback_categories ?? [],
+      timestamp:      h.timestamp,
+    }));
+}
+
+function toPromotionCandidate(h: StoredHistory): PromotionCandidate {
+  return {
+    history_id:     h.id,
+    exam_name:      h.exam_name,
+    topic:          h.topic,
+    difficulty:     h.difficulty,
+    question:       h.generated_question as GeneratedQuestion,
+    model_used:     h.model_used,
+    prompt_version: h.prompt_version ?? null,
+    feedback_notes: h.feedback_notes,
+    timestamp:      h.timestamp,
+  };
+}
+
+function tokenize(text: string): Set<string> {
+  return new Set(text.toLowerCase().split(/[^a-z0-9à-ú]+/i).filter(t => t.length > 2));
+}
+
+// ---------------------------------------------------------------------------
+// Repository
+// ---------------------------------------------------------------------------
+
+export const memoryRepository: Repository = {
+  // ── Sessions ──────────────────────────────────────────────────────────────
+
+  async listSessions(userEmail) {
+    return state().sessions
+      .filter(s => s.user_email === userEmail)
+      .sort((a, b) => b.started_at.localeCompare(a.started_at))
+      .slice(0, 50);
+  },
+
+  async createSession(s: NewSession) {
+    state().sessions.push({
+      ...s,
+      started_at:      new Date().toISOString(),
+      finished_at:     null,
+      total_questions: 0,
+      correct_count:   0,
+      final_score:     null,
+    });
+    persist();
+  },
+
+  async finishSession(sessionId, userEmail) {
+    const s = state().sessions.find(x => x.id === sessionId && x.user_email === userEmail);
+    if (!s) return;
+    const rows = state().history.filter(h => h.session_id === sessionId && h.user_email === userEmail);
+    const { total, correct } = accuracy(rows);
+    s.finished_at     = new Date().toISOString();
+    s.total_questions = total;
+    s.correct_count   = correct;
+    s.final_score     = total > 0 ? round1(correct / total * 100) : null;
+    persist();
+  },
+
+  // ── Served questions ──────────────────────────────────────────────────────
+
+  async recordServedQuestion(q) {
+    state().served.push({ ...q, served_at: new Date().toISOString() });
+    persist();
+  },
+
+  async getServedQuestion(id, userEmail) {
+    const q = state().served.find(x => x.id === id && x.user_email === userEmail);
+    if (!q) return null;
+    const { served_at: _servedAt, ...served } = q;
+    return { ...served, prompt_version: served.prompt_version ?? null, library_id: served.library_id ?? null };
+  },
+
+  async listSeenQuestions(userEmail, examName, limit) {
+    return state().served
+      .filter(q => q.user_email === userEmail && q.exam_name === examName)
+      .sort((a, b) => b.served_at.localeCompare(a.served_at))
+      .slice(0, limit)
+      .map(q => ({
+        content_hash:      q.content_hash,
+        question_en:       q.generated_question.question_en,
+        content_embedding: q.content_embedding ?? null,
+      }));
+  },
+
+  // Test-and-set with no await in between: atomic on the single event loop
+  async claimServedQuestion(id, userEmail) {
+    const q = state().served.find(x => x.id === id && x.user_email === userEmail);
+    if (!q || q.answered) return false;
+    q.answered = true;
+    persist();
+    return true;
+  },
+
+  async releaseServedQuestion(id, userEmail) {
+    const q = state().served.find(x => x.id === id && x.user_email === userEmail);
+    if (q) {
+      q.answered = false;
+      persist();
+    }
+  },
+
+  // ── Case studies ──────────────────────────────────────────────────────────
+
+  async recordCaseStudy(c) {
+    state().cases.push(c);
+    persist();
+  },
+
+  async getCaseStudy(id, userEmail) {
+    return state().cases.find(c => c.id === id && c.user_email === userEmail) ?? null;
+  },
+
+  // ── CLI challenges ────────────────────────────────────────────────────────
+
+  async createCliAttempt(a) {
+    state().cli.push({
+      ...a,
+      status:      'active',
+      transcript:  [],
+      history_id:  null,
+      started_at:  new Date().toISOString(),
+      finished_at: null,
+      version:     0,
+    });
+    persist();
+  },
+
+  async getCliAttempt(id, userEmail) {
+    // A copy: the caller compares its version with the stored one later
+    const attempt = state().cli.find(a => a.id === id && a.user_email === userEmail);
+    return attempt ? { ...attempt, version: attempt.version ?? 0 } : null;
+  },
+
+  async updateCliAttempt(id, userEmail, expectedVersion, update) {
+    // Compare-and-set with no await in between: atomic on the single event loop
+    const attempt = state().cli.find(a => a.id === id && a.user_email === userEmail);
+    if (!attempt || (attempt.version ?? 0) !== expectedVersion) return false;
+    Object.assign(attempt, update, { version: expectedVersion + 1 });
+    if (update.status === 'active') attempt.finished_at = null;
+    else if (!attempt.finished_at) attempt.finished_at = new Date().toISOString();
+    persist();
+    return true;
+  },
+
+  async listCliAttempts(userEmail, limit) {
+    return state().cli
+      .filter(a => a.user_email === userEmail)
+      .sort((a, b) => b.started_at.localeCompare(a.started_at))
+      .slice(0, limit)
+      .map(a => ({ ...a, version: a.version ?? 0 }));
+  },
+
+  // ── Question bank ─────────────────────────────────────────────────────────
+  // Single process: splice() is the atomic claim; the snapshot file keeps the
+  // bank across restarts.
+
+  async addBankQuestion(q) {
+    state().bank.push(q);
+    persist();
+  },
+
+  async popBankQuestion(bankKey, notBefore, excludeHashes) {
+    const bank = state().bank;
+    const idx  = bank.findIndex(q =>
+      q.bank_key === bankKey && q.generated_at >= notBefore && !excludeHashes.includes(q.content_hash));
+    if (idx === -1) return null;
+    const [item] = bank.splice(idx, 1);
+    persist();
+    return { ...item, prompt_version: item.prompt_version ?? null };
+  },
+
+  async listRecentTopicQuestions(scope, limit) {
+    const db         = state();
+    const bankPrefix = `${scope.examName}:${scope.topicId}:`;
+    const since      = new Date(Date.now() - 30 * 86_400_000).toISOString();
+    return [
+      ...db.bank
+        .filter(q => q.bank_key.startsWith(bankPrefix))
+        .map(q => ({ q, at: q.generated_at })),
+      ...db.served
+        .filter(q => q.exam_name === scope.examName && q.topic === scope.topicName && q.served_at >= since)
+        .map(q => ({ q, at: q.served_at })),
+    ]
+      .sort((a, b) => b.at.localeCompare(a.at))
+      .slice(0, limit)
+      .map(({ q }) => ({
+        content_hash:      q.content_hash,
+        question_en:       q.generated_question.question_en,
+        content_embedding: q.content_embedding ?? null,
+      }));
+  },
+
+  async bankDepths(notBefore, bankKey) {
+    const depths: Record<string, number> = {};
+    state().bank
+      .filter(q => q.generated_at >= notBefore && (!bankKey || q.bank_key === bankKey))
+      .forEach(q => { depths[q.bank_key] = (depths[q.bank_key] ?? 0) + 1; });
+    return depths;
+  },
+
+  async pruneBank(notBefore) {
+    const db = state();
+    const before = db.bank.length;
+    db.bank = db.bank.filter(q => q.generated_at >= notBefore);
+    if (db.bank.length !== before) persist();
+  },
+
+  // ── Question library ──────────────────────────────────────────────────────
+
+  async addLibraryQuestion(q) {
+    const now = new Date().toISOString();
+    state().library.push({ ...q, created_at: now, updated_by: q.created_by, updated_at: now });
+    persist();
+  },
+
+  async addLibraryQuestions(qs) {
+    const now = new Date().toISOString();
+    state().library.push(...qs.map(q => ({ ...q, created_at: now, updated_by: q.created_by, updated_at: now })));
+    persist();
+  },
+
+  async getLibraryQuestion(id) {
+    return state().library.find(q => q.id === id) ?? null;
+  },
+
+  async listLibraryQuestions(filter) {
+    return state().library
+      .filter(q =>
+        (!filter.exam_name  || q.exam_name === filter.exam_name) &&
+        (!filter.topic_id   || q.topic_id === filter.topic_id) &&
+        (!filter.difficulty || q.difficulty === filter.difficulty) &&
+        (!filter.status     || q.status === filter.status) &&
+        (!filter.tag        || q.tags.includes(filter.tag)))
+      .sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+      .slice(0, filter.limit);
+  },
+
+  async updateLibraryQuestion(id, update) {
+    const q = state().library.find(x => x.id === id);
+    if (q) {
+      const fields = Object.fromEntries(Object.entries(update).filter(([, v]) => v !== undefined));
+      Object.assign(q, fields, { updated_at: new Date().toISOString() });
+      persist();
+    }
+  },
+
+  async existingLibraryHashes(examName, hashes) {
+    const known = new Set(state().library.filter(q => q.exam_name === examName).map(q => q.content_hash));
+    return hashes.filter(h => known.has(h));
+  },
+
+  async sampleLibraryQuestions(scope, excludeHashes, limit) {
+    const pool = state().library.filter(q =>
+      q.exam_name === scope.examName && q.topic_id === scope.topicId && q.difficulty === scope.difficulty &&
+      q.status === 'approved' && !excludeHashes.includes(q.content_hash));
+    // Fisher–Yates, like ORDER BY RAND()
+    for (let i = pool.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [pool[i], pool[j]] = [pool[j], pool[i]];
+    }
+    return pool.slice(0, limit);
+  },
+
+  async listPromotionCandidates(examName, limit) {
+    return promotionCandidates(state())
+      .filter(h => !examName || h.exam_name === examName)
+      .sort(newestFirst)
+      .slice(0, limit)
+      .map(toPromotionCandidate);
+  },
+
+  async getPromotionCandidate(historyId) {
+    const row = promotionCandidates(state()).find(h => h.id === historyId);
+    return row ? toPromotionCandidate(row) : null;
+  },
+
+  // ── Moderation ────────────────────────────────────────────────────────────
+
+  async listModerationQueue(limit) {
+    const db       = state();
+    const answers  = moderationAnswers(db);
+    const resolved = new Map<string, string>();
+    db.moderation.forEach(m => {
+      if (m.created_at > (resolved.get(m.question_key) ?? '')) resolved.set(m.question_key, m.created_at);
+    });
+
+    // A thumbs-down given after the last decision reopens the question, whenever it was answered
+    const ratedAt = new Map(db.history.map(h => [h.id, h.rated_at ?? h.timestamp]));
+    const lastReported = new Map<string, string>();
+    answers
+      .filter(a => a.user_rating === -1)
+      .forEach(a => {
+        const at = ratedAt.get(a.history_id) ?? a.timestamp;
+        if (at <= (resolved.get(a.question_key) ?? '')) return;
+        if (at > (lastReported.get(a.question_key) ?? '')) lastReported.set(a.question_key, at);
+      });
+    const keys = Array.from(lastReported.entries())
+      .sort((a, b) => b[1].localeCompare(a[1]))
+      .slice(0, limit)
+      .map(([key]) => key);
+
+    return keys.flatMap(key => answers.filter(a => a.question_key === key));
+  },
+
+  async listQuestionAnswers(questionKey) {
+    return moderationAnswers(state()).filter(a => a.question_key === questionKey);
+  },
+
+  async regradeHistory(id, regrade) {
+    const row = state().history.find(h => h.id === id);
+    if (row) {
+      Object.assign(row, regrade);
+      persist();
+    }
+  },
+
+  async recomputeSessionScore(sessionId, userEmail) {
+    const s = state().sessions.find(x => x.id === sessionId && x.user_email === userEmail);
+    if (!s?.finished_at) return null;
+    const previous = s.final_score;
+    const { total, correct } = accuracy(
+      state().history.filter(h => h.session_id === sessionId && h.user_email === userEmail));
+    s.total_questions = total;
+    s.correct_count   = correct;
+    s.final_score     = total > 0 ? round1(correct / total * 100) : null;
+    persist();
+    return { session_id: sessionId, previous, current: s.final_score };
+  },
+
+  async recordModeration(record) {
+    state().moderation.push({ ...record, created_at: new Date().toISOString() });
+    persist();
+  },
+
+  async getQuestionAnswer(historyId) {
+    return moderationAnswers(state()).find(a => a.history_id === historyId) ?? null;
+  },
+
+  async addGradeAudit(entries) {
+    if (entries.length === 0) return;
+    const now = new Date().toISOString();
+    state().audit.push(...entries.map(e => ({ ...e, created_at: now })));
+    persist();
+  },
+
+  // ── Answer disputes ───────────────────────────────────────────────────────
+
+  async createDispute(d) {
+    state().disputes.push({
+      ...d,
+      status:        'open',
+      review:        null,
+      decided_by:    null,
+      decision_note: null,
+      regraded_rows: null,
+      created_at:    new Date().toISOString(),
+      decided_at:    null,
+    });
+    persist();
+  },
+
+  async getDispute(id) {
+    return state().disputes.find(d => d.id === id) ?? null;
+  },
+
+  async listDisputes(filter) {
+    return state().disputes
+      .filter(d =>
+        (!filter.status || d.status === filter.status) &&
+        (!filter.user_email || d.user_email === filter.user_email) &&
+        (!filter.history_id || d.history_id === filter.history_id))
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .slice(0, filter.limit);
+  },
+
+  async setDisputeReview(id, review) {
+    const d = state().disputes.find(x => x.id === id);
+    if (d) {
+      d.review = review;
+      persist();
+    }
+  },
+
+  async decideDispute(id, decision) {
+    const d = state().disputes.find(x => x.id === id && x.status === 'open');
+    if (d) {
+      Object.assign(d, decision, { decided_at: new Date().toISOString() });
+      persist();
+    }
+  },
+
+  // ── Notifications ─────────────────────────────────────────────────────────
+
+  async addNotifications(notifications) {
+    if (notifications.length === 0) return;
+    const now = new Date().toISOString();
+    state().notifications.push(...notifications.map(n => ({ ...n, read: false, created_at: now })));
+    persist();
+  },
+
+  async listNotifications(userEmail, limit) {
+    return state().notifications
+      .filter(n => n.user_email === userEmail)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .slice(0, limit);
+  },
+
+  async markNotificationsRead(userEmail, ids) {
+    state().notifications
+      .filter(n => n.user_email === userEmail && (ids === null || ids.includes(n.id)))
+      .forEach(n => { n.read = true; });
+    persist();
+  },
+
+  // ── Question history ──────────────────────────────────────────────────────
+
+  async insertHistory(row) {
+    state().history.push({
+      ...row,
+      user_rating:    0,
+      feedback_notes: null,
+      feedback_categories: [],
+      explanation_rating:  null,
+      timestamp:      new Date().toISOString(),
+    });
+    persist();
+  },
+
+  async rateHistory(id, userEmail, rating) {
+    const row = state().history.find(h => h.id === id && h.user_email === userEmail);
+    if (row) {
+      if (rating.user_rating !== null) {
+        row.user_rating = rating.user_rating;
+        row.rated_at    = new Date().toISOString();
+      }
+      if (rating.feedback !== null) {
+        row.feedback_notes      = rating.feedback.notes;
+        row.feedback_categories = rating.feedback.categories;
+      }
+      if (rating.explanation_rating !== null) row.explanation_rating = rating.explanation_rating;
+      persist();
+    }
+  },
+
+  async listHistory(userEmail, filter: HistoryFilter, page) {
+    const matching = state().history
+      .filter(h => h.user_email === userEmail)
+      .filter(h => !filter.exam_id || h.exam_name === filter.exam_id)
+      .filter(h => filter.result === 'all' || h.is_correct === (filter.result === 'correct'))
+      .filter(h => !filter.difficulty || h.difficulty === filter.difficulty)
+      .sort(newestFirst);
+
+    const rows: HistoryRow[] = matching
+      .slice(page.offset, page.offset + page.limit)
+      .map(h => ({
+        id:                 h.id,
+        exam_name:          h.exam_name,
+        topic:              h.topic,
+        difficulty:         h.difficulty,
+        question_text:      h.generated_question?.question_en ?? null,
+        user_answer:        h.user_answer,
+        correct_letter:     h.correct_letter,
+        is_correct:         h.is_correct,
+        question_type:      h.question_type ?? 'single',
+        score:              h.score ?? null,
+        time_taken_seconds: h.time_taken_seconds,
+        timestamp:          formatShort(h.timestamp),
+      }));
+
+    return { rows, total: matching.length };
+  },
+
+  async listWrongAnswers(userEmail, examId, limit): Promise<WrongAnswer[]> {
+    return state().history
+      .filter(h => h.user_email === userEmail && !h.is_correct)
+      .filter(h => !examId || h.exam_name === examId)
+      .filter(h => ['single', 'multiple'].includes(h.question_type ?? 'single'))
+      .sort(newestFirst)
+      .slice(0, limit)
+      .map(h => ({
+        id:             h.id,
+        exam_name:      h.exam_name,
+        topic:          h.topic,
+        difficulty:     h.difficulty,
+        question_type:  h.question_type ?? 'single',
+        question_text:  h.generated_question?.question_en ?? null,
+        visual_context: VisualContextSchema.parse(h.generated_question?.visual_context),
+        options_en:     h.generated_question && 'options_en' in h.generated_question
+          ? h.generated_question.options_en
+          : {},
+        select_count:   h.generated_question && 'select_count' in h.generated_question
+          ? h.generated_question.select_count
+          : 1,
+        explanation_pt: h.generated_question && 'explanation_pt' in h.generated_question
+          ? h.generated_question.explanation_pt
+          : null,
+        user_answer:    h.user_answer,
+        correct_letter: h.correct_letter,
+        timestamp:      formatShort(h.timestamp),
+      }));
+  },
+
+  async getInsights(userEmail): Promise<UserInsights> {
+    const rows    = state().history.filter(h => h.user_email === userEmail);
+    const overall = accuracy(rows);
+
+    const accuracyByExam: ExamAccuracyRow[] = Array.from(groupBy(rows, r => r.exam_name))
+      .map(([exam_name, g]) => ({ exam_name, ...accuracy(g), avg_time_seconds: avgTime(g) }))
+      .sort((a, b) => a.exam_name.localeCompare(b.exam_name));
+
+    const accuracyByTopic: TopicAccuracyRow[] = Array.from(groupBy(rows, r => `${r.exam_name}\u0000${r.topic}`))
+      .map(([, g]) => ({
+        exam_name:        g[0].exam_name,
+        topic:            g[0].topic,
+        ...accuracy(g),
+        avg_time_seconds: avgTime(g),
+        timeouts:         g.filter(r => (r.time_taken_seconds ?? 0) >= 300).length,
+      }))
+      .sort((a, b) => a.exam_name.localeCompare(b.exam_name) || a.accuracy_pct - b.accuracy_pct);
+
+    const DIFFICULTY_ORDER: Record<string, number> = { easy: 1, medium: 2, hard: 3 };
+    const accuracyByDifficulty: DifficultyRow[] = Array.from(groupBy(rows, r => r.difficulty))
+      .map(([difficulty, g]) => ({ difficulty, ...accuracy(g) }))
+      .sort((a, b) => (DIFFICULTY_ORDER[a.difficulty] ?? 4) - (DIFFICULTY_ORDER[b.difficulty] ?? 4));
+
+    const aiQuality: AiQualityRow[] = Array.from(
+      groupBy(rows.filter(r => r.user_rating != null), r => r.model_used ?? 'unknown')
+    )
+      .map(([gemini_model_used, g]) => ({
+        gemini_model_used,
+        thumbs_up:   g.filter(r => r.user_rating === 1).length,
+        thumbs_down: g.filter(r => r.user_rating === -1).length,
+        total_rated: g.filter(r => r.user_rating !== 0).length,
+      }))
+      .sort((a, b) => b.total_rated - a.total_rated);
+
+    const caseStudyAccuracy: CaseStudyAccuracyRow[] = Array.from(
+      groupBy(rows.filter(r => r.case_id), r => r.exam_name)
+    )
+      .map(([exam_name, g]) => ({
+        exam_name,
+        cases: new Set(g.map(r => r.case_id)).size,
+        ...accuracy(g),
+      }))
+      .sort((a, b) => a.exam_name.localeCompare(b.exam_name));
+
+    const freeResponseScores: FreeResponseScoreRow[] = Array.from(
+      groupBy(rows.filter(r => r.question_type === 'free_response' && r.score != null), r => r.exam_name)
+    )
+      .map(([exam_name, g]) => ({
+        exam_name,
+        total:     g.length,
+        avg_score: Math.round(g.reduce((sum, r) => sum + (r.score ?? 0), 0) / g.length * 10) / 10,
+        passed:    g.filter(r => r.is_correct).length,
+      }))
+      .sort((a, b) => a.exam_name.localeCompare(b.exam_name));
+
+    const recentActivity: RecentActivityRow[] = [...rows].sort(newestFirst).slice(0, 20).map(h => ({
+      exam_name:          h.exam_name,
+      topic:              h.topic,
+      difficulty:         h.difficulty,
+      question_text:      h.generated_question?.question_en ?? null,
+      user_answer:        h.user_answer,
+      correct_letter:     h.correct_letter,
+      is_correct:         h.is_correct,
+      question_type:      h.question_type ?? 'single',
+      score:              h.score ?? null,
+      time_taken_seconds: h.time_taken_seconds,
+      timestamp:          formatShort(h.timestamp),
+    }));
+
+    const accuracyEvolution: EvolutionRow[] = Array.from(
+      groupBy(rows, r => `${weekStart(r.timestamp)}\u0000${r.exam_name}`)
+    )
+      .map(([, g]) => ({ week_start: weekStart(g[0].timestamp), exam_name: g[0].exam_name, ...accuracy(g) }))
+      .sort((a, b) => a.week_start.localeCompare(b.week_start));
+
+    const todayUtc = dateIn(new Date().toISOString());
+    const spacedRepetition: SpacedRepRow[] = accuracyByTopic
+      .map(t => {
+        const g    = rows.filter(r => r.exam_name === t.exam_name && r.topic === t.topic);
+        const last = g.reduce((max, r) => (r.timestamp > max ? r.timestamp : max), g[0].timestamp);
+        return {
+          exam_name:       t.exam_name,
+          topic:           t.topic,
+          accuracy_pct:    t.accuracy_pct,
+          total:           t.total,
+          days_since_last: daysBetween(dateIn(last), todayUtc),
+          last_practice:   formatDay(last),
+        };
+      })
+      .filter(t => t.days_since_last >= 3 && t.accuracy_pct < 75 && t.total >= 3)
+      .sort((a, b) => b.days_since_last - a.days_since_last || a.accuracy_pct - b.accuracy_pct)
+      .slice(0, 5);
+
+    // Consecutive days answered, counting back from today (São Paulo time)
+    const today    = dateIn(new Date().toISOString(), STREAK_TZ);
+    const days     = Array.from(new Set(rows.map(r => dateIn(r.timestamp, STREAK_TZ)))).sort().reverse();
+    const streak   = days.filter((d, i) => daysBetween(d, today) === i).length;
+    const todayCnt = rows.filter(r => dateIn(r.timestamp, STREAK_TZ) === today).length;
+
+    return {
+      overall_accuracy:       overall.total > 0 ? Math.round(overall.correct / overall.total * 100) : 0,
+      total_questions:        overall.total,
+      correct_answers:        overall.correct,
+      avg_time_seconds:       avgTime(rows),
+      total_timeouts:         rows.filter(r => (r.time_taken_seconds ?? 0) >= 300).length,
+      accuracy_by_exam:       accuracyByExam,
+      accuracy_by_topic:      accuracyByTopic,
+      accuracy_by_difficulty: accuracyByDifficulty,
+      accuracy_evolution:     accuracyEvolution,
+      spaced_repetition:      spacedRepetition,
+      ai_quality:             aiQuality,
+      case_study_accuracy:    caseStudyAccuracy,
+      free_response_scores:   freeResponseScores,
+      recent_activity:        recentActivity,
+      daily_streak:           streak,
+      today_count:            todayCnt,
+    };
+  },
+
+  async getQualityReport(): Promise<QualityReport> {
+    // Prompt experiments need every rating, not one user's
+    const aiQualityByPrompt: PromptQualityRow[] = Array.from(
+      groupBy(
+        state().history.filter(r => r.user_rating === 1 || r.user_rating === -1),
+        r => `${r.prompt_version ?? 'unknown'}\u0000${r.model_used ?? 'unknown'}`,
+      )
+    )
+      .map(([key, g]) => {
+        const [prompt_version, gemini_model_used] = key.split('\u0000');
+        return {
+          prompt_version,
+          gemini_model_used,
+          thumbs_up:   g.filter(r => r.user_rating === 1).length,
+          thumbs_down: g.filter(r => r.user_rating === -1).length,
+          total_rated: g.length,
+        };
+      })
+      .sort((a, b) => a.prompt_version.localeCompare(b.prompt_version) || b.total_rated - a.total_rated);
+
+    // Categorised reports per exam, prompt and model
+    const feedbackBreakdown: FeedbackBreakdownRow[] = Array.from(
+      groupBy(
+        state().history.filter(r =>
+          r.user_rating === -1 || (r.feedback_categories ?? []).length > 0 ||
+          r.explanation_rating === 1 || r.explanation_rating === -1),
+        r => [r.exam_name, r.prompt_version ?? 'unknown', r.model_used ?? 'unknown'].join('\u0000'),
+      )
+    )
+      .map(([key, g]) => {
+        const [exam_name, prompt_version, gemini_model_used] = key.split('\u0000');
+        const categories = Object.fromEntries(FEEDBACK_CATEGORIES.map(c =>
+          [c, g.filter(r => (r.feedback_categories ?? []).includes(c)).length])) as Record<FeedbackCategory, number>;
+        return {
+          exam_name,
+          prompt_version,
+          gemini_model_used,
+          thumbs_down:      g.filter(r => r.user_rating === -1).length,
+          categorized:      g.filter(r => (r.feedback_categories ?? []).length > 0).length,
+          explanation_up:   g.filter(r => r.explanation_rating === 1).length,
+          explanation_down: g.filter(r => r.explanation_rating === -1).length,
+          ...categories,
+        };
+      })
+      .sort((a, b) =>
+        a.exam_name.localeCompare(b.exam_name) || a.prompt_version.localeCompare(b.prompt_version) ||
+        b.categorized - a.categorized);
+
+    // A single user's history is too small to show letter bias
+    const countLetter = (g: StoredHistory[], pick: (r: StoredHistory) => string | null, letter: string) =>
+      g.filter(r => pick(r) === letter).length;
+    const letterDistribution: LetterDistributionRow[] = Array.from(
+      groupBy(state().history.filter(r => (r.question_type ?? 'single') === 'single'), r => r.model_used ?? 'unknown')
+    )
+      .map(([gemini_model_used, g]) => ({
+        gemini_model_used,
+        total:       g.length,
+        served_a:    countLetter(g, r => r.correct_letter, 'A'),
+        served_b:    countLetter(g, r => r.correct_letter, 'B'),
+        served_c:    countLetter(g, r => r.correct_letter, 'C'),
+        served_d:    countLetter(g, r => r.correct_letter, 'D'),
+        served_e:    countLetter(g, r => r.correct_letter, 'E'),
+        model_total: g.filter(r => r.model_correct_letter != null).length,
+        model_a:     countLetter(g, r => r.model_correct_letter ?? null, 'A'),
+        model_b:     countLetter(g, r => r.model_correct_letter ?? null, 'B'),
+        model_c:     countLetter(g, r => r.model_correct_letter ?? null, 'C'),
+        model_d:     countLetter(g, r => r.model_correct_letter ?? null, 'D'),
+        model_e:     countLetter(g, r => r.model_correct_letter ?? null, 'E'),
+      }))
+      .sort((a, b) => b.total - a.total);
+
+    return {
+      ai_quality_by_prompt:        aiQualityByPrompt,
+      feedback_breakdown:          feedbackBreakdown,
+      correct_letter_distribution: letterDistribution,
+    };
+  },
+
+  // ── Documents ─────────────────────────────────────────────────────────────
+
+  async insertDocumentChunks(chunks) {
+    state().docs.push(...chunks);
+    persist();
+  },
+
+  async searchDocuments(examName, queryText, topK) {
+    const query = tokenize(queryText);
+    return state().docs
+      .filter(d => d.exam_name === examName)
+      .map(d => {
+        const terms = tokenize(d.content);
+        let hits = 0;
+        query.forEach(t => { if (terms.has(t)) hits++; });
+        return { content: d.content, score: hits / Math.sqrt(terms.size || 1) };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK)
+      .map(d => d.content);
+  },
+
+  async listDocumentSources() {
+    const sources = new Map<string, DocumentSource>();
+    state().docs.forEach(d => {
+      const s = sources.get(d.source_file)
+        ?? { source_file: d.source_file, exam_name: d.exam_name, doc_type: d.doc_type, chunk_count: 0 };
+      s.chunk_count++;
+      sources.set(d.source_file, s);
+    });
+    return Array.from(sources.values()).sort((a, b) => a.source_file.localeCompare(b.source_file));
+  },
+
+  async deleteDocumentChunks(sourceFile) {
+    const db = state();
+    db.docs = db.docs.filter(d => d.source_file !== sourceFile);
+    persist();
+  },
+};
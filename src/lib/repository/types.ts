@@ -0,0 +1,787 @@
+// =============================================================================
+// EdTechia — Repository contract
+// Every persistence operation used by the API routes goes through this
+// interface. Implementations:
+//   - bigquery.ts — production (BigQuery tables from infra/schema.sql)
+//   - memory.ts   — offline dev / tests / small self-hosted instances
+// =============================================================================
+
+import type { GeneratedQuestion } from '@/lib/vertexai';
+import type { QuestionVerdict } from '@/lib/verifier';
+import type { CliAttemptStatus, CliTranscriptEntry, ServedContent, VisualContext } from '@/lib/questionSchema';
+import type { FeedbackCategory } from '@/lib/feedback';
+
+export type { ServedContent };
+
+// ---------------------------------------------------------------------------
+// Sessions
+// ---------------------------------------------------------------------------
+
+export type SessionRow = {
+  id:              string;
+  user_email:      string;
+  exam_name:       string;
+  mode:            string;
+  started_at:      string;
+  finished_at:     string | null;
+  total_questions: number;
+  correct_count:   number;
+  final_score:     number | null;
+  metadata:        unknown;
+};
+
+export type NewSession = {
+  id:         string;
+  user_email: string;
+  exam_name:  string;
+  mode:       string;
+  metadata:   unknown;
+};
+
+// ---------------------------------------------------------------------------
+// Served questions (answer keys withheld from the browser)
+// ---------------------------------------------------------------------------
+
+export type ServedQuestion = {
+  id:                 string;
+  user_email:         string;
+  exam_name:          string;
+  topic:              string;
+  difficulty:         string;
+  generated_question: ServedContent;
+  model_used:         string | null;
+  /** correct_letter as keyed by the model, before server-side shuffling */
+  model_correct_letter: string | null;
+  answered:           boolean;
+  /** See lib/dedup.ts */
+  content_hash:       string;
+  content_embedding:  number[] | null;
+  /** Judge verdict from lib/verifier.ts (null for rows served before it existed) */
+  verification:       QuestionVerdict | null;
+  /** Case study the question belongs to (null for standalone questions) */
+  case_id:            string | null;
+  /** Prompt template version (lib/prompts); null for prompts without one */
+  prompt_version:     string | null;
+  /** Curated library question it was served from (null when generated) */
+  library_id:         string | null;
+};
+
+/** What the never-repeat / near-duplicate checks need from an existing question. */
+export type SeenQuestion = {
+  content_hash:      string;
+  question_en:       string;
+  content_embedding: number[] | null;
+};
+
+/** One exam topic, as identified by bank keys (id) and served rows (name). */
+export type TopicScope = {
+  examName:  string;
+  topicId:   string;
+  topicName: string;
+};
+
+// ---------------------------------------------------------------------------
+// Case studies (one scenario shared by several served questions)
+// ---------------------------------------------------------------------------
+
+export type CaseStudyRecord = {
+  id:             string;
+  user_email:     string;
+  exam_name:      string;
+  title:          string;
+  scenario_en:    string;
+  difficulty:     string;
+  model_used:     string;
+  question_count: number;
+};
+
+// ---------------------------------------------------------------------------
+// CLI challenges (one simulated-terminal attempt per served challenge)
+// ---------------------------------------------------------------------------
+
+export type CliAttempt = {
+  /** Same id as the challenge's served_questions row */
+  id:          string;
+  user_email:  string;
+  exam_name:   string;
+  topic:       string;
+  difficulty:  string;
+  title:       string;
+  status:      CliAttemptStatus;
+  transcript:  CliTranscriptEntry[];
+  /** question_history row written when the attempt ended */
+  history_id:  string | null;
+  started_at:  string; // ISO timestamp
+  finished_at: string | null;
+  /** Incremented by every update; updateCliAttempt only writes over the version it read */
+  version:     number;
+};
+
+export type NewCliAttempt = Pick<CliAttempt, 'id' | 'user_email' | 'exam_name' | 'topic' | 'difficulty' | 'title'>;
+
+export type CliAttemptUpdate = Pick<CliAttempt, 'status' | 'transcript' | 'history_id'>;
+
+// ---------------------------------------------------------------------------
+// Question bank (pre-generated questions waiting to be served)
+// ---------------------------------------------------------------------------
+
+export type BankedQuestion = {
+  id:                 string;
+  /** `${examId}:${topicId}:${difficulty}` */
+  bank_key:           string;
+  generated_question: GeneratedQuestion;
+  model_used:         string;
+  generated_at:       string; // ISO timestamp
+  content_hash:       string;
+  content_embedding:  number[] | null;
+  verification:       QuestionVerdict | null;
+  prompt_version:     string | null;
+};
+
+// ---------------------------------------------------------------------------
+// Question library (curated questions kept permanently)
+// ---------------------------------------------------------------------------
+
+/** draft → approved (served) → retired; only approved questions reach learners */
+export type LibraryStatus = 'draft' | 'approved' | 'retired';
+
+/** promoted from question_history | imported from a file | written by an admin */
+export type LibrarySource = 'promoted' | 'imported' | 'manual';
+
+export type LibraryQuestion = {
+  id:                string;
+  exam_name:         string;
+  /** ExamConfig topic id */
+  topic_id:          string;
+  difficulty:        string;
+  question:          GeneratedQuestion;
+  tags:              string[];
+  status:            LibraryStatus;
+  source:            LibrarySource;
+  /** question_history id (promoted) or file name (imported) */
+  source_ref:        string | null;
+  model_used:        string | null;
+  prompt_version:    string | null;
+  content_hash:      string;
+  content_embedding: number[] | null;
+  created_by:        string;
+  created_at:        string; // ISO timestamp
+  updated_by:        string;
+  updated_at:        string; // ISO timestamp
+};
+
+export type NewLibraryQuestion = Omit<LibraryQuestion, 'created_at' | 'updated_by' | 'updated_at'>;
+
+export type LibraryUpdate = Partial<Pick<
+  LibraryQuestion,
+  'question' | 'tags' | 'status' | 'topic_id' | 'difficulty' | 'content_hash' | 'content_embedding'
+>> & { updated_by: string };
+
+export type LibraryFilter = {
+  exam_name?:  string;
+  topic_id?:   string;
+  difficulty?: string;
+  status?:     LibraryStatus;
+  tag?:        string;
+  limit:       number;
+};
+
+/** A thumbs-upped multiple-choice answer whose question is not in the library yet. */
+export type PromotionCandidate = {
+  history_id:     string;
+  exam_name:      string;
+  /** Topic name, as stored in question_history */
+  topic:          string;
+  difficulty:     string;
+  question:       GeneratedQuestion;
+  model_used:     string | null;
+  prompt_version: string | null;
+  feedback_notes: string | null;
+  timestamp:      string;
+};
+
+// ---------------------------------------------------------------------------
+// Moderation (reported questions)
+// ---------------------------------------------------------------------------
+
+/**
+ * A question as moderated: answers to the same library question share its
+ * library_id; any other question was answered once, so its key is the
+ * question_history id.
+ */
+export type ModerationAnswerRow = {
+  history_id:     string;
+  question_key:   string;
+  library_id:     string | null;
+  session_id:     string | null;
+  user_email:     string;
+  exam_name:      string;
+  topic:          string;
+  difficulty:     string;
+  /** single | multiple */
+  question_type:  string;
+  /** As served to this learner — option letters differ between serves */
+  question:       GeneratedQuestion;
+  user_answer:    string;
+  correct_letter: string;
+  is_correct:     boolean;
+  user_rating:    number | null;
+  feedback_notes: string | null;
+  feedback_categories: FeedbackCategory[];
+  timestamp:      string;
+};
+
+export type ModerationAction = 'confirm' | 'fix' | 'retire';
+
+export type ModerationRecord = {
+  id:            string;
+  question_key:  string;
+  library_id:    string | null;
+  exam_name:     string;
+  action:        ModerationAction;
+  moderator:     string;
+  note:          string | null;
+  /** Answer key before / after the action, as option texts joined with " | " */
+  previous_key:  string;
+  new_key:       string;
+  /** question_history rows whose grade changed */
+  regraded_rows: number;
+  created_at:    string; // ISO timestamp
+};
+
+export type NewModerationRecord = Omit<ModerationRecord, 'created_at'>;
+
+/** New answer key for one question_history row (lib/moderation.ts). */
+export type HistoryRegrade = {
+  correct_letter:     string;
+  is_correct:         boolean;
+  generated_question: GeneratedQuestion;
+};
+
+export type SessionScoreChange = {
+  session_id: string;
+  previous:   number | null;
+  current:    number | null;
+};
+
+// ---------------------------------------------------------------------------
+// Answer disputes (lib/disputes.ts)
+// ---------------------------------------------------------------------------
+
+export type DisputeStatus = 'open' | 'upheld' | 'rejected';
+
+/** LLM re-evaluation of a dispute; letters refer to the disputed copy. */
+export type DisputeReview = {
+  model:          string;
+  verdict:        'uphold' | 'reject' | 'unclear';
+  correct_letter: string;
+  rationale_pt:   string;
+  reviewed_at:    string; // ISO timestamp
+};
+
+export type Dispute = {
+  id:             string;
+  history_id:     string;
+  /** See ModerationAnswerRow */
+  question_key:   string;
+  library_id:     string | null;
+  user_email:     string;
+  exam_name:      string;
+  topic:          string;
+  /** The learner's copy of the question, as graded when the dispute was filed */
+  question:       GeneratedQuestion;
+  user_answer:    string;
+  correct_letter: string;
+  /** The key the learner argues for, in the letters of their copy */
+  claimed_answer: string;
+  reasoning:      string;
+  status:         DisputeStatus;
+  review:         DisputeReview | null;
+  decided_by:     string | null;
+  decision_note:  string | null;
+  /** question_history rows whose result changed when upheld */
+  regraded_rows:  number | null;
+  created_at:     string; // ISO timestamp
+  decided_at:     string | null;
+};
+
+export type NewDispute = Omit<
+  Dispute,
+  'status' | 'review' | 'decided_by' | 'decision_note' | 'regraded_rows' | 'created_at' | 'decided_at'
+>;
+
+export type DisputeDecision = {
+  status:        'upheld' | 'rejected';
+  decided_by:    string;
+  decision_note: string | null;
+  regraded_rows: number;
+};
+
+export type DisputeFilter = {
+  status?:     DisputeStatus;
+  user_email?: string;
+  history_id?: string;
+  limit:       number;
+};
+
+// ---------------------------------------------------------------------------
+// Grade audit trail — every answer re-keyed and session re-scored after the
+// fact (moderation fixes, upheld disputes)
+// ---------------------------------------------------------------------------
+
+export type GradeAuditSource = 'moderation' | 'dispute';
+
+export type GradeAuditEntry = {
+  id:                  string;
+  source:              GradeAuditSource;
+  /** moderation_actions.id or answer_disputes.id */
+  source_id:           string;
+  changed_by:          string;
+  user_email:          string;
+  /** Set on answer entries */
+  history_id:          string | null;
+  /** Set on session entries (and answer entries that belong to a session) */
+  session_id:          string | null;
+  previous_key:        string | null;
+  new_key:             string | null;
+  previous_is_correct: boolean | null;
+  new_is_correct:      boolean | null;
+  /** Session final_score before / after (session entries) */
+  previous_score:      number | null;
+  new_score:           number | null;
+  created_at:          string; // ISO timestamp
+};
+
+export type NewGradeAuditEntry = Omit<GradeAuditEntry, 'created_at'>;
+
+// ---------------------------------------------------------------------------
+// Notifications (learner inbox)
+// ---------------------------------------------------------------------------
+
+export type Notification = {
+  id:         string;
+  user_email: string;
+  /** grade_change | … */
+  kind:       string;
+  /** Portuguese, shown as is */
+  title:      string;
+  body:       string;
+  link:       string | null;
+  read:       boolean;
+  created_at: string; // ISO timestamp
+};
+
+export type NewNotification = Omit<Notification, 'read' | 'created_at'>;
+
+// ---------------------------------------------------------------------------
+// Question history
+// ---------------------------------------------------------------------------
+
+/** Rubric grading of a free-response answer, stored with the history row. */
+export type FreeResponseGrading = {
+  grader_model:   string;
+  covered_points: string[];
+  missed_points:  string[];
+  feedback_pt:    string;
+};
+
+export type NewHistoryRow = {
+  id:                 string;
+  session_id:         string | null;
+  user_email:         string;
+  exam_name:          string;
+  topic:              string;
+  difficulty:         string;
+  generated_question: ServedContent;
+  /** single | multiple | free_response (see lib/questionSchema.ts) */
+  question_type:      string;
+  /** "B", or "A,C" for multiple-select items; the learner's text for free-response */
+  user_answer:        string;
+  /** Empty for free-response items */
+  correct_letter:     string;
+  /** Free-response: score >= FREE_RESPONSE_PASS_SCORE */
+  is_correct:         boolean;
+  /** 0–100 partial credit (free-response only) */
+  score:              number | null;
+  grading:            FreeResponseGrading | null;
+  model_used:         string | null;
+  model_correct_letter: string | null;
+  time_taken_seconds: number | null;
+  verification:       QuestionVerdict | null;
+  case_id:            string | null;
+  /** Copied from the served question */
+  prompt_version:     string | null;
+  library_id:         string | null;
+};
+
+/**
+ * A learner's rating of an answered question (/api/rate-question). Null
+ * ratings leave the stored value untouched; a null feedback leaves the saved
+ * notes and categories untouched, otherwise it replaces both.
+ */
+export type QuestionRating = {
+  /** 1 = thumbs up, -1 = thumbs down, 0 = neutral */
+  user_rating:         number | null;
+  feedback:            { notes: string | null; categories: FeedbackCategory[] } | null;
+  /** The explanation on its own: 1 = helpful, -1 = not helpful, 0 = neutral */
+  explanation_rating:  number | null;
+};
+
+export type HistoryFilter = {
+  exam_id?:    string;
+  result:      'all' | 'correct' | 'wrong';
+  difficulty?: string;
+};
+
+export type HistoryRow = {
+  id:                 string;
+  exam_name:          string;
+  topic:              string;
+  difficulty:         string;
+  question_text:      string | null;
+  user_answer:        string;
+  correct_letter:     string;
+  is_correct:         boolean;
+  /** single | multiple | free_response | cli_challenge */
+  question_type:      string;
+  /** 0–100 for free-response rows, null otherwise */
+  score:              number | null;
+  time_taken_seconds: number | null;
+  timestamp:          string;
+};
+
+export type WrongAnswer = {
+  id:             string;
+  exam_name:      string;
+  topic:          string;
+  difficulty:     string;
+  question_type:  string;
+  question_text:  string | null;
+  visual_context: VisualContext;
+  /** Option texts by letter, as shown to the learner (for disputes) */
+  options_en:     Partial<Record<string, string>>;
+  select_count:   number;
+  explanation_pt: string | null;
+  user_answer:    string;
+  correct_letter: string;
+  timestamp:      string;
+};
+
+// ---------------------------------------------------------------------------
+// Insights
+// ---------------------------------------------------------------------------
+
+export type ExamAccuracyRow = {
+  exam_name:        string;
+  total:            number;
+  correct:          number;
+  accuracy_pct:     number;
+  avg_time_seconds: number | null;
+};
+
+export type TopicAccuracyRow = {
+  exam_name:       string;
+  topic:           string;
+  total:           number;
+  correct:         number;
+  accuracy_pct:    number;
+  avg_time_seconds: number | null;
+  timeouts:        number;
+};
+
+export type AiQualityRow = {
+  gemini_model_used: string;
+  thumbs_up:         number;
+  thumbs_down:       number;
+  total_rated:       number;
+};
+
+/**
+ * Thumbs up/down per prompt template version and model across every learner —
+ * the read-out of prompt A/B experiments (lib/prompts). Rows generated before
+ * versioning report prompt_version "unknown".
+ */
+export type PromptQualityRow = {
+  prompt_version:    string;
+  gemini_model_used: string;
+  thumbs_up:         number;
+  thumbs_down:       number;
+  total_rated:       number;
+};
+
+/**
+ * Categorised reports and explanation ratings per exam, prompt template
+ * version and model across every learner (lib/feedback.ts), one count column
+ * per FeedbackCategory.
+ */
+export type FeedbackBreakdownRow = {
+  exam_name:         string;
+  prompt_version:    string;
+  gemini_model_used: string;
+  thumbs_down:       number;
+  /** Ratings with at least one category */
+  categorized:       number;
+  explanation_up:    number;
+  explanation_down:  number;
+} & Record<FeedbackCategory, number>;
+
+/**
+ * Answer-key letters per model across every learner's single-answer questions:
+ * served_* after server-side shuffling, model_* as the model keyed them
+ * (model_total excludes rows answered before shuffling existed).
+ */
+export type LetterDistributionRow = {
+  gemini_model_used: string;
+  total:             number;
+  served_a:          number;
+  served_b:          number;
+  served_c:          number;
+  served_d:          number;
+  served_e:          number;
+  model_total:       number;
+  model_a:           number;
+  model_b:           number;
+  model_c:           number;
+  model_d:           number;
+  model_e:           number;
+};
+
+/** Case-study answers only, one row per exam. */
+export type CaseStudyAccuracyRow = {
+  exam_name:    string;
+  cases:        number;
+  total:        number;
+  correct:      number;
+  accuracy_pct: number;
+};
+
+/** Free-response answers only, one row per exam. */
+export type FreeResponseScoreRow = {
+  exam_name: string;
+  total:     number;
+  /** Mean rubric score, 0–100 */
+  avg_score: number;
+  /** Answers at or above FREE_RESPONSE_PASS_SCORE */
+  passed:    number;
+};
+
+export type DifficultyRow = {
+  difficulty:   string;
+  total:        number;
+  correct:      number;
+  accuracy_pct: number;
+};
+
+export type EvolutionRow = {
+  week_start:   string;
+  exam_name:    string;
+  total:        number;
+  correct:      number;
+  accuracy_pct: number;
+};
+
+export type SpacedRepRow = {
+  exam_name:        string;
+  topic:            string;
+  accuracy_pct:     number;
+  total:            number;
+  days_since_last:  number;
+  last_practice:    string;
+};
+
+export type RecentActivityRow = Omit<HistoryRow, 'id'>;
+
+export type UserInsights = {
+  overall_accuracy:       number;
+  total_questions:        number;
+  correct_answers:        number;
+  avg_time_seconds:       number | null;
+  total_timeouts:         number;
+  accuracy_by_exam:       ExamAccuracyRow[];
+  accuracy_by_topic:      TopicAccuracyRow[];
+  accuracy_by_difficulty: DifficultyRow[];
+  accuracy_evolution:     EvolutionRow[];
+  spaced_repetition:      SpacedRepRow[];
+  ai_quality:             AiQualityRow[];
+  case_study_accuracy:    CaseStudyAccuracyRow[];
+  free_response_scores:   FreeResponseScoreRow[];
+  recent_activity:        RecentActivityRow[];
+  daily_streak:           number;
+  today_count:            number;
+};
+
+/**
+ * Question quality across every learner, for admins (/api/quality) — kept out
+ * of UserInsights so a learner's dashboard only reads their own history.
+ */
+export type QualityReport = {
+  ai_quality_by_prompt:        PromptQualityRow[];
+  feedback_breakdown:          FeedbackBreakdownRow[];
+  correct_letter_distribution: LetterDistributionRow[];
+};
+
+// ---------------------------------------------------------------------------
+// Documents (RAG)
+// ---------------------------------------------------------------------------
+
+export type DocumentChunk = {
+  id:                string;
+  exam_name:         string;
+  doc_type:          string;
+  source_file:       string;
+  chunk_index:       number;
+  content:           string;
+  extraction_method: string;
+};
+
+/** One archived upload, as seen from the chunks it produced. */
+export type DocumentSource = {
+  source_file: string;
+  exam_name:   string;
+  doc_type:    string;
+  chunk_count: number;
+};
+
+// ---------------------------------------------------------------------------
+// Repository
+// ---------------------------------------------------------------------------
+
+export interface Repository {
+  // Sessions
+  listSessions(userEmail: string): Promise<SessionRow[]>;
+  createSession(session: NewSession): Promise<void>;
+  /** Marks the session finished and computes final_score from question_history. */
+  finishSession(sessionId: string, userEmail: string): Promise<void>;
+
+  // Served questions
+  recordServedQuestion(served: ServedQuestion): Promise<void>;
+  getServedQuestion(id: string, userEmail: string): Promise<ServedQuestion | null>;
+  /**
+   * Marks the served question answered unless it already is, in one atomic
+   * step. False when it was answered (or claimed by a parallel request)
+   * before — only the caller that gets true may grade and record an answer.
+   */
+  claimServedQuestion(id: string, userEmail: string): Promise<boolean>;
+  /** Undoes a claim whose grading or history insert failed, so the learner can retry. */
+  releaseServedQuestion(id: string, userEmail: string): Promise<void>;
+  /** The user's most recently served questions of an exam, newest first. */
+  listSeenQuestions(userEmail: string, examName: string, limit: number): Promise<SeenQuestion[]>;
+
+  // Case studies
+  recordCaseStudy(c: CaseStudyRecord): Promise<void>;
+  getCaseStudy(id: string, userEmail: string): Promise<CaseStudyRecord | null>;
+
+  // CLI challenges
+  createCliAttempt(a: NewCliAttempt): Promise<void>;
+  getCliAttempt(id: string, userEmail: string): Promise<CliAttempt | null>;
+  /**
+   * Replaces status and transcript and bumps the version, only if the attempt
+   * is still at `expectedVersion`; false when another request updated it
+   * since it was read. Sets finished_at once status leaves "active".
+   */
+  updateCliAttempt(id: string, userEmail: string, expectedVersion: number, update: CliAttemptUpdate): Promise<boolean>;
+  /** The user's attempts, newest first. */
+  listCliAttempts(userEmail: string, limit: number): Promise<CliAttempt[]>;
+
+  // Question bank
+  addBankQuestion(q: BankedQuestion): Promise<void>;
+  /**
+   * Atomically claims and returns the oldest unclaimed question of a key that
+   * was generated at or after `notBefore` and whose content hash is not in
+   * `excludeHashes`. A row is returned to at most one caller, even across
+   * instances.
+   */
+  popBankQuestion(bankKey: string, notBefore: string, excludeHashes: string[]): Promise<BankedQuestion | null>;
+  /**
+   * Most recent questions of a topic across all users — banked (any state) and
+   * served in the last 30 days — newest first. Feeds near-duplicate detection.
+   */
+  listRecentTopicQuestions(scope: TopicScope, limit: number): Promise<SeenQuestion[]>;
+  /** Unclaimed, fresh questions per key (only `bankKey` when given). */
+  bankDepths(notBefore: string, bankKey?: string): Promise<Record<string, number>>;
+  /** Deletes claimed rows and rows generated before `notBefore`. */
+  pruneBank(notBefore: string): Promise<void>;
+
+  // Question library
+  addLibraryQuestion(q: NewLibraryQuestion): Promise<void>;
+  /** Stores all of `qs` in one statement: either every question is added or none. */
+  addLibraryQuestions(qs: NewLibraryQuestion[]): Promise<void>;
+  getLibraryQuestion(id: string): Promise<LibraryQuestion | null>;
+  /** Newest first. */
+  listLibraryQuestions(filter: LibraryFilter): Promise<LibraryQuestion[]>;
+  updateLibraryQuestion(id: string, update: LibraryUpdate): Promise<void>;
+  /** The subset of `hashes` already in the exam's library, any status. */
+  existingLibraryHashes(examName: string, hashes: string[]): Promise<string[]>;
+  /**
+   * Up to `limit` approved questions of an exam topic and difficulty, in
+   * random order, whose content hash is not in `excludeHashes`.
+   */
+  sampleLibraryQuestions(
+    scope: { examName: string; topicId: string; difficulty: string },
+    excludeHashes: string[],
+    limit: number,
+  ): Promise<LibraryQuestion[]>;
+  /** Thumbs-up answers (all learners) not promoted yet, newest first. */
+  listPromotionCandidates(examName: string | null, limit: number): Promise<PromotionCandidate[]>;
+  /** The candidate for one history row; null once promoted or when not eligible. */
+  getPromotionCandidate(historyId: string): Promise<PromotionCandidate | null>;
+
+  // Moderation
+  /**
+   * Every multiple-choice answer (all learners) of up to `limit` questions
+   * with thumbs-down reports given after their last moderation action; the
+   * most recently reported question first, answers oldest first.
+   */
+  listModerationQueue(limit: number): Promise<ModerationAnswerRow[]>;
+  /** Every multiple-choice answer of one question, oldest first. */
+  listQuestionAnswers(questionKey: string): Promise<ModerationAnswerRow[]>;
+  regradeHistory(id: string, regrade: HistoryRegrade): Promise<void>;
+  /**
+   * Recomputes a finished session's totals and final_score from
+   * question_history; null when the session is missing or not finished.
+   */
+  recomputeSessionScore(sessionId: string, userEmail: string): Promise<SessionScoreChange | null>;
+  recordModeration(record: NewModerationRecord): Promise<void>;
+  /** One multiple-choice answer as a ModerationAnswerRow (any learner). */
+  getQuestionAnswer(historyId: string): Promise<ModerationAnswerRow | null>;
+  addGradeAudit(entries: NewGradeAuditEntry[]): Promise<void>;
+
+  // Answer disputes
+  createDispute(dispute: NewDispute): Promise<void>;
+  getDispute(id: string): Promise<Dispute | null>;
+  /** Newest first. */
+  listDisputes(filter: DisputeFilter): Promise<Dispute[]>;
+  setDisputeReview(id: string, review: DisputeReview): Promise<void>;
+  /** Closes an open dispute; sets decided_at. */
+  decideDispute(id: string, decision: DisputeDecision): Promise<void>;
+
+  // Notifications
+  addNotifications(notifications: NewNotification[]): Promise<void>;
+  /** Newest first. */
+  listNotifications(userEmail: string, limit: number): Promise<Notification[]>;
+  /** Marks the given notifications (all when `ids` is null) as read. */
+  markNotificationsRead(userEmail: string, ids: string[] | null): Promise<void>;
+
+  // Question history
+  insertHistory(row: NewHistoryRow): Promise<void>;
+  /** Only the owner of the row can rate it. */
+  rateHistory(id: string, userEmail: string, rating: QuestionRating): Promise<void>;
+  listHistory(
+    userEmail: string,
+    filter: HistoryFilter,
+    page: { limit: number; offset: number },
+  ): Promise<{ rows: HistoryRow[]; total: number }>;
+  listWrongAnswers(userEmail: string, examId: string | null, limit: number): Promise<WrongAnswer[]>;
+  getInsights(userEmail: string): Promise<UserInsights>;
+  /** Every learner's history — admin only. */
+  getQualityReport(): Promise<QualityReport>;
+
+  // Documents
+  /** Inserts one batch of chunks, computing embeddings where the backend supports it. */
+  insertDocumentChunks(chunks: DocumentChunk[]): Promise<void>;
+  /** Returns the content of the `topK` chunks closest to `queryText` for an exam. */
+  searchDocuments(examName: string, queryText: string, topK: number): Promise<string[]>;
+  listDocumentSources(): Promise<DocumentSource[]>;
+  /** Removes every chunk extracted from `sourceFile` (the archived object URI). */
+  deleteDocumentChunks(sourceFile: string): Promise<void>;
+}
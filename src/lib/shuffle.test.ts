@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { remapLetterReferences, shuffleQuestionOptions } from './shuffle';
+import type { LetterMapping } from './shuffle';
+import type { GeneratedQuestion } from '@/lib/vertexai';
+
+// Every letter moves one place down: A → B, …, E → A
+const ROTATE: LetterMapping = { A: 'B', B: 'C', C: 'D', D: 'E', E: 'A' };
+
+const remap = (text: string) => remapLetterReferences(text, ROTATE);
+
+describe('remapLetterReferences', () => {
+  it('rewrites letters named after a keyword, lists included', () => {
+    expect(remap('A alternativa B está correta.')).toBe('A alternativa C está correta.');
+    expect(remap('As opções A, C e D são incorretas.')).toBe('As opções B, D e E são incorretas.');
+    expect(remap('Option D is wrong.')).toBe('Option E is wrong.');
+  });
+
+  it('rewrites parenthesised and bold letters', () => {
+    expect(remap('A resposta (C) usa CMEK.')).toBe('A resposta (D) usa CMEK.');
+    expect(remap('Logo, **B** é a correta.')).toBe('Logo, **C** é a correta.');
+  });
+
+  it('rewrites option labels at the start of a line', () => {
+    expect(remap('A) Cloud KMS\nB) Cloud HSM\n- E — Secret Manager'))
+      .toBe('B) Cloud KMS\nC) Cloud HSM\n- A — Secret Manager');
+  });
+
+  it('rewrites the letter a sentence says is the answer', () => {
+    expect(remap('Portanto, a resposta correta é a B.')).toBe('Portanto, a resposta correta é a C.');
+    expect(remap('So the answer is C.')).toBe('So the answer is D.');
+    expect(remap('Revisando. D está correta porque usa VPC-SC.')).toBe('Revisando. E está correta porque usa VPC-SC.');
+  });
+
+  it('rewrites each letter once, whatever the mapping chains', () => {
+    expect(remap('Alternativas A e B')).toBe('Alternativas B e C');
+  });
+
+  it('leaves words and articles that look like letters alone', () => {
+    const text = 'A AWS não oferece isso. É importante notar que A política de IAM e o Cloud Armor se aplicam.';
+    expect(remap(text)).toBe(text);
+    expect(remap('E também: a VPC precisa de Private Google Access.')).toBe('E também: a VPC precisa de Private Google Access.');
+  });
+});
+
+const question = (patch: Partial<GeneratedQuestion> = {}): GeneratedQuestion => ({
+  question_type:  'multiple',
+  select_count:   2,
+  question_en:    'Which two services encrypt data with customer-managed keys?',
+  visual_context: [],
+  options_en:     { A: 'Cloud KMS', B: 'Cloud DNS', C: 'Cloud HSM', D: 'Cloud NAT', E: 'Cloud CDN' },
+  correct_letter: 'A,C',
+  explanation_pt: 'As alternativas A e C gerenciam chaves; a opção B resolve nomes.',
+  ...patch,
+} as GeneratedQuestion);
+
+describe('shuffleQuestionOptions', () => {
+  it('keeps a multiple-select key on the same option texts, sorted', () => {
+    for (let i = 0; i < 20; i++) {
+      const { question: shuffled, modelCorrectLetter } = shuffleQuestionOptions(question());
+      const keyed = shuffled.correct_letter.split(',');
+
+      expect(modelCorrectLetter).toBe('A,C');
+      expect(keyed).toEqual([...keyed].sort());
+      expect(keyed.map((l) => shuffled.options_en[l as keyof GeneratedQuestion['options_en']]).sort())
+        .toEqual(['Cloud HSM', 'Cloud KMS']);
+      expect(Object.values(shuffled.options_en).sort()).toEqual(Object.values(question().options_en).sort());
+    }
+  });
+
+  it('points the explanation at the moved options', () => {
+    for (let i = 0; i < 20; i++) {
+      const { question: shuffled } = shuffleQuestionOptions(question());
+      const letterOf = (text: string) =>
+        Object.entries(shuffled.options_en).find(([, t]) => t === text)![0];
+      const [first, second] = [letterOf('Cloud KMS'), letterOf('Cloud HSM')];
+
+      expect(shuffled.explanation_pt).toBe(
+        `As alternativas ${first} e ${second} gerenciam chaves; a opção ${letterOf('Cloud DNS')} resolve nomes.`,
+      );
+    }
+  });
+
+  it('remaps a single-answer key', () => {
+    const { question: shuffled } = shuffleQuestionOptions(question({
+      question_type: 'single', select_count: 1, correct_letter: 'D', explanation_pt: 'Correta: (D).',
+    }));
+    expect(shuffled.options_en[shuffled.correct_letter as keyof GeneratedQuestion['options_en']]).toBe('Cloud NAT');
+    expect(shuffled.explanation_pt).toBe(`Correta: (${shuffled.correct_letter}).`);
+  });
+});
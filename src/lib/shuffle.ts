@@ -0,0 +1,105 @@
+// =============================================================================
+// EdTechia — Server-side option shuffling
+// Models favour some answer letters, so the key they produce is never served
+// as-is: /api/generate-question permutes options_en for every serve, remaps
+// correct_letter and rewrites letter references in explanation_pt
+// ("alternativa B", "(C)", "A) …", "Opções A e E") so the explanation still
+// points at the right options. The model's original letter is kept in
+// served_questions / question_history (model_correct_letter) so the quality
+// report (/api/quality) can show the bias before and after shuffling.
+// =============================================================================
+
+import { randomInt } from 'crypto';
+import type { GeneratedQuestion } from '@/lib/vertexai';
+import type { QuestionVerdict } from '@/lib/verifier';
+import { formatAnswer, parseAnswer } from '@/lib/questionSchema';
+
+type Letter = keyof GeneratedQuestion['options_en'];
+
+/** old letter → new letter */
+export type LetterMapping = Record<Letter, Letter>;
+
+export type ShuffledQuestion = {
+  question:           GeneratedQuestion;
+  verification:       QuestionVerdict | null;
+  /** correct_letter as keyed by the model, before shuffling */
+  modelCorrectLetter: string;
+};
+
+const LETTER_LIST = '[A-E]';
+const LIST_SEP    = String.raw`(?:\s*,\s*|\s+(?:e|ou|and|or)\s+)`;
+const KEYWORDS    = [
+  '[Aa]lternativas?', '[Oo]pç(?:ão|ões)', '[Oo]pc(?:ao|oes)', '[Ll]etras?',
+  '[Rr]espostas?', '[Oo]ptions?', '[Cc]hoices?', '[Aa]nswers?',
+].join('|');
+
+// Letter references recognised in explanations. Letters are swapped to a
+// placeholder first so a rewritten letter is never rewritten again.
+const REFERENCE_PATTERNS: RegExp[] = [
+  // "alternativa B", "opções A, C e D", "Option D"
+  new RegExp(`\\b(?:${KEYWORDS})\\s+${LETTER_LIST}(?:${LIST_SEP}${LETTER_LIST})*\\b`, 'g'),
+  // "(C)", "**B**"
+  /\(([A-E])\)|\*\*([A-E])\*\*/g,
+  // "A) …", "B: …", "- C — …" at the start of a line, and "D)" mid-sentence
+  /(?:^|(?<=\n))[ \t]*(?:[-*•][ \t]*)?[A-E](?=[ \t]*[).:—–-])|(?<=\s)[A-E](?=\))/g,
+  // "A está correta", "C é a resposta" at the start of a sentence
+  /(?:^|(?<=[.!?:]\s+|\n))[A-E](?=\s+(?:está|estão|é|seria|is|was)[\s,.])/g,
+  // "a resposta correta é a B", "the answer is C"
+  /(?<=\s(?:é|is)\s+(?:a\s+|the\s+)?)[A-E](?![\wÀ-ú])/g,
+];
+
+const PLACEHOLDER = (letter: string) => `\u0001${letter}\u0002`;
+
+/** Rewrites every recognised letter reference in `text` through `mapping`. */
+export function remapLetterReferences(text: string, mapping: LetterMapping): string {
+  let marked = text;
+  for (const pattern of REFERENCE_PATTERNS) {
+    marked = marked.replace(pattern, (match) => match.replace(/[A-E](?![a-zà-ú])/g, (l) => PLACEHOLDER(l)));
+  }
+  return marked.replace(/\u0001([A-E])\u0002/g, (_, l: Letter) => mapping[l]);
+}
+
+function randomPermutation<T>(items: T[]): T[] {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1);
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+/**
+ * Returns a copy of the question with options in a uniformly random order,
+ * the answer key and explanation remapped, and the verdict's letters
+ * translated to the new order.
+ */
+export function shuffleQuestionOptions(
+  question: GeneratedQuestion,
+  verification: QuestionVerdict | null = null,
+): ShuffledQuestion {
+  const letters = Object.keys(question.options_en) as Letter[];
+  const order   = randomPermutation(letters);
+  // order[i] is the old letter that moves to position letters[i]
+  const mapping = Object.fromEntries(order.map((old, i) => [old, letters[i]])) as LetterMapping;
+  const options = Object.fromEntries(
+    letters.map((l, i) => [l, question.options_en[order[i]]])
+  ) as GeneratedQuestion['options_en'];
+
+  // Works for single letters and multiple-select keys ("A,C")
+  const remap = (key: string) => formatAnswer(parseAnswer(key).map((l) => mapping[l as Letter] ?? l));
+
+  return {
+    question: {
+      ...question,
+      options_en:     options,
+      correct_letter: remap(question.correct_letter),
+      explanation_pt: remapLetterReferences(question.explanation_pt, mapping),
+    },
+    verification: verification && {
+      ...verification,
+      keyed_letter: remap(verification.keyed_letter),
+      judge_letter: verification.judge_letter && remap(verification.judge_letter),
+    },
+    modelCorrectLetter: question.correct_letter,
+  };
+}
@@ -1,10 +1,41 @@
 // =============================================================================
-// EdTechia — Google Cloud Storage Client
-// Handles uploads and downloads from gs://br-ventasbrasil-cld-01-exam-docs
+// EdTechia — Document Storage
+// Archives original uploads (PDFs) behind a small storage interface.
+// STORAGE_BACKEND selects where new objects are written:
+//   gcs   (default) — gs://$GCS_BUCKET/<path>
+//   local           — file://$LOCAL_STORAGE_DIR/<path> (local / air-gapped)
+// Reads and deletes dispatch on the URI scheme, so objects archived under a
+// previous backend stay reachable after switching.
 // =============================================================================
 
+import fs from 'fs';
+import nodePath from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
 import { Storage } from '@google-cloud/storage';
 
+export type StoredObject = {
+  uri:          string;
+  /** Path relative to the backend root, e.g. "gcp-pca/1700000000-guide.pdf" */
+  path:         string;
+  size:         number;
+  updated:      string | null;
+  content_type: string | null;
+};
+
+export interface StorageBackend {
+  readonly scheme: 'gs' | 'file';
+  /** Writes `buffer` under `destPath` and returns the object URI. */
+  upload(buffer: Buffer, destPath: string, mimeType?: string): Promise<string>;
+  download(uri: string): Promise<Buffer>;
+  /** Lists objects whose path starts with `prefix` (all objects when omitted). */
+  list(prefix?: string): Promise<StoredObject[]>;
+  delete(uri: string): Promise<void>;
+}
+
+// ---------------------------------------------------------------------------
+// Google Cloud Storage
+// ---------------------------------------------------------------------------
+
 let _storage: Storage | null = null;
 
 export function getStorageClient(): Storage {
@@ -25,35 +56,132 @@ export function getStorageClient(): Storage {
 
 const BUCKET_NAME = process.env.GCS_BUCKET ?? 'br-ventasbrasil-cld-01-exam-docs';
 
-/**
- * Uploads a Buffer to GCS and returns the `gs://` URI.
- * @param buffer   File contents
- * @param destPath Path inside the bucket (e.g. "gcp-pca/guide.pdf")
- * @param mimeType MIME type (default: application/pdf)
- */
-export async function uploadToGCS(
-  buffer: Buffer,
-  destPath: string,
-  mimeType = 'application/pdf'
-): Promise<string> {
-  const storage = getStorageClient();
-  const bucket = storage.bucket(BUCKET_NAME);
-  const file = bucket.file(destPath);
-
-  await file.save(buffer, {
-    metadata: { contentType: mimeType },
-    resumable: false,
+function gcsObjectPath(uri: string): string {
+  const prefix = `gs://${BUCKET_NAME}/`;
+  if (!uri.startsWith(prefix)) throw new Error(`URI is outside bucket ${BUCKET_NAME}: ${uri}`);
+  return uri.slice(prefix.length);
+}
+
+export const gcsStorage: StorageBackend = {
+  scheme: 'gs',
+
+  async upload(buffer, destPath, mimeType = 'application/pdf') {
+    const file = getStorageClient().bucket(BUCKET_NAME).file(destPath);
+    await file.save(buffer, {
+      metadata: { contentType: mimeType },
+      resumable: false,
+    });
+    return `gs://${BUCKET_NAME}/${destPath}`;
+  },
+
+  async download(uri) {
+    const [contents] = await getStorageClient().bucket(BUCKET_NAME).file(gcsObjectPath(uri)).download();
+    return contents as Buffer;
+  },
+
+  async list(prefix) {
+    const [files] = await getStorageClient().bucket(BUCKET_NAME).getFiles(prefix ? { prefix } : {});
+    return files.map((f) => ({
+      uri:          `gs://${BUCKET_NAME}/${f.name}`,
+      path:         f.name,
+      size:         Number(f.metadata.size ?? 0),
+      updated:      f.metadata.updated ?? null,
+      content_type: f.metadata.contentType ?? null,
+    }));
+  },
+
+  async delete(uri) {
+    await getStorageClient().bucket(BUCKET_NAME).file(gcsObjectPath(uri)).delete({ ignoreNotFound: true });
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Local filesystem
+// ---------------------------------------------------------------------------
+
+function localRoot(): string {
+  return nodePath.resolve(process.env.LOCAL_STORAGE_DIR ?? './.data/documents');
+}
+
+/** Resolves a path below the storage root, rejecting anything that escapes it. */
+function localFilePath(relative: string): string {
+  const root = localRoot();
+  const full = nodePath.resolve(root, relative);
+  if (full !== root && !full.startsWith(root + nodePath.sep)) {
+    throw new Error(`Path is outside the storage root: ${relative}`);
+  }
+  return full;
+}
+
+function localUriToPath(uri: string): string {
+  if (!uri.startsWith('file://')) throw new Error(`Not a file:// URI: ${uri}`);
+  return localFilePath(nodePath.relative(localRoot(), fileURLToPath(uri)));
+}
+
+function walk(dir: string): string[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const full = nodePath.join(dir, entry.name);
+    return entry.isDirectory() ? walk(full) : [full];
   });
+}
 
-  return `gs://${BUCKET_NAME}/${destPath}`;
+export const fileSystemStorage: StorageBackend = {
+  scheme: 'file',
+
+  async upload(buffer, destPath) {
+    const full = localFilePath(destPath);
+    await fs.promises.mkdir(nodePath.dirname(full), { recursive: true });
+    await fs.promises.writeFile(full, buffer);
+    return pathToFileURL(full).href;
+  },
+
+  async download(uri) {
+    return fs.promises.readFile(localUriToPath(uri));
+  },
+
+  async list(prefix) {
+    const root = localRoot();
+    return walk(root)
+      .map((full) => ({ full, rel: nodePath.relative(root, full).split(nodePath.sep).join('/') }))
+      .filter(({ rel }) => !prefix || rel.startsWith(prefix))
+      .map(({ full, rel }) => {
+        const stat = fs.statSync(full);
+        return {
+          uri:          pathToFileURL(full).href,
+          path:         rel,
+          size:         stat.size,
+          updated:      stat.mtime.toISOString(),
+          content_type: rel.toLowerCase().endsWith('.pdf') ? 'application/pdf' : null,
+        };
+      });
+  },
+
+  async delete(uri) {
+    await fs.promises.rm(localUriToPath(uri), { force: true });
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Selection
+// ---------------------------------------------------------------------------
+
+/** Backend that receives new uploads. */
+export function getStorage(): StorageBackend {
+  const backend = (process.env.STORAGE_BACKEND ?? 'gcs').toLowerCase();
+  switch (backend) {
+    case 'gcs':
+      return gcsStorage;
+    case 'local':
+      return fileSystemStorage;
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND "${backend}" — expected "gcs" or "local"`);
+  }
 }
 
-/**
- * Downloads a file from GCS and returns its Buffer.
- */
-export async function downloadFromGCS(gcsUri: string): Promise<Buffer> {
-  const path = gcsUri.replace(`gs://${BUCKET_NAME}/`, '');
-  const storage = getStorageClient();
-  const [contents] = await storage.bucket(BUCKET_NAME).file(path).download();
-  return contents as Buffer;
+/** Backend that owns an existing object URI. */
+export function getStorageForUri(uri: string): StorageBackend {
+  if (uri.startsWith('gs://'))   return gcsStorage;
+  if (uri.startsWith('file://')) return fileSystemStorage;
+  throw new Error(`Unsupported storage URI: ${uri}`);
 }
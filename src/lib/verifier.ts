@@ -0,0 +1,171 @@
+// =============================================================================
+// EdTechia — Answer-verification judge
+// Optional second model call after generation: a judge solves the question
+// blind (no answer key, no explanation) and checks whether visual_context
+// gives the answer away. A question is kept only when the judge lands on the
+// keyed correct_letter and finds no leak; otherwise it is regenerated.
+//
+// Enable with VERIFIER_MODEL (a chain entry, e.g. "gemini-2.5-pro" or
+// "ollama:qwen2.5:14b"). Unset → verification is skipped.
+// =============================================================================
+
+import { generateText, promptScope, retryScope } from '@/lib/llm';
+import type { RecordingScope } from '@/lib/llm';
+import { generateQuestionWithFallback } from '@/lib/vertexai';
+import type { GeneratedQuestion, GenerationResult } from '@/lib/vertexai';
+import { formatAnswer, isMultipleSelect, parseAnswer, visualContextToText } from '@/lib/questionSchema';
+import type { VisualBlockType } from '@/lib/questionSchema';
+
+// Candidates generated before giving up when the judge keeps disagreeing
+const MAX_VERIFY_ATTEMPTS = Number(process.env.VERIFIER_MAX_ATTEMPTS ?? 3);
+
+export type VerdictStatus =
+  | 'agreed'       // judge picked correct_letter, no leak
+  | 'disagreed'    // judge picked another letter
+  | 'leak'         // visual_context reveals the answer
+  | 'error'        // judge call failed — question kept unverified
+  | 'skipped';     // verifier disabled
+
+export type QuestionVerdict = {
+  status:        VerdictStatus;
+  judge_model:   string | null;
+  judge_letter:  string | null;
+  keyed_letter:  string;
+  leaks_answer:  boolean | null;
+  reason:        string | null;
+  /** How many candidates were generated to get this one (1 = first try). */
+  attempts:      number;
+};
+
+export function verifierEnabled(): boolean {
+  return Boolean(process.env.VERIFIER_MODEL);
+}
+
+function buildJudgePrompt(q: GeneratedQuestion): string {
+  const options = Object.entries(q.options_en).map(([k, v]) => `${k}) ${v}`).join('\n');
+  const visual  = visualContextToText(q.visual_context) || '(none)';
+  const task    = isMultipleSelect(q)
+    ? `Select exactly ${q.select_count} options.`
+    : 'Select exactly one option.';
+  const answer  = isMultipleSelect(q)
+    ? `[${Array.from({ length: q.select_count }, () => '"<letter>"').join(', ')}]`
+    : `"<${Object.keys(q.options_en).join('|')}>"`;
+
+  return `
+You are an independent certification exam reviewer. Solve the multiple-choice
+question below on your own — you are NOT given the answer key. ${task}
+
+Then check the visual context: does it state or directly give away the correct
+option (e.g. it shows the fixed configuration, names the answer, or highlights
+the right choice)? Evidence that must be reasoned about is NOT a leak.
+
+<question>
+${q.question_en}
+</question>
+
+<visual_context>
+${visual}
+</visual_context>
+
+<options>
+${options}
+</options>
+
+Return ONLY a raw JSON object, no markdown:
+{
+  "answer_letter": ${answer},
+  "visual_context_reveals_answer": <true|false>,
+  "reason": "<one or two sentences>"
+}
+`.trim();
+}
+
+/** Runs the judge on one question. Never throws — failures yield status "error". */
+export async function verifyQuestion(q: GeneratedQuestion, attempts = 1): Promise<QuestionVerdict> {
+  const judgeModel = process.env.VERIFIER_MODEL ?? null;
+  const base = {
+    judge_model:  judgeModel,
+    keyed_letter: q.correct_letter,
+    attempts,
+  };
+  if (!judgeModel) {
+    return { ...base, status: 'skipped', judge_letter: null, leaks_answer: null, reason: null };
+  }
+
+  try {
+    const prompt = buildJudgePrompt(q);
+    const raw = await generateText(judgeModel, {
+      userPrompt:      prompt,
+      temperature:     0,
+      maxOutputTokens: 512,
+      json:            true,
+    }, promptScope('verifier', prompt));
+    const parsed = JSON.parse(raw.replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/i, '').trim()) as {
+      answer_letter?: unknown;
+      visual_context_reveals_answer?: unknown;
+      reason?: unknown;
+    };
+
+    // "B" for single-answer items, ["A","C"] (→ "A,C") for multiple-select
+    const judgeLetters = typeof parsed.answer_letter === 'string' || Array.isArray(parsed.answer_letter)
+      ? parseAnswer(parsed.answer_letter as string | string[])
+      : [];
+    const leaks        = parsed.visual_context_reveals_answer === true;
+    const reason       = typeof parsed.reason === 'string' ? parsed.reason : null;
+    if (judgeLetters.length === 0 || judgeLetters.some((l) => !(l in q.options_en))) {
+      throw new Error(`Judge returned no usable answer_letter: ${raw.slice(0, 200)}`);
+    }
+    const judgeLetter = formatAnswer(judgeLetters);
+
+    const status: VerdictStatus =
+      judgeLetter !== formatAnswer(q.correct_letter) ? 'disagreed'
+      : leaks ? 'leak'
+      : 'agreed';
+
+    return { ...base, status, judge_letter: judgeLetter, leaks_answer: leaks, reason };
+  } catch (err) {
+    console.warn('[verifier] Judge call failed — keeping question unverified:', err);
+    return {
+      ...base,
+      status:       'error',
+      judge_letter: null,
+      leaks_answer: null,
+      reason:       err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+export type VerifiedGeneration = GenerationResult & { verdict: QuestionVerdict };
+
+/**
+ * generateQuestionWithFallback + judge. Regenerates while the judge disagrees
+ * with the key or finds a leak; throws once MAX_VERIFY_ATTEMPTS candidates
+ * were all rejected, so a wrong key never reaches the bank or a learner.
+ */
+export async function generateVerifiedQuestion(
+  systemPrompt: string,
+  userPrompt: string,
+  recordAs: RecordingScope,
+  visualTypes?: readonly VisualBlockType[],
+): Promise<VerifiedGeneration> {
+  const attempts = verifierEnabled() ? Math.max(1, MAX_VERIFY_ATTEMPTS) : 1;
+  let lastVerdict: QuestionVerdict | null = null;
+
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    const result  = await generateQuestionWithFallback(systemPrompt, userPrompt, retryScope(recordAs, 'verify', attempt - 1), visualTypes);
+    const verdict = await verifyQuestion(result.question, attempt);
+    if (verdict.status !== 'disagreed' && verdict.status !== 'leak') {
+      if (verdict.status === 'agreed') console.log(`[verifier] ✓ ${verdict.judge_model} agrees with ${verdict.keyed_letter}`);
+      return { ...result, verdict };
+    }
+    lastVerdict = verdict;
+    console.warn(
+      `[verifier] ✗ Rejected (${verdict.status}: judge=${verdict.judge_letter}, key=${verdict.keyed_letter}) ` +
+      `attempt ${attempt}/${attempts}`
+    );
+  }
+
+  throw new Error(
+    `Verifier rejected ${attempts} candidate(s). Last verdict: ${lastVerdict?.status} — ${lastVerdict?.reason ?? ''}`
+  );
+}
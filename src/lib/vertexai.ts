@@ -1,98 +1,183 @@
 // =============================================================================
-// EdTechia — Vertex AI / Gemini Client
-// Implements an automatic model fallback chain.
+// EdTechia — Question Generation Client
+// Implements an automatic model fallback chain on top of the LLM provider
+// registry (src/lib/llm), so entries can mix Vertex AI, OpenAI-compatible
+// endpoints (e.g. local Ollama) and the deterministic mock provider.
 // Primary: gemini-2.5-pro (mandatory)
 // Fallbacks: gemini-2.0-flash → gemini-1.5-pro-002 → gemini-1.5-flash-002
 // =============================================================================
 
-import { VertexAI, type GenerateContentRequest } from '@google-cloud/vertexai';
+import type { z } from 'zod';
+import { generateText, retryScope } from '@/lib/llm';
+import type { RecordingScope } from '@/lib/llm';
+import { attachMermaidSvgs, findMermaidErrors } from '@/lib/mermaid';
+import { formatIssues, questionSchemaFor } from '@/lib/questionSchema';
+import type { GeneratedQuestion, PublicQuestion, VisualBlockType } from '@/lib/questionSchema';
 
 // ---------------------------------------------------------------------------
 // Fallback chain — order matters. First model that succeeds wins.
+// Each entry is "<provider>:<model>" or a bare Vertex model id.
+// LLM_MODEL_CHAIN (comma-separated) replaces the whole chain, e.g.
+//   LLM_MODEL_CHAIN=ollama:llama3.1:8b,mock
 // All env vars fall back to hardcoded defaults so the app works without .env.
 // ---------------------------------------------------------------------------
 
-export const MODEL_FALLBACK_CHAIN: string[] = [
-  process.env.VERTEX_AI_MODEL_PRIMARY    ?? 'gemini-2.5-pro',
-  process.env.VERTEX_AI_MODEL_FALLBACK_1 ?? 'gemini-2.0-flash',
-  process.env.VERTEX_AI_MODEL_FALLBACK_2 ?? 'gemini-1.5-pro-002',
-  process.env.VERTEX_AI_MODEL_FALLBACK_3 ?? 'gemini-1.5-flash-002',
-];
-
-const PROJECT   = process.env.GCP_PROJECT_ID      ?? 'br-ventasbrasil-cld-01';
-const LOCATION  = process.env.VERTEX_AI_LOCATION  ?? 'us-central1';
+export const MODEL_FALLBACK_CHAIN: string[] = process.env.LLM_MODEL_CHAIN
+  ? process.env.LLM_MODEL_CHAIN.split(',').map((m) => m.trim()).filter(Boolean)
+  : [
+      process.env.VERTEX_AI_MODEL_PRIMARY    ?? 'gemini-2.5-pro',
+      process.env.VERTEX_AI_MODEL_FALLBACK_1 ?? 'gemini-2.0-flash',
+      process.env.VERTEX_AI_MODEL_FALLBACK_2 ?? 'gemini-1.5-pro-002',
+      process.env.VERTEX_AI_MODEL_FALLBACK_3 ?? 'gemini-1.5-flash-002',
+    ];
 
 // ---------------------------------------------------------------------------
-// Response type returned by generateQuestion()
+// Response types — defined once as zod schemas in lib/questionSchema.ts
 // ---------------------------------------------------------------------------
 
-export type VisualContext = {
-  type: 'mermaid' | 'terminal' | 'none';
-  content: string;
-};
+export type { AnswerKey, GeneratedQuestion, PublicQuestion, VisualBlock, VisualContext } from '@/lib/questionSchema';
 
-export type GeneratedQuestion = {
-  question_en: string;
-  visual_context: VisualContext;
-  options_en: { A: string; B: string; C: string; D: string };
-  correct_letter: 'A' | 'B' | 'C' | 'D';
-  explanation_pt: string;
-};
+export function toPublicQuestion(q: GeneratedQuestion): PublicQuestion {
+  return {
+    question_type:  q.question_type,
+    select_count:   q.select_count,
+    question_en:    q.question_en,
+    visual_context: q.visual_context,
+    options_en:     q.options_en,
+  };
+}
 
 export type GenerationResult = {
   question: GeneratedQuestion;
   modelUsed: string;
 };
 
+// ---------------------------------------------------------------------------
+// Validation failures — counted per model and reason (per instance), exposed
+// through /api/bank-status
+// ---------------------------------------------------------------------------
+
+// Repair round-trips to the same model before moving down the chain
+const MAX_REPAIR_ATTEMPTS = Number(process.env.QUESTION_REPAIR_ATTEMPTS ?? 1);
+
+/**
+ * Why a model response was rejected:
+ *   invalid_json      — not parseable as JSON
+ *   field:<name>      — schema violation on a top-level field (e.g. field:correct_letter)
+ *   model_error       — the provider call itself failed
+ */
+export type ValidationFailureReason = 'invalid_json' | 'model_error' | `field:${string}`;
+
+export type QuestionValidationError = Error & {
+  reason: ValidationFailureReason;
+  issues: string[];
+  raw:    string;
+};
+
+function validationError(reason: ValidationFailureReason, issues: string[], raw: string): QuestionValidationError {
+  return Object.assign(new Error(`${reason}: ${issues.join('; ')}`), { reason, issues, raw });
+}
+
+export function isValidationError(err: unknown): err is QuestionValidationError {
+  return err instanceof Error && 'reason' in err && 'issues' in err;
+}
+
+type ModelStats = {
+  failures: Record<string, number>;
+  repaired: number;
+  succeeded: number;
+};
+
+const validationStats = new Map<string, ModelStats>();
+
+function statsFor(model: string): ModelStats {
+  if (!validationStats.has(model)) validationStats.set(model, { failures: {}, repaired: 0, succeeded: 0 });
+  return validationStats.get(model)!;
+}
+
+function countFailure(model: string, reason: ValidationFailureReason): void {
+  const stats = statsFor(model);
+  stats.failures[reason] = (stats.failures[reason] ?? 0) + 1;
+}
+
+/** Snapshot of the per-model validation counters since this instance started. */
+export function getValidationStats(): Record<string, ModelStats> {
+  return Object.fromEntries(validationStats);
+}
+
+function buildRepairPrompt(userPrompt: string, err: QuestionValidationError): string {
+  return `${userPrompt}
+
+Your previous response was rejected by the validator.
+<previous_response>
+${err.raw.slice(0, 6000)}
+</previous_response>
+Validation errors:
+${err.issues.map((i) => `- ${i}`).join('\n')}
+
+Return the corrected response as ONE raw JSON object with exactly the required
+fields. No markdown, no commentary.`;
+}
+
 // ---------------------------------------------------------------------------
 // Core generation function with fallback logic
 // ---------------------------------------------------------------------------
 
 /**
- * Calls Gemini models in the fallback chain until one succeeds.
- * Returns the parsed JSON question and the model that produced it.
+ * Calls the models in the fallback chain until one returns JSON that passes
+ * `schema`. A response that fails validation is sent back to the same model
+ * with the structured errors (up to MAX_REPAIR_ATTEMPTS times) before falling
+ * back. Returns the parsed value and the chain entry that produced it.
+ * `recordAs` names the call for LLM record/replay; repairs add a suffix.
  */
-export async function generateQuestionWithFallback(
+export async function generateValidatedWithFallback<T>(
   systemPrompt: string,
-  userPrompt: string
-): Promise<GenerationResult> {
-  const vertexAI = new VertexAI({ project: PROJECT, location: LOCATION });
-
+  userPrompt: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  { recordAs, maxOutputTokens = 4096, temperature = 0.7 }: { recordAs: RecordingScope; maxOutputTokens?: number; temperature?: number },
+): Promise<{ value: T; modelUsed: string }> {
   let lastError: Error | null = null;
 
   for (const modelId of MODEL_FALLBACK_CHAIN) {
-    try {
-      const model = vertexAI.getGenerativeModel({
-        model: modelId,
-        generationConfig: {
-          temperature: 0.7,
+    let prompt = userPrompt;
+
+    for (let repair = 0; repair <= MAX_REPAIR_ATTEMPTS; repair++) {
+      try {
+        const rawText = await generateText(modelId, {
+          systemPrompt,
+          userPrompt: prompt,
+          temperature,
           topP: 0.95,
-          maxOutputTokens: 4096,
-          // Enforce JSON output — prevents markdown wrapping
-          responseMimeType: 'application/json',
-        },
-        systemInstruction: {
-          role: 'system',
-          parts: [{ text: systemPrompt }],
-        },
-      });
-
-      const request: GenerateContentRequest = {
-        contents: [{ role: 'user', parts: [{ text: userPrompt }] }],
-      };
-
-      const response = await model.generateContent(request);
-      const candidate = response.response.candidates?.[0];
-      const rawText = candidate?.content?.parts?.[0]?.text ?? '';
-
-      // Parse and validate the JSON output
-      const parsed = parseAndValidateQuestion(rawText);
-
-      console.log(`[vertexai] ✓ Success with model: ${modelId}`);
-      return { question: parsed, modelUsed: modelId };
-    } catch (err) {
-      lastError = err instanceof Error ? err : new Error(String(err));
-      console.warn(`[vertexai] ✗ Model ${modelId} failed: ${lastError.message} — trying next...`);
+          maxOutputTokens,
+          json: true,
+        }, retryScope(recordAs, 'repair', repair));
+
+        // Parse and validate the JSON output, then the Mermaid syntax of its diagrams
+        const parsed = parseAndValidate(rawText, schema);
+        await checkDiagrams(parsed, rawText);
+        await attachMermaidSvgs(parsed);
+
+        const stats = statsFor(modelId);
+        stats.succeeded++;
+        if (repair > 0) stats.repaired++;
+        console.log(`[vertexai] ✓ Success with model: ${modelId}${repair > 0 ? ` (after ${repair} repair)` : ''}`);
+        return { value: parsed, modelUsed: modelId };
+      } catch (err) {
+        lastError = err instanceof Error ? err : new Error(String(err));
+
+        if (isValidationError(err)) {
+          countFailure(modelId, err.reason);
+          if (repair < MAX_REPAIR_ATTEMPTS) {
+            console.warn(`[vertexai] ✗ Model ${modelId} returned an invalid response (${err.reason}) — asking it to repair...`);
+            prompt = buildRepairPrompt(userPrompt, err);
+            continue;
+          }
+        } else {
+          countFailure(modelId, 'model_error');
+        }
+        console.warn(`[vertexai] ✗ Model ${modelId} failed: ${lastError.message} — trying next...`);
+        break;
+      }
     }
   }
 
@@ -101,11 +186,51 @@ export async function generateQuestionWithFallback(
   );
 }
 
+/**
+ * generateValidatedWithFallback for one exam question. `visualTypes` limits
+ * the visual_context block types (ExamConfig.visualTypes).
+ */
+export async function generateQuestionWithFallback(
+  systemPrompt: string,
+  userPrompt: string,
+  recordAs: RecordingScope,
+  visualTypes?: readonly VisualBlockType[],
+): Promise<GenerationResult> {
+  const { value, modelUsed } = await generateValidatedWithFallback(
+    systemPrompt, userPrompt, questionSchemaFor(visualTypes), { recordAs },
+  );
+  return { question: value, modelUsed };
+}
+
 // ---------------------------------------------------------------------------
 // JSON validation
 // ---------------------------------------------------------------------------
 
-function parseAndValidateQuestion(raw: string): GeneratedQuestion {
+/**
+ * Parses raw model output against GeneratedQuestionSchema, optionally limited
+ * to an exam's visual block types.
+ * Exported so recorded model output (LLM_RECORD_MODE) can be re-validated offline.
+ */
+export function parseAndValidateQuestion(raw: string, visualTypes?: readonly VisualBlockType[]): GeneratedQuestion {
+  return parseAndValidate(raw, questionSchemaFor(visualTypes));
+}
+
+/**
+ * Mermaid blocks that mermaid's parser rejects fail validation like a schema
+ * violation, so the model gets the parse error back in the repair prompt.
+ */
+async function checkDiagrams(value: unknown, raw: string): Promise<void> {
+  const issues = await findMermaidErrors(value);
+  if (issues.length > 0) {
+    throw validationError(`field:${issues[0].split(/[.:]/)[0]}`, issues, raw);
+  }
+}
+
+/**
+ * Parses raw model output against `schema`.
+ * Throws a QuestionValidationError with the failure reason and zod issues.
+ */
+function parseAndValidate<T>(raw: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): T {
   // Strip markdown code fences if the model ignores responseMimeType
   const cleaned = raw
     .replace(/^```json\s*/i, '')
@@ -116,37 +241,22 @@ function parseAndValidateQuestion(raw: string): GeneratedQuestion {
   let parsed: unknown;
   try {
     parsed = JSON.parse(cleaned);
-  } catch {
-    throw new Error(`Gemini returned non-JSON response: ${raw.slice(0, 200)}`);
+  } catch (err) {
+    throw validationError(
+      'invalid_json',
+      [`response is not valid JSON (${err instanceof Error ? err.message : String(err)})`],
+      raw,
+    );
   }
 
-  const q = parsed as Record<string, unknown>;
-
-  if (
-    typeof q.question_en !== 'string' ||
-    typeof q.options_en !== 'object' ||
-    typeof q.correct_letter !== 'string' ||
-    typeof q.explanation_pt !== 'string'
-  ) {
-    throw new Error(`Gemini JSON is missing required fields: ${JSON.stringify(q)}`);
-  }
-
-  const opts = q.options_en as Record<string, unknown>;
-  if (!['A', 'B', 'C', 'D'].every((k) => typeof opts[k] === 'string')) {
-    throw new Error(`Gemini options_en is missing A/B/C/D keys`);
-  }
-
-  if (!['A', 'B', 'C', 'D'].includes(q.correct_letter as string)) {
-    throw new Error(`Gemini correct_letter is invalid: ${q.correct_letter}`);
-  }
-
-  // Normalise optional visual_context — provide a safe default if missing/invalid
-  const vc = q.visual_context as Record<string, unknown> | undefined;
-  if (!vc || !['mermaid', 'terminal', 'none'].includes(vc.type as string)) {
-    q.visual_context = { type: 'none', content: '' };
-  } else {
-    q.visual_context = { type: vc.type, content: typeof vc.content === 'string' ? vc.content : '' };
+  const result = schema.safeParse(parsed);
+  if (!result.success) {
+    const field = result.error.issues[0]?.path[0];
+    throw validationError(
+      field !== undefined ? `field:${String(field)}` : 'field:(root)',
+      formatIssues(result.error),
+      raw,
+    );
   }
-
-  return q as unknown as GeneratedQuestion;
+  return result.data;
 }